@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_slots_staff_id_slot_date_start_time_key" ON "appointment_slots"("staff_id", "slot_date", "start_time");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "cron_logs" ADD COLUMN     "slots_created" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "slots_skipped" INTEGER NOT NULL DEFAULT 0;
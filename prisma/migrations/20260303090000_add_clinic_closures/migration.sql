@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "clinic_closures" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "clinic_closures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "clinic_closures_clinic_id_start_date_end_date_idx" ON "clinic_closures"("clinic_id", "start_date", "end_date");
+
+-- AddForeignKey
+ALTER TABLE "clinic_closures" ADD CONSTRAINT "clinic_closures_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "staff_absences" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "staff_id" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "start_time" TEXT,
+    "end_time" TEXT,
+    "reason" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "staff_absences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "staff_absences_clinic_id_start_date_end_date_idx" ON "staff_absences"("clinic_id", "start_date", "end_date");
+
+-- CreateIndex
+CREATE INDEX "staff_absences_staff_id_start_date_idx" ON "staff_absences"("staff_id", "start_date");
+
+-- AddForeignKey
+ALTER TABLE "staff_absences" ADD CONSTRAINT "staff_absences_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_absences" ADD CONSTRAINT "staff_absences_staff_id_fkey" FOREIGN KEY ("staff_id") REFERENCES "staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "previous_slot_id" TEXT,
+ADD COLUMN     "rescheduled_at" TIMESTAMP(3),
+ADD COLUMN     "reschedule_count" INTEGER NOT NULL DEFAULT 0;
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_previous_slot_id_fkey" FOREIGN KEY ("previous_slot_id") REFERENCES "appointment_slots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "clinics" ADD COLUMN     "reschedule_cutoff_hours" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "max_reschedules" INTEGER NOT NULL DEFAULT 2;
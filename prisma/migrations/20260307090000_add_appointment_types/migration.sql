@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "appointment_types" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#0d9488',
+    "allowed_specializations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_types_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "appointment_slots" ADD COLUMN     "held_by_appointment_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "appointment_type_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "appointment_types_clinic_id_is_active_idx" ON "appointment_types"("clinic_id", "is_active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_types_clinic_id_code_key" ON "appointment_types"("clinic_id", "code");
+
+-- CreateIndex
+CREATE INDEX "appointment_slots_held_by_appointment_id_idx" ON "appointment_slots"("held_by_appointment_id");
+
+-- AddForeignKey
+ALTER TABLE "appointment_types" ADD CONSTRAINT "appointment_types_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_slots" ADD CONSTRAINT "appointment_slots_held_by_appointment_id_fkey" FOREIGN KEY ("held_by_appointment_id") REFERENCES "appointments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_appointment_type_id_fkey" FOREIGN KEY ("appointment_type_id") REFERENCES "appointment_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
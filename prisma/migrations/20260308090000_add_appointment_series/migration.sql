@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "appointment_series" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "preferred_staff_id" TEXT,
+    "appointment_type_id" TEXT,
+    "interval_weeks" INTEGER NOT NULL,
+    "preferred_time" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "occurrences" INTEGER NOT NULL,
+    "notes" TEXT,
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_series_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "series_id" TEXT,
+ADD COLUMN     "series_index" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "appointment_series_clinic_id_idx" ON "appointment_series"("clinic_id");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_patient_id_idx" ON "appointment_series"("patient_id");
+
+-- CreateIndex
+CREATE INDEX "appointments_series_id_idx" ON "appointments"("series_id");
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_preferred_staff_id_fkey" FOREIGN KEY ("preferred_staff_id") REFERENCES "staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_appointment_type_id_fkey" FOREIGN KEY ("appointment_type_id") REFERENCES "appointment_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "appointment_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
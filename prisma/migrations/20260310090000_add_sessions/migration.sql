@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "SessionType" AS ENUM ('CLINIC', 'PATIENT');
+
+-- CreateEnum
+CREATE TYPE "SessionRevokeReason" AS ENUM ('LOGOUT', 'ADMIN', 'PASSWORD_CHANGED', 'DEACTIVATED');
+
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "type" "SessionType" NOT NULL,
+    "user_id" TEXT,
+    "patient_id" TEXT,
+    "clinic_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "refreshed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+    "revoked_reason" "SessionRevokeReason",
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_idx" ON "sessions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "sessions_patient_id_idx" ON "sessions"("patient_id");
+
+-- CreateIndex
+CREATE INDEX "sessions_clinic_id_idx" ON "sessions"("clinic_id");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "AuditActorType" AS ENUM ('USER', 'PATIENT', 'SYSTEM', 'CRON');
+
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('APPOINTMENT_CREATED', 'APPOINTMENT_STATUS_CHANGED', 'APPOINTMENT_RESCHEDULED', 'APPOINTMENT_CANCELLED', 'PATIENT_CREATED', 'WAITLIST_JOINED');
+
+-- CreateEnum
+CREATE TYPE "AuditEntityType" AS ENUM ('APPOINTMENT', 'PATIENT', 'WAITLIST');
+
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT,
+    "actor_type" "AuditActorType" NOT NULL,
+    "actor_id" TEXT,
+    "action" "AuditAction" NOT NULL,
+    "entity_type" "AuditEntityType" NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "appointment_id" TEXT,
+    "patient_id" TEXT,
+    "changes" JSONB,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_clinic_id_created_at_idx" ON "audit_events"("clinic_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_appointment_id_idx" ON "audit_events"("appointment_id");
+
+-- CreateIndex
+CREATE INDEX "audit_events_patient_id_idx" ON "audit_events"("patient_id");
+
+-- Audit rows are append-only
+CREATE FUNCTION "audit_events_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events rows cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_events_no_update_delete"
+    BEFORE UPDATE OR DELETE ON "audit_events"
+    FOR EACH ROW EXECUTE FUNCTION "audit_events_immutable"();
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "appointment_status_changes" (
+    "id" TEXT NOT NULL,
+    "appointment_id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "from_status" "AppointmentStatus",
+    "to_status" "AppointmentStatus" NOT NULL,
+    "actor_type" "AuditActorType" NOT NULL,
+    "actor_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_status_changes_appointment_id_created_at_idx" ON "appointment_status_changes"("appointment_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "appointment_status_changes" ADD CONSTRAINT "appointment_status_changes_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
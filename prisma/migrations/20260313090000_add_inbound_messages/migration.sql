@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "InboundIntent" AS ENUM ('CONFIRM', 'CANCEL', 'UNKNOWN');
+
+-- CreateEnum
+CREATE TYPE "InboundOutcome" AS ENUM ('CONFIRMED', 'CANCELLED', 'ALREADY_CONFIRMED', 'NO_APPOINTMENT', 'UNKNOWN_SENDER', 'HELP_SENT');
+
+-- CreateTable
+CREATE TABLE "inbound_messages" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "from_number" TEXT NOT NULL,
+    "to_number" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "patient_id" TEXT,
+    "clinic_id" TEXT,
+    "appointment_id" TEXT,
+    "intent" "InboundIntent" NOT NULL,
+    "outcome" "InboundOutcome" NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inbound_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_messages_message_id_key" ON "inbound_messages"("message_id");
+
+-- CreateIndex
+CREATE INDEX "inbound_messages_from_number_received_at_idx" ON "inbound_messages"("from_number", "received_at");
+
+-- CreateIndex
+CREATE INDEX "inbound_messages_patient_id_idx" ON "inbound_messages"("patient_id");
+
+-- CreateIndex
+CREATE INDEX "inbound_messages_clinic_id_received_at_idx" ON "inbound_messages"("clinic_id", "received_at");
+
+-- AddForeignKey
+ALTER TABLE "inbound_messages" ADD CONSTRAINT "inbound_messages_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inbound_messages" ADD CONSTRAINT "inbound_messages_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inbound_messages" ADD CONSTRAINT "inbound_messages_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
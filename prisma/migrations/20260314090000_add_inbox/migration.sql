@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "InboundChannel" AS ENUM ('SMS', 'WHATSAPP');
+
+-- AlterTable
+ALTER TABLE "inbound_messages" ADD COLUMN "channel" "InboundChannel" NOT NULL DEFAULT 'SMS',
+ADD COLUMN "resolved_at" TIMESTAMP(3),
+ADD COLUMN "resolved_by_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "inbound_messages_clinic_id_resolved_at_idx" ON "inbound_messages"("clinic_id", "resolved_at");
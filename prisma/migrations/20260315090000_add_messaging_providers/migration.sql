@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "MessagingProviderName" AS ENUM ('TWILIO', 'AFRICASTALKING', 'BEEM', 'FAKE');
+
+-- AlterTable
+ALTER TABLE "clinics" ADD COLUMN "messaging_provider" "MessagingProviderName";
+
+-- AlterTable
+ALTER TABLE "sms_logs" ADD COLUMN "provider" "MessagingProviderName";
+
+-- Everything sent so far with a Twilio SID went through Twilio
+UPDATE "sms_logs" SET "provider" = 'TWILIO' WHERE "message_id" LIKE 'SM%';
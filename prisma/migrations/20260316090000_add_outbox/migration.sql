@@ -0,0 +1,45 @@
+-- Inbound and outbound messages share the channel enum
+ALTER TYPE "InboundChannel" RENAME TO "MessagingChannel";
+
+-- CreateEnum
+CREATE TYPE "OutboxStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "outbound_messages" (
+    "id" TEXT NOT NULL,
+    "channel" "MessagingChannel" NOT NULL,
+    "provider" "MessagingProviderName",
+    "to_number" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "payload" JSONB,
+    "message_type" "SmsType" NOT NULL,
+    "patient_id" TEXT,
+    "clinic_id" TEXT,
+    "appointment_id" TEXT,
+    "sms_log_id" TEXT NOT NULL,
+    "status" "OutboxStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outbound_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outbound_messages_sms_log_id_key" ON "outbound_messages"("sms_log_id");
+
+-- CreateIndex
+CREATE INDEX "outbound_messages_status_next_attempt_at_idx" ON "outbound_messages"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "outbound_messages_provider_status_idx" ON "outbound_messages"("provider", "status");
+
+-- CreateIndex
+CREATE INDEX "outbound_messages_clinic_id_status_idx" ON "outbound_messages"("clinic_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "outbound_messages" ADD CONSTRAINT "outbound_messages_sms_log_id_fkey" FOREIGN KEY ("sms_log_id") REFERENCES "sms_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
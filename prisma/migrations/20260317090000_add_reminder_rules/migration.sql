@@ -0,0 +1,110 @@
+-- AlterEnum
+ALTER TYPE "SmsType" ADD VALUE 'REMINDER_ADVANCE';
+
+-- CreateEnum
+CREATE TYPE "ReminderChannel" AS ENUM ('SMS', 'WHATSAPP', 'BOTH', 'PREFERRED');
+
+-- CreateEnum
+CREATE TYPE "ReminderTemplate" AS ENUM ('DAY_BEFORE', 'SAME_DAY', 'UPCOMING');
+
+-- CreateEnum
+CREATE TYPE "ReminderStatus" AS ENUM ('SENT', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "reminder_rules" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "offset_hours" INTEGER NOT NULL,
+    "channel" "ReminderChannel" NOT NULL DEFAULT 'SMS',
+    "template" "ReminderTemplate" NOT NULL,
+    "quiet_hours_start" TEXT,
+    "quiet_hours_end" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reminder_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "appointment_reminders" (
+    "id" TEXT NOT NULL,
+    "appointment_id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "scheduled_for" TIMESTAMP(3) NOT NULL,
+    "status" "ReminderStatus" NOT NULL,
+    "channel" "ReminderChannel",
+    "outbox_ids" TEXT[],
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reminder_rules_clinic_id_offset_hours_key" ON "reminder_rules"("clinic_id", "offset_hours");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_reminders_appointment_id_rule_id_scheduled_for_key" ON "appointment_reminders"("appointment_id", "rule_id", "scheduled_for");
+
+-- CreateIndex
+CREATE INDEX "appointment_reminders_clinic_id_status_idx" ON "appointment_reminders"("clinic_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "reminder_rules" ADD CONSTRAINT "reminder_rules_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_reminders" ADD CONSTRAINT "appointment_reminders_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_reminders" ADD CONSTRAINT "appointment_reminders_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "reminder_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every clinic starts with the two reminders the old cron sent
+INSERT INTO "reminder_rules" ("id", "clinic_id", "offset_hours", "channel", "template", "quiet_hours_start", "quiet_hours_end", "updated_at")
+SELECT gen_random_uuid()::text, "id", 24, 'SMS', 'DAY_BEFORE', '21:00', '07:00', CURRENT_TIMESTAMP FROM "clinics";
+
+INSERT INTO "reminder_rules" ("id", "clinic_id", "offset_hours", "channel", "template", "quiet_hours_start", "quiet_hours_end", "updated_at")
+SELECT gen_random_uuid()::text, "id", 3, 'SMS', 'SAME_DAY', '21:00', '07:00', CURRENT_TIMESTAMP FROM "clinics";
+
+-- Carry the old 24h and same-day flags over as reminders of those rules.
+-- Slot times are EAT (UTC+3); scheduled_for is UTC.
+INSERT INTO "appointment_reminders" ("id", "appointment_id", "rule_id", "clinic_id", "scheduled_for", "status", "channel", "outbox_ids", "error", "created_at")
+SELECT gen_random_uuid()::text, a."id", r."id", a."clinic_id",
+       s."slot_date"::date + s."start_time"::time - INTERVAL '3 hours',
+       CASE WHEN a."reminder_24h_sent" THEN 'SENT'::"ReminderStatus" ELSE 'FAILED'::"ReminderStatus" END,
+       'SMS', '{}', CASE WHEN a."reminder_24h_sent" THEN NULL ELSE a."reminder_24h_error" END,
+       COALESCE(a."reminder_24h_sent_at", a."updated_at")
+FROM "appointments" a
+JOIN "appointment_slots" s ON s."id" = a."slot_id"
+JOIN "reminder_rules" r ON r."clinic_id" = a."clinic_id" AND r."offset_hours" = 24
+WHERE a."reminder_24h_sent" OR a."reminder_24h_failed";
+
+INSERT INTO "appointment_reminders" ("id", "appointment_id", "rule_id", "clinic_id", "scheduled_for", "status", "channel", "outbox_ids", "error", "created_at")
+SELECT gen_random_uuid()::text, a."id", r."id", a."clinic_id",
+       s."slot_date"::date + s."start_time"::time - INTERVAL '3 hours',
+       CASE WHEN a."reminder_same_day_sent" THEN 'SENT'::"ReminderStatus" ELSE 'FAILED'::"ReminderStatus" END,
+       'SMS', '{}', CASE WHEN a."reminder_same_day_sent" THEN NULL ELSE a."reminder_same_day_error" END,
+       COALESCE(a."reminder_same_day_sent_at", a."updated_at")
+FROM "appointments" a
+JOIN "appointment_slots" s ON s."id" = a."slot_id"
+JOIN "reminder_rules" r ON r."clinic_id" = a."clinic_id" AND r."offset_hours" = 3
+WHERE a."reminder_same_day_sent" OR a."reminder_same_day_failed";
+
+-- DropIndex
+DROP INDEX "appointments_reminder_24h_sent_reminder_24h_failed_idx";
+
+-- DropIndex
+DROP INDEX "appointments_reminder_same_day_sent_reminder_same_day_faile_idx";
+
+-- AlterTable
+ALTER TABLE "appointments" DROP COLUMN "reminder_sent",
+DROP COLUMN "reminder_sent_at",
+DROP COLUMN "reminder_24h_sent",
+DROP COLUMN "reminder_24h_sent_at",
+DROP COLUMN "reminder_24h_failed",
+DROP COLUMN "reminder_24h_error",
+DROP COLUMN "reminder_same_day_sent",
+DROP COLUMN "reminder_same_day_sent_at",
+DROP COLUMN "reminder_same_day_failed",
+DROP COLUMN "reminder_same_day_error";
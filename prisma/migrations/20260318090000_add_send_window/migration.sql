@@ -0,0 +1,3 @@
+-- AlterTable: existing clinics get the 07:00-21:00 EAT default too
+ALTER TABLE "clinics" ADD COLUMN "send_window_start" TEXT DEFAULT '07:00',
+ADD COLUMN "send_window_end" TEXT DEFAULT '21:00';
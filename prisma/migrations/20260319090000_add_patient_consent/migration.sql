@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "SmsStatus" ADD VALUE 'SUPPRESSED';
+
+-- AlterEnum
+ALTER TYPE "InboundIntent" ADD VALUE 'OPT_OUT';
+ALTER TYPE "InboundIntent" ADD VALUE 'OPT_IN';
+
+-- AlterEnum
+ALTER TYPE "InboundOutcome" ADD VALUE 'OPTED_OUT';
+ALTER TYPE "InboundOutcome" ADD VALUE 'OPTED_IN';
+
+-- CreateEnum
+CREATE TYPE "ConsentStatus" AS ENUM ('UNKNOWN', 'GRANTED', 'OPTED_OUT');
+
+-- CreateEnum
+CREATE TYPE "ConsentSource" AS ENUM ('INBOUND_KEYWORD', 'STAFF');
+
+-- AlterTable: existing patients start as UNKNOWN, which still receives messages
+ALTER TABLE "patients" ADD COLUMN "sms_consent" "ConsentStatus" NOT NULL DEFAULT 'UNKNOWN',
+ADD COLUMN "sms_consent_at" TIMESTAMP(3),
+ADD COLUMN "whatsapp_consent" "ConsentStatus" NOT NULL DEFAULT 'UNKNOWN',
+ADD COLUMN "whatsapp_consent_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "patient_consent_changes" (
+    "id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "channel" "MessagingChannel" NOT NULL,
+    "from_status" "ConsentStatus" NOT NULL,
+    "to_status" "ConsentStatus" NOT NULL,
+    "source" "ConsentSource" NOT NULL,
+    "actor_id" TEXT,
+    "message_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "patient_consent_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "patient_consent_changes_patient_id_created_at_idx" ON "patient_consent_changes"("patient_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "patient_consent_changes" ADD CONSTRAINT "patient_consent_changes_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
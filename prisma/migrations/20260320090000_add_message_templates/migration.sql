@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "message_templates" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "message_type" "SmsType" NOT NULL,
+    "language" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "updated_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_templates_clinic_id_message_type_language_key" ON "message_templates"("clinic_id", "message_type", "language");
+
+-- AddForeignKey
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SessionRevokeReason" ADD VALUE 'ROLE_CHANGED';
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SmsType" ADD VALUE 'REPLY';
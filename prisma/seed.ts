@@ -5,6 +5,7 @@ import { PrismaClient } from '@prisma/client'
 import { PrismaNeon } from '@prisma/adapter-neon'
 import { neonConfig } from '@neondatabase/serverless'
 import ws from 'ws'
+import { hashPassword } from '@/lib/auth/auth-service'
 
 // Configure Neon to use ws (WebSocket) for Node.js
 neonConfig.webSocketConstructor = ws
@@ -94,6 +95,23 @@ async function main() {
   })
   console.log(`Created staff: Nurse ${nurse1.firstName} ${nurse1.lastName}`)
 
+  // ============================================================================
+  // USERS: Dashboard logins (password: afyabook123 - change after first login)
+  // ============================================================================
+
+  const passwordHash = await hashPassword('afyabook123')
+
+  await prisma.user.create({
+    data: { email: 'admin@afyahealth.co.tz', passwordHash, role: 'CLINIC_ADMIN', clinicId: clinic.id }
+  })
+  await prisma.user.create({
+    data: { email: 'john.mbalwa@afyahealth.co.tz', passwordHash, role: 'DOCTOR', clinicId: clinic.id, staffId: doctor1.id }
+  })
+  await prisma.user.create({
+    data: { email: 'reception@afyahealth.co.tz', passwordHash, role: 'RECEPTIONIST', clinicId: clinic.id }
+  })
+  console.log('Created users: admin, doctor, receptionist')
+
   // ============================================================================
   // APPOINTMENT SLOTS: One week of slots (Monday-Saturday)
   // ============================================================================
@@ -252,6 +270,7 @@ async function main() {
   console.log(`\nSummary:
   - 1 Clinic: ${clinic.name}
   - 3 Staff members (2 doctors, 1 nurse)
+  - 3 Users (admin@afyahealth.co.tz / afyabook123)
   - ${slotCount} Appointment slots (Mon-Sat)
   - 1 Sample patient
   - 1 Sample appointment
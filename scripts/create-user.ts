@@ -0,0 +1,69 @@
+/**
+ * Utility script to create a dashboard user
+ * Use it to bootstrap the first admin; after that, manage users from
+ * Settings > Users in the dashboard.
+ *
+ * Usage:
+ *   npx tsx scripts/create-user.ts <email> <password> <role> [clinic-id]
+ *
+ * Roles: RECEPTIONIST, NURSE, DOCTOR, CLINIC_ADMIN, SUPER_ADMIN
+ * clinic-id is required for every role except SUPER_ADMIN.
+ */
+
+import { config } from 'dotenv'
+config()
+
+import { PrismaClient, UserRole } from '@prisma/client'
+import { PrismaNeon } from '@prisma/adapter-neon'
+import { neonConfig } from '@neondatabase/serverless'
+import ws from 'ws'
+import { hashPassword } from '@/lib/auth/auth-service'
+
+neonConfig.webSocketConstructor = ws
+
+const [email, password, role, clinicId] = process.argv.slice(2)
+
+if (!email || !password || !role) {
+  console.error('Usage: npx tsx scripts/create-user.ts <email> <password> <role> [clinic-id]')
+  process.exit(1)
+}
+
+if (!Object.values(UserRole).includes(role as UserRole)) {
+  console.error(`Unknown role "${role}". Use one of: ${Object.values(UserRole).join(', ')}`)
+  process.exit(1)
+}
+
+if (!clinicId && role !== 'SUPER_ADMIN') {
+  console.error('clinic-id is required for this role')
+  process.exit(1)
+}
+
+const databaseUrl = process.env.DATABASE_URL
+if (!databaseUrl) {
+  console.error('ERROR: DATABASE_URL environment variable is not set')
+  process.exit(1)
+}
+
+const prisma = new PrismaClient({ adapter: new PrismaNeon({ connectionString: databaseUrl }) })
+
+async function main() {
+  const user = await prisma.user.create({
+    data: {
+      email: email.trim().toLowerCase(),
+      passwordHash: await hashPassword(password),
+      role: role as UserRole,
+      clinicId: clinicId || null
+    }
+  })
+
+  console.log(`\nCreated ${user.role} ${user.email} (${user.id})`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
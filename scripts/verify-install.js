@@ -87,7 +87,6 @@ section('1. Environment Variables');
 
 const requiredVars = [
   'DATABASE_URL',
-  'CLINIC_CREDENTIALS',
   'TWILIO_ACCOUNT_SID',
   'TWILIO_AUTH_TOKEN',
   'TWILIO_PHONE_NUMBER',
@@ -8,100 +8,85 @@
  * - endDate: ISO date string (optional)
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays } from 'date-fns'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
 
-import { requireAuth } from '@/lib/auth/middleware'
+export const GET = withPermission<{ clinic_id: string }>(
+  { permission: 'analytics:view', clinic: clinicFromParam('clinic_id') },
+  async (request, { params }) => {
+    try {
+      const { clinic_id } = await params
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ clinic_id: string }> }
-) {
-  try {
-    // Require clinic authentication
-    const authResult = requireAuth(request, { requiredType: 'clinic' })
-    if (!authResult.success) {
-      return authResult.response
-    }
-
-    const { clinic_id } = await params
-    
-    // Verify clinic is accessing their own data
-    if (clinic_id !== authResult.auth.clinicId) {
-      return NextResponse.json(
-        { error: 'Access denied. Cannot view other clinic data.' },
-        { status: 403 }
-      )
-    }
-
-    const searchParams = request.nextUrl.searchParams
-    const period = searchParams.get('period') as 'day' | 'week' | 'month' || 'week'
+      const searchParams = request.nextUrl.searchParams
+      const period = searchParams.get('period') as 'day' | 'week' | 'month' || 'week'
     
-    // Calculate date range
-    const now = new Date()
-    let startDate: Date
-    let endDate: Date
+      // Calculate date range
+      const now = new Date()
+      let startDate: Date
+      let endDate: Date
     
-    if (searchParams.get('startDate') && searchParams.get('endDate')) {
-      startDate = new Date(searchParams.get('startDate')!)
-      endDate = new Date(searchParams.get('endDate')!)
-    } else {
-      switch (period) {
-        case 'day':
-          startDate = startOfDay(now)
-          endDate = endOfDay(now)
-          break
-        case 'month':
-          startDate = startOfMonth(now)
-          endDate = endOfMonth(now)
-          break
-        case 'week':
-        default:
-          startDate = startOfWeek(now, { weekStartsOn: 1 }) // Monday
-          endDate = endOfWeek(now, { weekStartsOn: 1 })
+      if (searchParams.get('startDate') && searchParams.get('endDate')) {
+        startDate = new Date(searchParams.get('startDate')!)
+        endDate = new Date(searchParams.get('endDate')!)
+      } else {
+        switch (period) {
+          case 'day':
+            startDate = startOfDay(now)
+            endDate = endOfDay(now)
+            break
+          case 'month':
+            startDate = startOfMonth(now)
+            endDate = endOfMonth(now)
+            break
+          case 'week':
+          default:
+            startDate = startOfWeek(now, { weekStartsOn: 1 }) // Monday
+            endDate = endOfWeek(now, { weekStartsOn: 1 })
+        }
       }
-    }
 
-    // Fetch all analytics in parallel
-    const [
-      appointmentStats,
-      staffUtilization,
-      smsStats,
-      noShowAnalysis,
-      dailyBreakdown,
-      topPatients
-    ] = await Promise.all([
-      getAppointmentStats(clinic_id, startDate, endDate),
-      getStaffUtilization(clinic_id, startDate, endDate),
-      getSmsStats(clinic_id, startDate, endDate),
-      getNoShowAnalysis(clinic_id, startDate, endDate),
-      getDailyBreakdown(clinic_id, startDate, endDate),
-      getTopPatients(clinic_id, startDate, endDate)
-    ])
+      // Fetch all analytics in parallel
+      const [
+        appointmentStats,
+        staffUtilization,
+        smsStats,
+        noShowAnalysis,
+        dailyBreakdown,
+        topPatients
+      ] = await Promise.all([
+        getAppointmentStats(clinic_id, startDate, endDate),
+        getStaffUtilization(clinic_id, startDate, endDate),
+        getSmsStats(clinic_id, startDate, endDate),
+        getNoShowAnalysis(clinic_id, startDate, endDate),
+        getDailyBreakdown(clinic_id, startDate, endDate),
+        getTopPatients(clinic_id, startDate, endDate)
+      ])
 
-    return NextResponse.json({
-      period,
-      dateRange: {
-        start: startDate.toISOString(),
-        end: endDate.toISOString()
-      },
-      summary: appointmentStats,
-      staffUtilization,
-      smsStats,
-      noShowAnalysis,
-      dailyBreakdown,
-      topPatients
-    })
+      return NextResponse.json({
+        period,
+        dateRange: {
+          start: startDate.toISOString(),
+          end: endDate.toISOString()
+        },
+        summary: appointmentStats,
+        staffUtilization,
+        smsStats,
+        noShowAnalysis,
+        dailyBreakdown,
+        topPatients
+      })
 
-  } catch (error) {
-    console.error('Analytics error:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch analytics' },
-      { status: 500 }
-    )
+    } catch (error) {
+      console.error('Analytics error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch analytics' },
+        { status: 500 }
+      )
+    }
   }
-}
+)
 
 async function getAppointmentStats(clinicId: string, startDate: Date, endDate: Date) {
   const stats = await prisma.appointment.groupBy({
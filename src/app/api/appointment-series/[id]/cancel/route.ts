@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { CancelAppointmentSeriesSchema, UUIDSchema } from '@/lib/validation/schemas'
+import { cancelAppointmentSeries } from '@/lib/appointments/series-service'
+import { seriesErrorResponse } from '@/lib/appointments/series-errors'
+
+/**
+ * POST /api/appointment-series/[id]/cancel
+ *
+ * Cancels every upcoming occurrence of a series and frees their slots.
+ * Visits already attended stay in the history. The patient gets one
+ * CANCELLATION SMS, for the next visit they would have come to.
+ *
+ * Request Body:
+ * {
+ *   reason?: string (optional) - Stored as the cancellation reason
+ *   notify_patient?: boolean (optional, default true)
+ * }
+ *
+ * Response:
+ * {
+ *   cancelled: number,
+ *   appointmentIds: string[],
+ *   smsSent: boolean
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid series ID or body
+ * - 401: Not logged in
+ * - 404: Series not found (in this clinic)
+ * - 409: Series already cancelled
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  'series:manage',
+  async (request, { params, auth }) => {
+    try {
+      const clinicId = auth.clinicId
+      if (!clinicId) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha kliniki kinahitajika / Clinic ID is required',
+            code: 'MISSING_CLINIC_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const { id } = await params
+
+      if (!UUIDSchema.safeParse(id).success) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha mfululizo sio sahihi / Invalid series ID format',
+            code: 'INVALID_SERIES_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const validation = await validateBody(request, CancelAppointmentSeriesSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const result = await cancelAppointmentSeries({
+        seriesId: id,
+        clinicId,
+        reason: validation.data.reason,
+        notifyPatient: validation.data.notify_patient
+      })
+
+      return NextResponse.json(result)
+
+    } catch (error) {
+      console.error('Error cancelling appointment series:', error)
+
+      const response = seriesErrorResponse(error)
+      if (response) {
+        return response
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kughairi mfululizo wa miadi / Error cancelling appointment series',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { RescheduleAppointmentSeriesSchema, UUIDSchema } from '@/lib/validation/schemas'
+import { rescheduleAppointmentSeries } from '@/lib/appointments/series-service'
+import { seriesErrorResponse } from '@/lib/appointments/series-errors'
+import { rescheduleErrorResponse } from '@/lib/appointments/reschedule-errors'
+
+/**
+ * POST /api/appointment-series/[id]/reschedule
+ *
+ * Moves every upcoming occurrence of a series together: to a new
+ * preferred time, a new preferred staff member, and/or a number of days
+ * earlier or later. Each occurrence is rescheduled like a single
+ * appointment into the best free slot near its new target; occurrences
+ * with no free slot keep their current time and are reported as unmoved.
+ * The patient gets one RESCHEDULE SMS, for the next visit; reminders go
+ * out for the new times as usual.
+ *
+ * Request Body (at least one change):
+ * {
+ *   preferred_time?: string - HH:MM
+ *   staff_id?: string | null - Preferred staff member, null for any
+ *   shift_days?: number - -28 to 28
+ *   notify_patient?: boolean (optional, default true)
+ * }
+ *
+ * Response:
+ * {
+ *   moved: [{ appointmentId, seriesIndex, targetDate, slotDate, startTime, endTime, staff }],
+ *   unchanged: string[],   // Appointment ids already at the best slot
+ *   unmoved: [{ seriesIndex, targetDate, reason: 'NO_MATCHING_SLOT' }],
+ *   smsSent: boolean
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid series ID or body
+ * - 401: Not logged in
+ * - 404: Series or staff member not found (in this clinic)
+ * - 409: Series cancelled
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  'series:manage',
+  async (request, { params, auth }) => {
+    try {
+      const clinicId = auth.clinicId
+      if (!clinicId) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha kliniki kinahitajika / Clinic ID is required',
+            code: 'MISSING_CLINIC_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const { id } = await params
+
+      if (!UUIDSchema.safeParse(id).success) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha mfululizo sio sahihi / Invalid series ID format',
+            code: 'INVALID_SERIES_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const validation = await validateBody(request, RescheduleAppointmentSeriesSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { preferred_time, staff_id, shift_days, notify_patient } = validation.data
+
+      const result = await rescheduleAppointmentSeries({
+        seriesId: id,
+        clinicId,
+        preferredTime: preferred_time,
+        preferredStaffId: staff_id,
+        shiftDays: shift_days,
+        notifyPatient: notify_patient
+      })
+
+      return NextResponse.json(result)
+
+    } catch (error) {
+      console.error('Error rescheduling appointment series:', error)
+
+      const response = seriesErrorResponse(error) ?? rescheduleErrorResponse(error)
+      if (response) {
+        return response
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhamisha mfululizo wa miadi / Error rescheduling appointment series',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
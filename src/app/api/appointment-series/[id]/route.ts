@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission } from '@/lib/auth/guard'
+import { UUIDSchema } from '@/lib/validation/schemas'
+
+/**
+ * GET /api/appointment-series/[id]
+ *
+ * A series of the logged-in clinic with all its occurrences, oldest first.
+ *
+ * Response:
+ * {
+ *   series: {
+ *     id, intervalWeeks, preferredTime, startDate, endDate, occurrences, notes, cancelledAt,
+ *     patient: { id, firstName, lastName, phoneNumber },
+ *     preferredStaff: { id, firstName, lastName } | null,
+ *     appointmentType: { id, name, durationMinutes, color } | null,
+ *     appointments: [{ id, seriesIndex, status, slotDate, startTime, endTime, staff }]
+ *   }
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid series ID
+ * - 401: Not logged in
+ * - 404: Series not found (in this clinic)
+ * - 500: Database error
+ */
+export const GET = withPermission<{ id: string }>(
+  'appointment:view',
+  async (request, { params, auth }) => {
+    try {
+      const { id } = await params
+
+      if (!UUIDSchema.safeParse(id).success) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha mfululizo sio sahihi / Invalid series ID format',
+            code: 'INVALID_SERIES_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const series = await prisma.appointmentSeries.findFirst({
+        where: { id, clinicId: auth.clinicId },
+        include: {
+          patient: {
+            select: { id: true, firstName: true, lastName: true, phoneNumber: true }
+          },
+          preferredStaff: {
+            select: { id: true, firstName: true, lastName: true }
+          },
+          appointmentType: {
+            select: { id: true, name: true, durationMinutes: true, color: true }
+          },
+          appointments: {
+            include: {
+              slot: {
+                include: {
+                  staff: {
+                    select: { id: true, firstName: true, lastName: true }
+                  }
+                }
+              }
+            },
+            orderBy: [{ slot: { slotDate: 'asc' } }, { slot: { startTime: 'asc' } }]
+          }
+        }
+      })
+
+      if (!series) {
+        return NextResponse.json(
+          {
+            error: 'Mfululizo wa miadi haujapatikana / Appointment series not found',
+            code: 'SERIES_NOT_FOUND'
+          },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        series: {
+          id: series.id,
+          intervalWeeks: series.intervalWeeks,
+          preferredTime: series.preferredTime,
+          startDate: series.startDate.toISOString().split('T')[0],
+          endDate: series.endDate?.toISOString().split('T')[0] ?? null,
+          occurrences: series.occurrences,
+          notes: series.notes,
+          cancelledAt: series.cancelledAt?.toISOString() ?? null,
+          patient: series.patient,
+          preferredStaff: series.preferredStaff,
+          appointmentType: series.appointmentType,
+          appointments: series.appointments.map(appointment => ({
+            id: appointment.id,
+            seriesIndex: appointment.seriesIndex,
+            status: appointment.status,
+            slotDate: appointment.slot.slotDate.toISOString().split('T')[0],
+            startTime: appointment.slot.startTime,
+            endTime: appointment.slot.endTime,
+            staff: appointment.slot.staff
+          }))
+        }
+      })
+
+    } catch (error) {
+      console.error('Error fetching appointment series:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
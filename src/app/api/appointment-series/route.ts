@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { CreateAppointmentSeriesSchema } from '@/lib/validation/schemas'
+import { createAppointmentSeries } from '@/lib/appointments/series-service'
+import { seriesErrorResponse } from '@/lib/appointments/series-errors'
+
+/**
+ * POST /api/appointment-series
+ *
+ * Creates a recurring series (e.g. HIV or diabetes follow-ups every 2 or
+ * 4 weeks) for a patient of the logged-in clinic. Each occurrence is
+ * booked into the free slot nearest its target date, then the preferred
+ * staff member, then the preferred time, searching a few days either side.
+ * Occurrences with no matching slot are reported, not booked.
+ *
+ * Request Body:
+ * {
+ *   patient_id: string (required) - UUID of the patient
+ *   start_date: string (required) - YYYY-MM-DD of the first occurrence
+ *   preferred_time: string (required) - HH:MM
+ *   interval_weeks: number (required) - 1 to 12
+ *   occurrences?: number - 2 to 26 (give this or end_date)
+ *   end_date?: string - YYYY-MM-DD, last possible date (give this or occurrences)
+ *   staff_id?: string (optional) - Preferred staff member
+ *   appointment_type_id?: string (optional) - Catalogue type, for its duration
+ *   notes?: string (optional)
+ * }
+ *
+ * Response (201):
+ * {
+ *   seriesId: string,
+ *   booked: [{ appointmentId, seriesIndex, targetDate, slotDate, startTime, endTime, staff }],
+ *   unplaced: [{ seriesIndex, targetDate, reason: 'NO_MATCHING_SLOT' }]
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body or start date in the past
+ * - 401: Not logged in
+ * - 404: Patient, staff member or appointment type not found
+ * - 409: Preferred staff member does not offer the appointment type
+ * - 500: Database error
+ */
+export const POST = withPermission(
+  'series:manage',
+  async (request, { auth }) => {
+    try {
+      const clinicId = auth.clinicId
+      if (!clinicId) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha kliniki kinahitajika / Clinic ID is required',
+            code: 'MISSING_CLINIC_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const validation = await validateBody(request, CreateAppointmentSeriesSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const data = validation.data
+
+      const result = await createAppointmentSeries({
+        clinicId,
+        patientId: data.patient_id,
+        startDate: data.start_date,
+        preferredTime: data.preferred_time,
+        preferredStaffId: data.staff_id,
+        appointmentTypeId: data.appointment_type_id,
+        intervalWeeks: data.interval_weeks,
+        occurrences: data.occurrences,
+        endDate: data.end_date,
+        notes: data.notes
+      })
+
+      return NextResponse.json(result, { status: 201 })
+
+    } catch (error) {
+      console.error('Error creating appointment series:', error)
+
+      const response = seriesErrorResponse(error)
+      if (response) {
+        return response
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kutengeneza mfululizo wa miadi / Error creating appointment series',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicOfAppointment } from '@/lib/auth/guard'
+import { UUIDSchema } from '@/lib/validation/schemas'
+import { getStatusHistory } from '@/lib/appointments/status-history'
+
+/**
+ * GET /api/appointments/[id]/history
+ *
+ * Returns every status the appointment has been through, oldest first:
+ * the booking, confirmations, reminders, check-in and cancellation.
+ *
+ * Response:
+ * {
+ *   appointmentId: string,
+ *   status: AppointmentStatus,   // Current status
+ *   history: Array<{
+ *     id: string,
+ *     fromStatus: AppointmentStatus | null,   // Null for the booking
+ *     toStatus: AppointmentStatus,
+ *     actorType: 'USER' | 'PATIENT' | 'SYSTEM' | 'CRON',
+ *     actorId: string | null,
+ *     actorName: string | null,   // Staff email or patient name
+ *     reason: string | null,
+ *     changedAt: string
+ *   }>
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid appointment ID
+ * - 401: Not logged in
+ * - 403: Role may not view appointments, or the appointment belongs to another clinic
+ * - 404: Appointment not found
+ * - 500: Database error
+ */
+export const GET = withPermission<{ id: string }>(
+  { permission: 'appointment:view', clinic: clinicOfAppointment('id') },
+  async (_request, { params }) => {
+    try {
+      const { id } = await params
+
+      if (!UUIDSchema.safeParse(id).success) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha miadi sio sahihi / Invalid appointment ID format',
+            code: 'INVALID_APPOINTMENT_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const appointment = await prisma.appointment.findUnique({
+        where: { id },
+        select: { id: true, status: true }
+      })
+
+      if (!appointment) {
+        return NextResponse.json(
+          {
+            error: 'Miadi haijapatikana / Appointment not found',
+            code: 'APPOINTMENT_NOT_FOUND'
+          },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        appointmentId: appointment.id,
+        status: appointment.status,
+        history: await getStatusHistory(id)
+      })
+
+    } catch (error) {
+      console.error('Error fetching appointment history:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kupata historia ya miadi / Error fetching appointment history',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
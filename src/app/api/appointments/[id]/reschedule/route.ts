@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import { withPermission, clinicOfAppointment } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { RescheduleAppointmentSchema, UUIDSchema } from '@/lib/validation/schemas'
+import { rescheduleAppointment } from '@/lib/appointments/reschedule-service'
+import { rescheduleErrorResponse } from '@/lib/appointments/reschedule-errors'
+
+/**
+ * POST /api/appointments/[id]/reschedule
+ *
+ * Moves an appointment to another slot of the same clinic. The appointment
+ * keeps its id and history; the old slot is released and recorded as
+ * previous_slot. The patient gets a RESCHEDULE SMS in their language
+ * instead of a cancellation.
+ *
+ * Request Body:
+ * {
+ *   slot_id: string (required) - UUID of the new slot
+ *   notify_patient?: boolean (optional, default true) - Send RESCHEDULE SMS
+ * }
+ *
+ * Response:
+ * {
+ *   appointment: {
+ *     id: string,
+ *     status: AppointmentStatus,
+ *     rescheduleCount: number,
+ *     rescheduledAt: string,
+ *     previousSlot: { id, slotDate, startTime, endTime },
+ *     slot: { id, slotDate, startTime, endTime, staff: {...} }
+ *   },
+ *   smsSent: boolean
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body, new slot in the past or same as current
+ * - 401: Not logged in
+ * - 403: Role may not move appointments, or the appointment belongs to another clinic
+ * - 404: Appointment or slot not found (in this clinic)
+ * - 409: Slot taken, clinic closed, staff absent, patient already booked,
+ *        appointment already completed/cancelled
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  { permission: 'appointment:reschedule', clinic: clinicOfAppointment('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id } = await params
+
+      if (!UUIDSchema.safeParse(id).success) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha miadi sio sahihi / Invalid appointment ID format',
+            code: 'INVALID_APPOINTMENT_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const validation = await validateBody(request, RescheduleAppointmentSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { slot_id, notify_patient } = validation.data
+
+      // Clinic can only move its own appointments
+      const result = await rescheduleAppointment({
+        appointmentId: id,
+        newSlotId: slot_id,
+        clinicId: auth.clinicId,
+        notifyPatient: notify_patient
+      })
+
+      return NextResponse.json(result)
+
+    } catch (error) {
+      console.error('Error rescheduling appointment:', error)
+
+      const response = rescheduleErrorResponse(error)
+      if (response) {
+        return response
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhamisha miadi / Error rescheduling appointment',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
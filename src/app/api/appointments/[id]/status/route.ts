@@ -1,18 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { withPermission, clinicOfAppointment } from '@/lib/auth/guard'
 import { AppointmentStatus } from '@prisma/client'
+import { releaseAppointmentSlots } from '@/lib/appointments/slot-reservation'
+import { recordAuditEvent, diffChanges } from '@/lib/audit/audit-service'
+import { recordStatusChange } from '@/lib/appointments/status-history'
 
 /**
  * POST /api/appointments/[id]/status
  * 
  * Updates appointment status with proper slot management.
  * If cancelled: frees up the slot for rebooking.
- * Tracks who made the change.
+ * Records the change in the status history and audit trail against the
+ * logged-in user.
  * 
  * Request Body:
  * {
  *   status: 'confirmed' | 'cancelled' | 'completed' | 'no_show' (required)
- *   staff_id?: string (optional) - Staff member making the change
+ *   staff_id?: string (optional) - Staff member at the desk, echoed back only;
+ *                                  the audit trail uses the session's user
  *   notes?: string (optional) - Additional notes about status change
  *   cancellation_reason?: string (optional) - Reason for cancellation
  * }
@@ -30,200 +36,215 @@ import { AppointmentStatus } from '@prisma/client'
  * 
  * Error Responses:
  * - 400: Invalid status, missing required fields
+ * - 401: Not logged in
+ * - 403: Role may not change status, or the appointment belongs to another clinic
  * - 404: Appointment not found
  * - 409: Invalid status transition
  * - 500: Database error
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params
-    const body = await request.json()
-    const { 
-      status, 
-      staff_id, 
-      notes, 
-      cancellation_reason 
-    } = body
+export const POST = withPermission<{ id: string }>(
+  { permission: 'appointment:status:update', clinic: clinicOfAppointment('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+      const body = await request.json()
+      const { 
+        status, 
+        staff_id, 
+        notes, 
+        cancellation_reason 
+      } = body
 
-    // Validation: Required fields
-    if (!id) {
-      return NextResponse.json(
-        {
-          error: 'Kitambulisho cha miadi kinahitajika / Appointment ID is required',
-          code: 'MISSING_APPOINTMENT_ID'
-        },
-        { status: 400 }
-      )
-    }
+      // Validation: Required fields
+      if (!id) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha miadi kinahitajika / Appointment ID is required',
+            code: 'MISSING_APPOINTMENT_ID'
+          },
+          { status: 400 }
+        )
+      }
 
-    if (!status) {
-      return NextResponse.json(
-        {
-          error: 'Hali inahitajika / Status is required',
-          code: 'MISSING_STATUS'
-        },
-        { status: 400 }
-      )
-    }
+      if (!status) {
+        return NextResponse.json(
+          {
+            error: 'Hali inahitajika / Status is required',
+            code: 'MISSING_STATUS'
+          },
+          { status: 400 }
+        )
+      }
 
-    // Validate UUID format
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
-    if (!uuidRegex.test(id)) {
-      return NextResponse.json(
-        {
-          error: 'Kitambulisho cha miadi sio sahihi / Invalid appointment ID format',
-          code: 'INVALID_APPOINTMENT_ID'
-        },
-        { status: 400 }
-      )
-    }
+      // Validate UUID format
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+      if (!uuidRegex.test(id)) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha miadi sio sahihi / Invalid appointment ID format',
+            code: 'INVALID_APPOINTMENT_ID'
+          },
+          { status: 400 }
+        )
+      }
 
-    // Validate status value
-    const validStatuses: AppointmentStatus[] = ['CONFIRMED', 'CANCELLED', 'COMPLETED', 'NO_SHOW']
-    const normalizedStatus = status.toUpperCase() as AppointmentStatus
+      // Validate status value
+      const validStatuses: AppointmentStatus[] = ['CONFIRMED', 'CANCELLED', 'COMPLETED', 'NO_SHOW']
+      const normalizedStatus = status.toUpperCase() as AppointmentStatus
     
-    if (!validStatuses.includes(normalizedStatus)) {
-      return NextResponse.json(
-        {
-          error: `Hali sio sahihi. Chagua: ${validStatuses.join(', ')} / Invalid status. Choose: confirmed, cancelled, completed, no_show`,
-          code: 'INVALID_STATUS'
-        },
-        { status: 400 }
-      )
-    }
+      if (!validStatuses.includes(normalizedStatus)) {
+        return NextResponse.json(
+          {
+            error: `Hali sio sahihi. Chagua: ${validStatuses.join(', ')} / Invalid status. Choose: confirmed, cancelled, completed, no_show`,
+            code: 'INVALID_STATUS'
+          },
+          { status: 400 }
+        )
+      }
 
-    // Execute in transaction for atomicity
-    const result = await prisma.$transaction(async (tx) => {
-      // Step 1: Fetch appointment with slot
-      const appointment = await tx.appointment.findUnique({
-        where: { id },
-        include: {
-          slot: true
-        }
-      })
+      // Execute in transaction for atomicity
+      const result = await prisma.$transaction(async (tx) => {
+        // Step 1: Fetch appointment with slot
+        const appointment = await tx.appointment.findUnique({
+          where: { id },
+          include: {
+            slot: true
+          }
+        })
 
-      if (!appointment) {
-        throw new Error('APPOINTMENT_NOT_FOUND')
-      }
+        if (!appointment) {
+          throw new Error('APPOINTMENT_NOT_FOUND')
+        }
 
-      const previousStatus = appointment.status
+        const previousStatus = appointment.status
 
-      // Step 2: Validate status transition
-      const isValidTransition = validateStatusTransition(previousStatus, normalizedStatus)
-      if (!isValidTransition.valid) {
-        throw new Error(`INVALID_TRANSITION:${isValidTransition.message}`)
-      }
+        // Step 2: Validate status transition
+        const isValidTransition = validateStatusTransition(previousStatus, normalizedStatus)
+        if (!isValidTransition.valid) {
+          throw new Error(`INVALID_TRANSITION:${isValidTransition.message}`)
+        }
 
-      // Step 3: Prepare update data
-      const updateData: {
-        status: AppointmentStatus
-        cancelledAt?: Date
-        cancellationReason?: string | null
-        completedAt?: Date
-      } = {
-        status: normalizedStatus
-      }
+        // Step 3: Prepare update data
+        const updateData: {
+          status: AppointmentStatus
+          cancelledAt?: Date
+          cancellationReason?: string | null
+          completedAt?: Date
+        } = {
+          status: normalizedStatus
+        }
 
-      // Track timestamps based on status
-      const now = new Date()
+        // Track timestamps based on status
+        const now = new Date()
       
-      switch (normalizedStatus) {
-        case 'CONFIRMED':
-          // Just update status
-          break
-        case 'CANCELLED':
-          updateData.cancelledAt = now
-          updateData.cancellationReason = cancellation_reason || notes || null
-          break
-        case 'COMPLETED':
-          updateData.completedAt = now
-          break
-        case 'NO_SHOW':
-          // Just update status
-          break
-      }
-
-      // Step 4: Update appointment
-      const updatedAppointment = await tx.appointment.update({
-        where: { id },
-        data: updateData
-      })
+        switch (normalizedStatus) {
+          case 'CONFIRMED':
+            // Just update status
+            break
+          case 'CANCELLED':
+            updateData.cancelledAt = now
+            updateData.cancellationReason = cancellation_reason || notes || null
+            break
+          case 'COMPLETED':
+            updateData.completedAt = now
+            break
+          case 'NO_SHOW':
+            // Just update status
+            break
+        }
 
-      // Step 5: Handle slot management for cancellations
-      let slotFreed = false
-      if (normalizedStatus === 'CANCELLED' && appointment.slot) {
-        // Free up the slot for rebooking
-        await tx.appointmentSlot.update({
-          where: { id: appointment.slotId },
-          data: { isAvailable: true }
+        // Step 4: Update appointment
+        const updatedAppointment = await tx.appointment.update({
+          where: { id },
+          data: updateData
         })
-        slotFreed = true
-      }
 
-      // Step 6: Log status change (if staff_id provided)
-      // Note: In a production app, you might want a separate audit log table
-      // For now, we just include it in the response
+        // Step 5: Handle slot management for cancellations
+        let slotFreed = false
+        if (normalizedStatus === 'CANCELLED' && appointment.slot) {
+          // Free up the slot (and any extra slots of a longer type) for rebooking
+          await releaseAppointmentSlots(tx, [id])
+          slotFreed = true
+        }
+
+        // Step 6: Status history and audit trail
+        await recordStatusChange({
+          appointmentId: id,
+          clinicId: appointment.clinicId,
+          patientId: appointment.patientId,
+          from: previousStatus,
+          to: normalizedStatus,
+          reason: cancellation_reason || notes || null
+        }, tx)
 
-      return {
-        appointment: {
-          id: updatedAppointment.id,
-          status: updatedAppointment.status,
-          previousStatus: previousStatus,
-          slotFreed: slotFreed,
-          updatedAt: updatedAppointment.updatedAt.toISOString(),
-          staffId: staff_id || null,
-          notes: notes || null
+        await recordAuditEvent({
+          action: normalizedStatus === 'CANCELLED' ? 'APPOINTMENT_CANCELLED' : 'APPOINTMENT_STATUS_CHANGED',
+          entityType: 'APPOINTMENT',
+          entityId: id,
+          clinicId: appointment.clinicId,
+          appointmentId: id,
+          patientId: appointment.patientId,
+          changes: diffChanges(appointment, updateData)
+        }, tx)
+
+        return {
+          appointment: {
+            id: updatedAppointment.id,
+            status: updatedAppointment.status,
+            previousStatus: previousStatus,
+            slotFreed: slotFreed,
+            updatedAt: updatedAppointment.updatedAt.toISOString(),
+            staffId: staff_id || null,
+            notes: notes || null
+          }
         }
-      }
-    }, {
-      isolationLevel: 'Serializable',
-      maxWait: 5000,
-      timeout: 10000
-    })
+      }, {
+        isolationLevel: 'Serializable',
+        maxWait: 5000,
+        timeout: 10000
+      })
 
-    return NextResponse.json(result)
+      return NextResponse.json(result)
 
-  } catch (error) {
-    console.error('Error updating appointment status:', error)
+    } catch (error) {
+      console.error('Error updating appointment status:', error)
     
-    if (error instanceof Error) {
-      const errorMessage = error.message
+      if (error instanceof Error) {
+        const errorMessage = error.message
       
-      // Appointment not found
-      if (errorMessage === 'APPOINTMENT_NOT_FOUND') {
-        return NextResponse.json(
-          {
-            error: 'Miadi haijapatikana / Appointment not found',
-            code: 'APPOINTMENT_NOT_FOUND'
-          },
-          { status: 404 }
-        )
-      }
+        // Appointment not found
+        if (errorMessage === 'APPOINTMENT_NOT_FOUND') {
+          return NextResponse.json(
+            {
+              error: 'Miadi haijapatikana / Appointment not found',
+              code: 'APPOINTMENT_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
       
-      // Invalid status transition
-      if (errorMessage.startsWith('INVALID_TRANSITION:')) {
-        return NextResponse.json(
-          {
-            error: errorMessage.replace('INVALID_TRANSITION:', ''),
-            code: 'INVALID_STATUS_TRANSITION'
-          },
-          { status: 409 }
-        )
+        // Invalid status transition
+        if (errorMessage.startsWith('INVALID_TRANSITION:')) {
+          return NextResponse.json(
+            {
+              error: errorMessage.replace('INVALID_TRANSITION:', ''),
+              code: 'INVALID_STATUS_TRANSITION'
+            },
+            { status: 409 }
+          )
+        }
       }
-    }
     
-    return NextResponse.json(
-      {
-        error: 'Hitilafu katika kusasisha hali ya miadi / Error updating appointment status',
-        code: 'INTERNAL_ERROR'
-      },
-      { status: 500 }
-    )
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kusasisha hali ya miadi / Error updating appointment status',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
   }
-}
+)
 
 /**
  * Validates if a status transition is allowed
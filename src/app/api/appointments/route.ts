@@ -1,16 +1,49 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { withPermission, ClinicResolver } from '@/lib/auth/guard'
 import { checkRateLimit, recordBookingAttempt } from '@/lib/rate-limit/booking-rate-limit'
+import { getClinicClosureForDate } from '@/lib/closures/closure-service'
+import { getStaffAbsencesInRange, isStaffAbsent } from '@/lib/staff/absence-service'
+import { lockSlotChain, holdExtraSlots } from '@/lib/appointments/slot-reservation'
+import { UUIDSchema } from '@/lib/validation/schemas'
+import { recordAuditEvent, createdChanges } from '@/lib/audit/audit-service'
+import { recordStatusChange } from '@/lib/appointments/status-history'
+
+/**
+ * Clinic of the slot being booked, so staff only book into their own clinic
+ */
+const clinicOfSlot: ClinicResolver<object> = async (request) => {
+  const body = await request.clone().json().catch(() => null)
+  if (typeof body?.slot_id !== 'string') {
+    return null
+  }
+
+  const slot = await prisma.appointmentSlot.findUnique({
+    where: { id: body.slot_id },
+    select: { clinicId: true }
+  })
+
+  return slot?.clinicId
+}
 
 /**
  * POST /api/appointments
  * 
  * Creates a new appointment with transaction safety and race condition protection.
  * 
+ * Patients booking from the portal are identified by their patient_session
+ * JWT; any patient_id in the body is ignored. Staff (Quick Book) pass the
+ * patient_id explicitly. The per-phone booking rate limit applies to both.
+ * 
+ * With an appointment_type_id from the clinic's catalogue, a type longer
+ * than one slot reserves the consecutive slots of the same staff member
+ * in the same transaction.
+ * 
  * Request Body:
  * {
- *   patient_id: string (required) - UUID of the patient
- *   slot_id: string (required) - UUID of the appointment slot
+ *   patient_id: string (required unless logged in as a patient) - UUID of the patient
+ *   slot_id: string (required) - UUID of the appointment slot (first slot for longer types)
+ *   appointment_type_id?: string (optional) - UUID of an AppointmentType of the slot's clinic
  *   notes?: string (optional) - Notes about the appointment
  * }
  * 
@@ -23,6 +56,8 @@ import { checkRateLimit, recordBookingAttempt } from '@/lib/rate-limit/booking-r
  *     clinic_id: string,
  *     status: 'BOOKED',
  *     appointment_type: string,
+ *     appointment_type_id: string | null,
+ *     end_time: string,        // End of the last reserved slot
  *     notes: string | null,
  *     created_at: string,
  *     patient: { id, first_name, last_name, phone_number },
@@ -33,258 +68,438 @@ import { checkRateLimit, recordBookingAttempt } from '@/lib/rate-limit/booking-r
  * 
  * Error Responses:
  * - 400: Missing required fields, slot in past, rate limited
- * - 409: Slot already booked (race condition)
- * - 404: Patient or slot not found
+ * - 401: Not logged in (patient or staff session required)
+ * - 403: Role may not book, or the slot belongs to another clinic
+ * - 409: Slot already booked (race condition), clinic closed that day,
+ *        staff member absent, type not offered by this staff member,
+ *        not enough consecutive free slots for the type
+ * - 404: Patient, slot or appointment type not found
  * - 500: Database error
  */
-export async function POST(request: NextRequest) {
-  try {
-    // Parse and validate request body
-    const body = await request.json()
-    const { patient_id, slot_id, notes } = body
-
-    // Validation: Required fields
-    if (!patient_id) {
-      return NextResponse.json(
-        {
-          error: 'Kitambulisho cha mgonjwa kinahitajika / Patient ID is required',
-          code: 'MISSING_PATIENT_ID'
-        },
-        { status: 400 }
-      )
-    }
-
-    if (!slot_id) {
-      return NextResponse.json(
-        {
-          error: 'Kitambulisho cha nafasi kinahitajika / Slot ID is required',
-          code: 'MISSING_SLOT_ID'
-        },
-        { status: 400 }
-      )
-    }
+export const POST = withPermission(
+  { permission: 'appointment:create', clinic: clinicOfSlot },
+  async (request, { auth }) => {
+    try {
+      // Parse and validate request body
+      const body = await request.json()
+      const { slot_id, notes, appointment_type_id } = body
 
-    // Execute everything in a transaction for atomicity
-    const result = await prisma.$transaction(async (tx) => {
-      // Step 1: Fetch patient with lock
-      const patient = await tx.patient.findUnique({
-        where: { id: patient_id }
-      })
+      // Patients can only book for themselves
+      const patient_id = auth.userType === 'patient' ? auth.userId : body.patient_id
 
-      if (!patient) {
-        throw new Error('PATIENT_NOT_FOUND')
+      // Validation: Required fields
+      if (!patient_id) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha mgonjwa kinahitajika / Patient ID is required',
+            code: 'MISSING_PATIENT_ID'
+          },
+          { status: 400 }
+        )
       }
 
-      // Step 2: Check rate limit for this phone number
-      const rateLimitCheck = checkRateLimit(patient.phoneNumber)
-      if (rateLimitCheck.isLimited) {
-        throw new Error(`RATE_LIMITED:${rateLimitCheck.message}`)
+      if (!slot_id) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha nafasi kinahitajika / Slot ID is required',
+            code: 'MISSING_SLOT_ID'
+          },
+          { status: 400 }
+        )
       }
 
-      // Step 3: Fetch and lock the slot (FOR UPDATE prevents race conditions)
-      const slot = await tx.$queryRaw`
-        SELECT 
-          s.id, 
-          s.slot_date, 
-          s.start_time, 
-          s.end_time, 
-          s.is_available,
-          s.clinic_id,
-          st.id as staff_id,
-          st.first_name as staff_first_name,
-          st.last_name as staff_last_name,
-          st.role as staff_role
-        FROM appointment_slots s
-        JOIN staff st ON st.id = s.staff_id
-        WHERE s.id = ${slot_id}
-        FOR UPDATE
-      `
-
-      if (!slot || !Array.isArray(slot) || slot.length === 0) {
-        throw new Error('SLOT_NOT_FOUND')
+      if (appointment_type_id !== undefined && !UUIDSchema.safeParse(appointment_type_id).success) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha aina ya miadi sio sahihi / Invalid appointment type ID',
+            code: 'INVALID_APPOINTMENT_TYPE_ID'
+          },
+          { status: 400 }
+        )
       }
 
-      const slotData = slot[0] as {
-        id: string
-        slot_date: Date
-        start_time: string
-        end_time: string
-        is_available: boolean
-        clinic_id: string
-        staff_id: string
-        staff_first_name: string
-        staff_last_name: string
-        staff_role: string
-      }
+      // Execute everything in a transaction for atomicity
+      const result = await prisma.$transaction(async (tx) => {
+        // Step 1: Fetch patient with lock
+        const patient = await tx.patient.findUnique({
+          where: { id: patient_id }
+        })
+
+        if (!patient) {
+          throw new Error('PATIENT_NOT_FOUND')
+        }
+
+        // Step 2: Check rate limit for this phone number
+        const rateLimitCheck = checkRateLimit(patient.phoneNumber)
+        if (rateLimitCheck.isLimited) {
+          throw new Error(`RATE_LIMITED:${rateLimitCheck.message}`)
+        }
+
+        // Step 3: Fetch and lock the slot (FOR UPDATE prevents race conditions)
+        const slot = await tx.$queryRaw`
+          SELECT 
+            s.id, 
+            s.slot_date, 
+            s.start_time, 
+            s.end_time, 
+            s.is_available,
+            s.clinic_id,
+            st.id as staff_id,
+            st.first_name as staff_first_name,
+            st.last_name as staff_last_name,
+            st.role as staff_role,
+            st.specialization as staff_specialization
+          FROM appointment_slots s
+          JOIN staff st ON st.id = s.staff_id
+          WHERE s.id = ${slot_id}
+          FOR UPDATE
+        `
+
+        if (!slot || !Array.isArray(slot) || slot.length === 0) {
+          throw new Error('SLOT_NOT_FOUND')
+        }
+
+        const slotData = slot[0] as {
+          id: string
+          slot_date: Date
+          start_time: string
+          end_time: string
+          is_available: boolean
+          clinic_id: string
+          staff_id: string
+          staff_first_name: string
+          staff_last_name: string
+          staff_role: string
+          staff_specialization: string | null
+        }
 
-      // Step 4: Business rule - Cannot book slot in the past
-      const slotDateTime = new Date(`${slotData.slot_date.toISOString().split('T')[0]}T${slotData.start_time}`)
-      const now = new Date()
+        // Step 4: Business rule - Cannot book slot in the past
+        const slotDateTime = new Date(`${slotData.slot_date.toISOString().split('T')[0]}T${slotData.start_time}`)
+        const now = new Date()
       
-      if (slotDateTime < now) {
-        throw new Error('SLOT_IN_PAST')
-      }
+        if (slotDateTime < now) {
+          throw new Error('SLOT_IN_PAST')
+        }
 
-      // Step 5: Business rule - Cannot double-book
-      if (!slotData.is_available) {
-        throw new Error('SLOT_ALREADY_BOOKED')
-      }
+        // Step 4b: Business rule - Cannot book on a holiday or clinic closure
+        const slotDateString = slotData.slot_date.toISOString().split('T')[0]
+        const closure = await getClinicClosureForDate(slotData.clinic_id, slotDateString, tx)
+        if (closure) {
+          throw new Error(`CLINIC_CLOSED:${closure.reason}`)
+        }
 
-      // Step 6: Check if patient already has an appointment for this slot time
-      const existingAppointment = await tx.appointment.findFirst({
-        where: {
-          patientId: patient_id,
-          slot: {
-            slotDate: slotData.slot_date,
-            startTime: slotData.start_time
-          },
-          status: {
-            notIn: ['CANCELLED', 'NO_SHOW']
-          }
+        // Step 4c: Business rule - Cannot book an absent staff member
+        const absences = await getStaffAbsencesInRange(slotData.clinic_id, slotDateString, slotDateString, tx)
+        if (isStaffAbsent(absences, slotData.staff_id, slotDateString, slotData.start_time, slotData.end_time)) {
+          throw new Error('STAFF_ABSENT')
         }
-      })
 
-      if (existingAppointment) {
-        throw new Error('PATIENT_ALREADY_BOOKED')
-      }
+        // Step 5: Business rule - Cannot double-book
+        if (!slotData.is_available) {
+          throw new Error('SLOT_ALREADY_BOOKED')
+        }
 
-      // Step 7: Mark slot as unavailable
-      await tx.appointmentSlot.update({
-        where: { id: slot_id },
-        data: { isAvailable: false }
-      })
+        // Step 5b: Catalogue type - staff must offer it and enough consecutive slots must be free
+        let appointmentType = null
+        let chain = { slotIds: [slot_id as string], endTime: slotData.end_time }
+
+        if (appointment_type_id) {
+          appointmentType = await tx.appointmentType.findFirst({
+            where: { id: appointment_type_id, clinicId: slotData.clinic_id, isActive: true }
+          })
+
+          if (!appointmentType) {
+            throw new Error('APPOINTMENT_TYPE_NOT_FOUND')
+          }
 
-      // Step 8: Create appointment
-      const appointment = await tx.appointment.create({
-        data: {
-          slotId: slot_id,
-          patientId: patient_id,
-          clinicId: slotData.clinic_id,
-          status: 'BOOKED',
-          appointmentType: 'general',
-          notes: notes || null,
-          reminderSent: false
+          if (
+            appointmentType.allowedSpecializations.length > 0 &&
+            !appointmentType.allowedSpecializations.includes(slotData.staff_specialization ?? '')
+          ) {
+            throw new Error('TYPE_NOT_ALLOWED_FOR_STAFF')
+          }
+
+          chain = await lockSlotChain(tx, slotData, appointmentType.durationMinutes)
+
+          if (isStaffAbsent(absences, slotData.staff_id, slotDateString, slotData.start_time, chain.endTime)) {
+            throw new Error('STAFF_ABSENT')
+          }
         }
-      })
 
-      // Step 9: Record booking attempt for rate limiting
-      recordBookingAttempt(patient.phoneNumber)
-
-      // Step 10: Fetch clinic details
-      const clinic = await tx.clinic.findUnique({
-        where: { id: slotData.clinic_id },
-        select: {
-          id: true,
-          name: true,
-          address: true,
-          phoneNumber: true
+        // Step 6: Check if patient already has an appointment for this slot time
+        const existingAppointment = await tx.appointment.findFirst({
+          where: {
+            patientId: patient_id,
+            slot: {
+              slotDate: slotData.slot_date,
+              startTime: slotData.start_time
+            },
+            status: {
+              notIn: ['CANCELLED', 'NO_SHOW']
+            }
+          }
+        })
+
+        if (existingAppointment) {
+          throw new Error('PATIENT_ALREADY_BOOKED')
         }
-      })
 
-      if (!clinic) {
-        throw new Error('CLINIC_NOT_FOUND')
-      }
+        // Step 7: Mark slot as unavailable
+        await tx.appointmentSlot.update({
+          where: { id: slot_id },
+          data: { isAvailable: false }
+        })
+
+        // Step 8: Create appointment
+        const appointment = await tx.appointment.create({
+          data: {
+            slotId: slot_id,
+            patientId: patient_id,
+            clinicId: slotData.clinic_id,
+            status: 'BOOKED',
+            appointmentType: appointmentType?.code ?? 'general',
+            appointmentTypeId: appointmentType?.id ?? null,
+            notes: notes || null
+          }
+        })
+
+        // Step 8b: Hold the extra slots of a longer type
+        await holdExtraSlots(tx, appointment.id, chain)
 
-      // Return full appointment details
-      return {
-        appointment: {
-          id: appointment.id,
+        // Step 8c: Status history and audit trail
+        await recordStatusChange({
+          appointmentId: appointment.id,
+          clinicId: appointment.clinicId,
           patientId: appointment.patientId,
-          slotId: appointment.slotId,
+          from: null,
+          to: appointment.status
+        }, tx)
+
+        await recordAuditEvent({
+          action: 'APPOINTMENT_CREATED',
+          entityType: 'APPOINTMENT',
+          entityId: appointment.id,
           clinicId: appointment.clinicId,
-          status: appointment.status,
-          appointmentType: appointment.appointmentType,
-          notes: appointment.notes,
-          createdAt: appointment.createdAt.toISOString(),
-          updatedAt: appointment.updatedAt.toISOString(),
-          patient: {
-            id: patient.id,
-            firstName: patient.firstName,
-            lastName: patient.lastName,
-            phoneNumber: patient.phoneNumber
-          },
-          slot: {
-            id: slotData.id,
-            slot_date: slotData.slot_date.toISOString().split('T')[0],
-            start_time: slotData.start_time,
-            end_time: slotData.end_time,
-            staff: {
-              id: slotData.staff_id,
-              first_name: slotData.staff_first_name,
-              last_name: slotData.staff_last_name,
-              role: slotData.staff_role
+          appointmentId: appointment.id,
+          patientId: appointment.patientId,
+          changes: createdChanges({
+            status: appointment.status,
+            slotId: appointment.slotId,
+            appointmentType: appointment.appointmentType,
+            notes: appointment.notes
+          })
+        }, tx)
+
+        // Step 9: Record booking attempt for rate limiting
+        recordBookingAttempt(patient.phoneNumber)
+
+        // Step 10: Fetch clinic details
+        const clinic = await tx.clinic.findUnique({
+          where: { id: slotData.clinic_id },
+          select: {
+            id: true,
+            name: true,
+            address: true,
+            phoneNumber: true
+          }
+        })
+
+        if (!clinic) {
+          throw new Error('CLINIC_NOT_FOUND')
+        }
+
+        // Return full appointment details
+        return {
+          appointment: {
+            id: appointment.id,
+            patientId: appointment.patientId,
+            slotId: appointment.slotId,
+            clinicId: appointment.clinicId,
+            status: appointment.status,
+            appointmentType: appointment.appointmentType,
+            appointmentTypeId: appointment.appointmentTypeId,
+            endTime: chain.endTime,
+            notes: appointment.notes,
+            createdAt: appointment.createdAt.toISOString(),
+            updatedAt: appointment.updatedAt.toISOString(),
+            patient: {
+              id: patient.id,
+              firstName: patient.firstName,
+              lastName: patient.lastName,
+              phoneNumber: patient.phoneNumber
+            },
+            slot: {
+              id: slotData.id,
+              slot_date: slotData.slot_date.toISOString().split('T')[0],
+              start_time: slotData.start_time,
+              end_time: slotData.end_time,
+              staff: {
+                id: slotData.staff_id,
+                first_name: slotData.staff_first_name,
+                last_name: slotData.staff_last_name,
+                role: slotData.staff_role
+              }
+            },
+            clinic: {
+              id: clinic.id,
+              name: clinic.name,
+              address: clinic.address,
+              phoneNumber: clinic.phoneNumber
             }
-          },
-          clinic: {
-            id: clinic.id,
-            name: clinic.name,
-            address: clinic.address,
-            phoneNumber: clinic.phoneNumber
           }
         }
-      }
-    }, {
-      // Transaction options
-      isolationLevel: 'Serializable', // Highest isolation level for race condition protection
-      maxWait: 5000, // Maximum time to wait for transaction lock
-      timeout: 10000 // Maximum time for transaction to complete
-    })
+      }, {
+        // Transaction options
+        isolationLevel: 'Serializable', // Highest isolation level for race condition protection
+        maxWait: 5000, // Maximum time to wait for transaction lock
+        timeout: 10000 // Maximum time for transaction to complete
+      })
 
-    return NextResponse.json(result, { status: 201 })
+      return NextResponse.json(result, { status: 201 })
 
-  } catch (error) {
-    console.error('Error creating appointment:', error)
+    } catch (error) {
+      console.error('Error creating appointment:', error)
     
-    // Handle specific error cases
-    if (error instanceof Error) {
-      const errorMessage = error.message
+      // Handle specific error cases
+      if (error instanceof Error) {
+        const errorMessage = error.message
       
-      // Rate limited
-      if (errorMessage.startsWith('RATE_LIMITED:')) {
-        return NextResponse.json(
-          {
-            error: errorMessage.replace('RATE_LIMITED:', ''),
-            code: 'RATE_LIMITED'
-          },
-          { status: 429 }
-        )
-      }
+        // Rate limited
+        if (errorMessage.startsWith('RATE_LIMITED:')) {
+          return NextResponse.json(
+            {
+              error: errorMessage.replace('RATE_LIMITED:', ''),
+              code: 'RATE_LIMITED'
+            },
+            { status: 429 }
+          )
+        }
       
-      // Patient not found
-      if (errorMessage === 'PATIENT_NOT_FOUND') {
-        return NextResponse.json(
-          {
-            error: 'Mgonjwa hajapatikana / Patient not found',
-            code: 'PATIENT_NOT_FOUND'
-          },
-          { status: 404 }
-        )
-      }
+        // Patient not found
+        if (errorMessage === 'PATIENT_NOT_FOUND') {
+          return NextResponse.json(
+            {
+              error: 'Mgonjwa hajapatikana / Patient not found',
+              code: 'PATIENT_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
       
-      // Slot not found
-      if (errorMessage === 'SLOT_NOT_FOUND') {
-        return NextResponse.json(
-          {
-            error: 'Nafasi haijapatikana / Slot not found',
-            code: 'SLOT_NOT_FOUND'
-          },
-          { status: 404 }
-        )
-      }
+        // Slot not found
+        if (errorMessage === 'SLOT_NOT_FOUND') {
+          return NextResponse.json(
+            {
+              error: 'Nafasi haijapatikana / Slot not found',
+              code: 'SLOT_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
       
-      // Slot in past
-      if (errorMessage === 'SLOT_IN_PAST') {
-        return NextResponse.json(
-          {
-            error: 'Haiwezi kufanya booking kwa nafasi iliyopita / Cannot book a slot in the past',
-            code: 'SLOT_IN_PAST'
-          },
-          { status: 400 }
-        )
-      }
+        // Slot in past
+        if (errorMessage === 'SLOT_IN_PAST') {
+          return NextResponse.json(
+            {
+              error: 'Haiwezi kufanya booking kwa nafasi iliyopita / Cannot book a slot in the past',
+              code: 'SLOT_IN_PAST'
+            },
+            { status: 400 }
+          )
+        }
+      
+        // Clinic closed on the slot's date
+        if (errorMessage.startsWith('CLINIC_CLOSED:')) {
+          const reason = errorMessage.replace('CLINIC_CLOSED:', '')
+          return NextResponse.json(
+            {
+              error: `Kliniki imefungwa siku hii (${reason}) / Clinic is closed on this day (${reason})`,
+              code: 'CLINIC_CLOSED'
+            },
+            { status: 409 }
+          )
+        }
+      
+        // Staff member away during the slot
+        if (errorMessage === 'STAFF_ABSENT') {
+          return NextResponse.json(
+            {
+              error: 'Mhudumu hayupo wakati huu. Chagua nafasi nyingine / Staff member is not available at this time. Choose another slot',
+              code: 'STAFF_ABSENT'
+            },
+            { status: 409 }
+          )
+        }
+      
+        // Slot already booked (race condition)
+        if (errorMessage === 'SLOT_ALREADY_BOOKED') {
+          return NextResponse.json(
+            {
+              error: 'Nafasi tayari imechukuliwa / Slot is already booked',
+              code: 'SLOT_ALREADY_BOOKED'
+            },
+            { status: 409 }
+          )
+        }
+      
+        // Patient already booked
+        if (errorMessage === 'PATIENT_ALREADY_BOOKED') {
+          return NextResponse.json(
+            {
+              error: 'Mgonjwa tayari ana miadi kwa muda huu / Patient already has an appointment at this time',
+              code: 'PATIENT_ALREADY_BOOKED'
+            },
+            { status: 409 }
+          )
+        }
+      
+        // Appointment type not in this clinic's active catalogue
+        if (errorMessage === 'APPOINTMENT_TYPE_NOT_FOUND') {
+          return NextResponse.json(
+            {
+              error: 'Aina ya miadi haijapatikana / Appointment type not found',
+              code: 'APPOINTMENT_TYPE_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
+      
+        // Staff member does not offer this type
+        if (errorMessage === 'TYPE_NOT_ALLOWED_FOR_STAFF') {
+          return NextResponse.json(
+            {
+              error: 'Mhudumu huyu hatoi huduma hii. Chagua mhudumu mwingine / This staff member does not offer this appointment type. Choose another',
+              code: 'TYPE_NOT_ALLOWED_FOR_STAFF'
+            },
+            { status: 409 }
+          )
+        }
       
-      // Slot already booked (race condition)
-      if (errorMessage === 'SLOT_ALREADY_BOOKED') {
+        // Not enough consecutive free slots for a longer type
+        if (errorMessage === 'TYPE_DOES_NOT_FIT') {
+          return NextResponse.json(
+            {
+              error: 'Hakuna nafasi za kutosha mfululizo kwa huduma hii / Not enough consecutive free slots for this appointment type',
+              code: 'TYPE_DOES_NOT_FIT'
+            },
+            { status: 409 }
+          )
+        }
+      
+        // Clinic not found
+        if (errorMessage === 'CLINIC_NOT_FOUND') {
+          return NextResponse.json(
+            {
+              error: 'Kliniki haijapatikana / Clinic not found',
+              code: 'CLINIC_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
+      }
+    
+      // Database constraint violation (unique constraint on slot_id)
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
         return NextResponse.json(
           {
             error: 'Nafasi tayari imechukuliwa / Slot is already booked',
@@ -293,48 +508,15 @@ export async function POST(request: NextRequest) {
           { status: 409 }
         )
       }
-      
-      // Patient already booked
-      if (errorMessage === 'PATIENT_ALREADY_BOOKED') {
-        return NextResponse.json(
-          {
-            error: 'Mgonjwa tayari ana miadi kwa muda huu / Patient already has an appointment at this time',
-            code: 'PATIENT_ALREADY_BOOKED'
-          },
-          { status: 409 }
-        )
-      }
-      
-      // Clinic not found
-      if (errorMessage === 'CLINIC_NOT_FOUND') {
-        return NextResponse.json(
-          {
-            error: 'Kliniki haijapatikana / Clinic not found',
-            code: 'CLINIC_NOT_FOUND'
-          },
-          { status: 404 }
-        )
-      }
-    }
     
-    // Database constraint violation (unique constraint on slot_id)
-    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      // Generic error
       return NextResponse.json(
         {
-          error: 'Nafasi tayari imechukuliwa / Slot is already booked',
-          code: 'SLOT_ALREADY_BOOKED'
+          error: 'Hitilafu katika kutengeneza miadi / Error creating appointment',
+          code: 'INTERNAL_ERROR'
         },
-        { status: 409 }
+        { status: 500 }
       )
     }
-    
-    // Generic error
-    return NextResponse.json(
-      {
-        error: 'Hitilafu katika kutengeneza miadi / Error creating appointment',
-        code: 'INTERNAL_ERROR'
-      },
-      { status: 500 }
-    )
   }
-}
+)
@@ -1,18 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
 import { format } from 'date-fns'
 import { calculateDuration } from '@/lib/date-utils'
-import { requireAuth } from '@/lib/auth/middleware'
+import { withPermission, clinicFromQuery } from '@/lib/auth/guard'
 
 /**
  * GET /api/appointments/today
  * 
  * Returns all appointments for today for a specific clinic.
- * Requires clinic authentication.
+ * Requires the appointment:view permission for that clinic.
  * 
  * Query Parameters:
- * - clinic_id (required): UUID of the clinic
+ * - clinic_id (optional): UUID of the clinic, defaults to the session's clinic
  * - status (optional): Filter by status (booked, confirmed, checked_in, etc.)
  * - staff_id (optional): Filter by staff member
  * 
@@ -53,205 +53,201 @@ import { requireAuth } from '@/lib/auth/middleware'
  *   date: string
  * }
  */
-export async function GET(request: NextRequest) {
-  try {
-    // Require clinic authentication
-    const authResult = requireAuth(request, { requiredType: 'clinic' })
-    if (!authResult.success) {
-      return authResult.response
-    }
-    const auth = authResult.auth
-
-    // Get query parameters
-    const searchParams = request.nextUrl.searchParams
-    const clinicId = searchParams.get('clinic_id') || auth.clinicId
-    const statusFilter = searchParams.get('status')
-    const staffIdFilter = searchParams.get('staff_id')
+export const GET = withPermission(
+  { permission: 'appointment:view', clinic: clinicFromQuery('clinic_id') },
+  async (request, { auth }) => {
+    try {
+      // Get query parameters
+      const searchParams = request.nextUrl.searchParams
+      const clinicId = searchParams.get('clinic_id') || auth.clinicId
+      const statusFilter = searchParams.get('status')
+      const staffIdFilter = searchParams.get('staff_id')
 
-    // Validation: Required parameters
-    if (!clinicId) {
-      return NextResponse.json(
-        {
-          error: 'Kitambulisho cha kliniki kinahitajika / Clinic ID is required',
-          code: 'MISSING_CLINIC_ID'
-        },
-        { status: 400 }
-      )
-    }
+      // Validation: Required parameters
+      if (!clinicId) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha kliniki kinahitajika / Clinic ID is required',
+            code: 'MISSING_CLINIC_ID'
+          },
+          { status: 400 }
+        )
+      }
 
-    // Validate UUID format
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[4][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
-    if (!uuidRegex.test(clinicId)) {
-      return NextResponse.json(
-        {
-          error: 'Kitambulisho cha kliniki sio sahihi / Invalid clinic ID format',
-          code: 'INVALID_CLINIC_ID'
-        },
-        { status: 400 }
-      )
-    }
+      // Validate UUID format
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[4][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+      if (!uuidRegex.test(clinicId)) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha kliniki sio sahihi / Invalid clinic ID format',
+            code: 'INVALID_CLINIC_ID'
+          },
+          { status: 400 }
+        )
+      }
 
-    // Get today's date in Tanzania timezone (EAT = UTC+3)
-    const tanzaniaTime = new Date(new Date().toLocaleString('en-US', { timeZone: 'Africa/Dar_es_Salaam' }))
-    const startOfDay = new Date(tanzaniaTime.getFullYear(), tanzaniaTime.getMonth(), tanzaniaTime.getDate(), 0, 0, 0)
-    const endOfDay = new Date(tanzaniaTime.getFullYear(), tanzaniaTime.getMonth(), tanzaniaTime.getDate(), 23, 59, 59, 999)
+      // Get today's date in Tanzania timezone (EAT = UTC+3)
+      const tanzaniaTime = new Date(new Date().toLocaleString('en-US', { timeZone: 'Africa/Dar_es_Salaam' }))
+      const startOfDay = new Date(tanzaniaTime.getFullYear(), tanzaniaTime.getMonth(), tanzaniaTime.getDate(), 0, 0, 0)
+      const endOfDay = new Date(tanzaniaTime.getFullYear(), tanzaniaTime.getMonth(), tanzaniaTime.getDate(), 23, 59, 59, 999)
 
-    // Build where clause using Prisma types
-    const whereClause: Prisma.AppointmentWhereInput = {
-      clinicId: clinicId,
-      slot: {
-        slotDate: {
-          gte: startOfDay,
-          lte: endOfDay
+      // Build where clause using Prisma types
+      const whereClause: Prisma.AppointmentWhereInput = {
+        clinicId: clinicId,
+        slot: {
+          slotDate: {
+            gte: startOfDay,
+            lte: endOfDay
+          }
         }
       }
-    }
 
-    // Add status filter if provided
-    if (statusFilter) {
-      const validStatuses = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT', 'CHECKED_IN', 'COMPLETED', 'CANCELLED', 'NO_SHOW']
-      const normalizedStatus = statusFilter.toUpperCase()
+      // Add status filter if provided
+      if (statusFilter) {
+        const validStatuses = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT', 'CHECKED_IN', 'COMPLETED', 'CANCELLED', 'NO_SHOW']
+        const normalizedStatus = statusFilter.toUpperCase()
       
-      if (validStatuses.includes(normalizedStatus)) {
-        whereClause.status = normalizedStatus as 'BOOKED' | 'CONFIRMED' | 'REMINDER_SENT' | 'CHECKED_IN' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW'
+        if (validStatuses.includes(normalizedStatus)) {
+          whereClause.status = normalizedStatus as 'BOOKED' | 'CONFIRMED' | 'REMINDER_SENT' | 'CHECKED_IN' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW'
+        }
       }
-    }
 
-    // Add staff filter if provided
-    if (staffIdFilter) {
-      if (!uuidRegex.test(staffIdFilter)) {
-        return NextResponse.json(
-          {
-            error: 'Kitambulisho cha mtaalamu sio sahihi / Invalid staff ID format',
-            code: 'INVALID_STAFF_ID'
-          },
-          { status: 400 }
-        )
+      // Add staff filter if provided
+      if (staffIdFilter) {
+        if (!uuidRegex.test(staffIdFilter)) {
+          return NextResponse.json(
+            {
+              error: 'Kitambulisho cha mtaalamu sio sahihi / Invalid staff ID format',
+              code: 'INVALID_STAFF_ID'
+            },
+            { status: 400 }
+          )
+        }
+        // Type-safe way to add staffId to the slot filter
+        const slotFilter = whereClause.slot as { slotDate: { gte: Date; lte: Date }; staffId?: string }
+        slotFilter.staffId = staffIdFilter
+        whereClause.slot = slotFilter
       }
-      // Type-safe way to add staffId to the slot filter
-      const slotFilter = whereClause.slot as { slotDate: { gte: Date; lte: Date }; staffId?: string }
-      slotFilter.staffId = staffIdFilter
-      whereClause.slot = slotFilter
-    }
 
-    // Fetch appointments
-    const appointments = await prisma.appointment.findMany({
-      where: whereClause,
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phoneNumber: true
-          }
-        },
-        slot: {
-          select: {
-            id: true,
-            startTime: true,
-            endTime: true,
-            staff: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                role: true
+      // Fetch appointments
+      const appointments = await prisma.appointment.findMany({
+        where: whereClause,
+        include: {
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              phoneNumber: true
+            }
+          },
+          slot: {
+            select: {
+              id: true,
+              startTime: true,
+              endTime: true,
+              staff: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  role: true
+                }
               }
             }
           }
-        }
-      },
-      orderBy: [
-        { slot: { startTime: 'asc' } }
-      ]
-    })
+        },
+        orderBy: [
+          { slot: { startTime: 'asc' } }
+        ]
+      })
 
-    // Calculate summary statistics
-    const summary = {
-      total: appointments.length,
-      byStatus: {} as Record<string, number>,
-      checkedIn: 0,
-      pending: 0,
-      completed: 0,
-      cancelled: 0
-    }
+      // Calculate summary statistics
+      const summary = {
+        total: appointments.length,
+        byStatus: {} as Record<string, number>,
+        checkedIn: 0,
+        pending: 0,
+        completed: 0,
+        cancelled: 0
+      }
 
-    appointments.forEach(apt => {
-      // Count by status
-      summary.byStatus[apt.status] = (summary.byStatus[apt.status] || 0) + 1
+      appointments.forEach(apt => {
+        // Count by status
+        summary.byStatus[apt.status] = (summary.byStatus[apt.status] || 0) + 1
       
-      // Calculate checked in
-      if (apt.status === 'CHECKED_IN' || apt.status === 'COMPLETED') {
-        summary.checkedIn++
-      }
+        // Calculate checked in
+        if (apt.status === 'CHECKED_IN' || apt.status === 'COMPLETED') {
+          summary.checkedIn++
+        }
       
-      // Calculate pending (booked or confirmed but not yet checked in)
-      if (apt.status === 'BOOKED' || apt.status === 'CONFIRMED' || apt.status === 'REMINDER_SENT') {
-        summary.pending++
-      }
+        // Calculate pending (booked or confirmed but not yet checked in)
+        if (apt.status === 'BOOKED' || apt.status === 'CONFIRMED' || apt.status === 'REMINDER_SENT') {
+          summary.pending++
+        }
       
-      // Calculate completed
-      if (apt.status === 'COMPLETED') {
-        summary.completed++
-      }
+        // Calculate completed
+        if (apt.status === 'COMPLETED') {
+          summary.completed++
+        }
       
-      // Calculate cancelled
-      if (apt.status === 'CANCELLED' || apt.status === 'NO_SHOW') {
-        summary.cancelled++
-      }
-    })
+        // Calculate cancelled
+        if (apt.status === 'CANCELLED' || apt.status === 'NO_SHOW') {
+          summary.cancelled++
+        }
+      })
 
-    // Format appointments for response
-    const formattedAppointments = appointments.map(apt => ({
-      id: apt.id,
-      status: apt.status,
-      appointmentType: apt.appointmentType,
-      notes: apt.notes,
-      createdAt: apt.createdAt.toISOString(),
-      patient: apt.patient ? {
-        id: apt.patient.id,
-        firstName: apt.patient.firstName,
-        lastName: apt.patient.lastName,
-        phoneNumber: apt.patient.phoneNumber
-      } : null,
-      slot: apt.slot ? {
-        id: apt.slot.id,
-        startTime: apt.slot.startTime,
-        endTime: apt.slot.endTime,
-        durationMinutes: calculateDuration(apt.slot.startTime, apt.slot.endTime)
-      } : null,
-      staff: apt.slot?.staff || null
-    }))
+      // Format appointments for response
+      const formattedAppointments = appointments.map(apt => ({
+        id: apt.id,
+        status: apt.status,
+        appointmentType: apt.appointmentType,
+        notes: apt.notes,
+        createdAt: apt.createdAt.toISOString(),
+        patient: apt.patient ? {
+          id: apt.patient.id,
+          firstName: apt.patient.firstName,
+          lastName: apt.patient.lastName,
+          phoneNumber: apt.patient.phoneNumber
+        } : null,
+        slot: apt.slot ? {
+          id: apt.slot.id,
+          startTime: apt.slot.startTime,
+          endTime: apt.slot.endTime,
+          durationMinutes: calculateDuration(apt.slot.startTime, apt.slot.endTime)
+        } : null,
+        staff: apt.slot?.staff || null
+      }))
 
-    return NextResponse.json({
-      appointments: formattedAppointments,
-      summary: {
-        total: summary.total,
-        byStatus: summary.byStatus,
-        checkedIn: summary.checkedIn,
-        pending: summary.pending,
-        completed: summary.completed,
-        cancelled: summary.cancelled
-      },
-      clinicId: clinicId,
-      date: format(tanzaniaTime, 'yyyy-MM-dd'),
-      filters: {
-        status: statusFilter || null,
-        staffId: staffIdFilter || null
-      }
-    })
+      return NextResponse.json({
+        appointments: formattedAppointments,
+        summary: {
+          total: summary.total,
+          byStatus: summary.byStatus,
+          checkedIn: summary.checkedIn,
+          pending: summary.pending,
+          completed: summary.completed,
+          cancelled: summary.cancelled
+        },
+        clinicId: clinicId,
+        date: format(tanzaniaTime, 'yyyy-MM-dd'),
+        filters: {
+          status: statusFilter || null,
+          staffId: staffIdFilter || null
+        }
+      })
 
-  } catch (error) {
-    console.error('Error fetching today\'s appointments:', error)
+    } catch (error) {
+      console.error('Error fetching today\'s appointments:', error)
     
-    return NextResponse.json(
-      {
-        error: 'Hitilafu katika kupata miadi ya leo / Error fetching today\'s appointments',
-        code: 'INTERNAL_ERROR'
-      },
-      { status: 500 }
-    )
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kupata miadi ya leo / Error fetching today\'s appointments',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
   }
-}
+)
 
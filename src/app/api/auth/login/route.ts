@@ -1,127 +1,151 @@
 /**
  * POST /api/auth/login
- * Clinic authentication with bcrypt password hashing
- * Clinic credentials stored in environment variables
- * Format: CLINIC_CREDENTIALS={"clinic-id": "hashed_password", ...}
- * 
- * To hash a password for the env var:
- * node -e "const bcrypt=require('bcryptjs'); console.log(bcrypt.hashSync('your-password', 12))"
+ * Staff login with a personal user account (email + bcrypt password)
+ *
+ * Request Body:
+ * {
+ *   email: string (required)
+ *   password: string (required)
+ *   clinicId?: string (optional) - Super admins choose the clinic to open;
+ *                                  everyone else is tied to their own clinic
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   clinicId: string,
+ *   clinicName: string,
+ *   role: UserRole
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body, or a super admin without a home clinic sent no clinicId (CLINIC_REQUIRED)
+ * - 401: Unknown email, wrong password or deactivated account
+ * - 403: The user has no clinic, or the clinic is inactive
+ * - 500: Database error
+ *
+ * Accounts are managed from Settings > Users (/api/clinics/[id]/users);
+ * bootstrap the first admin with scripts/create-user.ts.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { verifyPassword, createJWT } from '@/lib/auth/auth-service'
+import { verifyPassword } from '@/lib/auth/auth-service'
+import { createSession, setSessionCookie, SESSION_COOKIES } from '@/lib/auth/session-service'
+import { getRequestClient } from '@/lib/auth/middleware'
 import { logger } from '@/lib/logger'
 import { validateBody } from '@/lib/validation/helpers'
 import { ClinicLoginSchema } from '@/lib/validation/schemas'
+import { withSystemAccess } from '@/lib/auth/guard'
 
-// Parse clinic credentials from env
-// Format: CLINIC_CREDENTIALS={"clinic-001": "$2a$12$...", "clinic-002": "$2a$12$..."}
-const getClinicCredentials = (): Record<string, string> => {
-  try {
-    const creds = process.env.CLINIC_CREDENTIALS
-    if (!creds) {
-      logger.error('CLINIC_CREDENTIALS not set')
-      return {}
-    }
-    return JSON.parse(creds)
-  } catch {
-    logger.error('Invalid CLINIC_CREDENTIALS format')
-    return {}
-  }
+const INVALID_CREDENTIALS = {
+  error: 'Barua pepe au nenosiri si sahihi / Invalid email or password',
+  code: 'INVALID_CREDENTIALS'
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withSystemAccess(async (request: NextRequest) => {
   try {
     // Validate request body using Zod
     const validation = await validateBody(request, ClinicLoginSchema)
-    
+
     if (!validation.success) {
       return validation.error
     }
 
-    const { clinicId, password } = validation.data
-    const normalizedClinicId = clinicId.trim()
+    const { email, password, clinicId: requestedClinicId } = validation.data
 
-    const credentials = getClinicCredentials()
-    const storedHash = credentials[normalizedClinicId]
-    
-    if (!storedHash) {
-      logger.warn('Login attempt for unknown clinic', { clinicId: normalizedClinicId })
-      return NextResponse.json(
-        { error: 'Invalid credentials' },
-        { status: 401 }
-      )
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, passwordHash: true, role: true, clinicId: true, isActive: true }
+    })
+
+    if (!user || !user.isActive) {
+      logger.warn('Login attempt for unknown or inactive user', { email })
+      return NextResponse.json(INVALID_CREDENTIALS, { status: 401 })
     }
-    
+
     // Verify password using bcrypt (timing-safe comparison)
-    const isValid = await verifyPassword(password, storedHash)
-    
+    const isValid = await verifyPassword(password, user.passwordHash)
+
     if (!isValid) {
-      logger.warn('Failed login attempt', { clinicId: normalizedClinicId })
-      return NextResponse.json(
-        { error: 'Invalid credentials' },
-        { status: 401 }
-      )
+      logger.warn('Failed login attempt', { userId: user.id })
+      return NextResponse.json(INVALID_CREDENTIALS, { status: 401 })
     }
 
-    // Credentials can be an alias (e.g. demo-clinic), while dashboard expects DB clinic UUID.
-    // Resolve to a real clinic ID for routing/session.
-    let dashboardClinicId = normalizedClinicId
-
-    const clinicById = await prisma.clinic.findUnique({
-      where: { id: normalizedClinicId },
-      select: { id: true, name: true }
-    })
-
-    if (!clinicById) {
-      const fallbackClinic = await prisma.clinic.findFirst({
-        where: { isActive: true },
-        orderBy: { createdAt: 'asc' },
-        select: { id: true, name: true }
-      })
+    // Only super admins may open a clinic other than their own
+    const clinicId = user.role === 'SUPER_ADMIN'
+      ? requestedClinicId ?? user.clinicId
+      : user.clinicId
 
-      if (!fallbackClinic) {
+    if (!clinicId) {
+      if (user.role === 'SUPER_ADMIN') {
         return NextResponse.json(
-          { error: 'No active clinic found in database' },
-          { status: 500 }
+          {
+            error: 'Chagua kliniki ya kufungua / Choose the clinic to open',
+            code: 'CLINIC_REQUIRED'
+          },
+          { status: 400 }
         )
       }
 
-      dashboardClinicId = fallbackClinic.id
+      logger.warn('Login for user without a clinic', { userId: user.id })
+      return NextResponse.json(
+        {
+          error: 'Akaunti yako haijaunganishwa na kliniki / Your account is not linked to a clinic',
+          code: 'NO_CLINIC'
+        },
+        { status: 403 }
+      )
+    }
+
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinicId },
+      select: { id: true, name: true, isActive: true }
+    })
+
+    if (!clinic || !clinic.isActive) {
+      return NextResponse.json(
+        {
+          error: 'Kliniki haipatikani au imesimamishwa / Clinic not found or inactive',
+          code: 'CLINIC_INACTIVE'
+        },
+        { status: 403 }
+      )
     }
 
-    // Create JWT token
-    const token = createJWT({
-      clinicId: dashboardClinicId,
-      type: 'clinic'
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() }
     })
 
+    // Open a server-side session and sign its JWT
+    const { token } = await createSession(
+      { type: 'clinic', userId: user.id, role: user.role, clinicId: clinic.id },
+      getRequestClient(request)
+    )
+
     // Set session cookie with JWT
     const response = NextResponse.json({
       success: true,
-      clinicId: dashboardClinicId,
-      credentialClinicId: normalizedClinicId,
-      clinicName: clinicById?.name
-    })
-    
-    // Set secure HTTP-only cookie (expires in 8 hours)
-    response.cookies.set('clinic_session', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 60 * 60 * 8, // 8 hours
-      path: '/'
+      clinicId: clinic.id,
+      clinicName: clinic.name,
+      role: user.role
     })
 
-    logger.info('Clinic login successful', { clinicId: dashboardClinicId })
+    // Set secure HTTP-only cookie
+    setSessionCookie(response, SESSION_COOKIES.clinic, token)
+
+    logger.info('Clinic login successful', { userId: user.id, clinicId: clinic.id, role: user.role })
     return response
 
   } catch (error) {
     logger.error('Login error', { error: error instanceof Error ? error.message : String(error) })
     return NextResponse.json(
-      { error: 'Authentication failed' },
+      {
+        error: 'Hitilafu isiyotarajiwa / Unexpected error',
+        code: 'INTERNAL_ERROR'
+      },
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,37 @@
+/**
+ * POST /api/auth/logout
+ * Staff logout - revokes the session and clears the clinic_session cookie
+ *
+ * Response (200):
+ * {
+ *   success: true
+ * }
+ *
+ * Always succeeds, so a client with an expired or revoked session can
+ * still clear its cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getClinicAuthFromToken } from '@/lib/auth/middleware'
+import { revokeSession, clearSessionCookie, SESSION_COOKIES } from '@/lib/auth/session-service'
+import { withSystemAccess } from '@/lib/auth/guard'
+import { logger } from '@/lib/logger'
+
+export const POST = withSystemAccess(async (request: NextRequest) => {
+  const token = request.cookies.get(SESSION_COOKIES.clinic)?.value
+  const auth = token ? getClinicAuthFromToken(token) : null
+
+  if (auth) {
+    try {
+      await revokeSession(auth.sessionId, 'LOGOUT')
+      logger.info('Clinic logout', { userId: auth.userId, sessionId: auth.sessionId })
+    } catch (error) {
+      logger.error('Logout error', { error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const response = NextResponse.json({ success: true })
+  clearSessionCookie(response, SESSION_COOKIES.clinic)
+
+  return response
+})
@@ -0,0 +1,104 @@
+/**
+ * Single Appointment Type API
+ *
+ * PATCH  /api/clinics/[id]/appointment-types/[typeId] - Change name, duration, colour, specializations or active flag
+ * DELETE /api/clinics/[id]/appointment-types/[typeId] - Retire the type (kept for existing appointments)
+ *
+ * Changing the duration only affects new bookings; existing appointments
+ * keep the slots they already hold.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { UpdateAppointmentTypeSchema } from '@/lib/validation/schemas'
+
+function appointmentTypeNotFound() {
+  return NextResponse.json(
+    {
+      error: 'Aina ya miadi haijapatikana / Appointment type not found',
+      code: 'APPOINTMENT_TYPE_NOT_FOUND'
+    },
+    { status: 404 }
+  )
+}
+
+// PATCH /api/clinics/[id]/appointment-types/[typeId]
+export const PATCH = withPermission<{ id: string; typeId: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, typeId } = await params
+
+      const validation = await validateBody(request, UpdateAppointmentTypeSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { count } = await prisma.appointmentType.updateMany({
+        where: { id: typeId, clinicId: id },
+        data: validation.data
+      })
+
+      if (count === 0) {
+        return appointmentTypeNotFound()
+      }
+
+      const appointmentType = await prisma.appointmentType.findUnique({
+        where: { id: typeId }
+      })
+
+      return NextResponse.json({
+        success: true,
+        appointmentType,
+        message: 'Aina ya miadi imehifadhiwa / Appointment type saved'
+      })
+
+    } catch (error) {
+      console.error('Error updating appointment type:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi aina ya miadi / Error saving appointment type',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// DELETE /api/clinics/[id]/appointment-types/[typeId]
+export const DELETE = withPermission<{ id: string; typeId: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, typeId } = await params
+
+      // Soft delete: appointments booked with the type still reference it
+      const { count } = await prisma.appointmentType.updateMany({
+        where: { id: typeId, clinicId: id },
+        data: { isActive: false }
+      })
+
+      if (count === 0) {
+        return appointmentTypeNotFound()
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Aina ya miadi imeondolewa / Appointment type removed'
+      })
+
+    } catch (error) {
+      console.error('Error removing appointment type:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuondoa aina ya miadi / Error removing appointment type',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
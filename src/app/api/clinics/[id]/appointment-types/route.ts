@@ -0,0 +1,133 @@
+/**
+ * Appointment Types API
+ *
+ * GET  /api/clinics/[id]/appointment-types - The clinic's catalogue (active only by default)
+ * POST /api/clinics/[id]/appointment-types - Add a type
+ *
+ * A type's duration decides how many consecutive slots a booking takes;
+ * allowedSpecializations limits which staff can be booked for it.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody, validateQuery } from '@/lib/validation/helpers'
+import { CreateAppointmentTypeSchema, GetAppointmentTypesQuerySchema } from '@/lib/validation/schemas'
+
+// GET /api/clinics/[id]/appointment-types?include_inactive=true
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = validateQuery(request.nextUrl.searchParams, GetAppointmentTypesQuerySchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const appointmentTypes = await prisma.appointmentType.findMany({
+        where: {
+          clinicId: id,
+          ...(validation.data.include_inactive !== 'true' && { isActive: true })
+        },
+        orderBy: { name: 'asc' }
+      })
+
+      return NextResponse.json({ appointmentTypes })
+
+    } catch (error) {
+      console.error('Error fetching appointment types:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * POST /api/clinics/[id]/appointment-types
+ *
+ * Request Body:
+ * {
+ *   code: string (required) - Unique per clinic, lowercase, e.g. "antenatal_first"
+ *   name: string (required) - Display label
+ *   durationMinutes: number (required) - 5 to 480
+ *   color?: string (optional) - #RRGGBB, default teal
+ *   allowedSpecializations?: string[] (optional) - Staff specializations, empty = any
+ * }
+ *
+ * Response (201):
+ * {
+ *   appointmentType: { id, code, name, durationMinutes, color, allowedSpecializations, isActive, ... }
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Clinic not found
+ * - 409: Code already used in this clinic
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, CreateAppointmentTypeSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const appointmentType = await prisma.appointmentType.create({
+        data: {
+          clinicId: id,
+          ...validation.data
+        }
+      })
+
+      return NextResponse.json({ appointmentType }, { status: 201 })
+
+    } catch (error) {
+      console.error('Error creating appointment type:', error)
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        // Unique constraint on (clinic_id, code)
+        if (error.code === 'P2002') {
+          return NextResponse.json(
+            {
+              error: 'Msimbo huu tayari unatumika / This code is already in use',
+              code: 'APPOINTMENT_TYPE_EXISTS'
+            },
+            { status: 409 }
+          )
+        }
+
+        // Foreign key violation: clinic does not exist
+        if (error.code === 'P2003') {
+          return NextResponse.json(
+            {
+              error: 'Kliniki haijapatikana / Clinic not found',
+              code: 'CLINIC_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi aina ya miadi / Error saving appointment type',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
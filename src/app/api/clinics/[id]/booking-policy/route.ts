@@ -0,0 +1,121 @@
+/**
+ * Clinic Booking Policy API
+ *
+ * GET   /api/clinics/[id]/booking-policy - Current patient reschedule policy
+ * PATCH /api/clinics/[id]/booking-policy - Change cutoff and/or reschedule limit
+ *
+ * The policy only limits patients rescheduling through the portal;
+ * staff can still move appointments from the dashboard at any time.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { UpdateBookingPolicySchema } from '@/lib/validation/schemas'
+
+function clinicNotFound() {
+  return NextResponse.json(
+    {
+      error: 'Kliniki haijapatikana / Clinic not found',
+      code: 'CLINIC_NOT_FOUND'
+    },
+    { status: 404 }
+  )
+}
+
+// GET /api/clinics/[id]/booking-policy
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const clinic = await prisma.clinic.findUnique({
+        where: { id },
+        select: { rescheduleCutoffHours: true, maxReschedules: true }
+      })
+
+      if (!clinic) {
+        return clinicNotFound()
+      }
+
+      return NextResponse.json(clinic)
+
+    } catch (error) {
+      console.error('Error fetching booking policy:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * PATCH /api/clinics/[id]/booking-policy
+ *
+ * Request Body (at least one field):
+ * {
+ *   rescheduleCutoffHours?: number - Hours before the appointment after which patients cannot move it (0-168)
+ *   maxReschedules?: number - Patient moves allowed per appointment (0-10, 0 disables self-service)
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   rescheduleCutoffHours: number,
+ *   maxReschedules: number,
+ *   message: string
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Clinic not found
+ * - 500: Database error
+ */
+export const PATCH = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, UpdateBookingPolicySchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const updated = await prisma.clinic.update({
+        where: { id },
+        data: validation.data,
+        select: { rescheduleCutoffHours: true, maxReschedules: true }
+      })
+
+      return NextResponse.json({
+        success: true,
+        ...updated,
+        message: 'Sera ya miadi imehifadhiwa / Booking policy saved'
+      })
+
+    } catch (error) {
+      console.error('Error updating booking policy:', error)
+
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+        return clinicNotFound()
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi sera ya miadi / Error saving booking policy',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
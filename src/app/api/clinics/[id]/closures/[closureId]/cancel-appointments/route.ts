@@ -0,0 +1,242 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { CancelClosureAppointmentsSchema } from '@/lib/validation/schemas'
+import { findAppointmentsAffectedByClosure } from '@/lib/closures/closure-service'
+import { releaseAppointmentSlots } from '@/lib/appointments/slot-reservation'
+import { recordAuditEvents } from '@/lib/audit/audit-service'
+import { recordStatusChanges } from '@/lib/appointments/status-history'
+import { sendSMS, isSmsConfigured } from '@/lib/sms/sms-service'
+import { mapMessageTypeToSmsType } from '@/lib/sms/message-templates'
+import { generateClinicMessage } from '@/lib/messaging/template-service'
+import { logger } from '@/lib/logger'
+
+/**
+ * POST /api/clinics/[id]/closures/[closureId]/cancel-appointments
+ *
+ * Bulk-cancels appointments booked on the closure's days and, by default,
+ * sends each patient a CANCELLATION SMS asking them to call and rebook.
+ * Only appointments actually affected by the closure can be cancelled here.
+ *
+ * Request Body:
+ * {
+ *   appointmentIds?: string[] (optional) - Subset to cancel, defaults to all affected
+ *   notifyPatients?: boolean (optional, default true) - Send cancellation SMS
+ * }
+ *
+ * Response:
+ * {
+ *   cancelled: number,
+ *   notified: number,
+ *   notifyFailed: number,
+ *   appointmentIds: string[]
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body, appointment not affected by this closure
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Closure not found
+ * - 409: Appointments changed since they were listed
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string; closureId: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, closureId } = await params
+
+      const validation = await validateBody(request, CancelClosureAppointmentsSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { appointmentIds, notifyPatients } = validation.data
+
+      const closure = await prisma.clinicClosure.findFirst({
+        where: { id: closureId, clinicId: id },
+        include: {
+          clinic: {
+            select: { name: true, phoneNumber: true, address: true }
+          }
+        }
+      })
+
+      if (!closure) {
+        throw new Error('CLOSURE_NOT_FOUND')
+      }
+
+      const affected = await findAppointmentsAffectedByClosure(
+        id,
+        closure.startDate.toISOString().split('T')[0],
+        closure.endDate.toISOString().split('T')[0]
+      )
+
+      const affectedIds = new Set(affected.map(a => a.id))
+      if (appointmentIds && appointmentIds.some(appointmentId => !affectedIds.has(appointmentId))) {
+        throw new Error('APPOINTMENT_NOT_AFFECTED')
+      }
+
+      const toCancel = appointmentIds
+        ? affected.filter(a => appointmentIds.includes(a.id))
+        : affected
+
+      if (toCancel.length === 0) {
+        return NextResponse.json({ cancelled: 0, notified: 0, notifyFailed: 0, appointmentIds: [] })
+      }
+
+      const cancelIds = toCancel.map(a => a.id)
+
+      await prisma.$transaction(async (tx) => {
+        const cancelledAt = new Date()
+        const cancellationReason = `Kliniki imefungwa / Clinic closed: ${closure.reason}`
+
+        // Status filter guards against appointments changed since we listed them
+        const updated = await tx.appointment.updateMany({
+          where: {
+            id: { in: cancelIds },
+            status: { in: ['BOOKED', 'CONFIRMED', 'REMINDER_SENT'] }
+          },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt,
+            cancellationReason
+          }
+        })
+
+        if (updated.count !== cancelIds.length) {
+          throw new Error('APPOINTMENTS_CHANGED')
+        }
+
+        // Free the slots, same as any other cancellation
+        await releaseAppointmentSlots(tx, cancelIds)
+
+        await recordStatusChanges(toCancel.map(appointment => ({
+          appointmentId: appointment.id,
+          clinicId: id,
+          patientId: appointment.patient.id,
+          from: appointment.status,
+          to: 'CANCELLED',
+          reason: cancellationReason
+        })), tx)
+
+        await recordAuditEvents(toCancel.map(appointment => ({
+          action: 'APPOINTMENT_CANCELLED',
+          entityType: 'APPOINTMENT',
+          entityId: appointment.id,
+          clinicId: id,
+          appointmentId: appointment.id,
+          patientId: appointment.patient.id,
+          changes: {
+            status: { from: appointment.status, to: 'CANCELLED' },
+            cancelledAt: { from: null, to: cancelledAt.toISOString() },
+            cancellationReason: { from: null, to: cancellationReason }
+          }
+        })), tx)
+      }, {
+        isolationLevel: 'Serializable',
+        maxWait: 5000,
+        timeout: 10000
+      })
+
+      let notified = 0
+      let notifyFailed = 0
+
+      if (notifyPatients && isSmsConfigured()) {
+        for (const appointment of toCancel) {
+          const messageContent = await generateClinicMessage(id, {
+            type: 'CANCELLATION',
+            patient: {
+              firstName: appointment.patient.firstName,
+              lastName: appointment.patient.lastName,
+              language: (appointment.patient.language as 'sw' | 'en') || 'sw'
+            },
+            appointment: {
+              date: appointment.date,
+              time: appointment.startTime,
+              doctorName: `Dr. ${appointment.staff.firstName} ${appointment.staff.lastName}`,
+              doctorRole: appointment.staff.role,
+              clinicName: closure.clinic.name,
+              clinicPhone: closure.clinic.phoneNumber,
+              address: closure.clinic.address || undefined
+            }
+          })
+
+          const result = await sendSMS({
+            to: appointment.patient.phoneNumber,
+            message: messageContent.primary,
+            type: mapMessageTypeToSmsType('CANCELLATION'),
+            appointmentId: appointment.id,
+            patientId: appointment.patient.id,
+            clinicId: id
+          })
+
+          if (result.success) {
+            notified++
+          } else {
+            notifyFailed++
+          }
+        }
+      }
+
+      logger.info('Closure appointments cancelled', {
+        clinicId: id,
+        closureId,
+        cancelled: cancelIds.length,
+        notified,
+        notifyFailed
+      })
+
+      return NextResponse.json({
+        cancelled: cancelIds.length,
+        notified,
+        notifyFailed,
+        appointmentIds: cancelIds
+      })
+
+    } catch (error) {
+      console.error('Error cancelling closure appointments:', error)
+
+      if (error instanceof Error) {
+        if (error.message === 'CLOSURE_NOT_FOUND') {
+          return NextResponse.json(
+            {
+              error: 'Siku ya kufunga haijapatikana / Closure not found',
+              code: 'CLOSURE_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
+
+        if (error.message === 'APPOINTMENT_NOT_AFFECTED') {
+          return NextResponse.json(
+            {
+              error: 'Miadi moja au zaidi haiko katika siku za kufunga / One or more appointments are not on the closed days',
+              code: 'APPOINTMENT_NOT_AFFECTED'
+            },
+            { status: 400 }
+          )
+        }
+
+        if (error.message === 'APPOINTMENTS_CHANGED') {
+          return NextResponse.json(
+            {
+              error: 'Miadi imebadilika. Tafadhali pakia upya / Appointments changed. Please reload',
+              code: 'APPOINTMENTS_CHANGED'
+            },
+            { status: 409 }
+          )
+        }
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kughairi miadi / Error cancelling appointments',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,100 @@
+/**
+ * Single Clinic Closure API
+ *
+ * GET    /api/clinics/[id]/closures/[closureId] - Closure with the appointments it affects
+ * DELETE /api/clinics/[id]/closures/[closureId] - Reopen the clinic on those days
+ *
+ * Slots are not generated for closed days; after a closure is removed the
+ * next generate-slots run (or a manual generate) fills in any missing ones.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { findAppointmentsAffectedByClosure } from '@/lib/closures/closure-service'
+
+function closureNotFound() {
+  return NextResponse.json(
+    {
+      error: 'Siku ya kufunga haijapatikana / Closure not found',
+      code: 'CLOSURE_NOT_FOUND'
+    },
+    { status: 404 }
+  )
+}
+
+// GET /api/clinics/[id]/closures/[closureId]
+export const GET = withPermission<{ id: string; closureId: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, closureId } = await params
+
+      const closure = await prisma.clinicClosure.findFirst({
+        where: { id: closureId, clinicId: id }
+      })
+
+      if (!closure) {
+        return closureNotFound()
+      }
+
+      const startDate = closure.startDate.toISOString().split('T')[0]
+      const endDate = closure.endDate.toISOString().split('T')[0]
+      const affectedAppointments = await findAppointmentsAffectedByClosure(id, startDate, endDate)
+
+      return NextResponse.json({
+        closure: {
+          id: closure.id,
+          startDate,
+          endDate,
+          reason: closure.reason,
+          createdAt: closure.createdAt.toISOString()
+        },
+        affectedAppointments
+      })
+
+    } catch (error) {
+      console.error('Error fetching closure:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// DELETE /api/clinics/[id]/closures/[closureId]
+export const DELETE = withPermission<{ id: string; closureId: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, closureId } = await params
+
+      const { count } = await prisma.clinicClosure.deleteMany({
+        where: { id: closureId, clinicId: id }
+      })
+
+      if (count === 0) {
+        return closureNotFound()
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Siku ya kufunga imeondolewa / Closure removed'
+      })
+
+    } catch (error) {
+      console.error('Error deleting closure:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuondoa siku ya kufunga / Error removing closure',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
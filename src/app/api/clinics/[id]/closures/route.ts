@@ -0,0 +1,165 @@
+/**
+ * Clinic Closures API
+ *
+ * GET  /api/clinics/[id]/closures - Closures and public holidays in a date range
+ * POST /api/clinics/[id]/closures - Add an ad-hoc closure
+ *
+ * Public holidays are built in and cannot be added or removed here.
+ * Creating a closure over existing bookings does not cancel them; the
+ * affected appointments are returned so staff can cancel or move them.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody, validateQuery } from '@/lib/validation/helpers'
+import { CreateClosureSchema, GetClosuresQuerySchema } from '@/lib/validation/schemas'
+import { addDaysToDateString, toSlotDate } from '@/lib/date-utils'
+import { getTanzaniaDateString } from '@/lib/timezone'
+import { getTanzaniaHolidaysInRange } from '@/lib/closures/tanzania-holidays'
+import { findAppointmentsAffectedByClosure } from '@/lib/closures/closure-service'
+import { CALENDAR_LIST_DEFAULT_DAYS } from '@/lib/constants'
+
+// GET /api/clinics/[id]/closures?from=YYYY-MM-DD&to=YYYY-MM-DD
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = validateQuery(request.nextUrl.searchParams, GetClosuresQuerySchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const from = validation.data.from ?? getTanzaniaDateString()
+      const to = validation.data.to ?? addDaysToDateString(from, CALENDAR_LIST_DEFAULT_DAYS - 1)
+
+      const closures = await prisma.clinicClosure.findMany({
+        where: {
+          clinicId: id,
+          startDate: { lte: toSlotDate(to) },
+          endDate: { gte: toSlotDate(from) }
+        },
+        orderBy: { startDate: 'asc' }
+      })
+
+      return NextResponse.json({
+        from,
+        to,
+        closures: closures.map(closure => ({
+          id: closure.id,
+          startDate: closure.startDate.toISOString().split('T')[0],
+          endDate: closure.endDate.toISOString().split('T')[0],
+          reason: closure.reason,
+          createdAt: closure.createdAt.toISOString()
+        })),
+        holidays: getTanzaniaHolidaysInRange(from, to)
+      })
+
+    } catch (error) {
+      console.error('Error fetching closures:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * POST /api/clinics/[id]/closures
+ *
+ * Request Body:
+ * {
+ *   startDate: string (required) - First closed day, YYYY-MM-DD
+ *   endDate?: string (optional) - Last closed day, defaults to startDate
+ *   reason: string (required) - Shown to staff and patients
+ * }
+ *
+ * Response:
+ * {
+ *   closure: { id, startDate, endDate, reason, createdAt },
+ *   affectedAppointments: Array<{ id, status, date, startTime, endTime, patient, staff }>
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body, closure in the past
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Clinic not found
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, CreateClosureSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { startDate, reason } = validation.data
+      const endDate = validation.data.endDate ?? startDate
+
+      if (endDate < getTanzaniaDateString()) {
+        return NextResponse.json(
+          {
+            error: 'Tarehe imepita. Chagua tarehe ya leo au baadaye / Date is in the past. Select today or a future date',
+            code: 'PAST_DATE'
+          },
+          { status: 400 }
+        )
+      }
+
+      const closure = await prisma.clinicClosure.create({
+        data: {
+          clinicId: id,
+          startDate: toSlotDate(startDate),
+          endDate: toSlotDate(endDate),
+          reason
+        }
+      })
+
+      const affectedAppointments = await findAppointmentsAffectedByClosure(id, startDate, endDate)
+
+      return NextResponse.json({
+        closure: {
+          id: closure.id,
+          startDate,
+          endDate,
+          reason: closure.reason,
+          createdAt: closure.createdAt.toISOString()
+        },
+        affectedAppointments
+      }, { status: 201 })
+
+    } catch (error) {
+      console.error('Error creating closure:', error)
+
+      // Foreign key violation: clinic does not exist
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2003') {
+        return NextResponse.json(
+          {
+            error: 'Kliniki haijapatikana / Clinic not found',
+            code: 'CLINIC_NOT_FOUND'
+          },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi siku ya kufunga / Error saving closure',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
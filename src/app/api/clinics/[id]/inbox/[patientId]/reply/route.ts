@@ -0,0 +1,74 @@
+/**
+ * POST /api/clinics/[id]/inbox/[patientId]/reply
+ * Answer a patient on the channel of their latest message (SMS or
+ * WhatsApp). The reply is logged in sms_logs and shows in the thread. It
+ * goes out at once, even outside the clinic's sending hours or after the
+ * patient opted out, since it answers their own message.
+ *
+ * Request Body:
+ * {
+ *   message: string - 1 to 1000 characters
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   channel: 'SMS' | 'WHATSAPP'
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: No inbox access, or another clinic
+ * - 404: No messages from this patient to this clinic
+ * - 502: The provider did not accept the message
+ * - 500: Database error
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { InboxReplySchema } from '@/lib/validation/schemas'
+import { replyToConversation } from '@/lib/messaging/inbox-service'
+import { inboxErrorResponse } from '@/lib/messaging/inbox-errors'
+
+export const POST = withPermission<{ id: string; patientId: string }>(
+  { permission: 'inbox:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, patientId } = await params
+
+      const validation = await validateBody(request, InboxReplySchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { channel } = await replyToConversation({
+        clinicId: id,
+        patientId,
+        message: validation.data.message
+      })
+
+      return NextResponse.json({
+        success: true,
+        channel,
+        message: 'Ujumbe umetumwa / Reply sent'
+      })
+
+    } catch (error) {
+      const mapped = inboxErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error replying to conversation:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kutuma ujumbe / Error sending reply',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,58 @@
+/**
+ * POST /api/clinics/[id]/inbox/[patientId]/resolve
+ * Mark a patient's thread resolved. The next message from the patient
+ * reopens it.
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   resolved: number - Messages marked resolved (0 if already resolved)
+ * }
+ *
+ * Error Responses:
+ * - 401: Not logged in
+ * - 403: No inbox access, or another clinic
+ * - 404: No messages from this patient to this clinic
+ * - 500: Database error
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { resolveConversation } from '@/lib/messaging/inbox-service'
+import { inboxErrorResponse } from '@/lib/messaging/inbox-errors'
+
+export const POST = withPermission<{ id: string; patientId: string }>(
+  { permission: 'inbox:manage', clinic: clinicFromParam('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id, patientId } = await params
+
+      const resolved = await resolveConversation({
+        clinicId: id,
+        patientId,
+        resolvedById: auth.userId
+      })
+
+      return NextResponse.json({
+        success: true,
+        resolved,
+        message: 'Mazungumzo yamekamilika / Conversation resolved'
+      })
+
+    } catch (error) {
+      const mapped = inboxErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error resolving conversation:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,57 @@
+/**
+ * GET /api/clinics/[id]/inbox/[patientId]
+ * One patient's thread: their SMS/WhatsApp messages and the messages the
+ * clinic sent them (reminders, confirmations, replies), oldest first.
+ *
+ * Response (200):
+ * {
+ *   conversation: {
+ *     patientId, patientName, phoneNumber, language,
+ *     channel: 'SMS' | 'WHATSAPP' - Replies go out on it
+ *     isOpen: boolean,
+ *     messages: [
+ *       { id, direction: 'inbound', channel, body, intent, outcome, at }
+ *       | { id, direction: 'outbound', body, messageType, status, at }
+ *     ]
+ *   }
+ * }
+ *
+ * Error Responses:
+ * - 401: Not logged in
+ * - 403: No inbox access, or another clinic
+ * - 404: Patient not found, or no messages from them to this clinic
+ * - 500: Database error
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { getConversation } from '@/lib/messaging/inbox-service'
+import { inboxErrorResponse } from '@/lib/messaging/inbox-errors'
+
+export const GET = withPermission<{ id: string; patientId: string }>(
+  { permission: 'inbox:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, patientId } = await params
+
+      const conversation = await getConversation(id, patientId)
+
+      return NextResponse.json({ conversation })
+
+    } catch (error) {
+      const mapped = inboxErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error fetching conversation:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,57 @@
+/**
+ * GET /api/clinics/[id]/inbox?status=open|resolved|all
+ * The clinic's patient message threads, most recent first. Defaults to
+ * open threads (any unresolved message).
+ *
+ * Response (200):
+ * {
+ *   status: 'open' | 'resolved' | 'all',
+ *   conversations: [{
+ *     patientId, patientName, phoneNumber,
+ *     channel: 'SMS' | 'WHATSAPP' - Of the latest message
+ *     lastMessage, lastMessageAt,
+ *     openCount: number - Unresolved messages
+ *   }]
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid status
+ * - 401: Not logged in
+ * - 403: No inbox access, or another clinic
+ * - 500: Database error
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateQuery } from '@/lib/validation/helpers'
+import { GetInboxQuerySchema } from '@/lib/validation/schemas'
+import { listConversations } from '@/lib/messaging/inbox-service'
+
+export const GET = withPermission<{ id: string }>(
+  { permission: 'inbox:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = validateQuery(request.nextUrl.searchParams, GetInboxQuerySchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { status } = validation.data
+      const conversations = await listConversations(id, status)
+
+      return NextResponse.json({ status, conversations })
+
+    } catch (error) {
+      console.error('Error fetching inbox:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
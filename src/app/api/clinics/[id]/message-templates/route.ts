@@ -0,0 +1,136 @@
+/**
+ * Message Templates API
+ *
+ * GET    /api/clinics/[id]/message-templates - Every message type in Swahili and English, as the clinic sends it
+ * PUT    /api/clinics/[id]/message-templates - Save the clinic's wording for a type and language
+ * DELETE /api/clinics/[id]/message-templates?type=...&language=... - Go back to the built-in wording
+ *
+ * Templates use {{placeholders}} (patient_name, date, time, doctor_name,
+ * clinic_name, clinic_phone, address), checked against the message type
+ * when saved. WhatsApp template messages keep their approved wording.
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody, validateQuery } from '@/lib/validation/helpers'
+import { ResetMessageTemplateQuerySchema, UpsertMessageTemplateSchema } from '@/lib/validation/schemas'
+import { listMessageTemplates, resetMessageTemplate, saveMessageTemplate } from '@/lib/messaging/template-service'
+
+// GET /api/clinics/[id]/message-templates
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const templates = await listMessageTemplates(id)
+
+      return NextResponse.json({ templates })
+
+    } catch (error) {
+      console.error('Error fetching message templates:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * PUT /api/clinics/[id]/message-templates
+ *
+ * Request Body:
+ * {
+ *   type: 'BOOKING_CONFIRMATION' | 'REMINDER_ADVANCE' | 'REMINDER_24H' | 'REMINDER_1H'
+ *       | 'RESCHEDULE' | 'CANCELLATION' | 'CHECK_IN_CONFIRMATION' (required)
+ *   language: 'sw' | 'en' (required)
+ *   body: string (required) - Up to 612 characters; unknown or missing
+ *                             placeholders are rejected per field in details
+ * }
+ *
+ * Response:
+ * {
+ *   template: { type, language, body, defaultBody, isCustom: true, updatedAt }
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body or placeholders
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 500: Database error
+ */
+export const PUT = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, UpsertMessageTemplateSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const template = await saveMessageTemplate(id, validation.data, auth.userId)
+
+      return NextResponse.json({
+        template,
+        message: 'Ujumbe umehifadhiwa / Template saved'
+      })
+
+    } catch (error) {
+      console.error('Error saving message template:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi ujumbe / Error saving template',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * DELETE /api/clinics/[id]/message-templates?type=REMINDER_24H&language=sw
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   reset: boolean - False if the clinic was already using the default
+ * }
+ */
+export const DELETE = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = validateQuery(request.nextUrl.searchParams, ResetMessageTemplateQuerySchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const reset = await resetMessageTemplate(id, validation.data.type, validation.data.language)
+
+      return NextResponse.json({
+        success: true,
+        reset,
+        message: 'Ujumbe wa kawaida umerejeshwa / Default wording restored'
+      })
+
+    } catch (error) {
+      console.error('Error resetting message template:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
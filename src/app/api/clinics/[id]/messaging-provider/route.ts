@@ -0,0 +1,151 @@
+/**
+ * Clinic Messaging Provider API
+ *
+ * GET   /api/clinics/[id]/messaging-provider - The clinic's SMS gateway and the ones available
+ * PATCH /api/clinics/[id]/messaging-provider - Choose a gateway, or null for the MESSAGING_PROVIDER default
+ *
+ * Only configured providers can be chosen; the fake provider is never
+ * configured in production.
+ */
+
+import { NextResponse } from 'next/server'
+import type { MessagingProviderName } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { UpdateMessagingProviderSchema } from '@/lib/validation/schemas'
+import { getDefaultProvider, getProviderByName, listProviders } from '@/lib/messaging/provider-registry'
+
+function clinicNotFound() {
+  return NextResponse.json(
+    {
+      error: 'Kliniki haijapatikana / Clinic not found',
+      code: 'CLINIC_NOT_FOUND'
+    },
+    { status: 404 }
+  )
+}
+
+function providerSettings(messagingProvider: MessagingProviderName | null) {
+  const fallback = getDefaultProvider()
+
+  return {
+    messagingProvider,
+    defaultProvider: fallback.name,
+    effectiveProvider: messagingProvider ?? fallback.name,
+    providers: listProviders().map(provider => ({
+      name: provider.name,
+      channels: provider.channels,
+      configured: provider.isConfigured()
+    }))
+  }
+}
+
+/**
+ * GET /api/clinics/[id]/messaging-provider
+ *
+ * Response:
+ * {
+ *   messagingProvider: 'TWILIO' | 'AFRICASTALKING' | 'BEEM' | 'FAKE' | null,
+ *   defaultProvider: string - From MESSAGING_PROVIDER
+ *   effectiveProvider: string - The one this clinic's messages use
+ *   providers: [{ name, channels, configured }]
+ * }
+ */
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const clinic = await prisma.clinic.findUnique({
+        where: { id },
+        select: { messagingProvider: true }
+      })
+
+      if (!clinic) {
+        return clinicNotFound()
+      }
+
+      return NextResponse.json(providerSettings(clinic.messagingProvider))
+
+    } catch (error) {
+      console.error('Error fetching messaging provider:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * PATCH /api/clinics/[id]/messaging-provider
+ *
+ * Request Body:
+ * {
+ *   messagingProvider: 'TWILIO' | 'AFRICASTALKING' | 'BEEM' | 'FAKE' | null
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Clinic not found
+ * - 409: The provider has no credentials on this server
+ * - 500: Database error
+ */
+export const PATCH = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, UpdateMessagingProviderSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { messagingProvider } = validation.data
+      if (messagingProvider && !getProviderByName(messagingProvider).isConfigured()) {
+        return NextResponse.json(
+          {
+            error: 'Huduma hii ya ujumbe haijasanidiwa / This messaging provider is not configured',
+            code: 'PROVIDER_NOT_CONFIGURED'
+          },
+          { status: 409 }
+        )
+      }
+
+      const updated = await prisma.clinic.update({
+        where: { id },
+        data: { messagingProvider },
+        select: { messagingProvider: true }
+      })
+
+      return NextResponse.json({
+        success: true,
+        ...providerSettings(updated.messagingProvider),
+        message: 'Huduma ya ujumbe imehifadhiwa / Messaging provider saved'
+      })
+
+    } catch (error) {
+      console.error('Error updating messaging provider:', error)
+
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+        return clinicNotFound()
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi huduma ya ujumbe / Error saving messaging provider',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
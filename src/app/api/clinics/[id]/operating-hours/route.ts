@@ -0,0 +1,123 @@
+/**
+ * Clinic Operating Hours API
+ *
+ * GET /api/clinics/[id]/operating-hours - Current hours (with validation issues, if any)
+ * PUT /api/clinics/[id]/operating-hours - Replace hours after validation
+ *
+ * Hours are stored as a JSON string on Clinic.operatingHours and drive
+ * slot generation, so they are always validated against OperatingHoursSchema.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { OperatingHoursSchema, UpdateOperatingHoursSchema } from '@/lib/validation/schemas'
+
+// GET /api/clinics/[id]/operating-hours
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const clinic = await prisma.clinic.findUnique({
+        where: { id },
+        select: { operatingHours: true, timezone: true }
+      })
+
+      if (!clinic) {
+        return NextResponse.json(
+          {
+            error: 'Kliniki haijapatikana / Clinic not found',
+            code: 'CLINIC_NOT_FOUND'
+          },
+          { status: 404 }
+        )
+      }
+
+      // Return stored hours even when invalid so the editor can repair them
+      let stored: unknown = null
+      try {
+        stored = JSON.parse(clinic.operatingHours)
+      } catch {
+        stored = null
+      }
+
+      const validation = OperatingHoursSchema.safeParse(stored)
+
+      return NextResponse.json({
+        operatingHours: stored,
+        timezone: clinic.timezone,
+        valid: validation.success,
+        details: validation.success
+          ? undefined
+          : validation.error.issues.map(issue => ({
+              field: issue.path.join('.'),
+              message: issue.message
+            }))
+      })
+
+    } catch (error) {
+      console.error('Error fetching operating hours:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// PUT /api/clinics/[id]/operating-hours
+export const PUT = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, UpdateOperatingHoursSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { operatingHours } = validation.data
+
+      const updated = await prisma.clinic.update({
+        where: { id },
+        data: { operatingHours: JSON.stringify(operatingHours) },
+        select: { id: true, operatingHours: true, updatedAt: true }
+      })
+
+      return NextResponse.json({
+        success: true,
+        operatingHours: JSON.parse(updated.operatingHours),
+        updatedAt: updated.updatedAt.toISOString(),
+        message: 'Saa za kazi zimehifadhiwa / Operating hours saved'
+      })
+
+    } catch (error) {
+      console.error('Error updating operating hours:', error)
+
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+        return NextResponse.json(
+          {
+            error: 'Kliniki haijapatikana / Clinic not found',
+            code: 'CLINIC_NOT_FOUND'
+          },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi saa za kazi / Error saving operating hours',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
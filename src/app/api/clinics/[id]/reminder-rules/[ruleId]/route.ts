@@ -0,0 +1,86 @@
+/**
+ * Single Reminder Rule API
+ *
+ * PATCH  /api/clinics/[id]/reminder-rules/[ruleId] - Change offset, channel, wording, quiet hours or active flag
+ * DELETE /api/clinics/[id]/reminder-rules/[ruleId] - Retire the rule (its sent reminders are kept)
+ *
+ * Changing a rule's offset does not resend reminders it already sent.
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { UpdateReminderRuleSchema } from '@/lib/validation/schemas'
+import { updateReminderRule } from '@/lib/reminders/reminder-rules'
+import { reminderErrorResponse } from '@/lib/reminders/reminder-errors'
+
+// PATCH /api/clinics/[id]/reminder-rules/[ruleId]
+export const PATCH = withPermission<{ id: string; ruleId: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, ruleId } = await params
+
+      const validation = await validateBody(request, UpdateReminderRuleSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const reminderRule = await updateReminderRule(id, ruleId, validation.data)
+
+      return NextResponse.json({
+        success: true,
+        reminderRule,
+        message: 'Kumbusho limehifadhiwa / Reminder saved'
+      })
+
+    } catch (error) {
+      const mapped = reminderErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error updating reminder rule:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi kumbusho / Error saving reminder',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// DELETE /api/clinics/[id]/reminder-rules/[ruleId]
+export const DELETE = withPermission<{ id: string; ruleId: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, ruleId } = await params
+
+      // Soft delete: appointment_reminders keep pointing at the rule
+      await updateReminderRule(id, ruleId, { isActive: false })
+
+      return NextResponse.json({
+        success: true,
+        message: 'Kumbusho limeondolewa / Reminder removed'
+      })
+
+    } catch (error) {
+      const mapped = reminderErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error removing reminder rule:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuondoa kumbusho / Error removing reminder',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
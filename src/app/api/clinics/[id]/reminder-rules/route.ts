@@ -0,0 +1,97 @@
+/**
+ * Reminder Rules API
+ *
+ * GET  /api/clinics/[id]/reminder-rules - The clinic's reminder rules, active first
+ * POST /api/clinics/[id]/reminder-rules - Add a rule
+ *
+ * A rule sends a reminder offsetHours before each appointment. The hourly
+ * reminder cron sends whatever is due (see src/lib/reminders/reminder-engine.ts).
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { CreateReminderRuleSchema } from '@/lib/validation/schemas'
+import { createReminderRule, listReminderRules } from '@/lib/reminders/reminder-rules'
+import { reminderErrorResponse } from '@/lib/reminders/reminder-errors'
+
+// GET /api/clinics/[id]/reminder-rules
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const reminderRules = await listReminderRules(id)
+
+      return NextResponse.json({ reminderRules })
+
+    } catch (error) {
+      console.error('Error fetching reminder rules:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * POST /api/clinics/[id]/reminder-rules
+ *
+ * Request Body:
+ * {
+ *   offsetHours: number (required) - Hours before the appointment, 1 to 336
+ *   template: 'DAY_BEFORE' | 'SAME_DAY' | 'UPCOMING' (required) - Message wording
+ *   channel?: 'SMS' | 'WHATSAPP' | 'BOTH' | 'PREFERRED' (optional) - Default SMS
+ *   quietHoursStart?: string | null (optional) - "HH:MM" EAT, set with quietHoursEnd
+ *   quietHoursEnd?: string | null (optional) - "HH:MM" EAT, may be past midnight
+ * }
+ *
+ * Response (201):
+ * {
+ *   reminderRule: { id, offsetHours, channel, template, quietHoursStart, quietHoursEnd, isActive, ... }
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 409: A rule already uses this offset, or the clinic has the most active rules allowed
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, CreateReminderRuleSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const reminderRule = await createReminderRule(id, validation.data)
+
+      return NextResponse.json({ reminderRule }, { status: 201 })
+
+    } catch (error) {
+      const mapped = reminderErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error creating reminder rule:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi kumbusho / Error saving reminder',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
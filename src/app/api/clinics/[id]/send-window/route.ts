@@ -0,0 +1,121 @@
+/**
+ * Clinic Sending Hours API
+ *
+ * GET   /api/clinics/[id]/send-window - When the clinic's patient messages may go out
+ * PATCH /api/clinics/[id]/send-window - Change the hours, or null both to send at any time
+ *
+ * Messages due outside the hours wait for them to begin; day-before
+ * reminders go out before they end instead. OTPs are always sent at once.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { UpdateSendWindowSchema } from '@/lib/validation/schemas'
+
+function clinicNotFound() {
+  return NextResponse.json(
+    {
+      error: 'Kliniki haijapatikana / Clinic not found',
+      code: 'CLINIC_NOT_FOUND'
+    },
+    { status: 404 }
+  )
+}
+
+/**
+ * GET /api/clinics/[id]/send-window
+ *
+ * Response:
+ * {
+ *   sendWindowStart: string | null - "HH:MM" EAT
+ *   sendWindowEnd: string | null - "HH:MM" EAT, may be past midnight
+ * }
+ */
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const clinic = await prisma.clinic.findUnique({
+        where: { id },
+        select: { sendWindowStart: true, sendWindowEnd: true }
+      })
+
+      if (!clinic) {
+        return clinicNotFound()
+      }
+
+      return NextResponse.json(clinic)
+
+    } catch (error) {
+      console.error('Error fetching sending hours:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * PATCH /api/clinics/[id]/send-window
+ *
+ * Request Body:
+ * {
+ *   sendWindowStart: string | null - "HH:MM" EAT
+ *   sendWindowEnd: string | null - "HH:MM" EAT
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body, only one of the two set, or both the same
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Clinic not found
+ * - 500: Database error
+ */
+export const PATCH = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, UpdateSendWindowSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const updated = await prisma.clinic.update({
+        where: { id },
+        data: validation.data,
+        select: { sendWindowStart: true, sendWindowEnd: true }
+      })
+
+      return NextResponse.json({
+        success: true,
+        ...updated,
+        message: 'Saa za kutuma zimehifadhiwa / Sending hours saved'
+      })
+
+    } catch (error) {
+      console.error('Error updating sending hours:', error)
+
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+        return clinicNotFound()
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi saa za kutuma / Error saving sending hours',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
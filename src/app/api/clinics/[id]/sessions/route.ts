@@ -0,0 +1,49 @@
+/**
+ * DELETE /api/clinics/[id]/sessions
+ * Sign every staff member out of the clinic, e.g. after a security
+ * incident. The admin's own current session is kept.
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   revoked: number - Sessions ended
+ * }
+ *
+ * Error Responses:
+ * - 401: Not logged in
+ * - 403: Not an admin of this clinic
+ * - 500: Database error
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { revokeClinicSessions } from '@/lib/auth/session-service'
+import { logger } from '@/lib/logger'
+
+export const DELETE = withPermission<{ id: string }>(
+  { permission: 'user:manage', clinic: clinicFromParam('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id } = await params
+
+      const revoked = await revokeClinicSessions(id, 'ADMIN', auth.sessionId)
+      logger.info('Clinic sessions revoked', { clinicId: id, userId: auth.userId, revoked })
+
+      return NextResponse.json({
+        success: true,
+        revoked,
+        message: 'Watumiaji wote wameondolewa / Everyone has been signed out'
+      })
+
+    } catch (error) {
+      console.error('Error revoking clinic sessions:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuwaondoa watumiaji / Error signing out users',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
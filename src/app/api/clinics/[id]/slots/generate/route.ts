@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { generateSlotsForClinic } from '@/lib/slots/slot-generation-service'
+import { validateBody } from '@/lib/validation/helpers'
+import { GenerateSlotsSchema } from '@/lib/validation/schemas'
+
+/**
+ * POST /api/clinics/[id]/slots/generate
+ *
+ * Creates appointment slots for every active staff member from the clinic's
+ * operating hours, for a rolling horizon starting today (or startDate).
+ * Safe to re-run: slots that already exist are skipped, never duplicated.
+ * Public holidays and clinic closures are skipped.
+ *
+ * Request Body:
+ * {
+ *   weeks?: number (optional, 1-12, default 4) - How far ahead to generate
+ *   startDate?: string (optional) - First date in YYYY-MM-DD format
+ *   dryRun?: boolean (optional) - Report what would be created without writing
+ * }
+ *
+ * Response:
+ * {
+ *   clinicId: string,
+ *   startDate: string,
+ *   endDate: string,
+ *   created: number,
+ *   skipped: number,
+ *   dryRun: boolean,
+ *   days: Array<{ date, weekday, created, skipped, closed, closureReason? }>
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body or operating hours
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Clinic not found
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  { permission: 'settings:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, GenerateSlotsSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { weeks, startDate, dryRun } = validation.data
+
+      const result = await generateSlotsForClinic(id, {
+        startDate,
+        days: weeks * 7,
+        dryRun
+      })
+
+      return NextResponse.json(result, { status: dryRun ? 200 : 201 })
+
+    } catch (error) {
+      console.error('Error generating slots:', error)
+
+      if (error instanceof Error) {
+        if (error.message === 'CLINIC_NOT_FOUND') {
+          return NextResponse.json(
+            {
+              error: 'Kliniki haijapatikana / Clinic not found',
+              code: 'CLINIC_NOT_FOUND'
+            },
+            { status: 404 }
+          )
+        }
+
+        if (error.message === 'INVALID_OPERATING_HOURS') {
+          return NextResponse.json(
+            {
+              error: 'Saa za kazi za kliniki sio sahihi / Clinic operating hours are invalid',
+              code: 'INVALID_OPERATING_HOURS'
+            },
+            { status: 400 }
+          )
+        }
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kutengeneza nafasi / Error generating slots',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,112 @@
+/**
+ * Single Staff Absence API
+ *
+ * GET    /api/clinics/[id]/staff-absences/[absenceId] - Absence with appointments needing reassignment
+ * DELETE /api/clinics/[id]/staff-absences/[absenceId] - Staff member is back; slots show again
+ *
+ * Slots are not generated during an absence; after one is removed the next
+ * generate-slots run (or a manual generate) fills in any missing ones.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { findAppointmentsNeedingReassignment } from '@/lib/staff/absence-service'
+
+function absenceNotFound() {
+  return NextResponse.json(
+    {
+      error: 'Kutokuwepo hakujapatikana / Absence not found',
+      code: 'ABSENCE_NOT_FOUND'
+    },
+    { status: 404 }
+  )
+}
+
+// GET /api/clinics/[id]/staff-absences/[absenceId]
+export const GET = withPermission<{ id: string; absenceId: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, absenceId } = await params
+
+      const absence = await prisma.staffAbsence.findFirst({
+        where: { id: absenceId, clinicId: id },
+        include: {
+          staff: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              role: true,
+              specialization: true
+            }
+          }
+        }
+      })
+
+      if (!absence) {
+        return absenceNotFound()
+      }
+
+      const needsReassignment = await findAppointmentsNeedingReassignment(absence)
+
+      return NextResponse.json({
+        absence: {
+          id: absence.id,
+          startDate: absence.startDate.toISOString().split('T')[0],
+          endDate: absence.endDate.toISOString().split('T')[0],
+          startTime: absence.startTime,
+          endTime: absence.endTime,
+          reason: absence.reason,
+          staff: absence.staff,
+          createdAt: absence.createdAt.toISOString()
+        },
+        needsReassignment
+      })
+
+    } catch (error) {
+      console.error('Error fetching staff absence:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// DELETE /api/clinics/[id]/staff-absences/[absenceId]
+export const DELETE = withPermission<{ id: string; absenceId: string }>(
+  { permission: 'staff-absence:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id, absenceId } = await params
+
+      const { count } = await prisma.staffAbsence.deleteMany({
+        where: { id: absenceId, clinicId: id }
+      })
+
+      if (count === 0) {
+        return absenceNotFound()
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Kutokuwepo kumeondolewa / Absence removed'
+      })
+
+    } catch (error) {
+      console.error('Error deleting staff absence:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuondoa kutokuwepo / Error removing absence',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,195 @@
+/**
+ * Staff Absences API
+ *
+ * GET  /api/clinics/[id]/staff-absences - Absences overlapping a date range
+ * POST /api/clinics/[id]/staff-absences - Record sick days, leave or a partial-day absence
+ *
+ * An absence stops slot generation for that staff member and hides their
+ * existing slots from booking. Appointments already booked with them are
+ * not moved automatically; POST returns them, each with free slots of
+ * colleagues of the same specialization, so reception can reassign them.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { validateBody, validateQuery } from '@/lib/validation/helpers'
+import { CreateStaffAbsenceSchema, GetStaffAbsencesQuerySchema } from '@/lib/validation/schemas'
+import { addDaysToDateString, toSlotDate } from '@/lib/date-utils'
+import { getTanzaniaDateString } from '@/lib/timezone'
+import { findAppointmentsNeedingReassignment } from '@/lib/staff/absence-service'
+import { CALENDAR_LIST_DEFAULT_DAYS } from '@/lib/constants'
+
+const staffSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  specialization: true
+} as const
+
+// GET /api/clinics/[id]/staff-absences?from=YYYY-MM-DD&to=YYYY-MM-DD&staff_id=uuid
+export const GET = withPermission<{ id: string }>(
+  { permission: 'settings:view', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = validateQuery(request.nextUrl.searchParams, GetStaffAbsencesQuerySchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const from = validation.data.from ?? getTanzaniaDateString()
+      const to = validation.data.to ?? addDaysToDateString(from, CALENDAR_LIST_DEFAULT_DAYS - 1)
+      const { staff_id } = validation.data
+
+      const absences = await prisma.staffAbsence.findMany({
+        where: {
+          clinicId: id,
+          ...(staff_id && { staffId: staff_id }),
+          startDate: { lte: toSlotDate(to) },
+          endDate: { gte: toSlotDate(from) }
+        },
+        include: {
+          staff: { select: staffSelect }
+        },
+        orderBy: { startDate: 'asc' }
+      })
+
+      return NextResponse.json({
+        from,
+        to,
+        absences: absences.map(absence => ({
+          id: absence.id,
+          startDate: absence.startDate.toISOString().split('T')[0],
+          endDate: absence.endDate.toISOString().split('T')[0],
+          startTime: absence.startTime,
+          endTime: absence.endTime,
+          reason: absence.reason,
+          staff: absence.staff,
+          createdAt: absence.createdAt.toISOString()
+        }))
+      })
+
+    } catch (error) {
+      console.error('Error fetching staff absences:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * POST /api/clinics/[id]/staff-absences
+ *
+ * Request Body:
+ * {
+ *   staffId: string (required) - UUID of the absent staff member
+ *   startDate: string (required) - First day, YYYY-MM-DD
+ *   endDate?: string (optional) - Last day, defaults to startDate
+ *   startTime?: string (optional) - HH:MM, with endTime for a partial day
+ *   endTime?: string (optional) - HH:MM
+ *   reason: string (required) - e.g. "Likizo / Leave"
+ * }
+ *
+ * Response:
+ * {
+ *   absence: { id, startDate, endDate, startTime, endTime, reason, staff, createdAt },
+ *   needsReassignment: Array<{
+ *     id, status, date, startTime, endTime, patient,
+ *     candidates: Array<{ slotId, staff }>
+ *   }>
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body, absence in the past
+ * - 401: Not logged in
+ * - 403: Session belongs to another clinic
+ * - 404: Staff member not found in this clinic
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  { permission: 'staff-absence:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, CreateStaffAbsenceSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { staffId, startDate, startTime, endTime, reason } = validation.data
+      const endDate = validation.data.endDate ?? startDate
+
+      if (endDate < getTanzaniaDateString()) {
+        return NextResponse.json(
+          {
+            error: 'Tarehe imepita. Chagua tarehe ya leo au baadaye / Date is in the past. Select today or a future date',
+            code: 'PAST_DATE'
+          },
+          { status: 400 }
+        )
+      }
+
+      const staff = await prisma.staff.findFirst({
+        where: { id: staffId, clinicId: id },
+        select: staffSelect
+      })
+
+      if (!staff) {
+        return NextResponse.json(
+          {
+            error: 'Mhudumu hajapatikana / Staff member not found',
+            code: 'STAFF_NOT_FOUND'
+          },
+          { status: 404 }
+        )
+      }
+
+      const absence = await prisma.staffAbsence.create({
+        data: {
+          clinicId: id,
+          staffId,
+          startDate: toSlotDate(startDate),
+          endDate: toSlotDate(endDate),
+          startTime: startTime ?? null,
+          endTime: endTime ?? null,
+          reason
+        }
+      })
+
+      const needsReassignment = await findAppointmentsNeedingReassignment(absence)
+
+      return NextResponse.json({
+        absence: {
+          id: absence.id,
+          startDate,
+          endDate,
+          startTime: absence.startTime,
+          endTime: absence.endTime,
+          reason: absence.reason,
+          staff,
+          createdAt: absence.createdAt.toISOString()
+        },
+        needsReassignment
+      }, { status: 201 })
+
+    } catch (error) {
+      console.error('Error creating staff absence:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi kutokuwepo / Error saving absence',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,116 @@
+/**
+ * Single Clinic User API
+ *
+ * PATCH  /api/clinics/[id]/users/[userId] - Change role, staff link or active flag, or reset the password
+ * DELETE /api/clinics/[id]/users/[userId] - Deactivate the login (kept for history)
+ *
+ * Clinic admins and super admins only. A deactivated user cannot log in,
+ * and deactivating or resetting the password ends the user's open sessions.
+ * Signing a user out without other changes: DELETE .../users/[userId]/sessions
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { updateUser } from '@/lib/auth/user-service'
+import { userErrorResponse } from '@/lib/auth/user-errors'
+import { validateBody } from '@/lib/validation/helpers'
+import { UpdateUserSchema } from '@/lib/validation/schemas'
+
+/**
+ * PATCH /api/clinics/[id]/users/[userId]
+ *
+ * Request Body (at least one field):
+ * {
+ *   role?: UserRole
+ *   password?: string - New password (admin reset)
+ *   staffId?: string | null - Link or unlink a staff member
+ *   isActive?: boolean
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: Not an admin of this clinic, or touching super admin access without being one
+ * - 404: User or staff member not found in this clinic
+ * - 409: Staff member already has a login, or an admin changing their own access
+ * - 500: Database error
+ */
+export const PATCH = withPermission<{ id: string; userId: string }>(
+  { permission: 'user:manage', clinic: clinicFromParam('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id, userId } = await params
+
+      const validation = await validateBody(request, UpdateUserSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const user = await updateUser({
+        clinicId: id,
+        actor: auth,
+        userId,
+        ...validation.data
+      })
+
+      return NextResponse.json({
+        success: true,
+        user,
+        message: 'Mtumiaji amehifadhiwa / User saved'
+      })
+
+    } catch (error) {
+      const mapped = userErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error updating user:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi mtumiaji / Error saving user',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// DELETE /api/clinics/[id]/users/[userId]
+export const DELETE = withPermission<{ id: string; userId: string }>(
+  { permission: 'user:manage', clinic: clinicFromParam('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id, userId } = await params
+
+      // Soft delete: keeps the account for history and allows restoring it
+      await updateUser({
+        clinicId: id,
+        actor: auth,
+        userId,
+        isActive: false
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: 'Mtumiaji amezimwa / User deactivated'
+      })
+
+    } catch (error) {
+      const mapped = userErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error deactivating user:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuzima mtumiaji / Error deactivating user',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
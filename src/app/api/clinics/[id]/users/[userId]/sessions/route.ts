@@ -0,0 +1,54 @@
+/**
+ * DELETE /api/clinics/[id]/users/[userId]/sessions
+ * Sign a user out of every device, e.g. after a lost phone or a shared
+ * password. The admin's own current session is kept.
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   revoked: number - Sessions ended
+ * }
+ *
+ * Error Responses:
+ * - 401: Not logged in
+ * - 403: Not an admin of this clinic, or signing out a super admin without being one
+ * - 404: User not found in this clinic
+ * - 500: Database error
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { signOutUser } from '@/lib/auth/user-service'
+import { userErrorResponse } from '@/lib/auth/user-errors'
+
+export const DELETE = withPermission<{ id: string; userId: string }>(
+  { permission: 'user:manage', clinic: clinicFromParam('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id, userId } = await params
+
+      const revoked = await signOutUser({ clinicId: id, actor: auth, userId })
+
+      return NextResponse.json({
+        success: true,
+        revoked,
+        message: 'Mtumiaji ameondolewa kwenye vifaa vyote / User signed out everywhere'
+      })
+
+    } catch (error) {
+      const mapped = userErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error signing out user:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kumwondoa mtumiaji / Error signing out user',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,118 @@
+/**
+ * Clinic Users API
+ *
+ * GET  /api/clinics/[id]/users - The clinic's staff logins
+ * POST /api/clinics/[id]/users - Add a login
+ *
+ * Clinic admins and super admins only. Adding or removing a login takes
+ * effect immediately - no environment change or redeploy.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromParam } from '@/lib/auth/guard'
+import { createUser, USER_SELECT } from '@/lib/auth/user-service'
+import { userErrorResponse } from '@/lib/auth/user-errors'
+import { validateBody } from '@/lib/validation/helpers'
+import { CreateUserSchema } from '@/lib/validation/schemas'
+
+// GET /api/clinics/[id]/users
+export const GET = withPermission<{ id: string }>(
+  { permission: 'user:manage', clinic: clinicFromParam('id') },
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const users = await prisma.user.findMany({
+        where: { clinicId: id },
+        select: USER_SELECT,
+        orderBy: [{ isActive: 'desc' }, { email: 'asc' }]
+      })
+
+      return NextResponse.json({ users })
+
+    } catch (error) {
+      console.error('Error fetching users:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+/**
+ * POST /api/clinics/[id]/users
+ *
+ * Request Body:
+ * {
+ *   email: string (required) - Login name, stored lowercase
+ *   password: string (required) - At least USER_PASSWORD_MIN_LENGTH characters
+ *   role: 'RECEPTIONIST' | 'NURSE' | 'DOCTOR' | 'CLINIC_ADMIN' | 'SUPER_ADMIN' (required)
+ *   staffId?: string | null (optional) - Staff member this login belongs to
+ * }
+ *
+ * Response (201):
+ * {
+ *   user: { id, email, role, clinicId, staffId, isActive, lastLoginAt, createdAt, staff }
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: Not an admin of this clinic, or granting super admin without being one
+ * - 404: Staff member not found in this clinic
+ * - 409: Email already used, or the staff member already has a login
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  { permission: 'user:manage', clinic: clinicFromParam('id') },
+  async (request, { params, auth }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, CreateUserSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const user = await createUser({
+        clinicId: id,
+        actor: auth,
+        ...validation.data
+      })
+
+      return NextResponse.json({ user }, { status: 201 })
+
+    } catch (error) {
+      const mapped = userErrorResponse(error)
+      if (mapped) {
+        return mapped
+      }
+
+      console.error('Error creating user:', error)
+
+      // Unique email raced with another request
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+        return NextResponse.json(
+          {
+            error: 'Barua pepe hii tayari inatumika / This email is already in use',
+            code: 'EMAIL_TAKEN'
+          },
+          { status: 409 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kuhifadhi mtumiaji / Error saving user',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
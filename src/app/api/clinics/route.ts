@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { validateQuery } from '@/lib/validation/helpers'
+import { GetClinicsQuerySchema } from '@/lib/validation/schemas'
+import { withPublicAccess } from '@/lib/auth/guard'
+
+/**
+ * GET /api/clinics
+ *
+ * Public directory of active clinics for patient self-booking.
+ * Each clinic lists the specializations of its active staff, which
+ * can be passed to /api/slots/available as service_type.
+ *
+ * Query Parameters:
+ * - region (optional): Only clinics in this region
+ *
+ * Response:
+ * {
+ *   regions: string[],          // Every region with an active clinic
+ *   clinics: Array<{
+ *     id: string,
+ *     name: string,
+ *     region: string,
+ *     address: string | null,
+ *     phoneNumber: string,
+ *     specializations: string[]
+ *   }>,
+ *   count: number
+ * }
+ */
+export const GET = withPublicAccess(async (request: NextRequest) => {
+  try {
+    const validation = validateQuery(request.nextUrl.searchParams, GetClinicsQuerySchema)
+    if (!validation.success) {
+      return validation.error
+    }
+
+    const { region } = validation.data
+
+    const [regionRows, clinics] = await Promise.all([
+      prisma.clinic.findMany({
+        where: { isActive: true },
+        select: { region: true },
+        distinct: ['region'],
+        orderBy: { region: 'asc' }
+      }),
+      prisma.clinic.findMany({
+        where: {
+          isActive: true,
+          ...(region && { region })
+        },
+        select: {
+          id: true,
+          name: true,
+          region: true,
+          address: true,
+          phoneNumber: true,
+          staff: {
+            where: { isActive: true },
+            select: { specialization: true }
+          }
+        },
+        orderBy: { name: 'asc' }
+      })
+    ])
+
+    const formattedClinics = clinics.map(({ staff, ...clinic }) => ({
+      ...clinic,
+      specializations: Array.from(
+        new Set(staff.map(member => member.specialization).filter((s): s is string => !!s))
+      ).sort()
+    }))
+
+    return NextResponse.json({
+      regions: regionRows.map(row => row.region),
+      clinics: formattedClinics,
+      count: formattedClinics.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching clinics:', error)
+    return NextResponse.json(
+      {
+        error: 'Hitilafu isiyotarajiwa / Unexpected error',
+        code: 'INTERNAL_ERROR'
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,154 @@
+/**
+ * CRON /api/cron/generate-slots
+ *
+ * Keeps every active clinic stocked with bookable slots.
+ * Runs daily and generates slots from each clinic's operating hours for
+ * the next SLOT_HORIZON_DAYS days. Existing slots are skipped, so a run
+ * only fills in the newest day(s) at the end of the horizon.
+ *
+ * SECURITY:
+ * - Verifies request originates from Vercel Cron (Authorization header)
+ * - Logs every run in cron_logs (jobName 'generate-slots')
+ *
+ * RESPONSE:
+ * {
+ *   clinicsProcessed: number,
+ *   clinicsFailed: number,
+ *   slotsCreated: number,
+ *   slotsSkipped: number,
+ *   executionTimeMs: number
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { CronStatus } from '@prisma/client'
+import { generateSlotsForClinic } from '@/lib/slots/slot-generation-service'
+import { verifyVercelCron } from '@/lib/cron/verify-cron'
+import { SLOT_HORIZON_DAYS } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+import { withCronAccess } from '@/lib/auth/guard'
+
+const JOB_NAME = 'generate-slots'
+
+export const GET = withCronAccess(async (request: NextRequest) => {
+  const startTime = Date.now()
+  let cronLogId: string | null = null
+
+  try {
+    // Verify request is from Vercel
+    if (!verifyVercelCron(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      )
+    }
+
+    const cronLog = await prisma.cronLog.create({
+      data: {
+        jobName: JOB_NAME,
+        startedAt: new Date(),
+        status: 'RUNNING',
+        triggeredBy: 'cron'
+      }
+    })
+    cronLogId = cronLog.id
+    logger.info(`[CRON] Starting slot generation job ${cronLogId}`)
+
+    const clinics = await prisma.clinic.findMany({
+      where: { isActive: true },
+      select: { id: true }
+    })
+
+    let slotsCreated = 0
+    let slotsSkipped = 0
+    const results: Array<{
+      clinicId: string
+      status: 'ok' | 'failed'
+      created?: number
+      skipped?: number
+      error?: string
+    }> = []
+
+    // One clinic with bad operating hours must not starve the others
+    for (const clinic of clinics) {
+      try {
+        const result = await generateSlotsForClinic(clinic.id, { days: SLOT_HORIZON_DAYS })
+        slotsCreated += result.created
+        slotsSkipped += result.skipped
+        results.push({
+          clinicId: clinic.id,
+          status: 'ok',
+          created: result.created,
+          skipped: result.skipped
+        })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        logger.error('[CRON] Slot generation failed for clinic', { clinicId: clinic.id, error: errorMessage })
+        results.push({ clinicId: clinic.id, status: 'failed', error: errorMessage })
+      }
+    }
+
+    const clinicsFailed = results.filter(r => r.status === 'failed').length
+    const clinicsProcessed = results.length - clinicsFailed
+    const duration = Date.now() - startTime
+    const status: CronStatus = clinicsFailed === 0 ? 'SUCCESS' : clinicsProcessed > 0 ? 'PARTIAL' : 'FAILED'
+
+    await prisma.cronLog.update({
+      where: { id: cronLogId },
+      data: {
+        status,
+        completedAt: new Date(),
+        slotsCreated,
+        slotsSkipped,
+        durationMs: duration,
+        errorMessage: clinicsFailed > 0 ? `${clinicsFailed} clinic(s) failed` : undefined
+      }
+    })
+
+    logger.info(`[CRON] Job ${cronLogId} completed`, { slotsCreated, slotsSkipped, clinicsFailed, duration })
+
+    return NextResponse.json({
+      clinicsProcessed,
+      clinicsFailed,
+      slotsCreated,
+      slotsSkipped,
+      horizonDays: SLOT_HORIZON_DAYS,
+      executionTimeMs: duration,
+      cronLogId,
+      status: status.toLowerCase(),
+      details: results
+    })
+
+  } catch (error) {
+    const duration = Date.now() - startTime
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const errorStack = error instanceof Error ? error.stack : undefined
+
+    logger.error('[CRON] Slot generation job failed', { error: errorMessage })
+
+    if (cronLogId) {
+      await prisma.cronLog.update({
+        where: { id: cronLogId },
+        data: {
+          status: 'FAILED',
+          completedAt: new Date(),
+          durationMs: duration,
+          errorMessage,
+          errorStack
+        }
+      })
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Cron job failed',
+        code: 'INTERNAL_ERROR',
+        message: errorMessage,
+        executionTimeMs: duration,
+        cronLogId
+      },
+      { status: 500 }
+    )
+  }
+})
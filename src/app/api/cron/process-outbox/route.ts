@@ -0,0 +1,67 @@
+/**
+ * CRON /api/cron/process-outbox
+ *
+ * Drains the message outbox (outbound_messages). Messages are normally
+ * sent right after the request that queued them; this run, every minute,
+ * picks up retries whose backoff has passed and anything a request did not
+ * get to. Failed sends back off exponentially and are dead-lettered after
+ * their last attempt (see src/lib/messaging/outbox-service.ts).
+ *
+ * SECURITY:
+ * - Verifies request originates from Vercel Cron (Authorization header)
+ *
+ * RESPONSE:
+ * {
+ *   claimed: number,  // Messages attempted in this run
+ *   sent: number,
+ *   retrying: number, // Failed, next attempt scheduled
+ *   dead: number,     // Failed for the last time
+ *   queue: { PENDING, SENDING, SENT, DEAD },
+ *   executionTimeMs: number
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { processOutbox, getOutboxStats } from '@/lib/messaging/outbox-service'
+import { verifyVercelCron } from '@/lib/cron/verify-cron'
+import { logger } from '@/lib/logger'
+import { withCronAccess } from '@/lib/auth/guard'
+
+export const GET = withCronAccess(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    // Verify request is from Vercel
+    if (!verifyVercelCron(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      )
+    }
+
+    const result = await processOutbox()
+    const queue = await getOutboxStats()
+
+    return NextResponse.json({
+      ...result,
+      queue,
+      executionTimeMs: Date.now() - startTime
+    })
+
+  } catch (error) {
+    const duration = Date.now() - startTime
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+
+    logger.error('[CRON] Outbox run failed', { error: errorMessage })
+
+    return NextResponse.json(
+      {
+        error: 'Cron job failed',
+        code: 'INTERNAL_ERROR',
+        message: errorMessage,
+        executionTimeMs: duration
+      },
+      { status: 500 }
+    )
+  }
+})
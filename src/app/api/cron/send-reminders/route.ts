@@ -2,7 +2,7 @@
  * CRON /api/cron/send-reminders
  * 
  * Automated appointment reminder system using Vercel Cron.
- * Runs every hour to send SMS reminders for upcoming appointments.
+ * Runs every hour to send SMS and WhatsApp reminders for upcoming appointments.
  * 
  * TIMEZONE HANDLING:
  * - Tanzania (East Africa Time): UTC+3
@@ -10,8 +10,9 @@
  * - All times stored in UTC, converted to EAT (UTC+3) for logic
  * 
  * REMINDER SCHEDULE:
- * - 24-hour reminder: Sent when appointment is 23-25 hours away
- * - Same-day reminder: Sent when appointment is 2-4 hours away on the same day
+ * - Each clinic's reminder rules (Settings > Reminders) say how many hours
+ *   before an appointment a reminder is due; this run sends every due one
+ *   (src/lib/reminders/reminder-engine.ts)
  * 
  * SECURITY:
  * - Verifies request originates from Vercel Cron (Authorization header)
@@ -19,9 +20,9 @@
  * 
  * RESPONSE:
  * {
- *   sent: number,           // Successfully sent reminders
- *   failed: number,         // Failed sends (after retry)
- *   skipped: number,        // Appointments not requiring reminders
+ *   sent: number,           // Reminders queued in the message outbox
+ *   failed: number,         // Reminders that could not be queued
+ *   skipped: number,        // Reminders skipped (booked late, or superseded)
  *   nextRun: string,        // ISO timestamp of next scheduled run
  *   executionTimeMs: number // Duration of this run
  * }
@@ -29,46 +30,12 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { sendSMS, isTwilioConfigured } from '@/lib/sms/sms-service'
-import { generateMessageContent, mapMessageTypeToSmsType } from '@/lib/sms/message-templates'
+import { isSmsConfigured } from '@/lib/sms/sms-service'
 import { CronStatus } from '@prisma/client'
-import { isTodayInTanzania } from '@/lib/timezone'
-import { REMINDER_24H_WINDOW_MIN, REMINDER_24H_WINDOW_MAX, REMINDER_SAME_DAY_WINDOW_MIN, REMINDER_SAME_DAY_WINDOW_MAX, MAX_SMS_RETRIES, DEFAULT_RETRY_DELAY_MS } from '@/lib/constants'
 import { logger } from '@/lib/logger'
-
-// Reminder windows configuration
-const REMINDER_24H_WINDOW = { min: REMINDER_24H_WINDOW_MIN, max: REMINDER_24H_WINDOW_MAX }
-const REMINDER_SAME_DAY_WINDOW = { min: REMINDER_SAME_DAY_WINDOW_MIN, max: REMINDER_SAME_DAY_WINDOW_MAX }
-
-/**
- * Verify request is from Vercel Cron
- * Vercel sends a signed JWT in the Authorization header
- */
-function verifyVercelCron(request: NextRequest): boolean {
-  // In production, Vercel sends a signed JWT token
-  // For security, we check the Authorization header
-  const authHeader = request.headers.get('authorization')
-  
-  // Vercel Cron jobs include a signature we can verify
-  if (!authHeader) {
-    // In development, allow without header if CRON_SECRET is not set
-    if (process.env.NODE_ENV === 'development' && !process.env.CRON_SECRET) {
-      logger.warn('[CRON] Running in development mode without CRON_SECRET')
-      return true
-    }
-    return false
-  }
-
-  // Verify against our secret
-  const expectedToken = `Bearer ${process.env.CRON_SECRET}`
-  if (process.env.CRON_SECRET && authHeader !== expectedToken) {
-    logger.error('[CRON] Invalid authorization header')
-    return false
-  }
-
-  return true
-}
-
+import { verifyVercelCron } from '@/lib/cron/verify-cron'
+import { withCronAccess } from '@/lib/auth/guard'
+import { runReminders } from '@/lib/reminders/reminder-engine'
 
 /**
  * Create a new cron log entry
@@ -95,7 +62,6 @@ async function updateCronLog(
     appointmentsChecked: number
     remindersSent: number
     remindersFailed: number
-    retriesAttempted: number
     durationMs: number
     errorMessage?: string
     errorStack?: string
@@ -109,7 +75,6 @@ async function updateCronLog(
       appointmentsChecked: stats.appointmentsChecked,
       remindersSent: stats.remindersSent,
       remindersFailed: stats.remindersFailed,
-      retriesAttempted: stats.retriesAttempted,
       durationMs: stats.durationMs,
       errorMessage: stats.errorMessage,
       errorStack: stats.errorStack
@@ -117,285 +82,10 @@ async function updateCronLog(
   })
 }
 
-/**
- * Find appointments needing 24-hour reminders
- * Criteria: reminder_24h_sent = false AND appointment_time is between 23-25 hours from now
- */
-async function find24HourReminders() {
-  const now = new Date()
-  const windowStart = new Date(now.getTime() + (REMINDER_24H_WINDOW.min * 60 * 60 * 1000))
-  const windowEnd = new Date(now.getTime() + (REMINDER_24H_WINDOW.max * 60 * 60 * 1000))
-
-  const appointments = await prisma.appointment.findMany({
-    where: {
-      status: {
-        in: ['BOOKED', 'CONFIRMED']
-      },
-      reminder24hSent: false,
-      reminder24hFailed: false,
-      slot: {
-        slotDate: {
-          gte: windowStart,
-          lte: windowEnd
-        }
-      }
-    },
-    include: {
-      patient: {
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          phoneNumber: true,
-          language: true
-        }
-      },
-      slot: {
-        select: {
-          id: true,
-          slotDate: true,
-          startTime: true,
-          staff: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              role: true
-            }
-          }
-        }
-      },
-      clinic: {
-        select: {
-          id: true,
-          name: true,
-          phoneNumber: true,
-          address: true
-        }
-      }
-    },
-    orderBy: {
-      slot: {
-        slotDate: 'asc'
-      }
-    },
-    take: 100 // Process in batches to avoid overwhelming the system
-  })
-
-  return appointments
-}
-
-/**
- * Find appointments needing same-day reminders
- * Criteria: reminder_same_day_sent = false AND appointment is 2-4 hours away AND date is today
- */
-async function findSameDayReminders() {
-  const now = new Date()
-  const windowStart = new Date(now.getTime() + (REMINDER_SAME_DAY_WINDOW.min * 60 * 60 * 1000))
-  const windowEnd = new Date(now.getTime() + (REMINDER_SAME_DAY_WINDOW.max * 60 * 60 * 1000))
-
-  const appointments = await prisma.appointment.findMany({
-    where: {
-      status: {
-        in: ['BOOKED', 'CONFIRMED']
-      },
-      reminderSameDaySent: false,
-      reminderSameDayFailed: false,
-      slot: {
-        slotDate: {
-          gte: windowStart,
-          lte: windowEnd
-        }
-      }
-    },
-    include: {
-      patient: {
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          phoneNumber: true,
-          language: true
-        }
-      },
-      slot: {
-        select: {
-          id: true,
-          slotDate: true,
-          startTime: true,
-          staff: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              role: true
-            }
-          }
-        }
-      },
-      clinic: {
-        select: {
-          id: true,
-          name: true,
-          phoneNumber: true,
-          address: true
-        }
-      }
-    },
-    orderBy: {
-      slot: {
-        slotDate: 'asc'
-      }
-    },
-    take: 100
-  })
-
-  // Filter to only include appointments that are actually "today" in Tanzania time
-  return appointments.filter(apt => isTodayInTanzania(apt.slot.slotDate))
-}
-
-/**
- * Send reminder SMS for an appointment
- */
-async function sendReminder(
-  appointment: AppointmentWithDetails,
-  type: '24h' | 'same_day',
-  retryCount: number = 0
-): Promise<{ success: boolean; error?: string; retryAttempted: boolean }> {
-  const patient = appointment.patient
-  const slot = appointment.slot
-  const clinic = appointment.clinic
-
-  // Generate message content
-  const messageType = type === '24h' ? 'REMINDER_24H' : 'REMINDER_1H'
-  const messageContent = generateMessageContent({
-    type: messageType,
-    patient: {
-      firstName: patient.firstName,
-      lastName: patient.lastName,
-      language: (patient.language as 'sw' | 'en') || 'sw'
-    },
-    appointment: {
-      date: slot.slotDate.toISOString().split('T')[0],
-      time: slot.startTime,
-      doctorName: slot.staff ? `Dr. ${slot.staff.firstName} ${slot.staff.lastName}` : 'Doctor',
-      doctorRole: slot.staff?.role ?? 'doctor',
-      clinicName: clinic.name,
-      clinicPhone: clinic.phoneNumber ?? '',
-      address: clinic.address || undefined
-    }
-  })
-
-  try {
-    // Send SMS
-    const result = await sendSMS({
-      to: patient.phoneNumber,
-      message: messageContent.primary,
-      type: mapMessageTypeToSmsType(messageType),
-      appointmentId: appointment.id,
-      patientId: patient.id,
-      clinicId: clinic.id
-    })
-
-    if (result.success) {
-      // Update appointment flags
-      if (type === '24h') {
-        await prisma.appointment.update({
-          where: { id: appointment.id },
-          data: {
-            reminder24hSent: true,
-            reminder24hSentAt: new Date(),
-            reminder24hFailed: false,
-            reminder24hError: null
-          }
-        })
-      } else {
-        await prisma.appointment.update({
-          where: { id: appointment.id },
-          data: {
-            reminderSameDaySent: true,
-            reminderSameDaySentAt: new Date(),
-            reminderSameDayFailed: false,
-            reminderSameDayError: null
-          }
-        })
-      }
-
-      return { success: true, retryAttempted: false }
-    } else {
-      throw new Error(result.error || 'SMS send failed')
-    }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    
-    // Retry if we haven't exceeded max retries
-    if (retryCount < MAX_SMS_RETRIES) {
-      await new Promise(resolve => setTimeout(resolve, DEFAULT_RETRY_DELAY_MS))
-      return sendReminder(appointment, type, retryCount + 1)
-    }
-
-    // Mark as failed after retries exhausted
-    if (type === '24h') {
-      await prisma.appointment.update({
-        where: { id: appointment.id },
-        data: {
-          reminder24hFailed: true,
-          reminder24hError: errorMessage
-        }
-      })
-    } else {
-      await prisma.appointment.update({
-        where: { id: appointment.id },
-        data: {
-          reminderSameDayFailed: true,
-          reminderSameDayError: errorMessage
-        }
-      })
-    }
-
-    return { success: false, error: errorMessage, retryAttempted: retryCount > 0 }
-  }
-}
-
-// Type definition for appointment with included relations
-type AppointmentWithDetails = {
-  id: string
-  status: string
-  reminder24hSent: boolean
-  reminder24hFailed: boolean
-  reminderSameDaySent: boolean
-  reminderSameDayFailed: boolean
-  patient: {
-    id: string
-    firstName: string
-    lastName: string
-    phoneNumber: string
-    language: string
-  }
-  slot: {
-    id: string
-    slotDate: Date
-    startTime: string
-    staff: {
-      id: string
-      firstName: string
-      lastName: string
-      role: string
-    } | null
-  }
-  clinic: {
-    id: string
-    name: string
-    phoneNumber: string | null
-    address: string | null
-  }
-  [key: string]: unknown
-}
-
 /**
  * Main cron handler
  */
-export async function GET(request: NextRequest) {
+export const GET = withCronAccess(async (request: NextRequest) => {
   const startTime = Date.now()
   let cronLogId: string | null = null
 
@@ -408,13 +98,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Check Twilio configuration
-    if (!isTwilioConfigured()) {
+    // Check SMS configuration
+    if (!isSmsConfigured()) {
       const duration = Date.now() - startTime
       return NextResponse.json(
         { 
-          error: 'Twilio not configured', 
-          code: 'TWILIO_NOT_CONFIGURED',
+          error: 'SMS not configured', 
+          code: 'SMS_NOT_CONFIGURED',
           executionTimeMs: duration
         },
         { status: 503 }
@@ -425,60 +115,7 @@ export async function GET(request: NextRequest) {
     cronLogId = await createCronLog('cron')
     logger.info(`[CRON] Starting reminder job ${cronLogId} at ${new Date().toISOString()}`)
 
-    // Find appointments needing reminders
-    const [appointments24h, appointmentsSameDay] = await Promise.all([
-      find24HourReminders(),
-      findSameDayReminders()
-    ])
-
-    const allAppointments = [...appointments24h, ...appointmentsSameDay]
-    const uniqueAppointments = Array.from(
-      new Map(allAppointments.map((apt: AppointmentWithDetails) => [apt.id, apt])).values()
-    )
-
-    logger.info(`[CRON] Found ${appointments24h.length} 24h reminders, ${appointmentsSameDay.length} same-day reminders`)
-
-    // Send reminders
-    let sent = 0
-    let failed = 0
-    let retries = 0
-    const results: Array<{
-      appointmentId: string
-      type: '24h' | 'same_day'
-      status: 'sent' | 'failed'
-      retryAttempted: boolean
-      error?: string
-    }> = []
-
-    for (const appointment of uniqueAppointments) {
-      const is24h = appointments24h.some((apt: AppointmentWithDetails) => apt.id === appointment.id)
-      const type = is24h ? '24h' : 'same_day'
-
-      const result = await sendReminder(appointment, type)
-      
-      if (result.success) {
-        sent++
-      } else {
-        failed++
-      }
-      
-      if (result.retryAttempted) {
-        retries++
-      }
-
-      results.push({
-        appointmentId: appointment.id,
-        type,
-        status: result.success ? 'sent' : 'failed',
-        retryAttempted: result.retryAttempted,
-        error: result.error
-      })
-
-      // Small delay between sends to avoid rate limiting
-      if (uniqueAppointments.indexOf(appointment) < uniqueAppointments.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 200))
-      }
-    }
+    const { appointmentsChecked, sent, failed, skipped, results } = await runReminders()
 
     const duration = Date.now() - startTime
     const status: CronStatus = failed === 0 ? 'SUCCESS' : sent > 0 ? 'PARTIAL' : 'FAILED'
@@ -486,10 +123,9 @@ export async function GET(request: NextRequest) {
     // Update cron log
     if (cronLogId) {
       await updateCronLog(cronLogId, status, {
-        appointmentsChecked: uniqueAppointments.length,
+        appointmentsChecked,
         remindersSent: sent,
         remindersFailed: failed,
-        retriesAttempted: retries,
         durationMs: duration
       })
     }
@@ -506,8 +142,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       sent,
       failed,
-      skipped: uniqueAppointments.length === 0 ? 0 : undefined,
-      totalChecked: uniqueAppointments.length,
+      skipped,
+      totalChecked: appointmentsChecked,
       nextRun: nextRun.toISOString(),
       executionTimeMs: duration,
       cronLogId,
@@ -528,7 +164,6 @@ export async function GET(request: NextRequest) {
         appointmentsChecked: 0,
         remindersSent: 0,
         remindersFailed: 0,
-        retriesAttempted: 0,
         durationMs: duration,
         errorMessage,
         errorStack
@@ -546,4 +181,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,37 @@
+/**
+ * Fake Provider Outbox (development only)
+ *
+ * GET    /api/dev/messages - Messages the fake provider recorded, newest first
+ * DELETE /api/dev/messages - Forget them
+ *
+ * Lets the dashboard and tests see what would have been sent with
+ * MESSAGING_PROVIDER=fake. Answers 404 in production.
+ */
+
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth/guard'
+import { clearFakeMessages, getFakeMessages } from '@/lib/messaging/providers/fake-provider'
+
+function notFound() {
+  return NextResponse.json({ error: 'Not found', code: 'NOT_FOUND' }, { status: 404 })
+}
+
+// GET /api/dev/messages
+export const GET = withPermission('settings:view', async () => {
+  if (process.env.NODE_ENV === 'production') {
+    return notFound()
+  }
+
+  const messages = await getFakeMessages()
+  return NextResponse.json({ messages: messages.reverse() })
+})
+
+// DELETE /api/dev/messages
+export const DELETE = withPermission('settings:view', async () => {
+  if (process.env.NODE_ENV === 'production') {
+    return notFound()
+  }
+
+  await clearFakeMessages()
+  return NextResponse.json({ success: true })
+})
@@ -5,12 +5,13 @@
  * Returns system health status including:
  * - API status
  * - Database connectivity
- * - External service status (Twilio)
+ * - External service status (SMS provider)
  */
 
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { isTwilioConfigured } from '@/lib/sms/sms-service'
+import { isSmsConfigured } from '@/lib/sms/sms-service'
+import { getDefaultProvider } from '@/lib/messaging/provider-registry'
 import { logger } from '@/lib/logger'
 
 export const dynamic = 'force-dynamic'
@@ -19,7 +20,7 @@ export async function GET() {
   const checks = {
     api: true,
     database: false,
-    twilio: false
+    sms: false
   }
 
   let status = 200
@@ -38,10 +39,10 @@ export async function GET() {
     })
   }
 
-  // Check Twilio configuration
-  checks.twilio = isTwilioConfigured()
-  if (!checks.twilio) {
-    logger.warn('Health check: Twilio not configured')
+  // Check SMS provider configuration
+  checks.sms = isSmsConfigured()
+  if (!checks.sms) {
+    logger.warn('Health check: SMS not configured')
   }
 
   // If critical services are down, mark as unhealthy
@@ -55,6 +56,7 @@ export async function GET() {
     version: process.env.npm_package_version || '0.1.0',
     environment: process.env.NODE_ENV || 'development',
     checks,
+    messagingProvider: getDefaultProvider().name,
     uptime: process.uptime()
   }
 
@@ -3,92 +3,106 @@
  * Patient cancels their own appointment
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { cookies } from 'next/headers'
+import { withPermission } from '@/lib/auth/guard'
+import { releaseAppointmentSlots } from '@/lib/appointments/slot-reservation'
+import { recordAuditEvent, diffChanges } from '@/lib/audit/audit-service'
+import { recordStatusChange } from '@/lib/appointments/status-history'
 
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params
-    
-    // Get patient ID from cookie
-    const cookieStore = await cookies()
-    const patientSession = cookieStore.get('patient_session')
+export const PATCH = withPermission<{ id: string }>(
+  'appointment:cancel:own',
+  async (request, { params, auth }) => {
+    try {
+      const { id } = await params
+      const patientId = auth.userId
 
-    if (!patientSession) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      )
-    }
-
-    const patientId = patientSession.value
-
-    // Find appointment and verify ownership
-    const appointment = await prisma.appointment.findFirst({
-      where: {
-        id,
-        patientId,
-        status: {
-          in: ['BOOKED', 'CONFIRMED']
-        }
-      },
-      include: {
-        slot: {
-          select: {
-            slotDate: true,
-            startTime: true
+      // Find appointment and verify ownership
+      const appointment = await prisma.appointment.findFirst({
+        where: {
+          id,
+          patientId,
+          status: {
+            in: ['BOOKED', 'CONFIRMED']
+          }
+        },
+        include: {
+          slot: {
+            select: {
+              slotDate: true,
+              startTime: true
+            }
           }
         }
+      })
+
+      if (!appointment) {
+        return NextResponse.json(
+          { error: 'Appointment not found or cannot be cancelled' },
+          { status: 404 }
+        )
       }
-    })
 
-    if (!appointment) {
-      return NextResponse.json(
-        { error: 'Appointment not found or cannot be cancelled' },
-        { status: 404 }
-      )
-    }
+      // Check if appointment is in the past
+      const appointmentDateTime = new Date(`${appointment.slot.slotDate.toISOString().split('T')[0]}T${appointment.slot.startTime}`)
+      if (appointmentDateTime < new Date()) {
+        return NextResponse.json(
+          { error: 'Cannot cancel past appointments' },
+          { status: 400 }
+        )
+      }
 
-    // Check if appointment is in the past
-    const appointmentDateTime = new Date(`${appointment.slot.slotDate.toISOString().split('T')[0]}T${appointment.slot.startTime}`)
-    if (appointmentDateTime < new Date()) {
-      return NextResponse.json(
-        { error: 'Cannot cancel past appointments' },
-        { status: 400 }
-      )
-    }
+      // Cancel the appointment and make its slot(s) available again
+      const updated = await prisma.$transaction(async (tx) => {
+        const cancelled = await tx.appointment.update({
+          where: { id },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancellationReason: 'Cancelled by patient via portal'
+          }
+        })
 
-    // Cancel the appointment
-    const updated = await prisma.appointment.update({
-      where: { id },
-      data: {
-        status: 'CANCELLED',
-        cancelledAt: new Date(),
-        cancellationReason: 'Cancelled by patient via portal'
-      }
-    })
+        await releaseAppointmentSlots(tx, [id])
 
-    // Make slot available again
-    await prisma.appointmentSlot.update({
-      where: { id: appointment.slotId },
-      data: { isAvailable: true }
-    })
+        await recordStatusChange({
+          appointmentId: id,
+          clinicId: cancelled.clinicId,
+          patientId,
+          from: appointment.status,
+          to: 'CANCELLED',
+          reason: cancelled.cancellationReason
+        }, tx)
 
-    return NextResponse.json({
-      success: true,
-      message: 'Appointment cancelled successfully',
-      appointment: updated
-    })
+        await recordAuditEvent({
+          action: 'APPOINTMENT_CANCELLED',
+          entityType: 'APPOINTMENT',
+          entityId: id,
+          clinicId: cancelled.clinicId,
+          appointmentId: id,
+          patientId,
+          changes: diffChanges(appointment, {
+            status: cancelled.status,
+            cancelledAt: cancelled.cancelledAt,
+            cancellationReason: cancelled.cancellationReason
+          })
+        }, tx)
 
-  } catch (error) {
-    console.error('Cancel appointment error:', error)
-    return NextResponse.json(
-      { error: 'Failed to cancel appointment' },
-      { status: 500 }
-    )
+        return cancelled
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: 'Appointment cancelled successfully',
+        appointment: updated
+      })
+
+    } catch (error) {
+      console.error('Cancel appointment error:', error)
+      return NextResponse.json(
+        { error: 'Failed to cancel appointment' },
+        { status: 500 }
+      )
+    }
   }
-}
+)
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { RescheduleAppointmentSchema, UUIDSchema } from '@/lib/validation/schemas'
+import { rescheduleAppointment } from '@/lib/appointments/reschedule-service'
+import { rescheduleErrorResponse } from '@/lib/appointments/reschedule-errors'
+
+/**
+ * POST /api/patient/appointments/[id]/reschedule
+ *
+ * Patient moves their own appointment to another free slot at the same
+ * clinic. The clinic's policy applies: no changes within
+ * rescheduleCutoffHours of the appointment, and at most maxReschedules
+ * moves per appointment. The patient always gets the RESCHEDULE SMS.
+ *
+ * Request Body:
+ * {
+ *   slot_id: string (required) - UUID of the new slot
+ * }
+ *
+ * Response: same as POST /api/appointments/[id]/reschedule
+ *
+ * Error Responses:
+ * - 400: Invalid body, new slot in the past or same as current
+ * - 401: Not logged in as a patient
+ * - 404: Appointment not found (or not this patient's), slot not found
+ * - 409: Cutoff passed, reschedule limit reached, slot taken, clinic closed,
+ *        staff absent, appointment already completed/cancelled
+ * - 500: Database error
+ */
+export const POST = withPermission<{ id: string }>(
+  'appointment:reschedule:own',
+  async (request, { params, auth }) => {
+    try {
+      const { id } = await params
+
+      if (!UUIDSchema.safeParse(id).success) {
+        return NextResponse.json(
+          {
+            error: 'Kitambulisho cha miadi sio sahihi / Invalid appointment ID format',
+            code: 'INVALID_APPOINTMENT_ID'
+          },
+          { status: 400 }
+        )
+      }
+
+      const validation = await validateBody(request, RescheduleAppointmentSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      // Patients can only move their own appointments, within clinic policy
+      const result = await rescheduleAppointment({
+        appointmentId: id,
+        newSlotId: validation.data.slot_id,
+        patientId: auth.userId,
+        notifyPatient: true,
+        enforcePatientPolicy: true
+      })
+
+      return NextResponse.json(result)
+
+    } catch (error) {
+      console.error('Error rescheduling appointment (patient):', error)
+
+      const response = rescheduleErrorResponse(error)
+      if (response) {
+        return response
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Hitilafu katika kubadilisha muda wa miadi / Error rescheduling appointment',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -1,90 +1,102 @@
 /**
  * GET /api/patient/appointments
  * Returns all appointments for logged-in patient
- * Requires patient_session cookie
+ * Requires patient_session cookie (JWT)
+ * Upcoming appointments carry canReschedule / rescheduleBlockedBy from the
+ * clinic's self-service reschedule policy
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { cookies } from 'next/headers'
+import { withPermission } from '@/lib/auth/guard'
+import { checkPatientReschedulePolicy } from '@/lib/appointments/reschedule-service'
 
-export async function GET(request: NextRequest) {
-  try {
-    // Get patient ID from cookie
-    const cookieStore = await cookies()
-    const patientSession = cookieStore.get('patient_session')
+export const GET = withPermission(
+  'appointment:view:own',
+  async (request, { auth }) => {
+    try {
+      const patientId = auth.userId
 
-    if (!patientSession) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      )
-    }
-
-    const patientId = patientSession.value
-
-    // Get patient's appointments
-    const appointments = await prisma.appointment.findMany({
-      where: {
-        patientId,
-        status: {
-          in: ['BOOKED', 'CONFIRMED', 'CHECKED_IN', 'COMPLETED', 'NO_SHOW']
-        }
-      },
-      include: {
-        slot: {
-          select: {
-            slotDate: true,
-            startTime: true,
-            endTime: true,
-            staff: {
-              select: {
-                firstName: true,
-                lastName: true,
-                role: true
+      // Get patient's appointments
+      const appointments = await prisma.appointment.findMany({
+        where: {
+          patientId,
+          status: {
+            in: ['BOOKED', 'CONFIRMED', 'CHECKED_IN', 'COMPLETED', 'NO_SHOW']
+          }
+        },
+        include: {
+          slot: {
+            select: {
+              id: true,
+              slotDate: true,
+              startTime: true,
+              endTime: true,
+              staff: {
+                select: {
+                  firstName: true,
+                  lastName: true,
+                  role: true
+                }
               }
             }
+          },
+          clinic: {
+            select: {
+              id: true,
+              name: true,
+              phoneNumber: true,
+              address: true,
+              rescheduleCutoffHours: true,
+              maxReschedules: true
+            }
           }
         },
-        clinic: {
-          select: {
-            id: true,
-            name: true,
-            phoneNumber: true,
-            address: true
+        orderBy: {
+          slot: {
+            slotDate: 'desc'
           }
         }
-      },
-      orderBy: {
-        slot: {
-          slotDate: 'desc'
-        }
-      }
-    })
+      })
 
-    // Separate upcoming and past
-    const now = new Date()
-    const upcoming = appointments.filter(apt => 
-      new Date(apt.slot.slotDate) >= now && 
-      !['COMPLETED', 'CANCELLED', 'NO_SHOW'].includes(apt.status)
-    )
-    const past = appointments.filter(apt => 
-      new Date(apt.slot.slotDate) < now || 
-      ['COMPLETED', 'CANCELLED', 'NO_SHOW'].includes(apt.status)
-    )
+      // Separate upcoming and past
+      const now = new Date()
+      const upcoming = appointments.filter(apt => 
+        new Date(apt.slot.slotDate) >= now && 
+        !['COMPLETED', 'CANCELLED', 'NO_SHOW'].includes(apt.status)
+      ).map(apt => {
+        const rescheduleBlockedBy = ['BOOKED', 'CONFIRMED'].includes(apt.status)
+          ? checkPatientReschedulePolicy(
+              { slotDate: apt.slot.slotDate, startTime: apt.slot.startTime, rescheduleCount: apt.rescheduleCount },
+              apt.clinic,
+              now
+            )
+          : 'APPOINTMENT_NOT_RESCHEDULABLE'
 
-    return NextResponse.json({
-      patientId,
-      upcoming,
-      past,
-      total: appointments.length
-    })
+        return {
+          ...apt,
+          canReschedule: rescheduleBlockedBy === null,
+          rescheduleBlockedBy
+        }
+      })
+      const past = appointments.filter(apt => 
+        new Date(apt.slot.slotDate) < now || 
+        ['COMPLETED', 'CANCELLED', 'NO_SHOW'].includes(apt.status)
+      )
 
-  } catch (error) {
-    console.error('Patient appointments error:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch appointments' },
-      { status: 500 }
-    )
+      return NextResponse.json({
+        patientId,
+        upcoming,
+        past,
+        total: appointments.length
+      })
+
+    } catch (error) {
+      console.error('Patient appointments error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch appointments' },
+        { status: 500 }
+      )
+    }
   }
-}
+)
@@ -7,8 +7,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sendPatientOTP } from '@/lib/auth/auth-service'
 import { validateBody } from '@/lib/validation/helpers'
 import { SendOTPSchema } from '@/lib/validation/schemas'
+import { withSystemAccess } from '@/lib/auth/guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withSystemAccess(async (request: NextRequest) => {
   try {
     // Validate request body using Zod
     const validation = await validateBody(request, SendOTPSchema)
@@ -42,4 +43,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -7,8 +7,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { verifyPatientOTP } from '@/lib/auth/auth-service'
 import { validateBody } from '@/lib/validation/helpers'
 import { VerifyOTPSchema } from '@/lib/validation/schemas'
+import { withSystemAccess } from '@/lib/auth/guard'
+import { setSessionCookie, SESSION_COOKIES } from '@/lib/auth/session-service'
+import { getRequestClient } from '@/lib/auth/middleware'
 
-export async function POST(request: NextRequest) {
+export const POST = withSystemAccess(async (request: NextRequest) => {
   try {
     // Validate request body using Zod
     const validation = await validateBody(request, VerifyOTPSchema)
@@ -20,7 +23,7 @@ export async function POST(request: NextRequest) {
     const { phoneNumber, otp } = validation.data
 
     // Verify OTP
-    const result = await verifyPatientOTP(phoneNumber, otp)
+    const result = await verifyPatientOTP(phoneNumber, otp, getRequestClient(request))
 
     if (!result.success) {
       return NextResponse.json(
@@ -37,13 +40,7 @@ export async function POST(request: NextRequest) {
     })
 
     // Set secure cookie with JWT
-    response.cookies.set('patient_session', result.token!, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 60 * 60 * 8, // 8 hours
-      path: '/'
-    })
+    setSessionCookie(response, SESSION_COOKIES.patient, result.token!)
 
     return response
 
@@ -54,4 +51,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
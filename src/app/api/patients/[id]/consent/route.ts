@@ -0,0 +1,89 @@
+/**
+ * PATCH /api/patients/[id]/consent
+ * Record that a patient agreed to, or no longer wants, messages on one
+ * channel - e.g. asked at the reception desk. Clinic staff only
+ * (patient:lookup); patients are shared across clinics. The change is kept
+ * in patient_consent_changes with the staff member as actor.
+ *
+ * Request Body:
+ * {
+ *   channel: 'SMS' | 'WHATSAPP',
+ *   status: 'GRANTED' | 'OPTED_OUT'
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   consent: {
+ *     smsConsent: 'UNKNOWN' | 'GRANTED' | 'OPTED_OUT',
+ *     smsConsentAt: string | null,
+ *     whatsappConsent: 'UNKNOWN' | 'GRANTED' | 'OPTED_OUT',
+ *     whatsappConsentAt: string | null
+ *   },
+ *   changed: boolean - False if the channel already had this status
+ * }
+ *
+ * Error Responses:
+ * - 400: Invalid body
+ * - 401: Not logged in
+ * - 403: Not clinic staff
+ * - 404: Patient not found
+ * - 500: Database error
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withPermission } from '@/lib/auth/guard'
+import { validateBody } from '@/lib/validation/helpers'
+import { UpdatePatientConsentSchema } from '@/lib/validation/schemas'
+import { setPatientConsent } from '@/lib/messaging/consent'
+
+export const PATCH = withPermission<{ id: string }>(
+  'patient:lookup',
+  async (request, { params }) => {
+    try {
+      const { id } = await params
+
+      const validation = await validateBody(request, UpdatePatientConsentSchema)
+      if (!validation.success) {
+        return validation.error
+      }
+
+      const { channel, status } = validation.data
+
+      const previous = await setPatientConsent({ patientId: id, channel, status, source: 'STAFF' })
+
+      const consent = await prisma.patient.findUniqueOrThrow({
+        where: { id },
+        select: { smsConsent: true, smsConsentAt: true, whatsappConsent: true, whatsappConsentAt: true }
+      })
+
+      return NextResponse.json({
+        success: true,
+        consent,
+        changed: previous !== status,
+        message: 'Ridhaa imehifadhiwa / Consent saved'
+      })
+
+    } catch (error) {
+      if (error instanceof Error && error.message === 'PATIENT_NOT_FOUND') {
+        return NextResponse.json(
+          {
+            error: 'Mgonjwa hajapatikana / Patient not found',
+            code: 'PATIENT_NOT_FOUND'
+          },
+          { status: 404 }
+        )
+      }
+
+      console.error('Error updating patient consent:', error)
+      return NextResponse.json(
+        {
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -1,7 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { withPermission } from '@/lib/auth/guard'
 import { validateTanzanianPhone } from '@/lib/phone-validation'
 import { validateBody } from '@/lib/validation/helpers'
+import { recordAuditEvent, createdChanges } from '@/lib/audit/audit-service'
 import { z } from 'zod'
 
 const PatientLookupSchema = z.object({
@@ -14,7 +16,9 @@ const PatientLookupSchema = z.object({
  * POST /api/patients/lookup
  * 
  * Looks up a patient by phone number. If found, returns existing patient.
- * If not found, creates a new patient with provided name or "Unknown".
+ * If not found, creates a new patient with provided name or "Unknown",
+ * recorded in the audit trail under the registering clinic.
+ * Clinic staff only (patient:lookup) - patients are shared across clinics.
  * 
  * Request Body:
  * {
@@ -29,76 +33,97 @@ const PatientLookupSchema = z.object({
  *   isNew: boolean
  * }
  */
-export async function POST(request: NextRequest) {
-  try {
-    // Validate request body
-    const validation = await validateBody(request, PatientLookupSchema)
-    if (!validation.success) {
-      return validation.error
-    }
+export const POST = withPermission(
+  'patient:lookup',
+  async (request, { auth }) => {
+    try {
+      // Validate request body
+      const validation = await validateBody(request, PatientLookupSchema)
+      if (!validation.success) {
+        return validation.error
+      }
 
-    const { phone, name, language_preference } = validation.data
+      const { phone, name, language_preference } = validation.data
 
-    // Validate phone number
-    const phoneValidation = validateTanzanianPhone(phone)
+      // Validate phone number
+      const phoneValidation = validateTanzanianPhone(phone)
     
-    if (!phoneValidation.isValid) {
-      return NextResponse.json(
-        { 
-          error: phoneValidation.error,
-          code: 'INVALID_PHONE'
-        },
-        { status: 400 }
-      )
-    }
-
-    const normalizedPhone = phoneValidation.normalized!
+      if (!phoneValidation.isValid) {
+        return NextResponse.json(
+          { 
+            error: phoneValidation.error,
+            code: 'INVALID_PHONE'
+          },
+          { status: 400 }
+        )
+      }
 
-    // Check if patient exists using Prisma
-    const existingPatient = await prisma.patient.findUnique({
-      where: { phoneNumber: normalizedPhone }
-    })
+      const normalizedPhone = phoneValidation.normalized!
 
-    // If patient exists, return them
-    if (existingPatient) {
-      return NextResponse.json({
-        patient: existingPatient,
-        isNew: false,
-        message: 'Mgonjwa amepatikana / Patient found'
+      // Check if patient exists using Prisma
+      const existingPatient = await prisma.patient.findUnique({
+        where: { phoneNumber: normalizedPhone }
       })
-    }
 
-    // Patient doesn't exist - create new one
-    const patientName = name?.trim() || 'Unknown'
+      // If patient exists, return them
+      if (existingPatient) {
+        return NextResponse.json({
+          patient: existingPatient,
+          isNew: false,
+          message: 'Mgonjwa amepatikana / Patient found'
+        })
+      }
+
+      // Patient doesn't exist - create new one
+      const patientName = name?.trim() || 'Unknown'
     
-    // Parse name into first and last
-    const nameParts = patientName.split(' ')
-    const firstName = nameParts[0]
-    const lastName = nameParts.slice(1).join(' ') || 'Unknown'
+      // Parse name into first and last
+      const nameParts = patientName.split(' ')
+      const firstName = nameParts[0]
+      const lastName = nameParts.slice(1).join(' ') || 'Unknown'
 
-    const newPatient = await prisma.patient.create({
-      data: {
-        phoneNumber: normalizedPhone,
-        firstName: firstName,
-        lastName: lastName,
-        language: language_preference
-      }
-    })
+      const newPatient = await prisma.$transaction(async (tx) => {
+        const patient = await tx.patient.create({
+          data: {
+            phoneNumber: normalizedPhone,
+            firstName: firstName,
+            lastName: lastName,
+            language: language_preference
+          }
+        })
+
+        await recordAuditEvent({
+          action: 'PATIENT_CREATED',
+          entityType: 'PATIENT',
+          entityId: patient.id,
+          clinicId: auth.clinicId,
+          patientId: patient.id,
+          changes: createdChanges({
+            phoneNumber: patient.phoneNumber,
+            firstName: patient.firstName,
+            lastName: patient.lastName,
+            language: patient.language
+          })
+        }, tx)
 
-    return NextResponse.json({
-      patient: newPatient,
-      isNew: true,
-      message: 'Mgonjwa mpya amesajiliwa / New patient registered'
-    }, { status: 201 })
+        return patient
+      })
+
+      return NextResponse.json({
+        patient: newPatient,
+        isNew: true,
+        message: 'Mgonjwa mpya amesajiliwa / New patient registered'
+      }, { status: 201 })
 
-  } catch (error) {
-    console.error('Unexpected error in patient lookup:', error)
-    return NextResponse.json(
-      { 
-        error: 'Hitilafu isiyotarajiwa / Unexpected error',
-        code: 'INTERNAL_ERROR'
-      },
-      { status: 500 }
-    )
+    } catch (error) {
+      console.error('Unexpected error in patient lookup:', error)
+      return NextResponse.json(
+        { 
+          error: 'Hitilafu isiyotarajiwa / Unexpected error',
+          code: 'INTERNAL_ERROR'
+        },
+        { status: 500 }
+      )
+    }
   }
-}
+)
@@ -1,63 +1,70 @@
 /**
  * POST /api/reminders/send-now
- * 
+ *
  * Manual override endpoint for triggering appointment reminders.
  * Protected by secret key for testing and emergency use.
- * 
+ *
  * HEADERS:
  * - X-API-Key (required): Secret key for authentication
- * 
+ *
  * QUERY PARAMETERS:
- * - type (optional): '24h' | 'same_day' | 'all' - Which reminders to send
+ * - clinic_id (optional): Only this clinic's reminders
  * - appointment_id (optional): Send reminder for specific appointment only
  * - dry_run (optional): If 'true', simulate without sending actual SMS
- * 
+ *
  * REQUEST BODY:
  * {
- *   force?: boolean - Ignore already-sent flags and re-send
+ *   force?: boolean - With appointment_id: send its reminder now, even if
+ *                     it is not due yet or was already sent
  *   testMode?: boolean - Log only, don't send SMS
  * }
- * 
+ *
+ * Without force, this sends exactly what the hourly cron would: every
+ * reminder due under the clinics' reminder rules.
+ *
  * RESPONSE:
  * {
  *   success: boolean,
  *   sent: number,
  *   failed: number,
+ *   skipped: number,
  *   executionTimeMs: number,
  *   results: Array<{
  *     appointmentId: string,
  *     patientName: string,
  *     phone: string,
- *     type: '24h' | 'same_day',
+ *     ruleId: string,
+ *     offsetHours: number,
  *     status: 'sent' | 'failed' | 'skipped',
- *     messageSid?: string,
+ *     channel?: 'SMS' | 'WHATSAPP' | 'BOTH',
+ *     outboxIds?: string[],
  *     error?: string
  *   }>
  * }
- * 
+ *
  * EXAMPLES:
- * 
+ *
  * Test mode (no SMS sent):
  *   POST /api/reminders/send-now?dry_run=true
  *   Header: X-API-Key: xxx
- * 
- * Send specific reminder type:
- *   POST /api/reminders/send-now?type=24h
+ *
+ * Send one clinic's due reminders:
+ *   POST /api/reminders/send-now?clinic_id=uuid
  *   Header: X-API-Key: xxx
- * 
+ *
  * Force re-send for a specific appointment:
  *   POST /api/reminders/send-now?appointment_id=uuid
  *   Header: X-API-Key: xxx
  *   Body: { "force": true }
- * 
+ *
  * WHY THIS EXISTS:
  * This endpoint serves as a manual override for the automated cron job.
  * Use cases:
  * 1. Testing SMS templates in development
- * 2. Emergency re-send after Twilio outage
+ * 2. Emergency re-send after an SMS gateway outage
  * 3. On-demand reminders for same-day bookings
  * 4. Debugging reminder issues in production
- * 
+ *
  * SECURITY NOTES:
  * - Secret key must be passed in X-API-Key header (not URL)
  * - Always use HTTPS in production
@@ -68,48 +75,11 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { sendSMS, isTwilioConfigured } from '@/lib/sms/sms-service'
-import { generateMessageContent, mapMessageTypeToSmsType } from '@/lib/sms/message-templates'
-import { addHours, startOfDay, endOfDay } from 'date-fns'
-import { isTodayInTanzania } from '@/lib/timezone'
+import { isSmsConfigured } from '@/lib/sms/sms-service'
 import { logger } from '@/lib/logger'
-import type { Prisma } from '@prisma/client'
-
-// Type definitions for appointment with included relations
-type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
-  include: {
-    patient: {
-      select: {
-        id: true
-        firstName: true
-        lastName: true
-        phoneNumber: true
-        language: true
-      }
-    }
-    slot: {
-      select: {
-        slotDate: true
-        startTime: true
-        staff: {
-          select: {
-            firstName: true
-            lastName: true
-            role: true
-          }
-        }
-      }
-    }
-    clinic: {
-      select: {
-        id: true
-        name: true
-        phoneNumber: true
-        address: true
-      }
-    }
-  }
-}>
+import { withSystemAccess } from '@/lib/auth/guard'
+import { getReminderOverview, runReminders, sendReminderNow, type ReminderRunResult } from '@/lib/reminders/reminder-engine'
+import { reminderErrorResponse } from '@/lib/reminders/reminder-errors'
 
 // Configuration
 const SECRET_KEY = process.env.REMINDERS_SECRET_KEY
@@ -126,239 +96,10 @@ function verifyAuthorization(request: NextRequest): boolean {
   return providedSecret === SECRET_KEY
 }
 
-
-/**
- * Find appointments needing 24-hour reminders
- */
-async function find24HourReminders(force: boolean = false) {
-  const now = new Date()
-  const tomorrow = addHours(now, 26) // Slightly wider window for manual trigger
-
-  return await prisma.appointment.findMany({
-    where: {
-      status: {
-        in: ['BOOKED', 'CONFIRMED']
-      },
-      ...(force ? {} : { reminder24hSent: false }),
-      slot: {
-        slotDate: {
-          gte: now,
-          lte: tomorrow
-        }
-      }
-    },
-    include: {
-      patient: {
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          phoneNumber: true,
-          language: true
-        }
-      },
-      slot: {
-        select: {
-          slotDate: true,
-          startTime: true,
-          staff: {
-            select: {
-              firstName: true,
-              lastName: true,
-              role: true
-            }
-          }
-        }
-      },
-      clinic: {
-        select: {
-          id: true,
-          name: true,
-          phoneNumber: true,
-          address: true
-        }
-      }
-    },
-    orderBy: {
-      slot: {
-        slotDate: 'asc'
-      }
-    },
-    take: 50
-  })
-}
-
-/**
- * Find appointments needing same-day reminders
- */
-async function findSameDayReminders(force: boolean = false) {
-  const now = new Date()
-  const todayStart = startOfDay(now)
-  const todayEnd = endOfDay(now)
-
-  const appointments = await prisma.appointment.findMany({
-    where: {
-      status: {
-        in: ['BOOKED', 'CONFIRMED']
-      },
-      ...(force ? {} : { reminderSameDaySent: false }),
-      slot: {
-        slotDate: {
-          gte: todayStart,
-          lte: todayEnd
-        }
-      }
-    },
-    include: {
-      patient: {
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          phoneNumber: true,
-          language: true
-        }
-      },
-      slot: {
-        select: {
-          slotDate: true,
-          startTime: true,
-          staff: {
-            select: {
-              firstName: true,
-              lastName: true,
-              role: true
-            }
-          }
-        }
-      },
-      clinic: {
-        select: {
-          id: true,
-          name: true,
-          phoneNumber: true,
-          address: true
-        }
-      }
-    },
-    orderBy: {
-      slot: {
-        slotDate: 'asc'
-      }
-    },
-    take: 50
-  })
-
-  // Filter to only include appointments that are actually "today" in Tanzania time
-  return appointments.filter(apt => isTodayInTanzania(apt.slot.slotDate))
-}
-
-/**
- * Send reminder for a specific appointment
- */
-async function sendReminder(
-  appointment: AppointmentWithRelations,
-  type: '24h' | 'same_day',
-  dryRun: boolean,
-  force: boolean
-): Promise<{
-  success: boolean
-  skipped?: boolean
-  messageSid?: string
-  error?: string
-}> {
-  const patient = appointment.patient
-  const slot = appointment.slot
-  const clinic = appointment.clinic
-
-  // Check if already sent (unless forcing)
-  if (!force) {
-    if (type === '24h' && appointment.reminder24hSent) {
-      return { success: false, skipped: true, error: '24h reminder already sent' }
-    }
-    if (type === 'same_day' && appointment.reminderSameDaySent) {
-      return { success: false, skipped: true, error: 'Same-day reminder already sent' }
-    }
-  }
-
-  // Generate message
-  const messageType = type === '24h' ? 'REMINDER_24H' : 'REMINDER_1H'
-  const messageContent = generateMessageContent({
-    type: messageType,
-    patient: {
-      firstName: patient.firstName,
-      lastName: patient.lastName,
-      language: (patient.language as 'sw' | 'en') || 'sw'
-    },
-    appointment: {
-      date: slot.slotDate.toISOString().split('T')[0],
-      time: slot.startTime,
-      doctorName: `Dr. ${slot.staff.firstName} ${slot.staff.lastName}`,
-      doctorRole: slot.staff.role,
-      clinicName: clinic.name,
-      clinicPhone: clinic.phoneNumber,
-      address: clinic.address || undefined
-    }
-  })
-
-  // Dry run - just log
-  if (dryRun) {
-    logger.info(`[MANUAL] DRY RUN - Would send ${type} reminder`, {
-      to: patient.phoneNumber,
-      message: messageContent.primary.substring(0, 50) + '...'
-    })
-    return { success: true, messageSid: 'DRY-RUN' }
-  }
-
-  // Send SMS
-  try {
-    const result = await sendSMS({
-      to: patient.phoneNumber,
-      message: messageContent.primary,
-      type: mapMessageTypeToSmsType(messageType),
-      appointmentId: appointment.id,
-      patientId: patient.id,
-      clinicId: clinic.id
-    })
-
-    if (result.success) {
-      // Update flags
-      if (type === '24h') {
-        await prisma.appointment.update({
-          where: { id: appointment.id },
-          data: {
-            reminder24hSent: true,
-            reminder24hSentAt: new Date(),
-            reminder24hFailed: false,
-            reminder24hError: null
-          }
-        })
-      } else {
-        await prisma.appointment.update({
-          where: { id: appointment.id },
-          data: {
-            reminderSameDaySent: true,
-            reminderSameDaySentAt: new Date(),
-            reminderSameDayFailed: false,
-            reminderSameDayError: null
-          }
-        })
-      }
-
-      return { success: true, messageSid: result.messageSid }
-    } else {
-      throw new Error(result.error || 'SMS send failed')
-    }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    return { success: false, error: errorMessage }
-  }
-}
-
 /**
  * POST handler for manual reminder trigger
  */
-export async function POST(request: NextRequest) {
+export const POST = withSystemAccess(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -373,12 +114,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check Twilio configuration
-    if (!isTwilioConfigured()) {
+    // Check SMS configuration
+    if (!isSmsConfigured()) {
       return NextResponse.json(
         {
-          error: 'Twilio haijasanidiwa / Twilio not configured',
-          code: 'TWILIO_NOT_CONFIGURED'
+          error: 'SMS haijasanidiwa / SMS not configured',
+          code: 'SMS_NOT_CONFIGURED'
         },
         { status: 503 }
       )
@@ -386,8 +127,8 @@ export async function POST(request: NextRequest) {
 
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams
-    const reminderType = searchParams.get('type') as '24h' | 'same_day' | 'all' | null
-    const specificAppointmentId = searchParams.get('appointment_id')
+    const clinicId = searchParams.get('clinic_id') || undefined
+    const appointmentId = searchParams.get('appointment_id') || undefined
     const dryRun = searchParams.get('dry_run') === 'true'
 
     // Parse body
@@ -401,142 +142,21 @@ export async function POST(request: NextRequest) {
       // No body or invalid JSON, continue with defaults
     }
 
-    const results: Array<{
-      appointmentId: string
-      patientName: string
-      phone: string
-      type: '24h' | 'same_day'
-      status: 'sent' | 'failed' | 'skipped'
-      messageSid?: string
-      error?: string
-    }> = []
-
-    let sent = 0
-    let failed = 0
-    let skipped = 0
-
-    // Handle specific appointment
-    if (specificAppointmentId) {
-      const appointment = await prisma.appointment.findUnique({
-        where: { id: specificAppointmentId },
-        include: {
-          patient: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              phoneNumber: true,
-              language: true
-            }
-          },
-          slot: {
-            select: {
-              slotDate: true,
-              startTime: true,
-              staff: {
-                select: {
-                  firstName: true,
-                  lastName: true,
-                  role: true
-                }
-              }
-            }
-          },
-          clinic: {
-            select: {
-              id: true,
-              name: true,
-              phoneNumber: true,
-              address: true
-            }
-          }
-        }
-      })
-
-      if (!appointment) {
-        return NextResponse.json(
-          { error: 'Appointment not found', code: 'NOT_FOUND' },
-          { status: 404 }
-        )
+    let run: ReminderRunResult
+    if (appointmentId && force) {
+      const outcome = await sendReminderNow(appointmentId, { dryRun: dryRun || testMode })
+      run = {
+        appointmentsChecked: 1,
+        sent: outcome.status === 'sent' ? 1 : 0,
+        failed: outcome.status === 'failed' ? 1 : 0,
+        skipped: outcome.status === 'skipped' ? 1 : 0,
+        results: [outcome]
       }
-
-      // Determine reminder type based on timing
-      const now = new Date()
-      const appointmentDate = new Date(appointment.slot.slotDate)
-      const hoursUntil = (appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60)
-
-      const type = hoursUntil <= 4 ? 'same_day' : '24h'
-      const result = await sendReminder(appointment, type, dryRun || testMode, force)
-
-      results.push({
-        appointmentId: appointment.id,
-        patientName: `${appointment.patient.firstName} ${appointment.patient.lastName}`,
-        phone: appointment.patient.phoneNumber,
-        type,
-        status: result.skipped ? 'skipped' : result.success ? 'sent' : 'failed',
-        messageSid: result.messageSid,
-        error: result.error
-      })
-
-      if (result.success) sent++
-      else if (result.skipped) skipped++
-      else failed++
     } else {
-      // Find appointments based on type filter
-      let appointments24h: AppointmentWithRelations[] = []
-      let appointmentsSameDay: AppointmentWithRelations[] = []
-
-      if (reminderType === '24h' || reminderType === 'all' || !reminderType) {
-        appointments24h = await find24HourReminders(force)
-      }
-
-      if (reminderType === 'same_day' || reminderType === 'all' || !reminderType) {
-        appointmentsSameDay = await findSameDayReminders(force)
-      }
-
-      // Send 24h reminders
-      for (const apt of appointments24h) {
-        const result = await sendReminder(apt, '24h', dryRun || testMode, force)
-        results.push({
-          appointmentId: apt.id,
-          patientName: `${apt.patient.firstName} ${apt.patient.lastName}`,
-          phone: apt.patient.phoneNumber,
-          type: '24h',
-          status: result.skipped ? 'skipped' : result.success ? 'sent' : 'failed',
-          messageSid: result.messageSid,
-          error: result.error
-        })
-
-        if (result.success) sent++
-        else if (result.skipped) skipped++
-        else failed++
-
-        // Small delay between sends
-        await new Promise(resolve => setTimeout(resolve, 200))
-      }
-
-      // Send same-day reminders
-      for (const apt of appointmentsSameDay) {
-        const result = await sendReminder(apt, 'same_day', dryRun || testMode, force)
-        results.push({
-          appointmentId: apt.id,
-          patientName: `${apt.patient.firstName} ${apt.patient.lastName}`,
-          phone: apt.patient.phoneNumber,
-          type: 'same_day',
-          status: result.skipped ? 'skipped' : result.success ? 'sent' : 'failed',
-          messageSid: result.messageSid,
-          error: result.error
-        })
-
-        if (result.success) sent++
-        else if (result.skipped) skipped++
-        else failed++
-
-        // Small delay between sends
-        await new Promise(resolve => setTimeout(resolve, 200))
-      }
+      run = await runReminders({ clinicId, appointmentId, dryRun: dryRun || testMode })
     }
 
+    const { sent, failed, skipped, results } = run
     const duration = Date.now() - startTime
 
     // Log to cron_logs for audit trail
@@ -546,12 +166,12 @@ export async function POST(request: NextRequest) {
         startedAt: new Date(startTime),
         completedAt: new Date(),
         status: failed === 0 ? 'SUCCESS' : sent > 0 ? 'PARTIAL' : 'FAILED',
-        appointmentsChecked: results.length,
+        appointmentsChecked: run.appointmentsChecked,
         remindersSent: sent,
         remindersFailed: failed,
         retriesAttempted: 0,
         durationMs: duration,
-        triggeredBy: dryRun ? 'test' : 'manual'
+        triggeredBy: dryRun || testMode ? 'test' : 'manual'
       }
     })
 
@@ -566,6 +186,11 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    const mapped = reminderErrorResponse(error)
+    if (mapped) {
+      return mapped
+    }
+
     const duration = Date.now() - startTime
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
 
@@ -581,12 +206,12 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * GET handler for status check
  */
-export async function GET(request: NextRequest) {
+export const GET = withSystemAccess(async (request: NextRequest) => {
   // Verify authorization
   if (!verifyAuthorization(request)) {
     return NextResponse.json(
@@ -599,84 +224,21 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const now = new Date()
-    const tomorrow = addHours(now, 24)
-
-    // Get counts
-    const upcoming24h = await prisma.appointment.count({
-      where: {
-        status: { in: ['BOOKED', 'CONFIRMED'] },
-        reminder24hSent: false,
-        slot: {
-          slotDate: {
-            gte: now,
-            lte: tomorrow
-          }
-        }
-      }
-    })
-
-    const upcomingSameDay = await prisma.appointment.count({
-      where: {
-        status: { in: ['BOOKED', 'CONFIRMED'] },
-        reminderSameDaySent: false,
-        slot: {
-          slotDate: {
-            gte: startOfDay(now),
-            lte: endOfDay(now)
-          }
-        }
-      }
-    })
-
-    const failed24h = await prisma.appointment.count({
-      where: {
-        reminder24hFailed: true
-      }
-    })
-
-    const failedSameDay = await prisma.appointment.count({
-      where: {
-        reminderSameDayFailed: true
-      }
-    })
-
-    // Get recent cron runs
-    const recentRuns = await prisma.cronLog.findMany({
-      where: {
-        jobName: 'send-reminders'
-      },
-      orderBy: {
-        startedAt: 'desc'
-      },
-      take: 5,
-      select: {
-        id: true,
-        startedAt: true,
-        status: true,
-        remindersSent: true,
-        remindersFailed: true,
-        triggeredBy: true,
-        durationMs: true
-      }
-    })
+    const { due, failedLastWeek, recentRuns } = await getReminderOverview()
 
     return NextResponse.json({
       status: 'ok',
-      twilioConfigured: isTwilioConfigured(),
+      smsConfigured: isSmsConfigured(),
       pendingReminders: {
-        '24h': upcoming24h,
-        sameDay: upcomingSameDay,
-        failed24h,
-        failedSameDay
+        due,
+        failedLastWeek
       },
       recentRuns,
       usage: {
-        send24hReminders: 'POST /api/reminders/send-now?type=24h (Header: X-API-Key)',
-        sendSameDayReminders: 'POST /api/reminders/send-now?type=same_day (Header: X-API-Key)',
-        sendAll: 'POST /api/reminders/send-now?type=all (Header: X-API-Key)',
+        sendDue: 'POST /api/reminders/send-now (Header: X-API-Key)',
+        sendForClinic: 'POST /api/reminders/send-now?clinic_id=uuid (Header: X-API-Key)',
         testMode: 'POST /api/reminders/send-now?dry_run=true (Header: X-API-Key)',
-        specificAppointment: 'POST /api/reminders/send-now?appointment_id=uuid (Header: X-API-Key)'
+        specificAppointment: 'POST /api/reminders/send-now?appointment_id=uuid (Header: X-API-Key, Body: { "force": true })'
       }
     })
 
@@ -691,4 +253,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
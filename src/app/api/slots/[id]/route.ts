@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma'
 import { calculateDuration } from '@/lib/date-utils'
 import { validateParams } from '@/lib/validation/helpers'
 import { z } from 'zod'
+import { withPublicAccess } from '@/lib/auth/guard'
 
 const SlotParamsSchema = z.object({
   id: z.string().uuid()
@@ -43,10 +44,10 @@ const SlotParamsSchema = z.object({
  *   }
  * }
  */
-export async function GET(
+export const GET = withPublicAccess(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params
 
@@ -128,4 +129,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
@@ -4,17 +4,26 @@ import { calculateDuration } from '@/lib/date-utils'
 import { getCurrentTanzaniaTime, MILLISECONDS_PER_MINUTE } from '@/lib/timezone'
 import { validateQuery } from '@/lib/validation/helpers'
 import { GetAvailableSlotsQuerySchema } from '@/lib/validation/schemas'
+import { getClinicClosureForDate } from '@/lib/closures/closure-service'
+import { getStaffAbsencesInRange, isStaffAbsent } from '@/lib/staff/absence-service'
+import { findSlotChain } from '@/lib/appointments/slot-chain'
+import { withPublicAccess } from '@/lib/auth/guard'
 
 /**
  * GET /api/slots/available
  * 
  * Returns available appointment slots for a specific clinic and date.
- * Filters out already-booked slots and past times for today.
+ * Filters out already-booked slots, past times for today and slots of
+ * staff who are absent (StaffAbsence).
+ * On public holidays and clinic closures no slots are returned; the
+ * response carries code CLINIC_CLOSED and the reason instead.
  * 
  * Query Parameters:
  * - clinic_id (required): UUID of the clinic
  * - date (required): Date in YYYY-MM-DD format
  * - service_type (optional): Filter by service type
+ * - appointment_type_id (optional): Only slots where this catalogue type fits -
+ *   staff with an allowed specialization and enough consecutive free slots
  * 
  * Response:
  * {
@@ -24,6 +33,7 @@ import { GetAvailableSlotsQuerySchema } from '@/lib/validation/schemas'
  *     start_time: string,
  *     end_time: string,
  *     is_available: boolean,
+ *     appointment_end_time?: string, // With appointment_type_id: end of the last slot needed
  *     staff: {
  *       id: string,
  *       first_name: string,
@@ -33,8 +43,17 @@ import { GetAvailableSlotsQuerySchema } from '@/lib/validation/schemas'
  *     }
  *   }>
  * }
+ *
+ * Response when the clinic is closed that day:
+ * {
+ *   slots: [],
+ *   count: 0,
+ *   code: 'CLINIC_CLOSED',
+ *   message: string,
+ *   closure: { type: 'PUBLIC_HOLIDAY' | 'CLINIC_CLOSURE', reason: string }
+ * }
  */
-export async function GET(request: NextRequest) {
+export const GET = withPublicAccess(async (request: NextRequest) => {
   try {
     // Validate query parameters
     const validation = validateQuery(request.nextUrl.searchParams, GetAvailableSlotsQuerySchema)
@@ -42,7 +61,23 @@ export async function GET(request: NextRequest) {
       return validation.error
     }
 
-    const { clinic_id, date, service_type } = validation.data
+    const { clinic_id, date, service_type, appointment_type_id } = validation.data
+
+    const appointmentType = appointment_type_id
+      ? await prisma.appointmentType.findFirst({
+          where: { id: appointment_type_id, clinicId: clinic_id, isActive: true }
+        })
+      : null
+
+    if (appointment_type_id && !appointmentType) {
+      return NextResponse.json(
+        {
+          error: 'Aina ya miadi haijapatikana / Appointment type not found',
+          code: 'APPOINTMENT_TYPE_NOT_FOUND'
+        },
+        { status: 404 }
+      )
+    }
 
     // Parse the date
     const requestedDate = new Date(date)
@@ -60,6 +95,23 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Closed days have no bookable slots, even if some were generated earlier
+    const closure = await getClinicClosureForDate(clinic_id, date)
+    if (closure) {
+      return NextResponse.json({
+        slots: [],
+        count: 0,
+        clinic_id: clinic_id,
+        date: date,
+        code: 'CLINIC_CLOSED',
+        message: `Kliniki imefungwa siku hii (${closure.reason}) / Clinic is closed on this day (${closure.reason})`,
+        closure: {
+          type: closure.type,
+          reason: closure.reason
+        }
+      })
+    }
+
     // Calculate date range for the requested date
     const startOfDay = new Date(requestedDate)
     startOfDay.setHours(0, 0, 0, 0)
@@ -118,14 +170,39 @@ export async function GET(request: NextRequest) {
       }
     })
 
+    // Hide slots of staff who are on leave or otherwise away
+    const absences = await getStaffAbsencesInRange(clinic_id, date, date)
+    const staffedSlots = slots.filter(slot =>
+      !isStaffAbsent(absences, slot.staffId, date, slot.startTime, slot.endTime)
+    )
+
+    // Keep only start slots where the chosen type fits
+    const allowedSpecializations = appointmentType?.allowedSpecializations ?? []
+    const fittingSlots = staffedSlots.flatMap((slot): { slot: typeof slot; appointmentEndTime?: string }[] => {
+      if (!appointmentType) {
+        return [{ slot }]
+      }
+
+      if (
+        allowedSpecializations.length > 0 &&
+        !allowedSpecializations.includes(slot.staff.specialization ?? '')
+      ) {
+        return []
+      }
+
+      const chain = findSlotChain(slot, staffedSlots, appointmentType.durationMinutes)
+      return chain ? [{ slot, appointmentEndTime: chain.endTime }] : []
+    })
+
     // Transform data for cleaner response
-    const formattedSlots = slots.map(slot => ({
+    const formattedSlots = fittingSlots.map(({ slot, appointmentEndTime }) => ({
       id: slot.id,
       slot_date: slot.slotDate,
       start_time: slot.startTime,
       end_time: slot.endTime,
       duration: calculateDuration(slot.startTime, slot.endTime),
       is_available: slot.isAvailable,
+      ...(appointmentEndTime && { appointment_end_time: appointmentEndTime }),
       staff: slot.staff
     }))
 
@@ -147,4 +224,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,181 +1,210 @@
 /**
  * Waitlist API Routes
  * 
- * POST /api/waitlist - Add patient to waitlist
- * GET /api/waitlist?clinicId=xxx&date=xxx - Get waitlist for clinic
+ * POST /api/waitlist - Add patient to waitlist (staff, or a patient adding themselves)
+ * GET /api/waitlist?clinicId=xxx&date=xxx - Get waitlist for clinic (staff of that clinic)
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { withPermission, clinicFromBody, clinicFromQuery } from '@/lib/auth/guard'
 import { startOfDay, endOfDay } from 'date-fns'
+import { recordAuditEvent, createdChanges } from '@/lib/audit/audit-service'
 
 // POST /api/waitlist - Add to waitlist
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const {
-      patientId,
-      clinicId,
-      preferredDate,
-      preferredTimeSlot,
-      appointmentType,
-      staffId,
-      priority,
-      notes
-    } = body
-
-    // Validate required fields
-    if (!patientId || !clinicId || !preferredDate) {
-      return NextResponse.json(
-        { error: 'Patient ID, clinic ID, and preferred date are required' },
-        { status: 400 }
-      )
-    }
-
-    // Check if patient already has an appointment on this date
-    const existingAppointment = await prisma.appointment.findFirst({
-      where: {
-        patientId,
+export const POST = withPermission(
+  { permission: 'waitlist:create', clinic: clinicFromBody('clinicId') },
+  async (request, { auth }) => {
+    try {
+      const body = await request.json()
+      const {
         clinicId,
-        slot: {
-          slotDate: {
-            gte: startOfDay(new Date(preferredDate)),
-            lte: endOfDay(new Date(preferredDate))
+        preferredDate,
+        preferredTimeSlot,
+        appointmentType,
+        staffId,
+        priority,
+        notes
+      } = body
+
+      // Patients can only add themselves
+      const patientId = auth.userType === 'patient' ? auth.userId : body.patientId
+
+      // Validate required fields
+      if (!patientId || !clinicId || !preferredDate) {
+        return NextResponse.json(
+          { error: 'Patient ID, clinic ID, and preferred date are required' },
+          { status: 400 }
+        )
+      }
+
+      // Check if patient already has an appointment on this date
+      const existingAppointment = await prisma.appointment.findFirst({
+        where: {
+          patientId,
+          clinicId,
+          slot: {
+            slotDate: {
+              gte: startOfDay(new Date(preferredDate)),
+              lte: endOfDay(new Date(preferredDate))
+            }
+          },
+          status: {
+            in: ['BOOKED', 'CONFIRMED']
           }
-        },
-        status: {
-          in: ['BOOKED', 'CONFIRMED']
         }
+      })
+
+      if (existingAppointment) {
+        return NextResponse.json(
+          { error: 'Patient already has an appointment on this date' },
+          { status: 409 }
+        )
       }
-    })
 
-    if (existingAppointment) {
-      return NextResponse.json(
-        { error: 'Patient already has an appointment on this date' },
-        { status: 409 }
-      )
-    }
+      // Check if patient is already on waitlist for this date
+      const existingWaitlist = await prisma.waitlist.findFirst({
+        where: {
+          patientId,
+          clinicId,
+          preferredDate: {
+            gte: startOfDay(new Date(preferredDate)),
+            lte: endOfDay(new Date(preferredDate))
+          },
+          status: 'WAITING'
+        }
+      })
 
-    // Check if patient is already on waitlist for this date
-    const existingWaitlist = await prisma.waitlist.findFirst({
-      where: {
-        patientId,
-        clinicId,
-        preferredDate: {
-          gte: startOfDay(new Date(preferredDate)),
-          lte: endOfDay(new Date(preferredDate))
-        },
-        status: 'WAITING'
+      if (existingWaitlist) {
+        return NextResponse.json(
+          { error: 'Patient is already on the waitlist for this date' },
+          { status: 409 }
+        )
       }
-    })
 
-    if (existingWaitlist) {
+      // Create waitlist entry
+      const waitlistEntry = await prisma.$transaction(async (tx) => {
+        const entry = await tx.waitlist.create({
+          data: {
+            patientId,
+            clinicId,
+            preferredDate: new Date(preferredDate),
+            preferredTimeSlot,
+            appointmentType: appointmentType || 'general',
+            staffId,
+            priority: priority || 0,
+            notes,
+            status: 'WAITING'
+          },
+          include: {
+            patient: {
+              select: {
+                firstName: true,
+                lastName: true,
+                phoneNumber: true
+              }
+            }
+          }
+        })
+
+        await recordAuditEvent({
+          action: 'WAITLIST_JOINED',
+          entityType: 'WAITLIST',
+          entityId: entry.id,
+          clinicId,
+          patientId,
+          changes: createdChanges({
+            preferredDate: entry.preferredDate,
+            preferredTimeSlot: entry.preferredTimeSlot,
+            appointmentType: entry.appointmentType,
+            staffId: entry.staffId,
+            priority: entry.priority,
+            status: entry.status
+          })
+        }, tx)
+
+        return entry
+      })
+
+      return NextResponse.json({
+        success: true,
+        waitlist: waitlistEntry,
+        message: 'Added to waitlist successfully'
+      }, { status: 201 })
+
+    } catch (error) {
+      console.error('Waitlist creation error:', error)
       return NextResponse.json(
-        { error: 'Patient is already on the waitlist for this date' },
-        { status: 409 }
+        { error: 'Failed to add to waitlist' },
+        { status: 500 }
       )
     }
-
-    // Create waitlist entry
-    const waitlistEntry = await prisma.waitlist.create({
-      data: {
-        patientId,
-        clinicId,
-        preferredDate: new Date(preferredDate),
-        preferredTimeSlot,
-        appointmentType: appointmentType || 'general',
-        staffId,
-        priority: priority || 0,
-        notes,
-        status: 'WAITING'
-      },
-      include: {
-        patient: {
-          select: {
-            firstName: true,
-            lastName: true,
-            phoneNumber: true
-          }
-        }
-      }
-    })
-
-    return NextResponse.json({
-      success: true,
-      waitlist: waitlistEntry,
-      message: 'Added to waitlist successfully'
-    }, { status: 201 })
-
-  } catch (error) {
-    console.error('Waitlist creation error:', error)
-    return NextResponse.json(
-      { error: 'Failed to add to waitlist' },
-      { status: 500 }
-    )
   }
-}
+)
 
 // GET /api/waitlist - Get waitlist
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams
-    const clinicId = searchParams.get('clinicId')
-    const date = searchParams.get('date')
-    const status = searchParams.get('status') || 'WAITING'
-
-    if (!clinicId) {
-      return NextResponse.json(
-        { error: 'Clinic ID is required' },
-        { status: 400 }
-      )
-    }
+export const GET = withPermission(
+  { permission: 'waitlist:view', clinic: clinicFromQuery('clinicId') },
+  async (request) => {
+    try {
+      const searchParams = request.nextUrl.searchParams
+      const clinicId = searchParams.get('clinicId')
+      const date = searchParams.get('date')
+      const status = searchParams.get('status') || 'WAITING'
+
+      if (!clinicId) {
+        return NextResponse.json(
+          { error: 'Clinic ID is required' },
+          { status: 400 }
+        )
+      }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const whereClause: Record<string, unknown> = {
-      clinicId,
-      status
-    }
+      const whereClause: Record<string, unknown> = {
+        clinicId,
+        status
+      }
 
-    if (date) {
-      whereClause.preferredDate = {
-        gte: startOfDay(new Date(date)),
-        lte: endOfDay(new Date(date))
+      if (date) {
+        whereClause.preferredDate = {
+          gte: startOfDay(new Date(date)),
+          lte: endOfDay(new Date(date))
+        }
       }
-    }
 
-    const waitlist = await prisma.waitlist.findMany({
-      where: whereClause,
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phoneNumber: true
+      const waitlist = await prisma.waitlist.findMany({
+        where: whereClause,
+        include: {
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              phoneNumber: true
+            }
+          },
+          staff: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              role: true
+            }
           }
         },
-        staff: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            role: true
-          }
-        }
-      },
-      orderBy: [
-        { priority: 'desc' },
-        { createdAt: 'asc' }
-      ]
-    })
-
-    return NextResponse.json({ waitlist })
-
-  } catch (error) {
-    console.error('Waitlist fetch error:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch waitlist' },
-      { status: 500 }
-    )
+        orderBy: [
+          { priority: 'desc' },
+          { createdAt: 'asc' }
+        ]
+      })
+
+      return NextResponse.json({ waitlist })
+
+    } catch (error) {
+      console.error('Waitlist fetch error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch waitlist' },
+        { status: 500 }
+      )
+    }
   }
-}
+)
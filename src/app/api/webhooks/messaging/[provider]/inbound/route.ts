@@ -0,0 +1,34 @@
+/**
+ * POST /api/webhooks/messaging/[provider]/inbound
+ * 
+ * Messages patients send to the clinic number through a messaging
+ * provider (twilio, africastalking, beem, fake). Replies confirm or
+ * cancel the next appointment; everything lands in the clinic inbox.
+ * 
+ * SECURITY: Twilio requests are signed; Africa's Talking and Beem callback
+ * URLs must carry ?token=<AFRICASTALKING_WEBHOOK_TOKEN / BEEM_WEBHOOK_TOKEN>.
+ * The fake provider is refused in production.
+ * 
+ * Simulating a patient reply in development:
+ *   curl -X POST localhost:3000/api/webhooks/messaging/fake/inbound \
+ *     -d '{"from": "+255712345678", "body": "NDIYO"}'
+ * 
+ * Error Responses:
+ * - 400: No message in the request
+ * - 403: Invalid signature or token
+ * - 404: Unknown provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withSystemAccess } from '@/lib/auth/guard'
+import { getProviderByName, parseProviderName } from '@/lib/messaging/provider-registry'
+import { handleInboundWebhook } from '@/lib/messaging/webhook-handlers'
+
+export const POST = withSystemAccess<{ provider: string }>(async (request: NextRequest, { params }) => {
+  const name = parseProviderName((await params).provider)
+  if (!name) {
+    return NextResponse.json({ error: 'Unknown provider' }, { status: 404 })
+  }
+
+  return handleInboundWebhook(getProviderByName(name), request)
+})
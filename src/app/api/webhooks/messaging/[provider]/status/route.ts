@@ -0,0 +1,29 @@
+/**
+ * POST /api/webhooks/messaging/[provider]/status
+ * 
+ * Delivery reports from a messaging provider (twilio, africastalking,
+ * beem, fake). Updates the matching sms_logs row.
+ * 
+ * SECURITY: Twilio requests are signed; Africa's Talking and Beem callback
+ * URLs must carry ?token=<AFRICASTALKING_WEBHOOK_TOKEN / BEEM_WEBHOOK_TOKEN>.
+ * The fake provider is refused in production.
+ * 
+ * Error Responses:
+ * - 400: Not a delivery report
+ * - 403: Invalid signature or token
+ * - 404: Unknown provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withSystemAccess } from '@/lib/auth/guard'
+import { getProviderByName, parseProviderName } from '@/lib/messaging/provider-registry'
+import { handleStatusWebhook } from '@/lib/messaging/webhook-handlers'
+
+export const POST = withSystemAccess<{ provider: string }>(async (request: NextRequest, { params }) => {
+  const name = parseProviderName((await params).provider)
+  if (!name) {
+    return NextResponse.json({ error: 'Unknown provider' }, { status: 404 })
+  }
+
+  return handleStatusWebhook(getProviderByName(name), request)
+})
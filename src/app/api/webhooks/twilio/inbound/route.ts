@@ -0,0 +1,34 @@
+/**
+ * POST /api/webhooks/twilio/inbound
+ * 
+ * Handles SMS and WhatsApp messages sent to the clinic's Twilio number -
+ * patients replying to reminders. Set this URL as the number's "A message
+ * comes in" webhook. Same as /api/webhooks/messaging/twilio/inbound, with
+ * TWILIO_INBOUND_WEBHOOK_URL used for the signature.
+ * 
+ * - NDIYO / NDIO / YES / 1: confirms the patient's next upcoming appointment
+ * - HAPANA / NO / 2 / GHAIRI: cancels it and frees the slot
+ * - Anything else: a bilingual help SMS, and the message waits in the inbox
+ * 
+ * Every message is stored in inbound_messages. The answer is sent as a
+ * normal message (logged in sms_logs), so the TwiML response is empty.
+ * 
+ * SECURITY: Validates Twilio signature to ensure requests are genuine
+ * 
+ * Expected Twilio webhook payload:
+ * {
+ *   MessageSid: 'SMxxxxx',
+ *   From: '+255712345678',
+ *   To: '+255XXXXXXXXX',
+ *   Body: 'NDIYO'
+ * }
+ */
+
+import { NextRequest } from 'next/server'
+import { withSystemAccess } from '@/lib/auth/guard'
+import { twilioProvider } from '@/lib/messaging/providers/twilio-provider'
+import { handleInboundWebhook } from '@/lib/messaging/webhook-handlers'
+
+export const POST = withSystemAccess((request: NextRequest) =>
+  handleInboundWebhook(twilioProvider, request, process.env.TWILIO_INBOUND_WEBHOOK_URL)
+)
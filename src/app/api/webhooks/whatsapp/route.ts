@@ -0,0 +1,115 @@
+/**
+ * GET/POST /api/webhooks/whatsapp
+ * 
+ * Meta WhatsApp Business webhook - set this URL as the app's "messages"
+ * webhook callback.
+ * 
+ * GET answers Meta's verification request: hub.verify_token must match
+ * WHATSAPP_WEBHOOK_VERIFY_TOKEN, and hub.challenge is echoed back.
+ * 
+ * POST receives patient messages. Text messages are handled like SMS
+ * replies (NDIYO/YES confirms, HAPANA/NO cancels, anything else waits in
+ * the clinic inbox) and answered on WhatsApp. Delivery statuses and
+ * non-text messages are acknowledged and ignored.
+ * 
+ * SECURITY: Validates the X-Hub-Signature-256 header against
+ * WHATSAPP_APP_SECRET
+ * 
+ * Expected payload (abridged):
+ * {
+ *   object: 'whatsapp_business_account',
+ *   entry: [{ changes: [{ value: {
+ *     metadata: { display_phone_number: '255XXXXXXXXX' },
+ *     messages: [{ id: 'wamid.xxx', from: '255712345678', type: 'text', text: { body: 'NDIYO' } }]
+ *   } }] }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withSystemAccess } from '@/lib/auth/guard'
+import { validateWhatsAppSignature } from '@/lib/whatsapp/whatsapp-signature'
+import { handleInboundMessage } from '@/lib/messaging/inbound-message-service'
+
+interface WhatsAppWebhookPayload {
+  entry?: Array<{
+    changes?: Array<{
+      value?: {
+        metadata?: { display_phone_number?: string }
+        messages?: Array<{
+          id: string
+          from: string
+          type: string
+          text?: { body?: string }
+        }>
+      }
+    }>
+  }>
+}
+
+export const GET = withSystemAccess(async (request: NextRequest) => {
+  const params = request.nextUrl.searchParams
+  const verifyToken = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN
+
+  if (
+    !verifyToken ||
+    params.get('hub.mode') !== 'subscribe' ||
+    params.get('hub.verify_token') !== verifyToken
+  ) {
+    return NextResponse.json(
+      { error: 'Invalid verify token' },
+      { status: 403 }
+    )
+  }
+
+  return new NextResponse(params.get('hub.challenge') ?? '', { status: 200 })
+})
+
+export const POST = withSystemAccess(async (request: NextRequest) => {
+  try {
+    const body = await request.text()
+
+    // Skip signature validation in development (for testing)
+    if (process.env.NODE_ENV === 'production') {
+      if (!validateWhatsAppSignature(request, body)) {
+        console.error('Invalid WhatsApp signature')
+        return NextResponse.json(
+          { error: 'Invalid signature' },
+          { status: 403 }
+        )
+      }
+    } else {
+      console.log('[DEV] Skipping WhatsApp signature validation')
+    }
+
+    const payload = JSON.parse(body) as WhatsAppWebhookPayload
+
+    for (const entry of payload.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        const to = change.value?.metadata?.display_phone_number ?? ''
+
+        for (const message of change.value?.messages ?? []) {
+          if (message.type !== 'text' || !message.text?.body) {
+            continue
+          }
+
+          await handleInboundMessage({
+            messageId: message.id,
+            channel: 'WHATSAPP',
+            from: `+${message.from}`,
+            to,
+            body: message.text.body
+          })
+        }
+      }
+    }
+
+    return NextResponse.json({ received: true })
+
+  } catch (error) {
+    console.error('WhatsApp webhook error:', error)
+
+    // Acknowledge anyway - a retry would act on the reply twice if the
+    // failure came after the appointment changed
+    return NextResponse.json({ received: true })
+  }
+})
@@ -0,0 +1,37 @@
+/**
+ * Logout Button
+ * Ends the staff session on the server, then returns to the login page
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+export default function LogoutButton() {
+  const router = useRouter()
+  const [loggingOut, setLoggingOut] = useState(false)
+
+  const handleLogout = async () => {
+    setLoggingOut(true)
+
+    // The cookie is HTTP-only, so the server clears it and ends the session
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null)
+    router.push('/login')
+    router.refresh()
+  }
+
+  return (
+    <button
+      onClick={handleLogout}
+      disabled={loggingOut}
+      title="Toka / Log out"
+      className="flex items-center gap-1 px-3 py-2 rounded-lg hover:bg-white/10 transition text-sm font-medium disabled:opacity-50"
+    >
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+      </svg>
+      <span className="hidden sm:inline">Toka</span>
+    </button>
+  )
+}
@@ -4,6 +4,7 @@
  */
 
 import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
 import { startOfWeek, endOfWeek } from 'date-fns'
 import AnalyticsClient from './AnalyticsClient'
 
@@ -13,23 +14,25 @@ interface AnalyticsPageProps {
 
 export default async function AnalyticsPage({ params }: AnalyticsPageProps) {
   const { clinic_id } = await params
-  
-  // Get initial data for the current week
-  const now = new Date()
-  const weekStart = startOfWeek(now, { weekStartsOn: 1 })
-  const weekEnd = endOfWeek(now, { weekStartsOn: 1 })
-  
-  // Get clinic info
-  const clinic = await prisma.clinic.findUnique({
-    where: { id: clinic_id },
-    select: { name: true }
-  })
 
-  return (
-    <AnalyticsClient 
-      clinicId={clinic_id}
-      clinicName={clinic?.name || 'Unknown Clinic'}
-      initialPeriod="week"
-    />
-  )
+  return withClinicPageAccess(clinic_id, async () => {
+    // Get initial data for the current week
+    const now = new Date()
+    const weekStart = startOfWeek(now, { weekStartsOn: 1 })
+    const weekEnd = endOfWeek(now, { weekStartsOn: 1 })
+
+    // Get clinic info
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinic_id },
+      select: { name: true }
+    })
+
+    return (
+      <AnalyticsClient 
+        clinicId={clinic_id}
+        clinicName={clinic?.name || 'Unknown Clinic'}
+        initialPeriod="week"
+      />
+    )
+  })
 }
@@ -0,0 +1,225 @@
+/**
+ * Audit Log Page
+ * Server Component - who changed an appointment or patient record, for
+ * disputes and MoH inspections. Clinic admins only (audit:view).
+ */
+
+import Link from 'next/link'
+import { format } from 'date-fns'
+import type { AuditAction, AuditActorType, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import { validateTanzanianPhone } from '@/lib/phone-validation'
+import type { AuditChanges } from '@/lib/audit/audit-service'
+
+// Most recent events shown per search
+const AUDIT_PAGE_SIZE = 100
+
+interface AuditPageProps {
+  params: Promise<{ clinic_id: string }>
+  searchParams: Promise<{ appointment?: string; phone?: string }>
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  APPOINTMENT_CREATED: 'Miadi imewekwa / Appointment booked',
+  APPOINTMENT_STATUS_CHANGED: 'Hali imebadilishwa / Status changed',
+  APPOINTMENT_RESCHEDULED: 'Miadi imehamishwa / Rescheduled',
+  APPOINTMENT_CANCELLED: 'Miadi imeghairiwa / Cancelled',
+  PATIENT_CREATED: 'Mgonjwa amesajiliwa / Patient registered',
+  WAITLIST_JOINED: 'Ameongezwa kwenye orodha ya kusubiri / Added to waitlist'
+}
+
+const ACTOR_LABELS: Record<AuditActorType, string> = {
+  USER: 'Mfanyakazi / Staff',
+  PATIENT: 'Mgonjwa / Patient',
+  SYSTEM: 'Mfumo / System',
+  CRON: 'Kazi iliyopangwa / Scheduled job'
+}
+
+/**
+ * Events matching the filters, newest first, with the actor's name
+ */
+async function getAuditEvents(clinicId: string, appointmentId?: string, phone?: string) {
+  const where: Prisma.AuditEventWhereInput = { clinicId }
+
+  if (appointmentId) {
+    where.appointmentId = appointmentId
+  }
+
+  if (phone) {
+    const normalized = validateTanzanianPhone(phone).normalized
+    const patients = await prisma.patient.findMany({
+      where: { phoneNumber: normalized ?? { contains: phone } },
+      select: { id: true },
+      take: 10
+    })
+    where.patientId = { in: patients.map(patient => patient.id) }
+  }
+
+  const events = await prisma.auditEvent.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+    take: AUDIT_PAGE_SIZE
+  })
+
+  const actorIds = (type: AuditActorType) =>
+    [...new Set(events.filter(e => e.actorType === type && e.actorId).map(e => e.actorId as string))]
+
+  const [users, patients] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: actorIds('USER') } },
+      select: { id: true, email: true }
+    }),
+    prisma.patient.findMany({
+      where: { id: { in: [...actorIds('PATIENT'), ...events.flatMap(e => (e.patientId ? [e.patientId] : []))] } },
+      select: { id: true, firstName: true, lastName: true, phoneNumber: true }
+    })
+  ])
+
+  const userNames = new Map(users.map(user => [user.id, user.email]))
+  const patientNames = new Map(patients.map(p => [p.id, `${p.firstName} ${p.lastName} (${p.phoneNumber})`]))
+
+  return events.map(event => ({
+    ...event,
+    changes: event.changes as AuditChanges | null,
+    actorName: event.actorId
+      ? (event.actorType === 'USER' ? userNames : patientNames).get(event.actorId) ?? event.actorId
+      : null,
+    patientName: event.patientId ? patientNames.get(event.patientId) ?? event.patientId : null
+  }))
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—'
+  }
+
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+export default async function AuditPage({ params, searchParams }: AuditPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const { appointment, phone } = await searchParams
+    const appointmentId = appointment?.trim() || undefined
+    const phoneQuery = phone?.trim() || undefined
+
+    const events = await getAuditEvents(clinic_id, appointmentId, phoneQuery)
+
+    return (
+      <div className="p-4 pb-24 max-w-4xl mx-auto">
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm p-4 mb-6">
+          <h1 className="text-xl font-bold text-gray-900 mb-4">
+            Kumbukumbu za Ukaguzi / Audit Log
+          </h1>
+
+          <form method="get" className="grid gap-2 sm:grid-cols-[1fr_1fr_auto]">
+            <input
+              type="text"
+              name="appointment"
+              defaultValue={appointmentId}
+              placeholder="Kitambulisho cha miadi / Appointment ID"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none"
+            />
+            <input
+              type="tel"
+              name="phone"
+              defaultValue={phoneQuery}
+              placeholder="Namba ya simu ya mgonjwa / Patient phone"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none"
+            />
+            <button
+              type="submit"
+              className="px-6 py-3 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium"
+            >
+              Tafuta
+            </button>
+          </form>
+
+          {(appointmentId || phoneQuery) && (
+            <Link
+              href={`/dashboard/${clinic_id}/audit`}
+              className="inline-block mt-3 text-sm text-teal-600 hover:text-teal-700 font-medium"
+            >
+              Ondoa vichujio / Clear filters
+            </Link>
+          )}
+        </div>
+
+        {/* Events */}
+        {events.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Matukio {events.length} / {events.length} events
+              {events.length === AUDIT_PAGE_SIZE && ' (ya karibuni zaidi / most recent)'}
+            </p>
+
+            {events.map(event => (
+              <div key={event.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{ACTION_LABELS[event.action]}</p>
+                    {event.patientName && (
+                      <p className="text-sm text-gray-600">{event.patientName}</p>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {format(event.createdAt, 'MMM d, yyyy HH:mm:ss')}
+                  </p>
+                </div>
+
+                <div className="mt-2 text-sm text-gray-600 space-y-1">
+                  <p>
+                    {ACTOR_LABELS[event.actorType]}
+                    {event.actorName && <>: <span className="font-medium">{event.actorName}</span></>}
+                  </p>
+                  {event.appointmentId && (
+                    <p>
+                      Miadi / Appointment:{' '}
+                      <Link
+                        href={`/dashboard/${clinic_id}/audit?appointment=${event.appointmentId}`}
+                        className="font-mono text-teal-600 hover:text-teal-700"
+                      >
+                        {event.appointmentId}
+                      </Link>
+                    </p>
+                  )}
+                  {(event.ipAddress || event.userAgent) && (
+                    <p className="text-xs text-gray-500">
+                      IP: {event.ipAddress ?? '—'} · {event.userAgent ?? '—'}
+                    </p>
+                  )}
+                </div>
+
+                {event.changes && Object.keys(event.changes).length > 0 && (
+                  <table className="mt-3 w-full text-sm border-t border-gray-100">
+                    <tbody>
+                      {Object.entries(event.changes).map(([field, change]) => (
+                        <tr key={field} className="border-b border-gray-100">
+                          <td className="py-1 pr-4 font-medium text-gray-700">{field}</td>
+                          <td className="py-1 pr-4 text-gray-500 line-through">{formatValue(change.from)}</td>
+                          <td className="py-1 text-gray-900">{formatValue(change.to)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-xl">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              Hakuna matukio
+            </h3>
+            <p className="text-gray-600">
+              No audit events found
+            </p>
+          </div>
+        )}
+      </div>
+    )
+  }, 'audit:view')
+}
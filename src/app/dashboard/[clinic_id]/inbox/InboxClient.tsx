@@ -0,0 +1,105 @@
+/**
+ * Inbox Reply Client Component
+ * Reply box and "resolve" button for the open thread
+ */
+
+'use client'
+
+import { useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface InboxClientProps {
+  clinicId: string
+  patientId: string
+  channel: 'SMS' | 'WHATSAPP'
+  isOpen: boolean
+}
+
+export default function InboxClient({ clinicId, patientId, channel, isOpen }: InboxClientProps) {
+  const router = useRouter()
+  const [message, setMessage] = useState('')
+  const [pending, setPending] = useState<'reply' | 'resolve' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const post = useCallback(async (action: 'reply' | 'resolve', body?: object) => {
+    setPending(action)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/inbox/${patientId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      return false
+    } finally {
+      setPending(null)
+    }
+  }, [clinicId, patientId])
+
+  const handleReply = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!message.trim()) {
+      return
+    }
+
+    if (await post('reply', { message })) {
+      setMessage('')
+      router.refresh()
+    }
+  }, [message, post, router])
+
+  const handleResolve = useCallback(async () => {
+    if (await post('resolve')) {
+      router.refresh()
+    }
+  }, [post, router])
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <form onSubmit={handleReply} className="flex gap-2">
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={2}
+          maxLength={1000}
+          placeholder={`Jibu kwa ${channel === 'WHATSAPP' ? 'WhatsApp' : 'SMS'} / Reply by ${channel === 'WHATSAPP' ? 'WhatsApp' : 'SMS'}`}
+          className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none resize-none"
+        />
+        <button
+          type="submit"
+          disabled={pending !== null || !message.trim()}
+          className="px-6 py-3 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium disabled:opacity-50"
+        >
+          {pending === 'reply' ? 'Inatuma...' : 'Tuma'}
+        </button>
+      </form>
+
+      {isOpen ? (
+        <button
+          type="button"
+          onClick={handleResolve}
+          disabled={pending !== null}
+          className="text-sm text-teal-600 hover:text-teal-700 font-medium disabled:opacity-50"
+        >
+          {pending === 'resolve' ? 'Inahifadhi...' : 'Weka kama yamekamilika / Mark resolved'}
+        </button>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Mazungumzo yamekamilika / Conversation resolved
+        </p>
+      )}
+    </div>
+  )
+}
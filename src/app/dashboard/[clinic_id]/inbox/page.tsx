@@ -0,0 +1,202 @@
+/**
+ * Clinic Inbox Page
+ * Server Component - SMS and WhatsApp messages from patients, one thread
+ * per patient next to the messages the clinic sent them. Receptionists
+ * reply and mark threads resolved (inbox:manage).
+ */
+
+import Link from 'next/link'
+import { format } from 'date-fns'
+import type { InboundOutcome, SmsStatus } from '@prisma/client'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import {
+  listConversations,
+  getConversation,
+  type Conversation,
+  type InboxStatus
+} from '@/lib/messaging/inbox-service'
+import InboxClient from './InboxClient'
+
+interface InboxPageProps {
+  params: Promise<{ clinic_id: string }>
+  searchParams: Promise<{ status?: string; patient?: string }>
+}
+
+const STATUS_TABS: Array<{ value: InboxStatus; label: string }> = [
+  { value: 'open', label: 'Wazi / Open' },
+  { value: 'resolved', label: 'Yamekamilika / Resolved' },
+  { value: 'all', label: 'Yote / All' }
+]
+
+// What the automatic answer did with a patient's message
+const OUTCOME_LABELS: Record<InboundOutcome, string> = {
+  CONFIRMED: 'Miadi imethibitishwa / Appointment confirmed',
+  CANCELLED: 'Miadi imeghairiwa / Appointment cancelled',
+  ALREADY_CONFIRMED: 'Tayari imethibitishwa / Already confirmed',
+  NO_APPOINTMENT: 'Hakuna miadi ijayo / No upcoming appointment',
+  UNKNOWN_SENDER: 'Namba haijulikani / Unknown number',
+  HELP_SENT: 'Maelekezo yametumwa / Help sent',
+  OPTED_OUT: 'Amejiondoa kupokea ujumbe / Opted out of messages',
+  OPTED_IN: 'Amejiunga tena / Opted back in'
+}
+
+const DELIVERY_LABELS: Record<SmsStatus, string> = {
+  PENDING: 'Inasubiri',
+  SENT: 'Imetumwa',
+  DELIVERED: 'Imefika',
+  FAILED: 'Imeshindwa',
+  UNDELIVERED: 'Haijafika',
+  SUPPRESSED: 'Haikutumwa - amejiondoa'
+}
+
+function parseStatus(status: string | undefined): InboxStatus {
+  return STATUS_TABS.some(tab => tab.value === status) ? (status as InboxStatus) : 'open'
+}
+
+/**
+ * The selected thread, or null if the patient has no messages here
+ */
+async function loadConversation(clinicId: string, patientId: string): Promise<Conversation | null> {
+  try {
+    return await getConversation(clinicId, patientId)
+  } catch (error) {
+    if (error instanceof Error && (error.message === 'PATIENT_NOT_FOUND' || error.message === 'CONVERSATION_NOT_FOUND')) {
+      return null
+    }
+    throw error
+  }
+}
+
+export default async function InboxPage({ params, searchParams }: InboxPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const { status: statusParam, patient } = await searchParams
+    const status = parseStatus(statusParam)
+
+    const [conversations, conversation] = await Promise.all([
+      listConversations(clinic_id, status),
+      patient ? loadConversation(clinic_id, patient) : Promise.resolve(null)
+    ])
+
+    const inboxHref = (query: { status?: InboxStatus; patient?: string }) => {
+      const search = new URLSearchParams()
+      search.set('status', query.status ?? status)
+      if (query.patient) {
+        search.set('patient', query.patient)
+      }
+      return `/dashboard/${clinic_id}/inbox?${search}`
+    }
+
+    return (
+      <div className="p-4 pb-24">
+        <h1 className="text-xl font-bold text-gray-900 mb-4">
+          Ujumbe wa Wagonjwa / Patient Messages
+        </h1>
+
+        <div className="grid gap-4 md:grid-cols-[20rem_1fr]">
+          {/* Threads */}
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="flex border-b border-gray-200">
+              {STATUS_TABS.map(tab => (
+                <Link
+                  key={tab.value}
+                  href={inboxHref({ status: tab.value })}
+                  className={`flex-1 px-2 py-3 text-center text-xs font-medium ${
+                    tab.value === status
+                      ? 'text-teal-700 border-b-2 border-teal-600'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {tab.label}
+                </Link>
+              ))}
+            </div>
+
+            {conversations.length > 0 ? (
+              <ul className="divide-y divide-gray-100">
+                {conversations.map(thread => (
+                  <li key={thread.patientId}>
+                    <Link
+                      href={inboxHref({ patient: thread.patientId })}
+                      className={`block px-4 py-3 hover:bg-gray-50 ${
+                        thread.patientId === conversation?.patientId ? 'bg-teal-50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium text-gray-900 truncate">{thread.patientName}</p>
+                        {thread.openCount > 0 && (
+                          <span className="px-2 py-0.5 rounded-full bg-teal-600 text-white text-xs font-medium">
+                            {thread.openCount}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 truncate">{thread.lastMessage}</p>
+                      <p className="text-xs text-gray-400">
+                        {thread.channel === 'WHATSAPP' ? 'WhatsApp' : 'SMS'} · {format(new Date(thread.lastMessageAt), 'MMM d, HH:mm')}
+                      </p>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-12 px-4">
+                <p className="font-medium text-gray-900">Hakuna ujumbe</p>
+                <p className="text-sm text-gray-600">No conversations</p>
+              </div>
+            )}
+          </div>
+
+          {/* Selected thread */}
+          {conversation ? (
+            <div className="bg-white rounded-xl shadow-sm flex flex-col">
+              <div className="px-4 py-3 border-b border-gray-200">
+                <p className="font-bold text-gray-900">{conversation.patientName}</p>
+                <p className="text-sm text-gray-600">
+                  {conversation.phoneNumber} · {conversation.channel === 'WHATSAPP' ? 'WhatsApp' : 'SMS'}
+                </p>
+              </div>
+
+              <ol className="flex-1 p-4 space-y-3 overflow-y-auto max-h-[60vh]">
+                {conversation.messages.map(message => (
+                  <li
+                    key={`${message.direction}-${message.id}`}
+                    className={`flex ${message.direction === 'inbound' ? 'justify-start' : 'justify-end'}`}
+                  >
+                    <div
+                      className={`max-w-[80%] rounded-xl px-3 py-2 ${
+                        message.direction === 'inbound' ? 'bg-gray-100 text-gray-900' : 'bg-teal-600 text-white'
+                      }`}
+                    >
+                      <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                      <p className={`mt-1 text-xs ${message.direction === 'inbound' ? 'text-gray-500' : 'text-teal-100'}`}>
+                        {format(new Date(message.at), 'MMM d, HH:mm')}
+                        {message.direction === 'inbound'
+                          ? ` · ${OUTCOME_LABELS[message.outcome]}`
+                          : ` · ${DELIVERY_LABELS[message.status]}`}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+
+              <InboxClient
+                clinicId={clinic_id}
+                patientId={conversation.patientId}
+                channel={conversation.channel}
+                isOpen={conversation.isOpen}
+              />
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm flex items-center justify-center py-12 px-4 text-center">
+              <div>
+                <p className="font-medium text-gray-900">Chagua mazungumzo</p>
+                <p className="text-sm text-gray-600">Select a conversation to read and reply</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }, 'inbox:manage')
+}
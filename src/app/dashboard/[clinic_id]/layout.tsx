@@ -3,10 +3,11 @@
  * Provides navigation and common UI for all dashboard pages
  */
 
-import { cookies } from 'next/headers'
 import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import LogoutButton from './LogoutButton'
 
 interface DashboardLayoutProps {
   children: React.ReactNode
@@ -30,16 +31,9 @@ export default async function DashboardLayout({
   params 
 }: DashboardLayoutProps) {
   const { clinic_id } = await params
-  
-  // Verify session
-  const cookieStore = await cookies()
-  const session = cookieStore.get('clinic_session')
-  
-  if (!session || session.value !== clinic_id) {
-    redirect('/login')
-  }
 
-  const clinic = await getClinic(clinic_id)
+  // Redirects to /login without a session for this clinic
+  const clinic = await withClinicPageAccess(clinic_id, () => getClinic(clinic_id))
   
   if (!clinic) {
     redirect('/login')
@@ -67,12 +61,22 @@ export default async function DashboardLayout({
               <NavLink href={`/dashboard/${clinic_id}/search`} icon="search">
                 <span className="hidden sm:inline">Tafuta</span>
               </NavLink>
+              <NavLink href={`/dashboard/${clinic_id}/inbox`} icon="inbox">
+                <span className="hidden sm:inline">Ujumbe</span>
+              </NavLink>
               <NavLink href={`/dashboard/${clinic_id}/quick-book`} icon="plus">
                 <span className="hidden sm:inline">Weka</span>
               </NavLink>
               <NavLink href={`/dashboard/${clinic_id}/analytics`} icon="chart">
                 <span className="hidden sm:inline">Ripoti</span>
               </NavLink>
+              <NavLink href={`/dashboard/${clinic_id}/audit`} icon="audit">
+                <span className="hidden sm:inline">Ukaguzi</span>
+              </NavLink>
+              <NavLink href={`/dashboard/${clinic_id}/settings/hours`} icon="settings">
+                <span className="hidden sm:inline">Mipangilio</span>
+              </NavLink>
+              <LogoutButton />
             </nav>
           </div>
         </div>
@@ -93,7 +97,7 @@ function NavLink({
 }: { 
   href: string
   children: React.ReactNode
-  icon: 'calendar' | 'search' | 'plus' | 'chart'
+  icon: 'calendar' | 'search' | 'inbox' | 'plus' | 'chart' | 'audit' | 'settings'
 }) {
   const icons = {
     calendar: (
@@ -106,6 +110,11 @@ function NavLink({
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
       </svg>
     ),
+    inbox: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+      </svg>
+    ),
     plus: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -115,6 +124,17 @@ function NavLink({
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
       </svg>
+    ),
+    audit: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+      </svg>
+    ),
+    settings: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
     )
   }
 
@@ -8,6 +8,8 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { format } from 'date-fns'
+import { findSlotChain } from '@/lib/appointments/slot-chain'
+import { SERIES_MAX_OCCURRENCES } from '@/lib/constants'
 
 type Step = 'phone' | 'patient' | 'service' | 'slot' | 'confirm'
 
@@ -27,6 +29,15 @@ interface Slot {
   staff: Staff
 }
 
+interface AppointmentTypeOption {
+  id: string
+  code: string
+  name: string
+  durationMinutes: number
+  color: string
+  allowedSpecializations: string[]
+}
+
 interface Patient {
   id: string
   firstName: string
@@ -34,10 +45,16 @@ interface Patient {
   phoneNumber: string
 }
 
+interface SeriesResult {
+  booked: { appointmentId: string; slotDate: string; startTime: string; staff: { firstName: string; lastName: string } }[]
+  unplaced: { seriesIndex: number; targetDate: string }[]
+}
+
 interface QuickBookClientProps {
   clinicId: string
   slots: Slot[]
   staff: Staff[]
+  appointmentTypes: AppointmentTypeOption[] // Clinic catalogue; falls back to SERVICE_TYPES when empty
   preselectedPatient: Patient | null
   preselectedSlot: Slot | null
   initialPhone: string
@@ -53,10 +70,13 @@ const SERVICE_TYPES = [
   { value: 'lab', label: 'Maabara / Laboratory' }
 ]
 
+const REPEAT_INTERVALS = [1, 2, 4, 8, 12] // Weeks between visits
+
 export default function QuickBookClient({ 
   clinicId, 
   slots, 
   staff,
+  appointmentTypes,
   preselectedPatient,
   preselectedSlot,
   initialPhone
@@ -72,10 +92,19 @@ export default function QuickBookClient({
   const [isNewPatient, setIsNewPatient] = useState(false)
   const [newPatientName, setNewPatientName] = useState('')
   const [serviceType, setServiceType] = useState('general')
+  const [selectedType, setSelectedType] = useState<AppointmentTypeOption | null>(null)
   const [selectedSlot, setSelectedSlot] = useState<Slot | null>(preselectedSlot)
   const [bookingComplete, setBookingComplete] = useState(false)
   const [bookingResult, setBookingResult] = useState<{success: boolean; message: string} | null>(null)
 
+  // Recurring series (chronic care follow-ups)
+  const [repeat, setRepeat] = useState(false)
+  const [intervalWeeks, setIntervalWeeks] = useState(4)
+  const [repeatMode, setRepeatMode] = useState<'count' | 'until'>('count')
+  const [occurrences, setOccurrences] = useState(6)
+  const [repeatUntil, setRepeatUntil] = useState('')
+  const [seriesResult, setSeriesResult] = useState<SeriesResult | null>(null)
+
   // Skip phone step if patient is preselected
   useEffect(() => {
     if (preselectedPatient) {
@@ -158,8 +187,55 @@ export default function QuickBookClient({
     }
   }
 
+  const handleBookSeries = async () => {
+    if (!patient || !selectedSlot) return
+
+    setLoading(true)
+    setError('')
+
+    try {
+      // The chosen slot sets the first date, preferred time and preferred staff member
+      const response = await fetch('/api/appointment-series', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          patient_id: patient.id,
+          start_date: format(new Date(selectedSlot.slotDate), 'yyyy-MM-dd'),
+          preferred_time: selectedSlot.startTime,
+          staff_id: selectedSlot.staff.id,
+          appointment_type_id: selectedType?.id,
+          interval_weeks: intervalWeeks,
+          ...(repeatMode === 'count' ? { occurrences } : { end_date: repeatUntil })
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setSeriesResult(data)
+        setBookingComplete(true)
+        setBookingResult({
+          success: data.booked.length > 0,
+          message: data.booked.length > 0
+            ? 'Appointment series booked'
+            : 'Hakuna nafasi iliyopatikana kwa miadi yoyote / No slot was found for any occurrence'
+        })
+      } else {
+        setError(data.error || 'Failed to book appointment series')
+      }
+    } catch {
+      setError('Hitilafu ya mtandao / Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleBookAppointment = async () => {
     if (!patient || !selectedSlot) return
+
+    if (repeat) {
+      return handleBookSeries()
+    }
     
     setLoading(true)
     setError('')
@@ -172,7 +248,8 @@ export default function QuickBookClient({
           slot_id: selectedSlot.id,
           patient_id: patient.id,
           clinic_id: clinicId,
-          appointment_type: serviceType
+          appointment_type: serviceType,
+          appointment_type_id: selectedType?.id
         })
       })
       
@@ -393,11 +470,33 @@ export default function QuickBookClient({
       </h2>
       
       <div className="space-y-2">
-        {SERVICE_TYPES.map((service) => (
+        {appointmentTypes.map((type) => (
+          <button
+            key={type.id}
+            onClick={() => {
+              setServiceType(type.code)
+              setSelectedType(type)
+              setCurrentStep('slot')
+            }}
+            className={`w-full p-4 text-left rounded-xl border-2 transition flex items-center gap-3 ${
+              selectedType?.id === type.id
+                ? 'border-teal-500 bg-teal-50'
+                : 'border-gray-200 hover:border-teal-300'
+            }`}
+          >
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: type.color }} />
+            <span className="flex-1 font-medium text-gray-900">{type.name}</span>
+            <span className="text-xs px-2 py-0.5 bg-gray-100 rounded-full text-gray-600">
+              {type.durationMinutes} min
+            </span>
+          </button>
+        ))}
+        {appointmentTypes.length === 0 && SERVICE_TYPES.map((service) => (
           <button
             key={service.value}
             onClick={() => {
               setServiceType(service.value)
+              setSelectedType(null)
               setCurrentStep('slot')
             }}
             className={`w-full p-4 text-left rounded-xl border-2 transition ${
@@ -423,7 +522,7 @@ export default function QuickBookClient({
   // Step 4: Slot Selection
   const SlotStep = () => {
     // Group slots by date
-    const groupedSlots = slots.reduce((acc, slot) => {
+    const slotsByDate = slots.reduce((acc, slot) => {
       const dateKey = format(new Date(slot.slotDate), 'yyyy-MM-dd')
       if (!acc[dateKey]) {
         acc[dateKey] = []
@@ -432,6 +531,29 @@ export default function QuickBookClient({
       return acc
     }, {} as Record<string, Slot[]>)
 
+    // With a catalogue type, only offer start times where the whole visit fits
+    const toChainSlot = (slot: Slot) => ({
+      id: slot.id,
+      staffId: slot.staff.id,
+      startTime: slot.startTime,
+      endTime: slot.endTime
+    })
+
+    const groupedSlots = Object.fromEntries(
+      Object.entries(slotsByDate)
+        .map(([dateKey, dateSlots]) => [
+          dateKey,
+          selectedType
+            ? dateSlots.filter(slot =>
+                (selectedType.allowedSpecializations.length === 0 ||
+                  selectedType.allowedSpecializations.includes(slot.staff.specialization ?? '')) &&
+                findSlotChain(toChainSlot(slot), dateSlots.map(toChainSlot), selectedType.durationMinutes)
+              )
+            : dateSlots
+        ] as const)
+        .filter(([, dateSlots]) => dateSlots.length > 0)
+    )
+
     return (
       <div className="space-y-4">
         <h2 className="text-xl font-bold text-gray-900">
@@ -439,6 +561,11 @@ export default function QuickBookClient({
         </h2>
         
         <div className="space-y-4 max-h-[400px] overflow-y-auto">
+          {Object.keys(groupedSlots).length === 0 && (
+            <p className="text-sm text-gray-500">
+              Hakuna nafasi za kutosha kwa huduma hii / No free time long enough for this service
+            </p>
+          )}
           {Object.entries(groupedSlots).map(([dateKey, dateSlots]) => (
             <div key={dateKey}>
               <h3 className="font-medium text-gray-700 mb-2 sticky top-0 bg-white py-2">
@@ -486,7 +613,9 @@ export default function QuickBookClient({
   const ConfirmStep = () => {
     if (!patient || !selectedSlot) return null
 
-    const serviceLabel = SERVICE_TYPES.find(s => s.value === serviceType)?.label || serviceType
+    const serviceLabel = selectedType
+      ? `${selectedType.name} (${selectedType.durationMinutes} min)`
+      : SERVICE_TYPES.find(s => s.value === serviceType)?.label || serviceType
 
     return (
       <div className="space-y-4">
@@ -521,6 +650,85 @@ export default function QuickBookClient({
           </div>
         </div>
         
+        <div className="border-2 border-gray-200 rounded-xl p-4 space-y-3">
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={repeat}
+              onChange={(e) => setRepeat(e.target.checked)}
+              className="w-5 h-5 accent-teal-600"
+            />
+            <span className="font-medium text-gray-900">Rudia miadi / Repeat appointment</span>
+          </label>
+
+          {repeat && (
+            <>
+              <div>
+                <p className="text-sm text-gray-600 mb-2">Kila / Every</p>
+                <div className="flex flex-wrap gap-2">
+                  {REPEAT_INTERVALS.map(weeks => (
+                    <button
+                      key={weeks}
+                      onClick={() => setIntervalWeeks(weeks)}
+                      className={`px-3 py-1.5 rounded-full text-sm border-2 transition ${
+                        intervalWeeks === weeks
+                          ? 'border-teal-500 bg-teal-50 text-teal-800'
+                          : 'border-gray-200 text-gray-700 hover:border-teal-300'
+                      }`}
+                    >
+                      {weeks === 1 ? 'Wiki 1 / 1 week' : `Wiki ${weeks} / ${weeks} weeks`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-sm text-gray-600">
+                  Hadi / Until
+                  <select
+                    value={repeatMode}
+                    onChange={(e) => setRepeatMode(e.target.value as 'count' | 'until')}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                  >
+                    <option value="count">Idadi ya miadi / Number of visits</option>
+                    <option value="until">Tarehe ya mwisho / End date</option>
+                  </select>
+                </label>
+
+                {repeatMode === 'count' ? (
+                  <label className="block text-sm text-gray-600">
+                    Miadi / Visits
+                    <select
+                      value={occurrences}
+                      onChange={(e) => setOccurrences(Number(e.target.value))}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                    >
+                      {Array.from({ length: SERIES_MAX_OCCURRENCES - 1 }, (_, i) => i + 2).map(count => (
+                        <option key={count} value={count}>{count}</option>
+                      ))}
+                    </select>
+                  </label>
+                ) : (
+                  <label className="block text-sm text-gray-600">
+                    Tarehe / Date
+                    <input
+                      type="date"
+                      value={repeatUntil}
+                      min={format(new Date(selectedSlot.slotDate), 'yyyy-MM-dd')}
+                      onChange={(e) => setRepeatUntil(e.target.value)}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                    />
+                  </label>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Kila miadi itawekwa kwenye nafasi iliyo karibu zaidi na siku, muda na daktari huyu / Each visit is booked into the free slot closest to this day, time and doctor
+              </p>
+            </>
+          )}
+        </div>
+
         {error && (
           <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
             <p className="text-sm text-red-700">{error}</p>
@@ -537,7 +745,7 @@ export default function QuickBookClient({
           </button>
           <button
             onClick={handleBookAppointment}
-            disabled={loading}
+            disabled={loading || (repeat && repeatMode === 'until' && !repeatUntil)}
             className="flex-1 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition flex items-center justify-center gap-2"
           >
             {loading ? (
@@ -585,14 +793,43 @@ export default function QuickBookClient({
             {bookingResult.success ? 'Imefanikiwa!' : 'Imeshindwa'}
           </h2>
           <p className={`mb-6 ${bookingResult.success ? 'text-green-700' : 'text-red-700'}`}>
-            {bookingResult.success ? 'Appointment booked successfully!' : bookingResult.message}
+            {bookingResult.success && !seriesResult ? 'Appointment booked successfully!' : bookingResult.message}
           </p>
           
-          {bookingResult.success && (
+          {bookingResult.success && !seriesResult && (
             <p className="text-sm text-gray-600 mb-6">
               SMS ya uthibitisho imetumwa / Confirmation SMS sent
             </p>
           )}
+
+          {seriesResult && (
+            <div className="text-left bg-white rounded-xl mx-4 mb-6 p-4 space-y-2">
+              <p className="font-medium text-gray-900">
+                Miadi {seriesResult.booked.length} imewekwa / {seriesResult.booked.length} visits booked
+              </p>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {seriesResult.booked.map(occurrence => (
+                  <li key={occurrence.appointmentId}>
+                    {format(new Date(occurrence.slotDate), 'EEE, MMM d')} · {occurrence.startTime} · Dr. {occurrence.staff.firstName} {occurrence.staff.lastName}
+                  </li>
+                ))}
+              </ul>
+              {seriesResult.unplaced.length > 0 && (
+                <div className="pt-2 border-t border-gray-100">
+                  <p className="font-medium text-amber-800">
+                    Hazikupata nafasi - weka kwa mkono / No slot found - book these by hand:
+                  </p>
+                  <ul className="text-sm text-amber-700 space-y-1">
+                    {seriesResult.unplaced.map(occurrence => (
+                      <li key={occurrence.seriesIndex}>
+                        #{occurrence.seriesIndex} · {format(new Date(occurrence.targetDate), 'EEE, MMM d')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
           
           <div className="flex gap-3 justify-center">
             <button
@@ -4,6 +4,7 @@
  */
 
 import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
 import { startOfDay, addDays } from 'date-fns'
 import QuickBookClient from './QuickBookClient'
 
@@ -112,33 +113,58 @@ async function getStaff(clinicId: string) {
   })
 }
 
+async function getAppointmentTypes(clinicId: string) {
+  return await prisma.appointmentType.findMany({
+    where: {
+      clinicId,
+      isActive: true
+    },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      durationMinutes: true,
+      color: true,
+      allowedSpecializations: true
+    },
+    orderBy: {
+      name: 'asc'
+    }
+  })
+}
+
 export default async function QuickBookPage({ params, searchParams }: QuickBookPageProps) {
   const { clinic_id } = await params
-  const { patient: patientId, phone, slot: slotId } = await searchParams
 
-  // Fetch initial data
-  const [slots, staff, preselectedSlot] = await Promise.all([
-    getAvailableSlots(clinic_id),
-    getStaff(clinic_id),
-    slotId ? getPreselectedSlot(slotId, clinic_id) : null
-  ])
+  return withClinicPageAccess(clinic_id, async () => {
+    const { patient: patientId, phone, slot: slotId } = await searchParams
 
-  // Fetch patient if provided
-  let patient = null
-  if (patientId) {
-    patient = await getPatient(patientId)
-  } else if (phone) {
-    patient = await getPatientByPhone(phone)
-  }
+    // Fetch initial data
+    const [slots, staff, appointmentTypes, preselectedSlot] = await Promise.all([
+      getAvailableSlots(clinic_id),
+      getStaff(clinic_id),
+      getAppointmentTypes(clinic_id),
+      slotId ? getPreselectedSlot(slotId, clinic_id) : null
+    ])
 
-  return (
-    <QuickBookClient
-      clinicId={clinic_id}
-      slots={slots}
-      staff={staff}
-      preselectedPatient={patient}
-      preselectedSlot={preselectedSlot}
-      initialPhone={phone || ''}
-    />
-  )
+    // Fetch patient if provided
+    let patient = null
+    if (patientId) {
+      patient = await getPatient(patientId)
+    } else if (phone) {
+      patient = await getPatientByPhone(phone)
+    }
+
+    return (
+      <QuickBookClient
+        clinicId={clinic_id}
+        slots={slots}
+        staff={staff}
+        appointmentTypes={appointmentTypes}
+        preselectedPatient={patient}
+        preselectedSlot={preselectedSlot}
+        initialPhone={phone || ''}
+      />
+    )
+  })
 }
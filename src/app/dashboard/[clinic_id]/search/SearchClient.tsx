@@ -22,7 +22,17 @@ interface Appointment {
   }
 }
 
-interface Patient {
+type ConsentStatus = 'UNKNOWN' | 'GRANTED' | 'OPTED_OUT'
+type ConsentChannel = 'SMS' | 'WHATSAPP'
+
+interface PatientConsent {
+  smsConsent: ConsentStatus
+  smsConsentAt: Date | string | null
+  whatsappConsent: ConsentStatus
+  whatsappConsentAt: Date | string | null
+}
+
+interface Patient extends PatientConsent {
   id: string
   firstName: string
   lastName: string
@@ -32,6 +42,16 @@ interface Patient {
   lastVisit: Date | null
 }
 
+interface StatusHistoryEntry {
+  id: string
+  fromStatus: string | null
+  toStatus: string
+  actorType: 'USER' | 'PATIENT' | 'SYSTEM' | 'CRON'
+  actorName: string | null
+  reason: string | null
+  changedAt: string
+}
+
 interface SearchClientProps {
   clinicId: string
   patients: Patient[]
@@ -41,6 +61,7 @@ interface SearchClientProps {
 const STATUS_LABELS: Record<string, string> = {
   BOOKED: 'Umehifadhiwa',
   CONFIRMED: 'Imethibitishwa',
+  REMINDER_SENT: 'Kumbusho limetumwa',
   CHECKED_IN: 'Amefika',
   COMPLETED: 'Imekamilika',
   NO_SHOW: 'Hajafika',
@@ -50,17 +71,92 @@ const STATUS_LABELS: Record<string, string> = {
 const STATUS_COLORS: Record<string, string> = {
   BOOKED: 'bg-blue-100 text-blue-800',
   CONFIRMED: 'bg-blue-100 text-blue-800',
+  REMINDER_SENT: 'bg-blue-100 text-blue-800',
   CHECKED_IN: 'bg-green-100 text-green-800',
   COMPLETED: 'bg-gray-100 text-gray-800',
   NO_SHOW: 'bg-red-100 text-red-800',
   CANCELLED: 'bg-gray-100 text-gray-500'
 }
 
+const ACTOR_LABELS: Record<StatusHistoryEntry['actorType'], string> = {
+  USER: 'Mfanyakazi / Staff',
+  PATIENT: 'Mgonjwa / Patient',
+  SYSTEM: 'Mfumo / System',
+  CRON: 'Kazi iliyopangwa / Scheduled job'
+}
+
+const CONSENT_LABELS: Record<ConsentStatus, string> = {
+  UNKNOWN: 'Haijulikani / Not recorded',
+  GRANTED: 'Amekubali / Agreed',
+  OPTED_OUT: 'Amejiondoa / Opted out'
+}
+
+const CONSENT_COLORS: Record<ConsentStatus, string> = {
+  UNKNOWN: 'bg-gray-100 text-gray-600',
+  GRANTED: 'bg-green-100 text-green-800',
+  OPTED_OUT: 'bg-red-100 text-red-800'
+}
+
+const CONSENT_CHANNELS: Array<{ channel: ConsentChannel; label: string; status: keyof PatientConsent; at: keyof PatientConsent }> = [
+  { channel: 'SMS', label: 'SMS', status: 'smsConsent', at: 'smsConsentAt' },
+  { channel: 'WHATSAPP', label: 'WhatsApp', status: 'whatsappConsent', at: 'whatsappConsentAt' }
+]
+
 export default function SearchClient({ clinicId, patients, initialQuery }: SearchClientProps) {
   const router = useRouter()
   const [query, setQuery] = useState(initialQuery)
   const [loading, setLoading] = useState(false)
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null)
+  const [timelineFor, setTimelineFor] = useState<string | null>(null)
+  const [timelines, setTimelines] = useState<Record<string, StatusHistoryEntry[]>>({})
+  const [timelineError, setTimelineError] = useState<string | null>(null)
+  const [consents, setConsents] = useState<Record<string, PatientConsent>>({})
+  const [consentError, setConsentError] = useState<{ patientId: string; text: string } | null>(null)
+
+  const consentOf = (patient: Patient): PatientConsent => consents[patient.id] ?? patient
+
+  const updateConsent = useCallback(async (patientId: string, channel: ConsentChannel, status: ConsentStatus) => {
+    setConsentError(null)
+
+    try {
+      const response = await fetch(`/api/patients/${patientId}/consent`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel, status })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save consent')
+      }
+      setConsents(prev => ({ ...prev, [patientId]: data.consent }))
+    } catch (err) {
+      setConsentError({ patientId, text: err instanceof Error ? err.message : 'Failed to save consent' })
+    }
+  }, [])
+
+  const toggleTimeline = useCallback(async (appointmentId: string) => {
+    if (timelineFor === appointmentId) {
+      setTimelineFor(null)
+      return
+    }
+
+    setTimelineFor(appointmentId)
+    setTimelineError(null)
+    if (timelines[appointmentId]) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/history`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load history')
+      }
+      setTimelines(prev => ({ ...prev, [appointmentId]: data.history }))
+    } catch (err) {
+      setTimelineError(err instanceof Error ? err.message : 'Failed to load history')
+    }
+  }, [timelineFor, timelines])
 
   const handleSearch = useCallback((e: React.FormEvent) => {
     e.preventDefault()
@@ -146,6 +242,39 @@ export default function SearchClient({ clinicId, patients, initialQuery }: Searc
                         </span>
                       )}
                     </div>
+
+                    {/* Messaging Consent */}
+                    <div className="flex flex-wrap gap-3 mt-3">
+                      {CONSENT_CHANNELS.map(({ channel, label, status, at }) => {
+                        const consent = consentOf(patient)
+                        const current = consent[status] as ConsentStatus
+                        const changedAt = consent[at]
+
+                        return (
+                          <div key={channel} className="flex items-center gap-2 text-xs">
+                            <span
+                              className={`px-2 py-1 rounded-full font-medium ${CONSENT_COLORS[current]}`}
+                              title={changedAt ? format(new Date(changedAt), 'MMM d, yyyy HH:mm') : undefined}
+                            >
+                              {label}: {CONSENT_LABELS[current]}
+                            </span>
+                            <select
+                              value={current === 'UNKNOWN' ? '' : current}
+                              onChange={(e) => updateConsent(patient.id, channel, e.target.value as ConsentStatus)}
+                              aria-label={`${label} consent`}
+                              className="px-1 py-0.5 border border-gray-300 rounded text-xs text-gray-700"
+                            >
+                              <option value="" disabled>Rekodi / Record</option>
+                              <option value="GRANTED">Amekubali / Agreed</option>
+                              <option value="OPTED_OUT">Amejiondoa / Opted out</option>
+                            </select>
+                          </div>
+                        )
+                      })}
+                    </div>
+                    {consentError?.patientId === patient.id && (
+                      <p className="mt-1 text-sm text-red-600">{consentError.text}</p>
+                    )}
                   </div>
                   
                   <Link
@@ -188,19 +317,61 @@ export default function SearchClient({ clinicId, patients, initialQuery }: Searc
                     {patient.appointments.map((apt) => (
                       <div 
                         key={apt.id}
-                        className="bg-white rounded-lg p-3 border border-gray-200 flex items-center justify-between"
+                        className="bg-white rounded-lg p-3 border border-gray-200"
                       >
-                        <div>
-                          <p className="font-medium text-gray-900">
-                            {format(new Date(apt.slot.slotDate), 'MMM d, yyyy')} at {apt.slot.startTime}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            Dr. {apt.slot.staff.firstName} {apt.slot.staff.lastName}
-                          </p>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {format(new Date(apt.slot.slotDate), 'MMM d, yyyy')} at {apt.slot.startTime}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              Dr. {apt.slot.staff.firstName} {apt.slot.staff.lastName}
+                            </p>
+                          </div>
+                          <span className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[apt.status]}`}>
+                            {STATUS_LABELS[apt.status]}
+                          </span>
                         </div>
-                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[apt.status]}`}>
-                          {STATUS_LABELS[apt.status]}
-                        </span>
+
+                        <button
+                          onClick={() => toggleTimeline(apt.id)}
+                          className="mt-2 text-xs text-teal-600 hover:text-teal-700 font-medium"
+                        >
+                          {timelineFor === apt.id ? 'Ficha mfuatano / Hide timeline' : 'Onyesha mfuatano / Show timeline'}
+                        </button>
+
+                        {/* Status Timeline */}
+                        {timelineFor === apt.id && (
+                          timelineError ? (
+                            <p className="mt-2 text-sm text-red-600">{timelineError}</p>
+                          ) : !timelines[apt.id] ? (
+                            <p className="mt-2 text-sm text-gray-500">Inapakia... / Loading...</p>
+                          ) : timelines[apt.id].length === 0 ? (
+                            <p className="mt-2 text-sm text-gray-500">
+                              Hakuna historia iliyohifadhiwa / No recorded history
+                            </p>
+                          ) : (
+                            <ol className="mt-3 ml-2 border-l-2 border-teal-100 space-y-3">
+                              {timelines[apt.id].map(entry => (
+                                <li key={entry.id} className="relative pl-4">
+                                  <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-teal-500" />
+                                  <p className="text-sm font-medium text-gray-900">
+                                    {entry.fromStatus
+                                      ? `${STATUS_LABELS[entry.fromStatus] ?? entry.fromStatus} → ${STATUS_LABELS[entry.toStatus] ?? entry.toStatus}`
+                                      : STATUS_LABELS[entry.toStatus] ?? entry.toStatus}
+                                  </p>
+                                  <p className="text-xs text-gray-500">
+                                    {format(new Date(entry.changedAt), 'MMM d, yyyy HH:mm')} · {ACTOR_LABELS[entry.actorType]}
+                                    {entry.actorName && ` (${entry.actorName})`}
+                                  </p>
+                                  {entry.reason && (
+                                    <p className="text-xs text-gray-600 mt-0.5">{entry.reason}</p>
+                                  )}
+                                </li>
+                              ))}
+                            </ol>
+                          )
+                        )}
                       </div>
                     ))}
                   </div>
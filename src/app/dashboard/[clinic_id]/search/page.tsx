@@ -4,6 +4,7 @@
  */
 
 import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
 import SearchClient from './SearchClient'
 
 interface SearchPageProps {
@@ -72,15 +73,18 @@ async function searchPatients(clinicId: string, phoneQuery: string) {
 
 export default async function SearchPage({ params, searchParams }: SearchPageProps) {
   const { clinic_id } = await params
-  const { phone } = await searchParams
 
-  const patients = phone ? await searchPatients(clinic_id, phone) : []
+  return withClinicPageAccess(clinic_id, async () => {
+    const { phone } = await searchParams
 
-  return (
-    <SearchClient 
-      clinicId={clinic_id}
-      patients={patients}
-      initialQuery={phone || ''}
-    />
-  )
+    const patients = phone ? await searchPatients(clinic_id, phone) : []
+
+    return (
+      <SearchClient 
+        clinicId={clinic_id}
+        patients={patients}
+        initialQuery={phone || ''}
+      />
+    )
+  })
 }
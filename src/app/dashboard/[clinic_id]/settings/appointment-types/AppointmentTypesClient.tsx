@@ -0,0 +1,314 @@
+/**
+ * Appointment Types Client Component
+ * Add, edit and retire the clinic's appointment types
+ */
+
+'use client'
+
+import { useState } from 'react'
+
+interface AppointmentType {
+  id: string
+  code: string
+  name: string
+  durationMinutes: number
+  color: string
+  allowedSpecializations: string[]
+  isActive: boolean
+}
+
+interface AppointmentTypesClientProps {
+  clinicId: string
+  initialTypes: AppointmentType[]
+  specializations: string[]
+}
+
+interface FieldError {
+  field: string
+  message: string
+}
+
+const EMPTY_FORM = {
+  code: '',
+  name: '',
+  durationMinutes: 30,
+  color: '#0d9488',
+  allowedSpecializations: [] as string[]
+}
+
+export default function AppointmentTypesClient({
+  clinicId,
+  initialTypes,
+  specializations
+}: AppointmentTypesClientProps) {
+  const [types, setTypes] = useState<AppointmentType[]>(initialTypes)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const errorFor = (field: string) => errors.find(e => e.field === field)?.message
+
+  const startEdit = (type: AppointmentType) => {
+    setEditingId(type.id)
+    setForm({
+      code: type.code,
+      name: type.name,
+      durationMinutes: type.durationMinutes,
+      color: type.color,
+      allowedSpecializations: type.allowedSpecializations
+    })
+    setErrors([])
+    setMessage(null)
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setErrors([])
+  }
+
+  const toggleSpecialization = (specialization: string) => {
+    setForm(prev => ({
+      ...prev,
+      allowedSpecializations: prev.allowedSpecializations.includes(specialization)
+        ? prev.allowedSpecializations.filter(s => s !== specialization)
+        : [...prev.allowedSpecializations, specialization]
+    }))
+  }
+
+  const replaceType = (saved: AppointmentType) => {
+    setTypes(prev => {
+      const exists = prev.some(t => t.id === saved.id)
+      return exists ? prev.map(t => (t.id === saved.id ? saved : t)) : [...prev, saved]
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setErrors([])
+    setMessage(null)
+
+    const { code, ...fields } = form
+
+    try {
+      const response = await fetch(
+        editingId
+          ? `/api/clinics/${clinicId}/appointment-types/${editingId}`
+          : `/api/clinics/${clinicId}/appointment-types`,
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(editingId ? fields : { code, ...fields })
+        }
+      )
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceType(data.appointmentType)
+        setMessage({ success: true, text: 'Aina ya miadi imehifadhiwa / Appointment type saved' })
+        resetForm()
+      } else {
+        setErrors(data.details || [])
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (type: AppointmentType) => {
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/appointment-types/${type.id}`, {
+        method: type.isActive ? 'DELETE' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: type.isActive ? undefined : JSON.stringify({ isActive: true })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceType({ ...type, isActive: !type.isActive })
+        if (editingId === type.id) resetForm()
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    }
+  }
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Aina za Miadi / Appointment Types
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Muda wa aina huamua nafasi ngapi mfululizo zinachukuliwa / A type&apos;s duration decides how many consecutive slots a booking takes
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4 mb-4 space-y-3">
+        <h2 className="font-bold text-gray-900">
+          {editingId ? 'Hariri aina / Edit type' : 'Ongeza aina / Add type'}
+        </h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs text-gray-500">
+            Jina / Name
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Antenatal - first visit"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            {errorFor('name') && <span className="block mt-1 text-sm text-red-600">{errorFor('name')}</span>}
+          </label>
+
+          <label className="block text-xs text-gray-500">
+            Msimbo / Code
+            <input
+              type="text"
+              value={form.code}
+              disabled={editingId !== null}
+              onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value }))}
+              placeholder="antenatal_first"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 disabled:bg-gray-100"
+            />
+            {errorFor('code') && <span className="block mt-1 text-sm text-red-600">{errorFor('code')}</span>}
+          </label>
+
+          <label className="block text-xs text-gray-500">
+            Muda (dakika) / Duration (minutes)
+            <input
+              type="number"
+              min={5}
+              max={480}
+              step={5}
+              value={form.durationMinutes}
+              onChange={(e) => setForm(prev => ({ ...prev, durationMinutes: Number(e.target.value) }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            {errorFor('durationMinutes') && (
+              <span className="block mt-1 text-sm text-red-600">{errorFor('durationMinutes')}</span>
+            )}
+          </label>
+
+          <label className="block text-xs text-gray-500">
+            Rangi / Color
+            <input
+              type="color"
+              value={form.color}
+              onChange={(e) => setForm(prev => ({ ...prev, color: e.target.value }))}
+              className="mt-1 w-full h-10 border border-gray-300 rounded-lg"
+            />
+          </label>
+        </div>
+
+        {specializations.length > 0 && (
+          <div>
+            <p className="text-xs text-gray-500 mb-1">
+              Wahudumu wanaoruhusiwa (tupu = wote) / Allowed specializations (none = any)
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {specializations.map(specialization => (
+                <button
+                  key={specialization}
+                  type="button"
+                  onClick={() => toggleSpecialization(specialization)}
+                  className={`px-3 py-1 rounded-full text-sm border ${
+                    form.allowedSpecializations.includes(specialization)
+                      ? 'bg-teal-600 border-teal-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:border-teal-300'
+                  }`}
+                >
+                  {specialization}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {editingId && (
+            <button
+              onClick={resetForm}
+              disabled={saving}
+              className="flex-1 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Ghairi / Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !form.name || (!editingId && !form.code)}
+            className="flex-1 py-2 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {saving ? 'Inahifadhi...' : 'Hifadhi / Save'}
+          </button>
+        </div>
+      </div>
+
+      {types.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          Hakuna aina bado - kila miadi inachukua nafasi moja / No types yet - every booking takes one slot
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {types.map(type => (
+            <div
+              key={type.id}
+              className={`bg-white rounded-xl shadow-sm border-l-4 p-3 flex items-center justify-between gap-3 ${
+                type.isActive ? '' : 'opacity-60'
+              }`}
+              style={{ borderLeftColor: type.color }}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{type.name}</p>
+                <p className="text-xs text-gray-500">
+                  {type.code} · {type.durationMinutes} min
+                  {type.allowedSpecializations.length > 0 && ` · ${type.allowedSpecializations.join(', ')}`}
+                  {!type.isActive && ' · Imeondolewa / Retired'}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {type.isActive && (
+                  <button
+                    onClick={() => startEdit(type)}
+                    className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    Hariri / Edit
+                  </button>
+                )}
+                <button
+                  onClick={() => handleToggleActive(type)}
+                  className={`px-3 py-1 text-sm rounded-lg border ${
+                    type.isActive
+                      ? 'border-red-200 text-red-600 hover:bg-red-50'
+                      : 'border-teal-200 text-teal-700 hover:bg-teal-50'
+                  }`}
+                >
+                  {type.isActive ? 'Ondoa / Retire' : 'Rejesha / Restore'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+/**
+ * Appointment Types Settings Page
+ * Server Component - loads the clinic's appointment type catalogue
+ */
+
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import AppointmentTypesClient from './AppointmentTypesClient'
+
+interface AppointmentTypesPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+export default async function AppointmentTypesPage({ params }: AppointmentTypesPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const [appointmentTypes, staff] = await Promise.all([
+      prisma.appointmentType.findMany({
+        where: { clinicId: clinic_id },
+        orderBy: [{ isActive: 'desc' }, { name: 'asc' }]
+      }),
+      prisma.staff.findMany({
+        where: { clinicId: clinic_id, isActive: true, specialization: { not: null } },
+        select: { specialization: true },
+        distinct: ['specialization']
+      })
+    ])
+
+    return (
+      <AppointmentTypesClient
+        clinicId={clinic_id}
+        initialTypes={appointmentTypes.map(type => ({
+          id: type.id,
+          code: type.code,
+          name: type.name,
+          durationMinutes: type.durationMinutes,
+          color: type.color,
+          allowedSpecializations: type.allowedSpecializations,
+          isActive: type.isActive
+        }))}
+        specializations={staff.map(member => member.specialization as string).sort()}
+      />
+    )
+  })
+}
@@ -0,0 +1,127 @@
+/**
+ * Booking Policy Client Component
+ * How close to the appointment, and how often, patients may reschedule
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface BookingPolicyClientProps {
+  clinicId: string
+  initialCutoffHours: number
+  initialMaxReschedules: number
+}
+
+interface FieldError {
+  field: string
+  message: string
+}
+
+export default function BookingPolicyClient({
+  clinicId,
+  initialCutoffHours,
+  initialMaxReschedules
+}: BookingPolicyClientProps) {
+  const router = useRouter()
+  const [cutoffHours, setCutoffHours] = useState(initialCutoffHours)
+  const [maxReschedules, setMaxReschedules] = useState(initialMaxReschedules)
+  const [saving, setSaving] = useState(false)
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const errorFor = (field: string) => errors.find(e => e.field === field)?.message
+
+  const handleSave = async () => {
+    setSaving(true)
+    setErrors([])
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/booking-policy`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rescheduleCutoffHours: cutoffHours, maxReschedules })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ success: true, text: data.message })
+        router.refresh()
+      } else {
+        setErrors(data.details || [])
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Sera ya Miadi / Booking Rules
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Wagonjwa wanaweza kubadilisha muda wa miadi yao wenyewe kwa masharti haya / Patients can reschedule their own appointments within these rules
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4 space-y-4">
+        <label className="block text-xs text-gray-500">
+          Hakuna mabadiliko ndani ya saa hizi kabla ya miadi / No changes within this many hours of the appointment
+          <input
+            type="number"
+            min={0}
+            max={168}
+            value={cutoffHours}
+            onChange={(e) => setCutoffHours(Number(e.target.value))}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+          {errorFor('rescheduleCutoffHours') && (
+            <span className="block mt-1 text-sm text-red-600">{errorFor('rescheduleCutoffHours')}</span>
+          )}
+        </label>
+
+        <label className="block text-xs text-gray-500">
+          Idadi ya juu ya kubadilisha kwa miadi moja (0 = hairuhusiwi) / Maximum reschedules per appointment (0 = not allowed)
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={maxReschedules}
+            onChange={(e) => setMaxReschedules(Number(e.target.value))}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+          {errorFor('maxReschedules') && (
+            <span className="block mt-1 text-sm text-red-600">{errorFor('maxReschedules')}</span>
+          )}
+        </label>
+
+        <p className="text-xs text-gray-400">
+          Wahudumu bado wanaweza kuhamisha miadi wakati wowote kutoka ukurasa wa Leo / Staff can still move appointments at any time from the Today page
+        </p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="mt-6 w-full py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 transition"
+      >
+        {saving ? 'Inahifadhi...' : 'Hifadhi / Save'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+/**
+ * Booking Policy Settings Page
+ * Server Component - loads the clinic's patient reschedule policy
+ */
+
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import BookingPolicyClient from './BookingPolicyClient'
+
+interface BookingPolicyPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+export default async function BookingPolicyPage({ params }: BookingPolicyPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinic_id },
+      select: { rescheduleCutoffHours: true, maxReschedules: true }
+    })
+
+    return (
+      <BookingPolicyClient
+        clinicId={clinic_id}
+        initialCutoffHours={clinic?.rescheduleCutoffHours ?? 2}
+        initialMaxReschedules={clinic?.maxReschedules ?? 2}
+      />
+    )
+  })
+}
@@ -0,0 +1,407 @@
+/**
+ * Clinic Closures Client Component
+ * Add/remove closure days and clear the bookings they affect
+ */
+
+'use client'
+
+import { useState } from 'react'
+import type { PublicHoliday } from '@/lib/closures/tanzania-holidays'
+
+interface Closure {
+  id: string
+  startDate: string
+  endDate: string
+  reason: string
+}
+
+interface AffectedAppointment {
+  id: string
+  status: string
+  date: string
+  startTime: string
+  endTime: string
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+    phoneNumber: string
+  }
+  staff: {
+    id: string
+    firstName: string
+    lastName: string
+    role: string
+  }
+}
+
+interface ClosuresClientProps {
+  clinicId: string
+  today: string
+  initialClosures: Closure[]
+  holidays: PublicHoliday[]
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('sw-TZ', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+function formatRange(closure: Closure): string {
+  return closure.startDate === closure.endDate
+    ? formatDate(closure.startDate)
+    : `${formatDate(closure.startDate)} - ${formatDate(closure.endDate)}`
+}
+
+export default function ClosuresClient({ clinicId, today, initialClosures, holidays }: ClosuresClientProps) {
+  const [closures, setClosures] = useState<Closure[]>(initialClosures)
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  // Affected appointments for the selected closure
+  const [selectedClosure, setSelectedClosure] = useState<Closure | null>(null)
+  const [affected, setAffected] = useState<AffectedAppointment[]>([])
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set())
+  const [notifyPatients, setNotifyPatients] = useState(true)
+  const [cancelling, setCancelling] = useState(false)
+
+  const showAffected = (closure: Closure, appointments: AffectedAppointment[]) => {
+    setSelectedClosure(closure)
+    setAffected(appointments)
+    setCheckedIds(new Set(appointments.map(a => a.id)))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/closures`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startDate,
+          ...(endDate && { endDate }),
+          reason
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ success: false, text: data.details?.[0]?.message || data.error || 'Hitilafu / Error' })
+        return
+      }
+
+      setClosures(prev => [...prev, data.closure].sort((a, b) => a.startDate.localeCompare(b.startDate)))
+      setStartDate('')
+      setEndDate('')
+      setReason('')
+      setMessage({ success: true, text: 'Siku ya kufunga imehifadhiwa / Closure saved' })
+      showAffected(data.closure, data.affectedAppointments)
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleViewAffected = async (closure: Closure) => {
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/closures/${closure.id}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        showAffected(data.closure, data.affectedAppointments)
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    }
+  }
+
+  const handleDelete = async (closure: Closure) => {
+    if (!confirm('Ondoa siku hii ya kufunga? / Remove this closure?')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/closures/${closure.id}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setClosures(prev => prev.filter(c => c.id !== closure.id))
+        if (selectedClosure?.id === closure.id) {
+          setSelectedClosure(null)
+        }
+        setMessage({ success: true, text: data.message })
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    }
+  }
+
+  const toggleChecked = (appointmentId: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(appointmentId)) {
+        next.delete(appointmentId)
+      } else {
+        next.add(appointmentId)
+      }
+      return next
+    })
+  }
+
+  const handleCancelSelected = async () => {
+    if (!selectedClosure || checkedIds.size === 0) {
+      return
+    }
+
+    if (!confirm(`Ghairi miadi ${checkedIds.size}? / Cancel ${checkedIds.size} appointment(s)?`)) {
+      return
+    }
+
+    setCancelling(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/closures/${selectedClosure.id}/cancel-appointments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          appointmentIds: Array.from(checkedIds),
+          notifyPatients
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        const cancelled = new Set<string>(data.appointmentIds)
+        setAffected(prev => prev.filter(a => !cancelled.has(a.id)))
+        setCheckedIds(new Set())
+        setMessage({
+          success: true,
+          text: `Miadi ${data.cancelled} imeghairiwa, SMS ${data.notified} zimetumwa / ${data.cancelled} cancelled, ${data.notified} SMS sent`
+        })
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto space-y-4">
+      <div className="bg-white rounded-xl shadow-sm p-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Siku za Kufunga / Closures
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Hakuna nafasi zitakazotolewa siku hizi / No slots are offered on these days
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      {/* Add closure */}
+      <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+        <h2 className="font-semibold text-gray-900">Ongeza / Add closure</h2>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-gray-500">
+            Kuanzia / From
+            <input
+              type="date"
+              required
+              min={today}
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+          </label>
+          <label className="text-xs text-gray-500">
+            Hadi (hiari) / To (optional)
+            <input
+              type="date"
+              min={startDate || today}
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+          </label>
+        </div>
+        <label className="block text-xs text-gray-500">
+          Sababu / Reason
+          <input
+            type="text"
+            required
+            maxLength={200}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Mafunzo ya wafanyakazi / Staff training"
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 transition"
+        >
+          {saving ? 'Inahifadhi...' : 'Hifadhi / Save'}
+        </button>
+      </form>
+
+      {/* Affected appointments */}
+      {selectedClosure && (
+        <div className="bg-white rounded-xl shadow-sm border-2 border-amber-200 p-4">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <h2 className="font-semibold text-gray-900">
+                Miadi iliyoathirika / Affected appointments
+              </h2>
+              <p className="text-sm text-gray-500">
+                {formatRange(selectedClosure)} &middot; {selectedClosure.reason}
+              </p>
+            </div>
+            <button
+              onClick={() => setSelectedClosure(null)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Funga / Close
+            </button>
+          </div>
+
+          {affected.length === 0 ? (
+            <p className="mt-3 text-sm text-gray-600">
+              Hakuna miadi katika siku hizi / No appointments on these days
+            </p>
+          ) : (
+            <>
+              <p className="mt-3 text-sm text-gray-600">
+                Ghairi miadi hapa, au piga simu kwa mgonjwa kupanga siku nyingine /
+                Cancel here, or call the patient to move the appointment
+              </p>
+              <ul className="mt-3 divide-y divide-gray-100">
+                {affected.map(appointment => (
+                  <li key={appointment.id} className="py-2 flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={checkedIds.has(appointment.id)}
+                      onChange={() => toggleChecked(appointment.id)}
+                      className="w-4 h-4 accent-teal-600"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {appointment.patient.firstName} {appointment.patient.lastName}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(appointment.date)} {appointment.startTime} &middot; Dr. {appointment.staff.firstName} {appointment.staff.lastName}
+                      </p>
+                    </div>
+                    <a
+                      href={`tel:${appointment.patient.phoneNumber}`}
+                      className="text-sm text-teal-600 hover:text-teal-700 whitespace-nowrap"
+                    >
+                      {appointment.patient.phoneNumber}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={notifyPatients}
+                    onChange={(e) => setNotifyPatients(e.target.checked)}
+                    className="w-4 h-4 accent-teal-600"
+                  />
+                  Tuma SMS kwa wagonjwa / SMS patients
+                </label>
+                <button
+                  onClick={handleCancelSelected}
+                  disabled={cancelling || checkedIds.size === 0}
+                  className="sm:ml-auto px-4 py-2 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 transition"
+                >
+                  {cancelling ? 'Inaghairi...' : `Ghairi zilizochaguliwa (${checkedIds.size}) / Cancel selected`}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Upcoming closures */}
+      <div className="bg-white rounded-xl shadow-sm p-4">
+        <h2 className="font-semibold text-gray-900 mb-2">Zijazo / Upcoming</h2>
+        {closures.length === 0 ? (
+          <p className="text-sm text-gray-500">Hakuna siku za kufunga / No closures</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {closures.map(closure => (
+              <li key={closure.id} className="py-3 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">{formatRange(closure)}</p>
+                  <p className="text-sm text-gray-500 truncate">{closure.reason}</p>
+                </div>
+                <button
+                  onClick={() => handleViewAffected(closure)}
+                  className="text-sm text-teal-600 hover:text-teal-700 font-medium"
+                >
+                  Miadi / Bookings
+                </button>
+                <button
+                  onClick={() => handleDelete(closure)}
+                  className="text-sm text-red-600 hover:text-red-700"
+                >
+                  Ondoa / Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Built-in public holidays */}
+      <div className="bg-white rounded-xl shadow-sm p-4">
+        <h2 className="font-semibold text-gray-900 mb-1">Sikukuu za Kitaifa / Public holidays</h2>
+        <p className="text-xs text-gray-500 mb-2">
+          Kliniki hufungwa siku hizi. Tarehe za Eid na Maulid hutegemea mwezi /
+          The clinic is closed on these days. Eid and Maulid dates depend on the moon
+        </p>
+        <ul className="divide-y divide-gray-100">
+          {holidays.map(holiday => (
+            <li key={holiday.date} className="py-2 flex justify-between text-sm">
+              <span className="text-gray-900">{holiday.nameSw} / {holiday.nameEn}</span>
+              <span className="text-gray-500">{formatDate(holiday.date)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+/**
+ * Clinic Closures Settings Page
+ * Server Component - loads upcoming closures and public holidays
+ */
+
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import { addDaysToDateString, toSlotDate } from '@/lib/date-utils'
+import { getTanzaniaDateString } from '@/lib/timezone'
+import { getTanzaniaHolidaysInRange } from '@/lib/closures/tanzania-holidays'
+import ClosuresClient from './ClosuresClient'
+
+interface ClosuresPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+async function getUpcomingClosures(clinicId: string, today: string) {
+  const closures = await prisma.clinicClosure.findMany({
+    where: {
+      clinicId,
+      endDate: { gte: toSlotDate(today) }
+    },
+    orderBy: { startDate: 'asc' }
+  })
+
+  return closures.map(closure => ({
+    id: closure.id,
+    startDate: closure.startDate.toISOString().split('T')[0],
+    endDate: closure.endDate.toISOString().split('T')[0],
+    reason: closure.reason
+  }))
+}
+
+export default async function ClosuresPage({ params }: ClosuresPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const today = getTanzaniaDateString()
+
+    const closures = await getUpcomingClosures(clinic_id, today)
+    const holidays = getTanzaniaHolidaysInRange(today, addDaysToDateString(today, 364))
+
+    return (
+      <ClosuresClient
+        clinicId={clinic_id}
+        today={today}
+        initialClosures={closures}
+        holidays={holidays}
+      />
+    )
+  })
+}
@@ -0,0 +1,332 @@
+/**
+ * Operating Hours Editor Client Component
+ * Weekly schedule with slot length and lunch breaks
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday'
+
+interface BreakTime {
+  start: string
+  end: string
+}
+
+interface StoredDayHours {
+  open?: string | null
+  close?: string | null
+  slots?: string[]
+  slotDuration?: number
+  breaks?: BreakTime[]
+}
+
+interface DayState {
+  isOpen: boolean
+  open: string
+  close: string
+  slotDuration: number
+  slotsText: string
+  breaks: BreakTime[]
+}
+
+interface HoursClientProps {
+  clinicId: string
+  initialHours: Partial<Record<string, StoredDayHours>>
+}
+
+interface FieldError {
+  field: string
+  message: string
+}
+
+const WEEKDAYS: { key: Weekday; label: string }[] = [
+  { key: 'monday', label: 'Jumatatu / Monday' },
+  { key: 'tuesday', label: 'Jumanne / Tuesday' },
+  { key: 'wednesday', label: 'Jumatano / Wednesday' },
+  { key: 'thursday', label: 'Alhamisi / Thursday' },
+  { key: 'friday', label: 'Ijumaa / Friday' },
+  { key: 'saturday', label: 'Jumamosi / Saturday' },
+  { key: 'sunday', label: 'Jumapili / Sunday' }
+]
+
+const SLOT_DURATIONS = [10, 15, 20, 30, 45, 60]
+
+function toDayState(stored: StoredDayHours | undefined): DayState {
+  return {
+    isOpen: !!stored?.open && !!stored?.close,
+    open: stored?.open || '08:00',
+    close: stored?.close || '17:00',
+    slotDuration: stored?.slotDuration || 30,
+    slotsText: stored?.slots?.join(', ') || '',
+    breaks: stored?.breaks || []
+  }
+}
+
+function toStoredDayHours(day: DayState): StoredDayHours {
+  if (!day.isOpen) {
+    return { open: null, close: null }
+  }
+
+  const slots = day.slotsText
+    .split(',')
+    .map(slot => slot.trim())
+    .filter(Boolean)
+
+  return {
+    open: day.open,
+    close: day.close,
+    slotDuration: day.slotDuration,
+    ...(slots.length > 0 && { slots }),
+    ...(day.breaks.length > 0 && { breaks: day.breaks })
+  }
+}
+
+export default function HoursClient({ clinicId, initialHours }: HoursClientProps) {
+  const router = useRouter()
+  const [days, setDays] = useState<Record<Weekday, DayState>>(() => {
+    const initial = {} as Record<Weekday, DayState>
+    WEEKDAYS.forEach(({ key }) => {
+      initial[key] = toDayState(initialHours[key])
+    })
+    return initial
+  })
+  const [saving, setSaving] = useState(false)
+  const [generating, setGenerating] = useState(false)
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const updateDay = (key: Weekday, changes: Partial<DayState>) => {
+    setDays(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }))
+  }
+
+  const errorsForDay = (key: Weekday) => {
+    return errors.filter(e => e.field === `operatingHours.${key}` || e.field.startsWith(`operatingHours.${key}.`))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setErrors([])
+    setMessage(null)
+
+    const operatingHours: Record<string, StoredDayHours> = {}
+    WEEKDAYS.forEach(({ key }) => {
+      operatingHours[key] = toStoredDayHours(days[key])
+    })
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/operating-hours`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operatingHours })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ success: true, text: data.message })
+        router.refresh()
+      } else {
+        setErrors(data.details || [])
+        setMessage({
+          success: false,
+          text: data.details
+            ? 'Tafadhali sahihisha makosa hapa chini / Please fix the errors below'
+            : data.error || 'Hitilafu / Error'
+        })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleGenerateSlots = async () => {
+    setGenerating(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/slots/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
+
+      setMessage(response.ok
+        ? {
+            success: true,
+            text: `Nafasi ${data.created} zimetengenezwa, ${data.skipped} zilikuwepo / ${data.created} slots created, ${data.skipped} already existed`
+          }
+        : { success: false, text: data.error || 'Hitilafu / Error' })
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Saa za Kazi / Operating Hours
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Nafasi za miadi zinatengenezwa kutoka ratiba hii / Appointment slots are generated from this schedule
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {WEEKDAYS.map(({ key, label }) => {
+          const day = days[key]
+          const dayErrors = errorsForDay(key)
+
+          return (
+            <div
+              key={key}
+              className={`bg-white rounded-xl shadow-sm border-2 p-4 ${
+                dayErrors.length > 0 ? 'border-red-300' : 'border-gray-100'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">{label}</span>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={day.isOpen}
+                    onChange={(e) => updateDay(key, { isOpen: e.target.checked })}
+                    className="w-4 h-4 accent-teal-600"
+                  />
+                  {day.isOpen ? 'Wazi / Open' : 'Imefungwa / Closed'}
+                </label>
+              </div>
+
+              {day.isOpen && (
+                <div className="mt-4 space-y-3">
+                  <div className="grid grid-cols-3 gap-3">
+                    <label className="text-xs text-gray-500">
+                      Kufungua / Open
+                      <input
+                        type="time"
+                        value={day.open}
+                        onChange={(e) => updateDay(key, { open: e.target.value })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-500">
+                      Kufunga / Close
+                      <input
+                        type="time"
+                        value={day.close}
+                        onChange={(e) => updateDay(key, { close: e.target.value })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-500">
+                      Dakika kwa nafasi / Slot minutes
+                      <select
+                        value={day.slotDuration}
+                        onChange={(e) => updateDay(key, { slotDuration: Number(e.target.value) })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      >
+                        {SLOT_DURATIONS.map(minutes => (
+                          <option key={minutes} value={minutes}>{minutes}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  {/* Lunch breaks */}
+                  <div>
+                    <p className="text-xs text-gray-500 mb-1">Mapumziko / Breaks</p>
+                    {day.breaks.map((pause, index) => (
+                      <div key={index} className="flex items-center gap-2 mb-2">
+                        <input
+                          type="time"
+                          value={pause.start}
+                          onChange={(e) => updateDay(key, {
+                            breaks: day.breaks.map((b, i) => i === index ? { ...b, start: e.target.value } : b)
+                          })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        />
+                        <span className="text-gray-400">-</span>
+                        <input
+                          type="time"
+                          value={pause.end}
+                          onChange={(e) => updateDay(key, {
+                            breaks: day.breaks.map((b, i) => i === index ? { ...b, end: e.target.value } : b)
+                          })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        />
+                        <button
+                          onClick={() => updateDay(key, { breaks: day.breaks.filter((_, i) => i !== index) })}
+                          className="px-2 py-1 text-sm text-red-600 hover:text-red-700"
+                        >
+                          Ondoa / Remove
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => updateDay(key, { breaks: [...day.breaks, { start: '12:00', end: '13:00' }] })}
+                      className="text-sm text-teal-600 hover:text-teal-700 font-medium"
+                    >
+                      + Ongeza mapumziko / Add break
+                    </button>
+                  </div>
+
+                  {/* Optional explicit slot list */}
+                  <label className="block text-xs text-gray-500">
+                    Nafasi maalum (hiari) / Fixed slot times (optional)
+                    <input
+                      type="text"
+                      value={day.slotsText}
+                      onChange={(e) => updateDay(key, { slotsText: e.target.value })}
+                      placeholder="08:00, 08:30, 09:00"
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                    />
+                  </label>
+                </div>
+              )}
+
+              {dayErrors.length > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {dayErrors.map((e, index) => (
+                    <li key={index} className="text-sm text-red-600">{e.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="mt-6 flex flex-col sm:flex-row gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 transition"
+        >
+          {saving ? 'Inahifadhi...' : 'Hifadhi / Save'}
+        </button>
+        <button
+          onClick={handleGenerateSlots}
+          disabled={generating || saving}
+          className="flex-1 py-3 bg-white border-2 border-teal-600 text-teal-700 font-bold rounded-xl hover:bg-teal-50 disabled:opacity-50 transition"
+        >
+          {generating ? 'Inatengeneza...' : 'Tengeneza nafasi / Generate slots'}
+        </button>
+      </div>
+    </div>
+  )
+}
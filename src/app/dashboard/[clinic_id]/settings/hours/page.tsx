@@ -0,0 +1,41 @@
+/**
+ * Operating Hours Settings Page
+ * Server Component - loads the clinic's stored hours
+ */
+
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import HoursClient from './HoursClient'
+
+interface HoursPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+async function getOperatingHours(clinicId: string) {
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: clinicId },
+    select: { operatingHours: true }
+  })
+
+  // Invalid JSON loads as an empty week so the editor can repair it
+  try {
+    return clinic ? JSON.parse(clinic.operatingHours) : {}
+  } catch {
+    return {}
+  }
+}
+
+export default async function HoursPage({ params }: HoursPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const operatingHours = await getOperatingHours(clinic_id)
+
+    return (
+      <HoursClient
+        clinicId={clinic_id}
+        initialHours={operatingHours}
+      />
+    )
+  })
+}
@@ -0,0 +1,43 @@
+/**
+ * Settings Layout
+ * Tabs shared by the clinic settings pages
+ */
+
+import Link from 'next/link'
+
+interface SettingsLayoutProps {
+  children: React.ReactNode
+  params: Promise<{ clinic_id: string }>
+}
+
+export default async function SettingsLayout({ children, params }: SettingsLayoutProps) {
+  const { clinic_id } = await params
+
+  const tabs = [
+    { href: `/dashboard/${clinic_id}/settings/hours`, label: 'Saa za Kazi / Hours' },
+    { href: `/dashboard/${clinic_id}/settings/closures`, label: 'Siku za Kufunga / Closures' },
+    { href: `/dashboard/${clinic_id}/settings/booking`, label: 'Sera ya Miadi / Booking Rules' },
+    { href: `/dashboard/${clinic_id}/settings/appointment-types`, label: 'Aina za Miadi / Appointment Types' },
+    { href: `/dashboard/${clinic_id}/settings/reminders`, label: 'Kumbusho / Reminders' },
+    { href: `/dashboard/${clinic_id}/settings/messaging`, label: 'Ujumbe / Messaging' },
+    { href: `/dashboard/${clinic_id}/settings/templates`, label: 'Violezo / Templates' },
+    { href: `/dashboard/${clinic_id}/settings/users`, label: 'Watumiaji / Users' }
+  ]
+
+  return (
+    <div>
+      <nav className="max-w-3xl mx-auto px-4 pt-4 flex gap-2 overflow-x-auto">
+        {tabs.map(tab => (
+          <Link
+            key={tab.href}
+            href={tab.href}
+            className="px-4 py-2 bg-white rounded-lg shadow-sm text-sm font-medium text-teal-700 hover:bg-teal-50 whitespace-nowrap transition"
+          >
+            {tab.label}
+          </Link>
+        ))}
+      </nav>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+/**
+ * Messaging Settings Client Component
+ * Which gateway sends the clinic's SMS, the hours messages may go out,
+ * and in development the messages the fake provider recorded instead of
+ * sending
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+
+type ProviderName = 'TWILIO' | 'AFRICASTALKING' | 'BEEM' | 'FAKE'
+
+interface MessagingClientProps {
+  clinicId: string
+  initialProvider: ProviderName | null
+  defaultProvider: ProviderName
+  providers: Array<{ name: ProviderName; configured: boolean }>
+  initialSendWindow: { start: string | null; end: string | null }
+  showFakeOutbox: boolean
+}
+
+interface FakeMessage {
+  messageId: string
+  channel: 'SMS' | 'WHATSAPP'
+  to: string
+  body: string
+  sentAt: string
+}
+
+const PROVIDER_LABELS: Record<ProviderName, string> = {
+  TWILIO: 'Twilio',
+  AFRICASTALKING: 'Africa\'s Talking',
+  BEEM: 'Beem',
+  FAKE: 'Majaribio / Fake (development)'
+}
+
+export default function MessagingClient({
+  clinicId,
+  initialProvider,
+  defaultProvider,
+  providers,
+  initialSendWindow,
+  showFakeOutbox
+}: MessagingClientProps) {
+  const router = useRouter()
+  const [provider, setProvider] = useState<ProviderName | null>(initialProvider)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+  const [outbox, setOutbox] = useState<FakeMessage[]>([])
+  const [limitHours, setLimitHours] = useState(initialSendWindow.start !== null)
+  const [windowStart, setWindowStart] = useState(initialSendWindow.start ?? '07:00')
+  const [windowEnd, setWindowEnd] = useState(initialSendWindow.end ?? '21:00')
+  const [savingWindow, setSavingWindow] = useState(false)
+
+  const loadOutbox = useCallback(async () => {
+    const response = await fetch('/api/dev/messages')
+    if (response.ok) {
+      const data = await response.json()
+      setOutbox(data.messages)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (showFakeOutbox) {
+      loadOutbox()
+    }
+  }, [showFakeOutbox, loadOutbox])
+
+  const clearOutbox = async () => {
+    await fetch('/api/dev/messages', { method: 'DELETE' })
+    setOutbox([])
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/messaging-provider`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messagingProvider: provider })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ success: true, text: data.message })
+        router.refresh()
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveWindow = async () => {
+    setSavingWindow(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/send-window`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sendWindowStart: limitHours ? windowStart : null,
+          sendWindowEnd: limitHours ? windowEnd : null
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ success: true, text: data.message })
+      } else {
+        setMessage({ success: false, text: data.details?.[0]?.message || data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSavingWindow(false)
+    }
+  }
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Huduma ya Ujumbe / Messaging
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Huduma inayotuma SMS za kliniki hii / The gateway that sends this clinic&apos;s SMS
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4 space-y-2">
+        <label className="flex items-center gap-3 text-sm text-gray-900">
+          <input
+            type="radio"
+            name="provider"
+            checked={provider === null}
+            onChange={() => setProvider(null)}
+          />
+          Chaguo-msingi / Default ({PROVIDER_LABELS[defaultProvider]})
+        </label>
+
+        {providers.map(option => (
+          <label
+            key={option.name}
+            className={`flex items-center gap-3 text-sm ${option.configured ? 'text-gray-900' : 'text-gray-400'}`}
+          >
+            <input
+              type="radio"
+              name="provider"
+              checked={provider === option.name}
+              disabled={!option.configured}
+              onChange={() => setProvider(option.name)}
+            />
+            {PROVIDER_LABELS[option.name]}
+            {!option.configured && <span className="text-xs">(haijasanidiwa / not configured)</span>}
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="mt-6 w-full py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 transition"
+      >
+        {saving ? 'Inahifadhi...' : 'Hifadhi / Save'}
+      </button>
+
+      <div className="mt-6 bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4 space-y-3">
+        <div>
+          <h2 className="font-bold text-gray-900">
+            Saa za kutuma / Sending hours
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Ujumbe nje ya saa hizi unasubiri / Messages due outside these hours (EAT) wait for them; day-before reminders go out earlier instead. Verification codes are always sent at once.
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={limitHours}
+            onChange={(e) => setLimitHours(e.target.checked)}
+            className="rounded border-gray-300 text-teal-600"
+          />
+          Tuma ndani ya saa hizi tu / Only send within these hours
+        </label>
+
+        {limitHours && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-gray-500">
+              Kuanzia / From
+              <input
+                type="time"
+                value={windowStart}
+                onChange={(e) => setWindowStart(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            </label>
+            <label className="block text-xs text-gray-500">
+              Hadi / Until
+              <input
+                type="time"
+                value={windowEnd}
+                onChange={(e) => setWindowEnd(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            </label>
+          </div>
+        )}
+
+        <button
+          onClick={handleSaveWindow}
+          disabled={savingWindow}
+          className="w-full py-2 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {savingWindow ? 'Inahifadhi...' : 'Hifadhi saa / Save hours'}
+        </button>
+      </div>
+
+      {showFakeOutbox && (
+        <div className="mt-6 bg-white rounded-xl shadow-sm p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="font-bold text-gray-900">
+              Ujumbe wa majaribio / Fake outbox
+            </h2>
+            <div className="flex gap-3 text-sm">
+              <button onClick={loadOutbox} className="text-teal-600 hover:text-teal-700 font-medium">
+                Onyesha upya / Refresh
+              </button>
+              <button onClick={clearOutbox} className="text-red-600 hover:text-red-700 font-medium">
+                Futa / Clear
+              </button>
+            </div>
+          </div>
+
+          {outbox.length > 0 ? (
+            <ul className="divide-y divide-gray-100">
+              {outbox.map(item => (
+                <li key={item.messageId} className="py-2">
+                  <p className="text-xs text-gray-500">
+                    {item.channel} · {item.to} · {format(new Date(item.sentAt), 'MMM d, HH:mm:ss')}
+                  </p>
+                  <p className="text-sm text-gray-900 whitespace-pre-wrap">{item.body}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Hakuna ujumbe bado / No messages yet
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
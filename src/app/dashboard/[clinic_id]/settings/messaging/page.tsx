@@ -0,0 +1,45 @@
+/**
+ * Messaging Settings Page
+ * Server Component - loads the clinic's SMS gateway, the available ones
+ * and the clinic's sending hours
+ */
+
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import { getDefaultProvider, listProviders } from '@/lib/messaging/provider-registry'
+import MessagingClient from './MessagingClient'
+
+interface MessagingPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+export default async function MessagingPage({ params }: MessagingPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinic_id },
+      select: { messagingProvider: true, sendWindowStart: true, sendWindowEnd: true }
+    })
+
+    const defaultProvider = getDefaultProvider().name
+    const effectiveProvider = clinic?.messagingProvider ?? defaultProvider
+
+    return (
+      <MessagingClient
+        clinicId={clinic_id}
+        initialProvider={clinic?.messagingProvider ?? null}
+        defaultProvider={defaultProvider}
+        providers={listProviders().map(provider => ({
+          name: provider.name,
+          configured: provider.isConfigured()
+        }))}
+        initialSendWindow={{
+          start: clinic?.sendWindowStart ?? null,
+          end: clinic?.sendWindowEnd ?? null
+        }}
+        showFakeOutbox={process.env.NODE_ENV !== 'production' && effectiveProvider === 'FAKE'}
+      />
+    )
+  })
+}
@@ -0,0 +1,338 @@
+/**
+ * Reminders Client Component
+ * Add, edit and retire the clinic's reminder rules
+ */
+
+'use client'
+
+import { useState } from 'react'
+
+type ReminderChannel = 'SMS' | 'WHATSAPP' | 'BOTH' | 'PREFERRED'
+type ReminderTemplate = 'DAY_BEFORE' | 'SAME_DAY' | 'UPCOMING'
+
+interface ReminderRule {
+  id: string
+  offsetHours: number
+  channel: ReminderChannel
+  template: ReminderTemplate
+  quietHoursStart: string | null
+  quietHoursEnd: string | null
+  isActive: boolean
+}
+
+interface RemindersClientProps {
+  clinicId: string
+  initialRules: ReminderRule[]
+}
+
+interface FieldError {
+  field: string
+  message: string
+}
+
+const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp',
+  BOTH: 'SMS + WhatsApp',
+  PREFERRED: 'Chaguo la mgonjwa / Patient preference'
+}
+
+const TEMPLATE_LABELS: Record<ReminderTemplate, string> = {
+  DAY_BEFORE: 'Kesho / Day before',
+  SAME_DAY: 'Leo / Same day',
+  UPCOMING: 'Tarehe na saa / Date and time'
+}
+
+const EMPTY_FORM = {
+  offsetHours: 24,
+  channel: 'SMS' as ReminderChannel,
+  template: 'DAY_BEFORE' as ReminderTemplate,
+  quietHoursStart: '21:00',
+  quietHoursEnd: '07:00',
+  useQuietHours: true
+}
+
+// Active first, furthest ahead first - the order the API returns
+function sortRules(rules: ReminderRule[]): ReminderRule[] {
+  return [...rules].sort((a, b) => Number(b.isActive) - Number(a.isActive) || b.offsetHours - a.offsetHours)
+}
+
+function describeOffset(hours: number): string {
+  return hours % 24 === 0 && hours >= 48
+    ? `Siku ${hours / 24} kabla / ${hours / 24} days before`
+    : `Saa ${hours} kabla / ${hours}h before`
+}
+
+export default function RemindersClient({ clinicId, initialRules }: RemindersClientProps) {
+  const [rules, setRules] = useState<ReminderRule[]>(initialRules)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const errorFor = (field: string) => errors.find(e => e.field === field)?.message
+
+  const startEdit = (rule: ReminderRule) => {
+    setEditingId(rule.id)
+    setForm({
+      offsetHours: rule.offsetHours,
+      channel: rule.channel,
+      template: rule.template,
+      quietHoursStart: rule.quietHoursStart ?? '21:00',
+      quietHoursEnd: rule.quietHoursEnd ?? '07:00',
+      useQuietHours: rule.quietHoursStart !== null
+    })
+    setErrors([])
+    setMessage(null)
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setErrors([])
+  }
+
+  const replaceRule = (saved: ReminderRule) => {
+    setRules(prev => {
+      const exists = prev.some(r => r.id === saved.id)
+      return sortRules(exists ? prev.map(r => (r.id === saved.id ? saved : r)) : [...prev, saved])
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setErrors([])
+    setMessage(null)
+
+    const { useQuietHours, ...fields } = form
+
+    try {
+      const response = await fetch(
+        editingId
+          ? `/api/clinics/${clinicId}/reminder-rules/${editingId}`
+          : `/api/clinics/${clinicId}/reminder-rules`,
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...fields,
+            quietHoursStart: useQuietHours ? fields.quietHoursStart : null,
+            quietHoursEnd: useQuietHours ? fields.quietHoursEnd : null
+          })
+        }
+      )
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceRule(data.reminderRule)
+        setMessage({ success: true, text: 'Kumbusho limehifadhiwa / Reminder saved' })
+        resetForm()
+      } else {
+        setErrors(data.details || [])
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: ReminderRule) => {
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/reminder-rules/${rule.id}`, {
+        method: rule.isActive ? 'DELETE' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: rule.isActive ? undefined : JSON.stringify({ isActive: true })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceRule({ ...rule, isActive: !rule.isActive })
+        if (editingId === rule.id) resetForm()
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    }
+  }
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Kumbusho / Reminders
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Wagonjwa hupokea kumbusho kwa kila kanuni iliyowashwa / Patients get a reminder for each active rule. During quiet hours (EAT) a reminder waits until they end.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4 mb-4 space-y-3">
+        <h2 className="font-bold text-gray-900">
+          {editingId ? 'Hariri kumbusho / Edit reminder' : 'Ongeza kumbusho / Add reminder'}
+        </h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs text-gray-500">
+            Saa kabla ya miadi / Hours before
+            <input
+              type="number"
+              min={1}
+              max={336}
+              value={form.offsetHours}
+              onChange={(e) => setForm(prev => ({ ...prev, offsetHours: Number(e.target.value) }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            {errorFor('offsetHours') && (
+              <span className="block mt-1 text-sm text-red-600">{errorFor('offsetHours')}</span>
+            )}
+          </label>
+
+          <label className="block text-xs text-gray-500">
+            Njia / Channel
+            <select
+              value={form.channel}
+              onChange={(e) => setForm(prev => ({ ...prev, channel: e.target.value as ReminderChannel }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-xs text-gray-500 col-span-2">
+            Ujumbe / Message
+            <select
+              value={form.template}
+              onChange={(e) => setForm(prev => ({ ...prev, template: e.target.value as ReminderTemplate }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              {Object.entries(TEMPLATE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.useQuietHours}
+            onChange={(e) => setForm(prev => ({ ...prev, useQuietHours: e.target.checked }))}
+            className="rounded border-gray-300 text-teal-600"
+          />
+          Saa za kimya / Quiet hours
+        </label>
+
+        {form.useQuietHours && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-gray-500">
+              Kuanzia / From
+              <input
+                type="time"
+                value={form.quietHoursStart}
+                onChange={(e) => setForm(prev => ({ ...prev, quietHoursStart: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+              {errorFor('quietHoursStart') && (
+                <span className="block mt-1 text-sm text-red-600">{errorFor('quietHoursStart')}</span>
+              )}
+            </label>
+
+            <label className="block text-xs text-gray-500">
+              Hadi / Until
+              <input
+                type="time"
+                value={form.quietHoursEnd}
+                onChange={(e) => setForm(prev => ({ ...prev, quietHoursEnd: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+              {errorFor('quietHoursEnd') && (
+                <span className="block mt-1 text-sm text-red-600">{errorFor('quietHoursEnd')}</span>
+              )}
+            </label>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {editingId && (
+            <button
+              onClick={resetForm}
+              disabled={saving}
+              className="flex-1 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Ghairi / Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !form.offsetHours}
+            className="flex-1 py-2 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {saving ? 'Inahifadhi...' : 'Hifadhi / Save'}
+          </button>
+        </div>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          Hakuna kumbusho - wagonjwa hawatapokea kumbusho / No reminders - patients will not be reminded
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`bg-white rounded-xl shadow-sm border-l-4 border-teal-500 p-3 flex items-center justify-between gap-3 ${
+                rule.isActive ? '' : 'opacity-60'
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{describeOffset(rule.offsetHours)}</p>
+                <p className="text-xs text-gray-500">
+                  {CHANNEL_LABELS[rule.channel]} · {TEMPLATE_LABELS[rule.template]}
+                  {rule.quietHoursStart && rule.quietHoursEnd && ` · Kimya / Quiet ${rule.quietHoursStart}-${rule.quietHoursEnd}`}
+                  {!rule.isActive && ' · Imeondolewa / Retired'}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {rule.isActive && (
+                  <button
+                    onClick={() => startEdit(rule)}
+                    className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    Hariri / Edit
+                  </button>
+                )}
+                <button
+                  onClick={() => handleToggleActive(rule)}
+                  className={`px-3 py-1 text-sm rounded-lg border ${
+                    rule.isActive
+                      ? 'border-red-200 text-red-600 hover:bg-red-50'
+                      : 'border-teal-200 text-teal-700 hover:bg-teal-50'
+                  }`}
+                >
+                  {rule.isActive ? 'Ondoa / Retire' : 'Rejesha / Restore'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+/**
+ * Reminder Settings Page
+ * Server Component - loads the clinic's reminder rules
+ */
+
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import { listReminderRules } from '@/lib/reminders/reminder-rules'
+import RemindersClient from './RemindersClient'
+
+interface RemindersPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+export default async function RemindersPage({ params }: RemindersPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const rules = await listReminderRules(clinic_id)
+
+    return (
+      <RemindersClient
+        clinicId={clinic_id}
+        initialRules={rules.map(rule => ({
+          id: rule.id,
+          offsetHours: rule.offsetHours,
+          channel: rule.channel,
+          template: rule.template,
+          quietHoursStart: rule.quietHoursStart,
+          quietHoursEnd: rule.quietHoursEnd,
+          isActive: rule.isActive
+        }))}
+      />
+    )
+  })
+}
@@ -0,0 +1,320 @@
+/**
+ * Message Template Settings Client Component
+ * The clinic's wording for each patient message, in Swahili and English,
+ * with a live preview and how many SMS it takes. Templates the clinic has
+ * not changed show the built-in wording.
+ */
+
+'use client'
+
+import { useState, useMemo } from 'react'
+import { format, addDays } from 'date-fns'
+import { MESSAGE_TEMPLATE_MAX_LENGTH } from '@/lib/constants'
+import {
+  MESSAGE_TYPES,
+  TEMPLATE_VARIABLES,
+  TEMPLATE_VARIABLE_LABELS,
+  calculateSMSStats,
+  renderTemplate,
+  templateValues,
+  validateTemplate,
+  type MessageLanguage,
+  type MessageType
+} from '@/lib/sms/message-templates'
+
+interface Template {
+  type: MessageType
+  language: MessageLanguage
+  body: string
+  defaultBody: string
+  isCustom: boolean
+  updatedAt: string | null
+}
+
+interface TemplatesClientProps {
+  clinicId: string
+  initialTemplates: Template[]
+  clinic: { name: string; phoneNumber: string; address: string | null }
+}
+
+const TYPE_LABELS: Record<MessageType, string> = {
+  BOOKING_CONFIRMATION: 'Uthibitisho wa miadi / Booking confirmation',
+  REMINDER_ADVANCE: 'Ukumbusho wa mapema / Advance reminder',
+  REMINDER_24H: 'Ukumbusho wa siku moja / Day-before reminder',
+  REMINDER_1H: 'Ukumbusho wa saa moja / Hour-before reminder',
+  RESCHEDULE: 'Miadi imehamishwa / Rescheduled',
+  CANCELLATION: 'Miadi imeghairiwa / Cancelled',
+  CHECK_IN_CONFIRMATION: 'Kuwasili / Check-in'
+}
+
+const LANGUAGE_LABELS: Record<MessageLanguage, string> = {
+  sw: 'Kiswahili',
+  en: 'English'
+}
+
+function templateKey(type: MessageType, language: MessageLanguage): string {
+  return `${type}:${language}`
+}
+
+export default function TemplatesClient({ clinicId, initialTemplates, clinic }: TemplatesClientProps) {
+  const [templates, setTemplates] = useState<Template[]>(initialTemplates)
+  const [type, setType] = useState<MessageType>('BOOKING_CONFIRMATION')
+  const [language, setLanguage] = useState<MessageLanguage>('sw')
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+  const [serverErrors, setServerErrors] = useState<string[]>([])
+
+  const key = templateKey(type, language)
+  const template = templates.find(t => t.type === type && t.language === language)
+  const body = drafts[key] ?? template?.body ?? ''
+  const edited = template !== undefined && body !== template.body
+
+  const problems = useMemo(() => validateTemplate(type, body), [type, body])
+
+  const preview = useMemo(() => {
+    const values = templateValues('Neema', {
+      date: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+      time: '09:30',
+      doctorName: 'Dkt. Juma Mwakyusa',
+      doctorRole: 'DOCTOR',
+      clinicName: clinic.name,
+      clinicPhone: clinic.phoneNumber,
+      address: clinic.address ?? undefined
+    }, language)
+    return renderTemplate(body.trim(), values)
+  }, [body, language, clinic])
+
+  const stats = calculateSMSStats(preview)
+
+  const setBody = (value: string) => {
+    setDrafts(current => ({ ...current, [key]: value }))
+    setServerErrors([])
+  }
+
+  const insertVariable = (variable: string) => {
+    setBody(`${body}{{${variable}}}`)
+  }
+
+  const replaceTemplate = (updated: Template) => {
+    setTemplates(current => current.map(t =>
+      t.type === updated.type && t.language === updated.language ? updated : t
+    ))
+    setDrafts(current => {
+      const rest = { ...current }
+      delete rest[templateKey(updated.type, updated.language)]
+      return rest
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    setServerErrors([])
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/message-templates`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, language, body })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceTemplate(data.template)
+        setMessage({ success: true, text: data.message })
+      } else {
+        const details: Array<{ field: string; message: string }> = data.details ?? []
+        setServerErrors(details.filter(d => d.field === 'body').map(d => d.message))
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!template) return
+    if (!confirm('Rudisha maneno ya kawaida? / Go back to the default wording?')) return
+
+    setSaving(true)
+    setMessage(null)
+    setServerErrors([])
+
+    try {
+      const response = await fetch(
+        `/api/clinics/${clinicId}/message-templates?type=${type}&language=${language}`,
+        { method: 'DELETE' }
+      )
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceTemplate({ ...template, body: template.defaultBody, isCustom: false, updatedAt: null })
+        setMessage({ success: true, text: data.message })
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const shownProblems = serverErrors.length > 0 ? serverErrors : problems
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Violezo vya Ujumbe / Message Templates
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Maneno ya ujumbe kwa wagonjwa / The wording of the clinic&apos;s messages to patients. Add directions or anything patients should know; unchanged messages use the default wording.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Aina ya ujumbe / Message
+          </label>
+          <select
+            value={type}
+            onChange={(e) => { setType(e.target.value as MessageType); setServerErrors([]) }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          >
+            {MESSAGE_TYPES.map(option => {
+              const custom = templates.some(t => t.type === option && t.isCustom)
+              return (
+                <option key={option} value={option}>
+                  {TYPE_LABELS[option]}{custom ? ' *' : ''}
+                </option>
+              )
+            })}
+          </select>
+        </div>
+
+        <div className="flex gap-2">
+          {(['sw', 'en'] as MessageLanguage[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => { setLanguage(option); setServerErrors([]) }}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                language === option ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {LANGUAGE_LABELS[option]}
+              {drafts[templateKey(type, option)] !== undefined && ' •'}
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-sm font-medium text-gray-700">
+              Maneno / Wording
+            </label>
+            <span className="text-xs text-gray-500">
+              {template?.isCustom ? 'Maneno ya kliniki / Clinic wording' : 'Maneno ya kawaida / Default wording'}
+            </span>
+          </div>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={5}
+            maxLength={MESSAGE_TEMPLATE_MAX_LENGTH}
+            className={`w-full px-3 py-2 border rounded-lg text-gray-900 font-mono text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500 ${
+              shownProblems.length > 0 ? 'border-red-300' : 'border-gray-300'
+            }`}
+          />
+          {shownProblems.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {shownProblems.map(problem => (
+                <li key={problem} className="text-xs text-red-600">{problem}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            Ongeza / Insert
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {TEMPLATE_VARIABLES[type].allowed.map(variable => (
+              <button
+                key={variable}
+                type="button"
+                onClick={() => insertVariable(variable)}
+                title={TEMPLATE_VARIABLE_LABELS[variable]}
+                className={`px-2 py-1 rounded text-xs font-mono border transition ${
+                  TEMPLATE_VARIABLES[type].required.includes(variable)
+                    ? 'border-teal-300 bg-teal-50 text-teal-800 hover:bg-teal-100'
+                    : 'border-gray-200 bg-gray-50 text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {`{{${variable}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4">
+        <h2 className="font-bold text-gray-900 mb-2">
+          Mfano / Preview
+        </h2>
+        <div className="p-3 rounded-lg bg-gray-50 border border-gray-200 text-sm text-gray-900 whitespace-pre-wrap">
+          {preview || <span className="text-gray-400">-</span>}
+        </div>
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          <span>{stats.encoding}</span>
+          <span>{stats.units} / {Math.max(stats.segments, 1) * stats.unitsPerSegment}</span>
+          <span>
+            {stats.segments} SMS
+          </span>
+          <span>≈ ${stats.estimatedCost.toFixed(3)}</span>
+        </div>
+        {stats.encoding === 'UCS-2' && (
+          <p className="mt-2 text-xs text-amber-700">
+            Herufi maalum zinapunguza ukubwa wa SMS / A character outside the GSM-7 alphabet (e.g. an emoji or curly quote) limits each SMS to 70 characters.
+          </p>
+        )}
+        <p className="mt-2 text-xs text-gray-500">
+          Mfano unatumia jina, tarehe na daktari wa kubuni / The preview uses a sample patient, date and doctor; real names may be longer.
+        </p>
+      </div>
+
+      <div className="mt-6 flex gap-3">
+        {template?.isCustom && (
+          <button
+            onClick={handleReset}
+            disabled={saving}
+            className="flex-1 py-3 bg-white border-2 border-gray-200 text-gray-700 font-bold rounded-xl hover:bg-gray-50 disabled:opacity-50 transition"
+          >
+            Rejesha / Reset to default
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving || !edited || problems.length > 0}
+          className="flex-1 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 transition"
+        >
+          {saving ? 'Inahifadhi...' : 'Hifadhi / Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
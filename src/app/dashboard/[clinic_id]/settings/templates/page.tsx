@@ -0,0 +1,40 @@
+/**
+ * Message Template Settings Page
+ * Server Component - loads the clinic's wording for each message type and
+ * the clinic details the preview fills in
+ */
+
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import { listMessageTemplates } from '@/lib/messaging/template-service'
+import TemplatesClient from './TemplatesClient'
+
+interface TemplatesPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+export default async function TemplatesPage({ params }: TemplatesPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const [templates, clinic] = await Promise.all([
+      listMessageTemplates(clinic_id),
+      prisma.clinic.findUnique({
+        where: { id: clinic_id },
+        select: { name: true, phoneNumber: true, address: true }
+      })
+    ])
+
+    return (
+      <TemplatesClient
+        clinicId={clinic_id}
+        initialTemplates={templates}
+        clinic={{
+          name: clinic?.name ?? '',
+          phoneNumber: clinic?.phoneNumber ?? '',
+          address: clinic?.address ?? null
+        }}
+      />
+    )
+  })
+}
@@ -0,0 +1,368 @@
+/**
+ * Users Client Component
+ * Add staff logins, change roles, reset passwords, deactivate accounts
+ * and sign users out of their open sessions
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface StaffOption {
+  id: string
+  firstName: string
+  lastName: string
+}
+
+interface User {
+  id: string
+  email: string
+  role: string
+  staffId: string | null
+  isActive: boolean
+  lastLoginAt: string | null
+  staff: StaffOption | null
+}
+
+interface UsersClientProps {
+  clinicId: string
+  staff: StaffOption[]
+}
+
+interface FieldError {
+  field: string
+  message: string
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  RECEPTIONIST: 'Mpokezi / Receptionist',
+  NURSE: 'Muuguzi / Nurse',
+  DOCTOR: 'Daktari / Doctor',
+  CLINIC_ADMIN: 'Msimamizi / Clinic admin',
+  SUPER_ADMIN: 'Msimamizi mkuu / Super admin'
+}
+
+const EMPTY_FORM = {
+  email: '',
+  password: '',
+  role: 'RECEPTIONIST',
+  staffId: ''
+}
+
+export default function UsersClient({ clinicId, staff }: UsersClientProps) {
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const errorFor = (field: string) => errors.find(e => e.field === field)?.message
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadUsers = async () => {
+      try {
+        const response = await fetch(`/api/clinics/${clinicId}/users`)
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (response.ok) {
+          setUsers(data.users)
+        } else {
+          setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+        }
+      } catch {
+        if (!cancelled) setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadUsers()
+
+    return () => {
+      cancelled = true
+    }
+  }, [clinicId])
+
+  // A staff member can only have one login
+  const linkedStaffIds = new Set(users.map(u => u.staffId).filter(Boolean))
+
+  const replaceUser = (saved: User) => {
+    setUsers(prev => {
+      const exists = prev.some(u => u.id === saved.id)
+      return exists ? prev.map(u => (u.id === saved.id ? saved : u)) : [...prev, saved]
+    })
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    setErrors([])
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/users`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: form.email,
+          password: form.password,
+          role: form.role,
+          staffId: form.staffId || null
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceUser(data.user)
+        setForm(EMPTY_FORM)
+        setMessage({ success: true, text: 'Mtumiaji ameongezwa / User added' })
+      } else {
+        setErrors(data.details || [])
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateUser = async (user: User, changes: Record<string, unknown>, successText: string) => {
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/clinics/${clinicId}/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceUser(data.user)
+        setMessage({ success: true, text: successText })
+      } else {
+        setMessage({ success: false, text: data.error || 'Hitilafu / Error' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    }
+  }
+
+  const handleResetPassword = (user: User) => {
+    const password = prompt(`Nenosiri jipya la ${user.email} / New password for ${user.email}`)
+    if (!password) return
+
+    updateUser(user, { password }, 'Nenosiri limebadilishwa / Password reset')
+  }
+
+  const signOut = async (url: string, successText: string) => {
+    setMessage(null)
+
+    try {
+      const response = await fetch(url, { method: 'DELETE' })
+      const data = await response.json()
+
+      setMessage(response.ok
+        ? { success: true, text: `${successText} (${data.revoked})` }
+        : { success: false, text: data.error || 'Hitilafu / Error' })
+    } catch {
+      setMessage({ success: false, text: 'Hitilafu ya mtandao / Network error' })
+    }
+  }
+
+  const handleSignOutUser = (user: User) => {
+    if (!confirm(`Mwondoe ${user.email} kwenye vifaa vyote? / Sign ${user.email} out everywhere?`)) {
+      return
+    }
+
+    signOut(
+      `/api/clinics/${clinicId}/users/${user.id}/sessions`,
+      'Mtumiaji ameondolewa / User signed out'
+    )
+  }
+
+  const handleSignOutEveryone = () => {
+    if (!confirm('Waondoe watumiaji wote isipokuwa wewe? / Sign everyone out except you?')) {
+      return
+    }
+
+    signOut(
+      `/api/clinics/${clinicId}/sessions`,
+      'Watumiaji wameondolewa / Everyone signed out'
+    )
+  }
+
+  const handleToggleActive = (user: User) => {
+    if (user.isActive && !confirm(`Zima akaunti ya ${user.email}? / Deactivate ${user.email}?`)) {
+      return
+    }
+
+    updateUser(
+      user,
+      { isActive: !user.isActive },
+      user.isActive ? 'Mtumiaji amezimwa / User deactivated' : 'Mtumiaji amerejeshwa / User restored'
+    )
+  }
+
+  return (
+    <div className="p-4 pb-24 max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm p-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Watumiaji / Users
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Kila mhudumu anaingia kwa akaunti yake / Every staff member signs in with their own account
+        </p>
+        <button
+          onClick={handleSignOutEveryone}
+          className="mt-3 px-3 py-1 text-sm rounded-lg border border-red-200 text-red-600 hover:bg-red-50"
+        >
+          Ondoa wote / Sign everyone out
+        </button>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg border ${
+          message.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border-2 border-gray-100 p-4 mb-4 space-y-3">
+        <h2 className="font-bold text-gray-900">Ongeza mtumiaji / Add user</h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs text-gray-500">
+            Barua pepe / Email
+            <input
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            {errorFor('email') && <span className="block mt-1 text-sm text-red-600">{errorFor('email')}</span>}
+          </label>
+
+          <label className="block text-xs text-gray-500">
+            Nenosiri / Password
+            <input
+              type="password"
+              value={form.password}
+              autoComplete="new-password"
+              onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            {errorFor('password') && <span className="block mt-1 text-sm text-red-600">{errorFor('password')}</span>}
+          </label>
+
+          <label className="block text-xs text-gray-500">
+            Cheo / Role
+            <select
+              value={form.role}
+              onChange={(e) => setForm(prev => ({ ...prev, role: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                <option key={role} value={role}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-xs text-gray-500">
+            Mhudumu / Staff member
+            <select
+              value={form.staffId}
+              onChange={(e) => setForm(prev => ({ ...prev, staffId: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              <option value="">Hakuna / None</option>
+              {staff.filter(member => !linkedStaffIds.has(member.id)).map(member => (
+                <option key={member.id} value={member.id}>
+                  {member.firstName} {member.lastName}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <button
+          onClick={handleCreate}
+          disabled={saving || !form.email || !form.password}
+          className="w-full py-2 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {saving ? 'Inahifadhi...' : 'Ongeza / Add'}
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 text-center py-6">Inapakia... / Loading...</p>
+      ) : users.length > 0 && (
+        <div className="space-y-2">
+          {users.map(user => (
+            <div
+              key={user.id}
+              className={`bg-white rounded-xl shadow-sm p-3 flex items-center justify-between gap-3 ${
+                user.isActive ? '' : 'opacity-60'
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{user.email}</p>
+                <p className="text-xs text-gray-500">
+                  {user.staff ? `${user.staff.firstName} ${user.staff.lastName} · ` : ''}
+                  {user.lastLoginAt
+                    ? `Aliingia / Last login ${new Date(user.lastLoginAt).toLocaleDateString('sw-TZ')}`
+                    : 'Hajaingia bado / Never logged in'}
+                  {!user.isActive && ' · Amezimwa / Deactivated'}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <select
+                  value={user.role}
+                  disabled={!user.isActive}
+                  onChange={(e) => updateUser(user, { role: e.target.value }, 'Cheo kimebadilishwa / Role changed')}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 disabled:bg-gray-100"
+                >
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <option key={role} value={role}>{label}</option>
+                  ))}
+                </select>
+                {user.isActive && (
+                  <button
+                    onClick={() => handleResetPassword(user)}
+                    className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    Nenosiri / Password
+                  </button>
+                )}
+                {user.isActive && (
+                  <button
+                    onClick={() => handleSignOutUser(user)}
+                    className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    Ondoa / Sign out
+                  </button>
+                )}
+                <button
+                  onClick={() => handleToggleActive(user)}
+                  className={`px-3 py-1 text-sm rounded-lg border ${
+                    user.isActive
+                      ? 'border-red-200 text-red-600 hover:bg-red-50'
+                      : 'border-teal-200 text-teal-700 hover:bg-teal-50'
+                  }`}
+                >
+                  {user.isActive ? 'Zima / Deactivate' : 'Rejesha / Restore'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
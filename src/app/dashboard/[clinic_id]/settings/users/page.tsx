@@ -0,0 +1,27 @@
+/**
+ * Users Settings Page
+ * Server Component - loads the staff who can be linked to a login.
+ * The accounts themselves come from the users API, which only admins may call.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
+import UsersClient from './UsersClient'
+
+interface UsersPageProps {
+  params: Promise<{ clinic_id: string }>
+}
+
+export default async function UsersPage({ params }: UsersPageProps) {
+  const { clinic_id } = await params
+
+  return withClinicPageAccess(clinic_id, async () => {
+    const staff = await prisma.staff.findMany({
+      where: { clinicId: clinic_id, isActive: true },
+      select: { id: true, firstName: true, lastName: true },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }]
+    })
+
+    return <UsersClient clinicId={clinic_id} staff={staff} />
+  })
+}
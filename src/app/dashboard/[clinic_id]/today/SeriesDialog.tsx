@@ -0,0 +1,311 @@
+/**
+ * Appointment Series Dialog
+ * List a recurring series and move or cancel all its upcoming visits together
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface StaffOption {
+  id: string
+  firstName: string
+  lastName: string
+}
+
+interface SeriesAppointment {
+  id: string
+  seriesIndex: number | null
+  status: string
+  slotDate: string
+  startTime: string
+  staff: StaffOption
+}
+
+interface Series {
+  id: string
+  intervalWeeks: number
+  preferredTime: string
+  occurrences: number
+  cancelledAt: string | null
+  preferredStaff: StaffOption | null
+  appointments: SeriesAppointment[]
+}
+
+interface SeriesDialogProps {
+  seriesId: string
+  patientName: string
+  staffOptions: StaffOption[]
+  onClose: () => void
+  onChanged: () => void
+}
+
+// Visits that have not happened yet and can still move
+const UPCOMING_STATUSES = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT']
+
+const SHIFT_OPTIONS = [-14, -7, -3, -2, -1, 0, 1, 2, 3, 7, 14]
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('sw-TZ', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  })
+}
+
+export default function SeriesDialog({
+  seriesId,
+  patientName,
+  staffOptions,
+  onClose,
+  onChanged
+}: SeriesDialogProps) {
+  const [series, setSeries] = useState<Series | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [preferredTime, setPreferredTime] = useState('')
+  const [staffId, setStaffId] = useState('') // '' = keep, 'any' = any staff member
+  const [shiftDays, setShiftDays] = useState(0)
+  const [notifyPatient, setNotifyPatient] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [summary, setSummary] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadSeries = async () => {
+      try {
+        const response = await fetch(`/api/appointment-series/${seriesId}`)
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (response.ok) {
+          setSeries(data.series)
+          setPreferredTime(data.series.preferredTime)
+        } else {
+          setError(data.error || 'Hitilafu / Error')
+        }
+      } catch {
+        if (!cancelled) setError('Hitilafu ya mtandao / Network error')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadSeries()
+
+    return () => {
+      cancelled = true
+    }
+  }, [seriesId, reloadKey])
+
+  const upcoming = series?.appointments.filter(a => UPCOMING_STATUSES.includes(a.status)) ?? []
+  const hasChanges = (series && preferredTime !== series.preferredTime) || staffId !== '' || shiftDays !== 0
+
+  const handleMove = async () => {
+    if (!series) return
+
+    setSaving(true)
+    setError(null)
+    setSummary(null)
+
+    try {
+      const response = await fetch(`/api/appointment-series/${seriesId}/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(preferredTime !== series.preferredTime && { preferred_time: preferredTime }),
+          ...(staffId !== '' && { staff_id: staffId === 'any' ? null : staffId }),
+          ...(shiftDays !== 0 && { shift_days: shiftDays }),
+          notify_patient: notifyPatient
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setSummary(
+          `Zimehamishwa ${data.moved.length}, hazijabadilika ${data.unchanged.length}, hazikupata nafasi ${data.unmoved.length} / ` +
+          `Moved ${data.moved.length}, unchanged ${data.unchanged.length}, no slot ${data.unmoved.length}`
+        )
+        setStaffId('')
+        setShiftDays(0)
+        setReloadKey(key => key + 1)
+        onChanged()
+      } else {
+        setError(data.error || 'Hitilafu / Error')
+      }
+    } catch {
+      setError('Hitilafu ya mtandao / Network error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!confirm(`Ghairi miadi ${upcoming.length} ijayo ya ${patientName}? / Cancel ${upcoming.length} upcoming visits?`)) {
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/appointment-series/${seriesId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notify_patient: notifyPatient })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        onChanged()
+        onClose()
+      } else {
+        setError(data.error || 'Hitilafu / Error')
+      }
+    } catch {
+      setError('Hitilafu ya mtandao / Network error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-gray-100">
+          <h2 className="text-lg font-bold text-gray-900">Mfululizo wa miadi / Appointment series</h2>
+          <p className="text-sm text-gray-500">
+            {patientName}
+            {series && ` · kila wiki ${series.intervalWeeks} / every ${series.intervalWeeks} weeks`}
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500">Inapakia... / Loading...</p>
+          ) : series && (
+            <>
+              <ul className="text-sm divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                {series.appointments.map(appointment => (
+                  <li key={appointment.id} className="px-3 py-2 flex justify-between gap-2">
+                    <span className="text-gray-900">
+                      #{appointment.seriesIndex} · {formatDate(appointment.slotDate)} · {appointment.startTime}
+                    </span>
+                    <span className="text-gray-500 text-xs">{appointment.status}</span>
+                  </li>
+                ))}
+              </ul>
+
+              {series.cancelledAt ? (
+                <p className="text-sm text-gray-500">Mfululizo huu umeghairiwa / This series has been cancelled</p>
+              ) : upcoming.length > 0 && (
+                <div className="space-y-3">
+                  <p className="font-medium text-gray-900">
+                    Hamisha miadi {upcoming.length} ijayo / Move {upcoming.length} upcoming visits
+                  </p>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block text-xs text-gray-500">
+                      Muda / Time
+                      <input
+                        type="time"
+                        value={preferredTime}
+                        onChange={(e) => setPreferredTime(e.target.value)}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      />
+                    </label>
+
+                    <label className="block text-xs text-gray-500">
+                      Siku / Days
+                      <select
+                        value={shiftDays}
+                        onChange={(e) => setShiftDays(Number(e.target.value))}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      >
+                        {SHIFT_OPTIONS.map(days => (
+                          <option key={days} value={days}>
+                            {days === 0 ? 'Siku ileile / Same day' : days > 0 ? `+${days}` : days}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  <label className="block text-xs text-gray-500">
+                    Daktari / Doctor
+                    <select
+                      value={staffId}
+                      onChange={(e) => setStaffId(e.target.value)}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                    >
+                      <option value="">
+                        Bila kubadilisha / Keep
+                        {series.preferredStaff && ` (Dr. ${series.preferredStaff.firstName} ${series.preferredStaff.lastName})`}
+                      </option>
+                      <option value="any">Yeyote / Any</option>
+                      {staffOptions.map(staff => (
+                        <option key={staff.id} value={staff.id}>
+                          Dr. {staff.firstName} {staff.lastName}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={notifyPatient}
+                      onChange={(e) => setNotifyPatient(e.target.checked)}
+                      className="accent-teal-600"
+                    />
+                    Mjulishe mgonjwa kwa SMS / Notify patient by SMS
+                  </label>
+                </div>
+              )}
+            </>
+          )}
+
+          {summary && (
+            <p className="text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg p-3">{summary}</p>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex gap-2">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Funga / Close
+          </button>
+          {series && !series.cancelledAt && upcoming.length > 0 && (
+            <>
+              <button
+                onClick={handleCancel}
+                disabled={saving}
+                className="flex-1 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                Ghairi zote / Cancel all
+              </button>
+              <button
+                onClick={handleMove}
+                disabled={saving || !hasChanges}
+                className="flex-1 py-2 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+              >
+                {saving ? 'Inahamisha...' : 'Hamisha / Move'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
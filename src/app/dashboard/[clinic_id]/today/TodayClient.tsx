@@ -9,6 +9,8 @@ import { useState, useCallback, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { format, addDays, subDays } from 'date-fns'
+import MoveAppointmentDialog from './MoveAppointmentDialog'
+import SeriesDialog from './SeriesDialog'
 
 interface Staff {
   id: string
@@ -24,10 +26,24 @@ interface Patient {
   phoneNumber: string
 }
 
+interface AppointmentType {
+  id: string
+  name: string
+  color: string
+}
+
 interface Appointment {
   id: string
   status: string
   patient: Patient
+  catalogType: AppointmentType | null
+  seriesIndex: number | null
+  series: { id: string; occurrences: number } | null // Recurring series this visit belongs to
+}
+
+interface HeldBy {
+  id: string
+  patient: Pick<Patient, 'firstName' | 'lastName'>
 }
 
 interface Slot {
@@ -37,6 +53,7 @@ interface Slot {
   isAvailable: boolean
   staff: Staff
   appointment: Appointment | null
+  heldBy: HeldBy | null // Set when the slot continues a longer appointment
 }
 
 interface Stats {
@@ -74,12 +91,20 @@ const STATUS_LABELS: Record<string, string> = {
   CANCELLED: 'Imeghairiwa'
 }
 
+// Statuses that can still be moved to another slot
+const MOVABLE_STATUSES = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT']
+
 export default function TodayClient({ clinicId, slots, stats, selectedDate }: TodayClientProps) {
   const router = useRouter()
   const [updatingSlots, setUpdatingSlots] = useState<Set<string>>(new Set())
   const [optimisticSlots, setOptimisticSlots] = useState<Slot[]>(slots)
   const [swipedSlot, setSwipedSlot] = useState<string | null>(null)
   const [touchStart, setTouchStart] = useState<number | null>(null)
+  const [movingSlot, setMovingSlot] = useState<Slot | null>(null)
+  const [seriesSlot, setSeriesSlot] = useState<Slot | null>(null)
+
+  // Staff working on the selected day, for moving a series to another doctor
+  const staffOptions = Array.from(new Map(slots.map(slot => [slot.staff.id, slot.staff])).values())
 
   // Sync optimistic slots when server slots change
   useEffect(() => {
@@ -296,6 +321,18 @@ export default function TodayClient({ clinicId, slots, stats, selectedDate }: To
                       loading={updatingSlots.has(slot.appointment.id)}
                     />
                   )}
+                  {MOVABLE_STATUSES.includes(slot.appointment.status) && (
+                    <ActionButton
+                      onClick={() => {
+                        setMovingSlot(slot)
+                        setSwipedSlot(null)
+                      }}
+                      color="teal"
+                      icon="move"
+                      label="Hamisha"
+                      loading={updatingSlots.has(slot.appointment.id)}
+                    />
+                  )}
                   {slot.appointment.status !== 'CANCELLED' && (
                     <ActionButton
                       onClick={() => updateAppointmentStatus(slot.id, slot.appointment!.id, 'CANCELLED')}
@@ -311,8 +348,9 @@ export default function TodayClient({ clinicId, slots, stats, selectedDate }: To
               {/* Slot Card */}
               <div 
                 className={`bg-white rounded-xl shadow-sm border-2 transition-all duration-200 ${
-                  swipedSlot === slot.id ? '-translate-x-48' : 'translate-x-0'
+                  swipedSlot === slot.id ? '-translate-x-64' : 'translate-x-0'
                 } ${slot.isAvailable ? 'border-green-200' : 'border-gray-200'}`}
+                style={slot.appointment?.catalogType ? { borderLeftColor: slot.appointment.catalogType.color, borderLeftWidth: 6 } : undefined}
               >
                 <div className="p-4">
                   <div className="flex items-start justify-between">
@@ -344,12 +382,34 @@ export default function TodayClient({ clinicId, slots, stats, selectedDate }: To
                             </svg>
                             {maskPhone(slot.appointment.patient.phoneNumber)}
                           </div>
-                          <div className="mt-3">
+                          <div className="mt-3 flex flex-wrap items-center gap-2">
                             <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${STATUS_COLORS[slot.appointment.status]}`}>
                               {STATUS_LABELS[slot.appointment.status]}
                             </span>
+                            {slot.appointment.catalogType && (
+                              <span
+                                className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium text-white"
+                                style={{ backgroundColor: slot.appointment.catalogType.color }}
+                              >
+                                {slot.appointment.catalogType.name}
+                              </span>
+                            )}
+                            {slot.appointment.series && (
+                              <button
+                                onClick={() => setSeriesSlot(slot)}
+                                className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-teal-50 text-teal-800 border border-teal-200 hover:bg-teal-100"
+                              >
+                                Mfululizo {slot.appointment.seriesIndex}/{slot.appointment.series.occurrences} / Series
+                              </button>
+                            )}
                           </div>
                         </div>
+                      ) : slot.heldBy ? (
+                        <div className="mt-3">
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">
+                            Inaendelea: {slot.heldBy.patient.firstName} {slot.heldBy.patient.lastName} / Continued
+                          </span>
+                        </div>
                       ) : (
                         <div className="mt-3">
                           <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
@@ -389,6 +449,15 @@ export default function TodayClient({ clinicId, slots, stats, selectedDate }: To
                             Imekamilika
                           </button>
                         )}
+                        {MOVABLE_STATUSES.includes(slot.appointment.status) && (
+                          <button
+                            onClick={() => setMovingSlot(slot)}
+                            disabled={updatingSlots.has(slot.appointment.id)}
+                            className="px-3 py-1.5 bg-teal-600 text-white text-xs rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                          >
+                            Hamisha
+                          </button>
+                        )}
                         {slot.appointment.status !== 'CANCELLED' && (
                           <button
                             onClick={() => updateAppointmentStatus(slot.id, slot.appointment!.id, 'CANCELLED')}
@@ -407,6 +476,34 @@ export default function TodayClient({ clinicId, slots, stats, selectedDate }: To
           ))
         )}
       </div>
+
+      {/* Move (reschedule) dialog */}
+      {movingSlot?.appointment && (
+        <MoveAppointmentDialog
+          clinicId={clinicId}
+          appointmentId={movingSlot.appointment.id}
+          patientName={`${movingSlot.appointment.patient.firstName} ${movingSlot.appointment.patient.lastName}`}
+          currentSlotId={movingSlot.id}
+          appointmentTypeId={movingSlot.appointment.catalogType?.id}
+          initialDate={format(selectedDate, 'yyyy-MM-dd')}
+          onClose={() => setMovingSlot(null)}
+          onMoved={() => {
+            setMovingSlot(null)
+            router.refresh()
+          }}
+        />
+      )}
+
+      {/* Recurring series dialog */}
+      {seriesSlot?.appointment?.series && (
+        <SeriesDialog
+          seriesId={seriesSlot.appointment.series.id}
+          patientName={`${seriesSlot.appointment.patient.firstName} ${seriesSlot.appointment.patient.lastName}`}
+          staffOptions={staffOptions}
+          onClose={() => setSeriesSlot(null)}
+          onChanged={() => router.refresh()}
+        />
+      )}
     </div>
   )
 }
@@ -445,7 +542,8 @@ function ActionButton({
     blue: 'bg-blue-500 hover:bg-blue-600',
     green: 'bg-green-500 hover:bg-green-600',
     red: 'bg-red-500 hover:bg-red-600',
-    gray: 'bg-gray-400 hover:bg-gray-500'
+    gray: 'bg-gray-400 hover:bg-gray-500',
+    teal: 'bg-teal-600 hover:bg-teal-700'
   }
 
   const icons: Record<string, React.ReactNode> = {
@@ -464,6 +562,11 @@ function ActionButton({
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
       </svg>
     ),
+    move: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+      </svg>
+    ),
     cancel: (
       <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -4,6 +4,7 @@
  */
 
 import { prisma } from '@/lib/prisma'
+import { withClinicPageAccess } from '@/lib/auth/page-session'
 import { startOfDay, endOfDay } from 'date-fns'
 import TodayClient from './TodayClient'
 
@@ -42,6 +43,31 @@ async function getTodaySlots(clinicId: string, date: Date) {
               lastName: true,
               phoneNumber: true
             }
+          },
+          catalogType: {
+            select: {
+              id: true,
+              name: true,
+              color: true
+            }
+          },
+          series: {
+            select: {
+              id: true,
+              occurrences: true
+            }
+          }
+        }
+      },
+      // Extra slots of a longer appointment type
+      heldBy: {
+        select: {
+          id: true,
+          patient: {
+            select: {
+              firstName: true,
+              lastName: true
+            }
           }
         }
       }
@@ -131,22 +157,25 @@ async function getStats(clinicId: string, date: Date) {
 
 export default async function TodayPage({ params, searchParams }: TodayPageProps) {
   const { clinic_id } = await params
-  const { date } = await searchParams
-  
-  // Parse date or use today
-  const selectedDate = date ? new Date(date) : new Date()
-  
-  const [slots, stats] = await Promise.all([
-    getTodaySlots(clinic_id, selectedDate),
-    getStats(clinic_id, selectedDate)
-  ])
 
-  return (
-    <TodayClient 
-      clinicId={clinic_id}
-      slots={slots}
-      stats={stats}
-      selectedDate={selectedDate}
-    />
-  )
+  return withClinicPageAccess(clinic_id, async () => {
+    const { date } = await searchParams
+
+    // Parse date or use today
+    const selectedDate = date ? new Date(date) : new Date()
+
+    const [slots, stats] = await Promise.all([
+      getTodaySlots(clinic_id, selectedDate),
+      getStats(clinic_id, selectedDate)
+    ])
+
+    return (
+      <TodayClient 
+        clinicId={clinic_id}
+        slots={slots}
+        stats={stats}
+        selectedDate={selectedDate}
+      />
+    )
+  })
 }
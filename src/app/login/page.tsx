@@ -1,7 +1,7 @@
 /**
  * Clinic Staff Login Page
- * Simple password-based authentication for clinic access
- * No complex auth - just clinic_id + password stored in env
+ * Each staff member signs in with their own email and password.
+ * Super admins without a home clinic are asked for a clinic ID.
  */
 
 'use client'
@@ -11,8 +11,10 @@ import { useRouter } from 'next/navigation'
 
 export default function LoginPage() {
   const router = useRouter()
-  const [clinicId, setClinicId] = useState('')
+  const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [clinicId, setClinicId] = useState('')
+  const [needsClinic, setNeedsClinic] = useState(false)
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
 
@@ -25,16 +27,21 @@ export default function LoginPage() {
       const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ clinicId, password })
+        body: JSON.stringify({
+          email,
+          password,
+          ...(needsClinic && clinicId && { clinicId: clinicId.trim() })
+        })
       })
+      const data = await response.json()
 
       if (response.ok) {
-        const data = await response.json()
-        const dashboardClinicId = data?.clinicId || clinicId
-        router.push(`/dashboard/${dashboardClinicId}/today`)
+        router.push(`/dashboard/${data.clinicId}/today`)
       } else {
-        const data = await response.json()
-        setError(data.error || 'Ukomeshaji sio sahihi / Invalid credentials')
+        if (data.code === 'CLINIC_REQUIRED') {
+          setNeedsClinic(true)
+        }
+        setError(data.error || 'Barua pepe au nenosiri si sahihi / Invalid email or password')
       }
     } catch {
       setError('Hitilafu ya mtandao / Network error')
@@ -58,16 +65,17 @@ export default function LoginPage() {
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label htmlFor="clinicId" className="block text-sm font-medium text-gray-700 mb-1">
-              Clinic ID
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+              Barua pepe / Email
             </label>
             <input
-              type="text"
-              id="clinicId"
-              value={clinicId}
-              onChange={(e) => setClinicId(e.target.value)}
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
               className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition"
-              placeholder="e.g., clinic-001"
+              placeholder="jina@kliniki.co.tz"
+              autoComplete="username"
               required
             />
           </div>
@@ -83,10 +91,27 @@ export default function LoginPage() {
               onChange={(e) => setPassword(e.target.value)}
               className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition"
               placeholder="Enter password"
+              autoComplete="current-password"
               required
             />
           </div>
 
+          {needsClinic && (
+            <div>
+              <label htmlFor="clinicId" className="block text-sm font-medium text-gray-700 mb-1">
+                Kliniki / Clinic ID
+              </label>
+              <input
+                type="text"
+                id="clinicId"
+                value={clinicId}
+                onChange={(e) => setClinicId(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition"
+                required
+              />
+            </div>
+          )}
+
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
               <p className="text-sm text-red-700">{error}</p>
@@ -0,0 +1,188 @@
+/**
+ * Patient Reschedule Dialog
+ * Pick a new free slot at the same clinic for an upcoming appointment
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface AvailableSlot {
+  id: string
+  start_time: string
+  end_time: string
+  staff: {
+    id: string
+    firstName: string
+    lastName: string
+    role: string
+  }
+}
+
+interface RescheduleDialogProps {
+  appointmentId: string
+  clinicId: string
+  clinicName: string
+  currentSlotId: string
+  appointmentTypeId?: string // Only offer slots where this type fits
+  initialDate: string // YYYY-MM-DD
+  onClose: () => void
+  onRescheduled: () => void
+}
+
+export default function RescheduleDialog({
+  appointmentId,
+  clinicId,
+  clinicName,
+  currentSlotId,
+  appointmentTypeId,
+  initialDate,
+  onClose,
+  onRescheduled
+}: RescheduleDialogProps) {
+  const [date, setDate] = useState(initialDate)
+  const [slots, setSlots] = useState<AvailableSlot[]>([])
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadSlots = async () => {
+      setLoadingSlots(true)
+      setNotice(null)
+      setSelectedSlotId(null)
+
+      try {
+        const query = new URLSearchParams({ clinic_id: clinicId, date })
+        if (appointmentTypeId) query.set('appointment_type_id', appointmentTypeId)
+
+        const response = await fetch(`/api/slots/available?${query}`)
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (!response.ok) {
+          setSlots([])
+          setNotice(data.error || 'Hitilafu / Error')
+        } else {
+          setSlots((data.slots as AvailableSlot[]).filter(slot => slot.id !== currentSlotId))
+          setNotice(data.code === 'CLINIC_CLOSED' ? data.message : null)
+        }
+      } catch {
+        if (!cancelled) {
+          setSlots([])
+          setNotice('Hitilafu ya mtandao / Network error')
+        }
+      } finally {
+        if (!cancelled) setLoadingSlots(false)
+      }
+    }
+
+    loadSlots()
+
+    return () => {
+      cancelled = true
+    }
+  }, [clinicId, date, currentSlotId, appointmentTypeId])
+
+  const handleReschedule = async () => {
+    if (!selectedSlotId) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/patient/appointments/${appointmentId}/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slot_id: selectedSlotId })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        onRescheduled()
+      } else {
+        setError(data.error || 'Hitilafu / Error')
+      }
+    } catch {
+      setError('Hitilafu ya mtandao / Network error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-gray-100">
+          <h2 className="text-lg font-bold text-gray-900">Badilisha muda / Reschedule</h2>
+          <p className="text-sm text-gray-500">{clinicName}</p>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <label className="block text-xs text-gray-500">
+            Tarehe / Date
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+          </label>
+
+          {loadingSlots ? (
+            <p className="text-sm text-gray-500">Inapakia... / Loading...</p>
+          ) : notice ? (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">{notice}</p>
+          ) : slots.length === 0 ? (
+            <p className="text-sm text-gray-500">Hakuna nafasi wazi siku hii / No free slots on this day</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {slots.map(slot => (
+                <button
+                  key={slot.id}
+                  onClick={() => setSelectedSlotId(slot.id)}
+                  className={`p-2 rounded-lg border-2 text-left transition ${
+                    selectedSlotId === slot.id
+                      ? 'border-teal-600 bg-teal-50'
+                      : 'border-gray-200 hover:border-teal-300'
+                  }`}
+                >
+                  <p className="font-bold text-gray-900">{slot.start_time}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    Dr. {slot.staff.firstName} {slot.staff.lastName}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex gap-2">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Funga / Close
+          </button>
+          <button
+            onClick={handleReschedule}
+            disabled={saving || !selectedSlotId}
+            className="flex-1 py-2 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {saving ? 'Inabadilisha...' : 'Thibitisha / Confirm'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,35 @@
 /**
  * Patient Appointments Page
- * View upcoming and past appointments, cancel upcoming ones
+ * View upcoming and past appointments, cancel or reschedule upcoming ones
  */
 
 'use client'
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { format, isPast, parseISO } from 'date-fns'
+import RescheduleDialog from './RescheduleDialog'
 
 interface Appointment {
   id: string
   status: string
   appointmentType: string
   notes: string | null
+  rescheduleCount: number
+  appointmentTypeId: string | null
+  canReschedule?: boolean
+  rescheduleBlockedBy?: 'RESCHEDULE_CUTOFF_PASSED' | 'RESCHEDULE_LIMIT_REACHED' | 'APPOINTMENT_NOT_RESCHEDULABLE' | null
   clinic: {
     id: string
     name: string
     phoneNumber: string
     address: string | null
+    rescheduleCutoffHours: number
+    maxReschedules: number
   }
   slot: {
+    id: string
     slotDate: Date
     startTime: string
     endTime: string
@@ -39,6 +48,7 @@ export default function PatientAppointmentsPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<Appointment | null>(null)
 
   useEffect(() => {
     fetchAppointments()
@@ -93,8 +103,15 @@ export default function PatientAppointmentsPage() {
     }
   }
 
-  const handleLogout = () => {
-    document.cookie = 'patient_session=; path=/; expires=Thu, 01 Jan 1970 00:00:01 GMT'
+  const handleRescheduled = async () => {
+    setReschedulingAppointment(null)
+    await fetchAppointments()
+    alert('Muda wa miadi umebadilishwa. Utapokea SMS / Appointment rescheduled. You will receive an SMS')
+  }
+
+  const handleLogout = async () => {
+    // The cookie is HTTP-only, so the server clears it and ends the session
+    await fetch('/api/patient/auth/logout', { method: 'POST' }).catch(() => null)
     router.push('/patient/login')
   }
 
@@ -135,12 +152,20 @@ export default function PatientAppointmentsPage() {
               <h1 className="text-xl font-bold">Miadi Zangu</h1>
               <p className="text-teal-100 text-sm">My Appointments</p>
             </div>
-            <button
-              onClick={handleLogout}
-              className="text-sm bg-teal-700 hover:bg-teal-800 px-3 py-1.5 rounded-lg transition"
-            >
-              Toka / Logout
-            </button>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/patient/book"
+                className="text-sm bg-white text-teal-700 font-medium hover:bg-teal-50 px-3 py-1.5 rounded-lg transition"
+              >
+                Weka miadi / Book
+              </Link>
+              <button
+                onClick={handleLogout}
+                className="text-sm bg-teal-700 hover:bg-teal-800 px-3 py-1.5 rounded-lg transition"
+              >
+                Toka / Logout
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -161,6 +186,12 @@ export default function PatientAppointmentsPage() {
               </div>
               <p className="text-gray-600 mb-1">Huna miadi ijayo</p>
               <p className="text-sm text-gray-500">You have no upcoming appointments</p>
+              <Link
+                href="/patient/book"
+                className="inline-block mt-4 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+              >
+                Weka miadi / Book an appointment
+              </Link>
             </div>
           ) : (
             <div className="space-y-4">
@@ -171,6 +202,7 @@ export default function PatientAppointmentsPage() {
                   isUpcoming
                   onCancel={() => cancelAppointment(apt.id)}
                   isCancelling={cancellingId === apt.id}
+                  onReschedule={() => setReschedulingAppointment(apt)}
                 />
               ))}
             </div>
@@ -201,6 +233,19 @@ export default function PatientAppointmentsPage() {
           )}
         </section>
       </main>
+
+      {reschedulingAppointment && (
+        <RescheduleDialog
+          appointmentId={reschedulingAppointment.id}
+          clinicId={reschedulingAppointment.clinic.id}
+          clinicName={reschedulingAppointment.clinic.name}
+          currentSlotId={reschedulingAppointment.slot.id}
+          appointmentTypeId={reschedulingAppointment.appointmentTypeId ?? undefined}
+          initialDate={reschedulingAppointment.slot.slotDate.toString().split('T')[0]}
+          onClose={() => setReschedulingAppointment(null)}
+          onRescheduled={handleRescheduled}
+        />
+      )}
     </div>
   )
 }
@@ -209,12 +254,14 @@ function AppointmentCard({
   appointment,
   isUpcoming,
   onCancel,
-  isCancelling
+  isCancelling,
+  onReschedule
 }: {
   appointment: Appointment
   isUpcoming: boolean
   onCancel?: () => void
   isCancelling?: boolean
+  onReschedule?: () => void
 }) {
   const statusColors: Record<string, string> = {
     BOOKED: 'bg-blue-100 text-blue-800',
@@ -295,6 +342,28 @@ function AppointmentCard({
         )}
       </div>
 
+      {isUpcoming && onReschedule && appointment.canReschedule && (
+        <button
+          onClick={onReschedule}
+          disabled={isCancelling}
+          className="w-full mb-2 py-2.5 border-2 border-teal-600 text-teal-700 font-medium rounded-lg hover:bg-teal-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          Badilisha muda / Reschedule
+        </button>
+      )}
+
+      {isUpcoming && appointment.rescheduleBlockedBy === 'RESCHEDULE_CUTOFF_PASSED' && (
+        <p className="mb-2 text-xs text-gray-500 text-center">
+          Zimebaki chini ya saa {appointment.clinic.rescheduleCutoffHours}; piga simu kliniki kubadilisha / Less than {appointment.clinic.rescheduleCutoffHours} hours left; call the clinic to change
+        </p>
+      )}
+
+      {isUpcoming && appointment.rescheduleBlockedBy === 'RESCHEDULE_LIMIT_REACHED' && (
+        <p className="mb-2 text-xs text-gray-500 text-center">
+          Umefikia kiwango cha kubadilisha ({appointment.clinic.maxReschedules}); piga simu kliniki / Reschedule limit reached ({appointment.clinic.maxReschedules}); call the clinic
+        </p>
+      )}
+
       {isUpcoming && onCancel && (
         <button
           onClick={onCancel}
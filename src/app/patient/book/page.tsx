@@ -0,0 +1,444 @@
+/**
+ * Patient Booking Page
+ * Wizard: region → clinic → service → date → slot, then book for the logged-in patient
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { getTanzaniaDateString } from '@/lib/timezone'
+
+interface ClinicOption {
+  id: string
+  name: string
+  region: string
+  address: string | null
+  phoneNumber: string
+  specializations: string[]
+}
+
+interface AvailableSlot {
+  id: string
+  start_time: string
+  end_time: string
+  staff: {
+    id: string
+    firstName: string
+    lastName: string
+    role: string
+    specialization: string | null
+  }
+}
+
+interface BookedAppointment {
+  id: string
+  slot: {
+    slot_date: string
+    start_time: string
+    staff: { first_name: string; last_name: string }
+  }
+  clinic: { name: string; address: string | null }
+}
+
+type Step = 'region' | 'clinic' | 'service' | 'slot' | 'done'
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: 'region', label: 'Mkoa / Region' },
+  { key: 'clinic', label: 'Kliniki / Clinic' },
+  { key: 'service', label: 'Huduma / Service' },
+  { key: 'slot', label: 'Muda / Time' }
+]
+
+export default function PatientBookPage() {
+  const router = useRouter()
+  const [step, setStep] = useState<Step>('region')
+  const [regions, setRegions] = useState<string[]>([])
+  const [clinics, setClinics] = useState<ClinicOption[]>([])
+  const [region, setRegion] = useState<string | null>(null)
+  const [clinic, setClinic] = useState<ClinicOption | null>(null)
+  const [service, setService] = useState<string | null>(null) // null = any service
+  const [date, setDate] = useState(getTanzaniaDateString())
+  const [slots, setSlots] = useState<AvailableSlot[]>([])
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null)
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [booking, setBooking] = useState(false)
+  const [booked, setBooked] = useState<BookedAppointment | null>(null)
+
+  // Step 1: regions
+  useEffect(() => {
+    const loadRegions = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch('/api/clinics')
+        const data = await response.json()
+        if (response.ok) {
+          setRegions(data.regions)
+        } else {
+          setError(data.error || 'Hitilafu / Error')
+        }
+      } catch {
+        setError('Hitilafu ya mtandao / Network error')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadRegions()
+  }, [])
+
+  // Step 2: clinics in the chosen region
+  useEffect(() => {
+    if (!region) return
+
+    const loadClinics = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/clinics?region=${encodeURIComponent(region)}`)
+        const data = await response.json()
+        if (response.ok) {
+          setClinics(data.clinics)
+        } else {
+          setError(data.error || 'Hitilafu / Error')
+        }
+      } catch {
+        setError('Hitilafu ya mtandao / Network error')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadClinics()
+  }, [region])
+
+  // Step 4: free slots for clinic, service and date
+  useEffect(() => {
+    if (step !== 'slot' || !clinic) return
+
+    let cancelled = false
+
+    const loadSlots = async () => {
+      setLoading(true)
+      setNotice(null)
+      setSelectedSlotId(null)
+
+      const params = new URLSearchParams({ clinic_id: clinic.id, date })
+      if (service) params.set('service_type', service)
+
+      try {
+        const response = await fetch(`/api/slots/available?${params}`)
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (!response.ok) {
+          setSlots([])
+          setNotice(data.error || 'Hitilafu / Error')
+        } else {
+          setSlots(data.slots)
+          setNotice(data.code === 'CLINIC_CLOSED' ? data.message : null)
+        }
+      } catch {
+        if (!cancelled) {
+          setSlots([])
+          setNotice('Hitilafu ya mtandao / Network error')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadSlots()
+
+    return () => {
+      cancelled = true
+    }
+  }, [step, clinic, service, date])
+
+  const handleBook = async () => {
+    if (!selectedSlotId) return
+
+    setBooking(true)
+    setError(null)
+
+    try {
+      // The patient is taken from the session, not the body
+      const response = await fetch('/api/appointments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slot_id: selectedSlotId,
+          notes: notes.trim() || undefined
+        })
+      })
+
+      if (response.status === 401) {
+        router.push('/patient/login')
+        return
+      }
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setBooked(data.appointment)
+        setStep('done')
+      } else {
+        setError(data.error || 'Hitilafu / Error')
+      }
+    } catch {
+      setError('Hitilafu ya mtandao / Network error')
+    } finally {
+      setBooking(false)
+    }
+  }
+
+  const currentStepIndex = STEPS.findIndex(s => s.key === step)
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      {/* Header */}
+      <header className="bg-teal-600 text-white sticky top-0 z-50 shadow-md">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-xl font-bold">Weka Miadi</h1>
+              <p className="text-teal-100 text-sm">Book an Appointment</p>
+            </div>
+            <Link
+              href="/patient/appointments"
+              className="text-sm bg-teal-700 hover:bg-teal-800 px-3 py-1.5 rounded-lg transition"
+            >
+              Miadi Zangu / My Appointments
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        {step !== 'done' && (
+          <ol className="flex gap-2 mb-6 overflow-x-auto">
+            {STEPS.map((s, index) => (
+              <li
+                key={s.key}
+                className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+                  index === currentStepIndex
+                    ? 'bg-teal-600 text-white'
+                    : index < currentStepIndex
+                      ? 'bg-teal-100 text-teal-800'
+                      : 'bg-gray-100 text-gray-500'
+                }`}
+              >
+                {index + 1}. {s.label}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg border bg-red-50 border-red-200 text-red-700">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {/* Step 1: Region */}
+        {step === 'region' && (
+          <section>
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Chagua mkoa / Choose a region</h2>
+            {loading ? (
+              <p className="text-sm text-gray-500">Inapakia... / Loading...</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                {regions.map(r => (
+                  <button
+                    key={r}
+                    onClick={() => {
+                      setRegion(r)
+                      setClinic(null)
+                      setStep('clinic')
+                    }}
+                    className="p-4 bg-white rounded-xl shadow-sm border-2 border-gray-200 hover:border-teal-300 text-left font-medium text-gray-900 transition"
+                  >
+                    {r}
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Step 2: Clinic */}
+        {step === 'clinic' && (
+          <section>
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Chagua kliniki / Choose a clinic</h2>
+            {loading ? (
+              <p className="text-sm text-gray-500">Inapakia... / Loading...</p>
+            ) : clinics.length === 0 ? (
+              <p className="text-sm text-gray-500">Hakuna kliniki katika mkoa huu / No clinics in this region</p>
+            ) : (
+              <div className="space-y-3">
+                {clinics.map(c => (
+                  <button
+                    key={c.id}
+                    onClick={() => {
+                      setClinic(c)
+                      setService(null)
+                      setStep('service')
+                    }}
+                    className="w-full p-4 bg-white rounded-xl shadow-sm border-2 border-gray-200 hover:border-teal-300 text-left transition"
+                  >
+                    <p className="font-medium text-gray-900">{c.name}</p>
+                    {c.address && <p className="text-sm text-gray-500">{c.address}</p>}
+                  </button>
+                ))}
+              </div>
+            )}
+            <BackButton onClick={() => setStep('region')} />
+          </section>
+        )}
+
+        {/* Step 3: Service */}
+        {step === 'service' && clinic && (
+          <section>
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Chagua huduma / Choose a service</h2>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={() => {
+                  setService(null)
+                  setStep('slot')
+                }}
+                className="p-4 bg-white rounded-xl shadow-sm border-2 border-gray-200 hover:border-teal-300 text-left font-medium text-gray-900 transition"
+              >
+                Yoyote / Any
+              </button>
+              {clinic.specializations.map(spec => (
+                <button
+                  key={spec}
+                  onClick={() => {
+                    setService(spec)
+                    setStep('slot')
+                  }}
+                  className="p-4 bg-white rounded-xl shadow-sm border-2 border-gray-200 hover:border-teal-300 text-left font-medium text-gray-900 capitalize transition"
+                >
+                  {spec}
+                </button>
+              ))}
+            </div>
+            <BackButton onClick={() => setStep('clinic')} />
+          </section>
+        )}
+
+        {/* Step 4: Date and slot */}
+        {step === 'slot' && clinic && (
+          <section>
+            <h2 className="text-lg font-bold text-gray-900 mb-1">Chagua tarehe na muda / Choose date and time</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {clinic.name}{service ? ` · ${service}` : ''}
+            </p>
+
+            <label className="block text-xs text-gray-500 mb-4">
+              Tarehe / Date
+              <input
+                type="date"
+                value={date}
+                min={getTanzaniaDateString()}
+                onChange={(e) => setDate(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+              />
+            </label>
+
+            {loading ? (
+              <p className="text-sm text-gray-500">Inapakia... / Loading...</p>
+            ) : notice ? (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">{notice}</p>
+            ) : slots.length === 0 ? (
+              <p className="text-sm text-gray-500">Hakuna nafasi wazi siku hii / No free slots on this day</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {slots.map(slot => (
+                  <button
+                    key={slot.id}
+                    onClick={() => setSelectedSlotId(slot.id)}
+                    className={`p-2 rounded-lg border-2 text-left transition ${
+                      selectedSlotId === slot.id
+                        ? 'border-teal-600 bg-teal-50'
+                        : 'border-gray-200 bg-white hover:border-teal-300'
+                    }`}
+                  >
+                    <p className="font-bold text-gray-900">{slot.start_time}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      Dr. {slot.staff.firstName} {slot.staff.lastName}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {selectedSlotId && (
+              <div className="mt-4 space-y-3">
+                <label className="block text-xs text-gray-500">
+                  Maelezo (hiari) / Notes (optional)
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={2}
+                    maxLength={500}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+                  />
+                </label>
+                <button
+                  onClick={handleBook}
+                  disabled={booking}
+                  className="w-full py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 transition"
+                >
+                  {booking ? 'Inahifadhi...' : 'Thibitisha miadi / Confirm booking'}
+                </button>
+              </div>
+            )}
+
+            <BackButton onClick={() => setStep('service')} />
+          </section>
+        )}
+
+        {/* Done */}
+        {step === 'done' && booked && (
+          <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 text-center">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <svg className="w-8 h-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-bold text-gray-900">Miadi imehifadhiwa / Appointment booked</h2>
+            <p className="text-gray-600 mt-2">
+              {booked.slot.slot_date} · {booked.slot.start_time}
+            </p>
+            <p className="text-gray-600">
+              Dr. {booked.slot.staff.first_name} {booked.slot.staff.last_name} · {booked.clinic.name}
+            </p>
+            <Link
+              href="/patient/appointments"
+              className="inline-block mt-6 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+            >
+              Miadi Zangu / My Appointments
+            </Link>
+          </section>
+        )}
+      </main>
+    </div>
+  )
+}
+
+function BackButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="mt-6 text-sm text-teal-600 hover:text-teal-700 font-medium"
+    >
+      ← Rudi / Back
+    </button>
+  )
+}
@@ -1,6 +1,6 @@
 /**
  * Patient Login Page
- * Simple phone-based authentication for patient portal
+ * Phone + SMS one-time code authentication for the patient portal
  */
 
 'use client'
@@ -11,29 +11,55 @@ import { useRouter } from 'next/navigation'
 export default function PatientLoginPage() {
   const router = useRouter()
   const [phone, setPhone] = useState('')
+  const [otp, setOtp] = useState('')
+  const [otpSent, setOtpSent] = useState(false)
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSendOtp = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
     setLoading(true)
 
     try {
-      const response = await fetch('/api/patient/login', {
+      const response = await fetch('/api/patient/auth/send-otp', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ phoneNumber: phone })
+        body: JSON.stringify({ phoneNumber: `+${phone}` })
       })
 
       if (response.ok) {
+        setOtpSent(true)
+      } else {
         const data = await response.json()
-        // Store patient session
-        document.cookie = `patient_session=${data.patientId}; path=/; max-age=86400`
+        setError(response.status === 404
+          ? 'Namba haijasajiliwa / Number is not registered'
+          : data.error || 'Nambari sio sahihi / Invalid number')
+      }
+    } catch {
+      setError('Hitilafu ya mtandao / Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleVerifyOtp = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      // The session cookie (JWT) is set by the server
+      const response = await fetch('/api/patient/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber: `+${phone}`, otp })
+      })
+
+      if (response.ok) {
         router.push('/patient/appointments')
       } else {
-        const data = await response.json()
-        setError(data.error || 'Nambari sio sahihi / Invalid number')
+        setError('Nambari ya uthibitisho sio sahihi / Invalid verification code')
       }
     } catch {
       setError('Hitilafu ya mtandao / Network error')
@@ -55,42 +81,89 @@ export default function PatientLoginPage() {
           <p className="text-gray-600 mt-1">Portal ya Mgonjwa / Patient Portal</p>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">
-              Namba ya Simu / Phone Number
-            </label>
-            <div className="relative">
-              <span className="absolute left-4 top-3 text-gray-500">+</span>
+        {!otpSent ? (
+          <form onSubmit={handleSendOtp} className="space-y-4">
+            <div>
+              <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">
+                Namba ya Simu / Phone Number
+              </label>
+              <div className="relative">
+                <span className="absolute left-4 top-3 text-gray-500">+</span>
+                <input
+                  type="tel"
+                  id="phone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value.replace(/\D/g, ''))}
+                  className="w-full pl-8 pr-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition"
+                  placeholder="255712345678"
+                  required
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Weka namba uliyosajilia / Enter your registered number
+              </p>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading || phone.length < 10}
+              className="w-full py-3 px-4 bg-teal-600 hover:bg-teal-700 text-white font-medium rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Inatuma...' : 'Tuma nambari / Send code'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleVerifyOtp} className="space-y-4">
+            <div>
+              <label htmlFor="otp" className="block text-sm font-medium text-gray-700 mb-1">
+                Nambari ya uthibitisho / Verification code
+              </label>
               <input
-                type="tel"
-                id="phone"
-                value={phone}
-                onChange={(e) => setPhone(e.target.value.replace(/\D/g, ''))}
-                className="w-full pl-8 pr-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition"
-                placeholder="255712345678"
+                type="text"
+                id="otp"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                value={otp}
+                onChange={(e) => setOtp(e.target.value.replace(/\D/g, ''))}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 text-center text-2xl tracking-widest focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition"
+                placeholder="000000"
                 required
               />
+              <p className="text-xs text-gray-500 mt-1">
+                Tumetuma SMS kwa +{phone} / We sent an SMS to +{phone}
+              </p>
             </div>
-            <p className="text-xs text-gray-500 mt-1">
-              Weka namba uliyosajilia / Enter your registered number
-            </p>
-          </div>
 
-          {error && (
-            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
-              <p className="text-sm text-red-700">{error}</p>
-            </div>
-          )}
-
-          <button
-            type="submit"
-            disabled={loading || phone.length < 10}
-            className="w-full py-3 px-4 bg-teal-600 hover:bg-teal-700 text-white font-medium rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {loading ? 'Inaingia...' : 'Ingia / Login'}
-          </button>
-        </form>
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading || otp.length !== 6}
+              className="w-full py-3 px-4 bg-teal-600 hover:bg-teal-700 text-white font-medium rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Inaingia...' : 'Ingia / Login'}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => { setOtpSent(false); setOtp(''); setError('') }}
+              className="w-full text-sm text-teal-600 hover:text-teal-700"
+            >
+              Badilisha namba / Change number
+            </button>
+          </form>
+        )}
 
         <div className="mt-6 text-center">
           <a href="/login" className="text-sm text-teal-600 hover:text-teal-700">
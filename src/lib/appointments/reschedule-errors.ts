@@ -0,0 +1,114 @@
+/**
+ * Reschedule Error Responses
+ * Shared by the clinic and patient reschedule routes
+ */
+
+import { NextResponse } from 'next/server'
+
+/**
+ * Map reschedule-service errors to bilingual responses
+ */
+export function rescheduleErrorResponse(error: unknown): NextResponse | null {
+  // Unique constraint on slot_id: another appointment holds the new slot
+  if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+    return NextResponse.json(
+      {
+        error: 'Nafasi tayari imechukuliwa / Slot is already booked',
+        code: 'SLOT_ALREADY_BOOKED'
+      },
+      { status: 409 }
+    )
+  }
+
+  if (!(error instanceof Error)) {
+    return null
+  }
+
+  const errorMessage = error.message
+
+  if (errorMessage.startsWith('CLINIC_CLOSED:')) {
+    const reason = errorMessage.replace('CLINIC_CLOSED:', '')
+    return NextResponse.json(
+      {
+        error: `Kliniki imefungwa siku hii (${reason}) / Clinic is closed on this day (${reason})`,
+        code: 'CLINIC_CLOSED'
+      },
+      { status: 409 }
+    )
+  }
+
+  if (errorMessage.startsWith('RESCHEDULE_CUTOFF_PASSED:')) {
+    const hours = errorMessage.replace('RESCHEDULE_CUTOFF_PASSED:', '')
+    return NextResponse.json(
+      {
+        error: `Miadi haiwezi kubadilishwa chini ya saa ${hours} kabla ya muda wake. Piga simu kliniki / Appointments cannot be changed less than ${hours} hours before. Please call the clinic`,
+        code: 'RESCHEDULE_CUTOFF_PASSED'
+      },
+      { status: 409 }
+    )
+  }
+
+  if (errorMessage.startsWith('RESCHEDULE_LIMIT_REACHED:')) {
+    const max = errorMessage.replace('RESCHEDULE_LIMIT_REACHED:', '')
+    return NextResponse.json(
+      {
+        error: `Umeshabadilisha miadi hii mara ${max}, kiwango cha juu. Piga simu kliniki / This appointment has already been moved ${max} times, the maximum. Please call the clinic`,
+        code: 'RESCHEDULE_LIMIT_REACHED'
+      },
+      { status: 409 }
+    )
+  }
+
+  const responses: Record<string, { error: string; status: number }> = {
+    APPOINTMENT_NOT_FOUND: {
+      error: 'Miadi haijapatikana / Appointment not found',
+      status: 404
+    },
+    APPOINTMENT_NOT_RESCHEDULABLE: {
+      error: 'Miadi hii haiwezi kuhamishwa. Imekamilika au kughairiwa / This appointment cannot be moved. It is completed or cancelled',
+      status: 409
+    },
+    SAME_SLOT: {
+      error: 'Chagua nafasi tofauti na ya sasa / Choose a different slot from the current one',
+      status: 400
+    },
+    SLOT_NOT_FOUND: {
+      error: 'Nafasi haijapatikana / Slot not found',
+      status: 404
+    },
+    SLOT_IN_PAST: {
+      error: 'Haiwezi kuhamishia kwenye nafasi iliyopita / Cannot move to a slot in the past',
+      status: 400
+    },
+    SLOT_ALREADY_BOOKED: {
+      error: 'Nafasi tayari imechukuliwa / Slot is already booked',
+      status: 409
+    },
+    STAFF_ABSENT: {
+      error: 'Mhudumu hayupo wakati huu. Chagua nafasi nyingine / Staff member is not available at this time. Choose another slot',
+      status: 409
+    },
+    TYPE_NOT_ALLOWED_FOR_STAFF: {
+      error: 'Mhudumu huyu hatoi huduma hii. Chagua mhudumu mwingine / This staff member does not offer this appointment type. Choose another',
+      status: 409
+    },
+    TYPE_DOES_NOT_FIT: {
+      error: 'Hakuna nafasi za kutosha mfululizo kwa huduma hii / Not enough consecutive free slots for this appointment type',
+      status: 409
+    },
+    PATIENT_ALREADY_BOOKED: {
+      error: 'Mgonjwa tayari ana miadi kwa muda huu / Patient already has an appointment at this time',
+      status: 409
+    }
+  }
+
+  const mapped = responses[errorMessage]
+  if (!mapped) {
+    return null
+  }
+
+  return NextResponse.json(
+    { error: mapped.error, code: errorMessage },
+    { status: mapped.status }
+  )
+}
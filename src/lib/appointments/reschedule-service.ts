@@ -0,0 +1,368 @@
+/**
+ * Appointment Reschedule Service
+ * Moves an appointment to another slot in one transaction, keeping its id
+ */
+
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { getClinicClosureForDate } from '@/lib/closures/closure-service'
+import { getStaffAbsencesInRange, isStaffAbsent } from '@/lib/staff/absence-service'
+import { sendSMS, isSmsConfigured } from '@/lib/sms/sms-service'
+import { mapMessageTypeToSmsType } from '@/lib/sms/message-templates'
+import { generateClinicMessage } from '@/lib/messaging/template-service'
+import { fromTanzaniaDateTime, MILLISECONDS_PER_HOUR } from '@/lib/timezone'
+import { lockSlotChain, holdExtraSlots, releaseAppointmentSlots } from '@/lib/appointments/slot-reservation'
+import { recordAuditEvent } from '@/lib/audit/audit-service'
+import { tryFillFromWaitlist } from '@/lib/waitlist/waitlist-service'
+
+// Only appointments the patient is still expected to attend can move
+const RESCHEDULABLE_STATUSES = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT']
+
+export interface RescheduleParams {
+  appointmentId: string
+  newSlotId: string
+  clinicId?: string // When set, the appointment must belong to this clinic
+  patientId?: string // When set, the appointment must belong to this patient
+  notifyPatient?: boolean // Send the RESCHEDULE SMS (default true)
+  enforcePatientPolicy?: boolean // Apply the clinic's cutoff and reschedule limit (patient portal)
+}
+
+export interface ReschedulePolicy {
+  rescheduleCutoffHours: number
+  maxReschedules: number
+}
+
+export type ReschedulePolicyViolation = 'RESCHEDULE_CUTOFF_PASSED' | 'RESCHEDULE_LIMIT_REACHED'
+
+export interface RescheduleResult {
+  appointment: {
+    id: string
+    status: string
+    rescheduleCount: number
+    rescheduledAt: string
+    previousSlot: {
+      id: string
+      slotDate: string
+      startTime: string
+      endTime: string
+    }
+    slot: {
+      id: string
+      slotDate: string
+      startTime: string
+      endTime: string
+      staff: {
+        id: string
+        firstName: string
+        lastName: string
+        role: string
+      }
+    }
+  }
+  smsSent: boolean
+}
+
+/**
+ * Check whether a patient may still move an appointment themselves.
+ * The cutoff is measured from the appointment start in Tanzania time.
+ */
+export function checkPatientReschedulePolicy(
+  appointment: { slotDate: Date; startTime: string; rescheduleCount: number },
+  policy: ReschedulePolicy,
+  now: Date = new Date()
+): ReschedulePolicyViolation | null {
+  const startsAt = fromTanzaniaDateTime(appointment.slotDate.toISOString().split('T')[0], appointment.startTime)
+
+  if (startsAt.getTime() - now.getTime() < policy.rescheduleCutoffHours * MILLISECONDS_PER_HOUR) {
+    return 'RESCHEDULE_CUTOFF_PASSED'
+  }
+
+  if (appointment.rescheduleCount >= policy.maxReschedules) {
+    return 'RESCHEDULE_LIMIT_REACHED'
+  }
+
+  return null
+}
+
+/**
+ * Move an appointment to a new slot.
+ *
+ * Locks the appointment and the new slot (FOR UPDATE), releases the old
+ * slot, takes the new one and records the old slot as previousSlotId.
+ * Appointments with a longer catalogue type take the same number of
+ * consecutive slots at the new time.
+ * Reminder flags are reset so reminders go out for the new time.
+ * The move is recorded in the audit trail. Once it has committed, the old
+ * slot is offered to the clinic's waitlist.
+ *
+ * Throws (as Error.message): APPOINTMENT_NOT_FOUND, APPOINTMENT_NOT_RESCHEDULABLE,
+ * RESCHEDULE_CUTOFF_PASSED:<hours>, RESCHEDULE_LIMIT_REACHED:<max>, SAME_SLOT, SLOT_NOT_FOUND, SLOT_IN_PAST, SLOT_ALREADY_BOOKED,
+ * CLINIC_CLOSED:<reason>, STAFF_ABSENT, PATIENT_ALREADY_BOOKED,
+ * TYPE_NOT_ALLOWED_FOR_STAFF, TYPE_DOES_NOT_FIT
+ */
+export async function rescheduleAppointment(params: RescheduleParams): Promise<RescheduleResult> {
+  const { appointmentId, newSlotId, clinicId, patientId, notifyPatient = true, enforcePatientPolicy = false } = params
+
+  const moved = await prisma.$transaction(async (tx) => {
+    // Step 1: Lock the appointment so concurrent moves/cancels serialize
+    await tx.$queryRaw`SELECT id FROM appointments WHERE id = ${appointmentId} FOR UPDATE`
+
+    const appointment = await tx.appointment.findUnique({
+      where: { id: appointmentId },
+      include: {
+        slot: true,
+        patient: true,
+        clinic: true,
+        catalogType: true
+      }
+    })
+
+    if (
+      !appointment ||
+      (clinicId && appointment.clinicId !== clinicId) ||
+      (patientId && appointment.patientId !== patientId)
+    ) {
+      throw new Error('APPOINTMENT_NOT_FOUND')
+    }
+
+    if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+      throw new Error('APPOINTMENT_NOT_RESCHEDULABLE')
+    }
+
+    // Checked under the lock so two quick moves cannot both pass the limit
+    if (enforcePatientPolicy) {
+      const violation = checkPatientReschedulePolicy(
+        {
+          slotDate: appointment.slot.slotDate,
+          startTime: appointment.slot.startTime,
+          rescheduleCount: appointment.rescheduleCount
+        },
+        appointment.clinic
+      )
+
+      if (violation === 'RESCHEDULE_CUTOFF_PASSED') {
+        throw new Error(`RESCHEDULE_CUTOFF_PASSED:${appointment.clinic.rescheduleCutoffHours}`)
+      }
+      if (violation === 'RESCHEDULE_LIMIT_REACHED') {
+        throw new Error(`RESCHEDULE_LIMIT_REACHED:${appointment.clinic.maxReschedules}`)
+      }
+    }
+
+    if (appointment.slotId === newSlotId) {
+      throw new Error('SAME_SLOT')
+    }
+
+    // Step 2: Lock the new slot (same pattern as POST /api/appointments)
+    const slot = await tx.$queryRaw`
+      SELECT
+        s.id,
+        s.slot_date,
+        s.start_time,
+        s.end_time,
+        s.is_available,
+        s.held_by_appointment_id,
+        s.clinic_id,
+        st.id as staff_id,
+        st.first_name as staff_first_name,
+        st.last_name as staff_last_name,
+        st.role as staff_role,
+        st.specialization as staff_specialization
+      FROM appointment_slots s
+      JOIN staff st ON st.id = s.staff_id
+      WHERE s.id = ${newSlotId}
+      FOR UPDATE
+    `
+
+    if (!slot || !Array.isArray(slot) || slot.length === 0) {
+      throw new Error('SLOT_NOT_FOUND')
+    }
+
+    const slotData = slot[0] as {
+      id: string
+      slot_date: Date
+      start_time: string
+      end_time: string
+      is_available: boolean
+      held_by_appointment_id: string | null
+      clinic_id: string
+      staff_id: string
+      staff_first_name: string
+      staff_last_name: string
+      staff_role: string
+      staff_specialization: string | null
+    }
+
+    // Appointments never move between clinics
+    if (slotData.clinic_id !== appointment.clinicId) {
+      throw new Error('SLOT_NOT_FOUND')
+    }
+
+    // Step 3: Same business rules as a new booking
+    const slotDateString = slotData.slot_date.toISOString().split('T')[0]
+    const slotDateTime = new Date(`${slotDateString}T${slotData.start_time}`)
+    if (slotDateTime < new Date()) {
+      throw new Error('SLOT_IN_PAST')
+    }
+
+    // A slot this appointment already holds (longer type moving later) is free for it
+    if (!slotData.is_available && slotData.held_by_appointment_id !== appointmentId) {
+      throw new Error('SLOT_ALREADY_BOOKED')
+    }
+
+    const closure = await getClinicClosureForDate(slotData.clinic_id, slotDateString, tx)
+    if (closure) {
+      throw new Error(`CLINIC_CLOSED:${closure.reason}`)
+    }
+
+    const absences = await getStaffAbsencesInRange(slotData.clinic_id, slotDateString, slotDateString, tx)
+
+    // Longer appointment types need consecutive slots with a suitable staff member
+    const type = appointment.catalogType
+    if (
+      type &&
+      type.allowedSpecializations.length > 0 &&
+      !type.allowedSpecializations.includes(slotData.staff_specialization ?? '')
+    ) {
+      throw new Error('TYPE_NOT_ALLOWED_FOR_STAFF')
+    }
+
+    const chain = type
+      ? await lockSlotChain(tx, slotData, type.durationMinutes, { appointmentId, slotId: appointment.slotId })
+      : { slotIds: [newSlotId], endTime: slotData.end_time }
+
+    if (isStaffAbsent(absences, slotData.staff_id, slotDateString, slotData.start_time, chain.endTime)) {
+      throw new Error('STAFF_ABSENT')
+    }
+
+    const clash = await tx.appointment.findFirst({
+      where: {
+        id: { not: appointmentId },
+        patientId: appointment.patientId,
+        slot: {
+          slotDate: slotData.slot_date,
+          startTime: slotData.start_time
+        },
+        status: {
+          notIn: ['CANCELLED', 'NO_SHOW']
+        }
+      }
+    })
+
+    if (clash) {
+      throw new Error('PATIENT_ALREADY_BOOKED')
+    }
+
+    // Step 4: Swap slots
+    await releaseAppointmentSlots(tx, [appointmentId])
+
+    await tx.appointmentSlot.update({
+      where: { id: newSlotId },
+      data: { isAvailable: false }
+    })
+
+    const updated = await tx.appointment.update({
+      where: { id: appointmentId },
+      data: {
+        slotId: newSlotId,
+        previousSlotId: appointment.slotId,
+        rescheduledAt: new Date(),
+        rescheduleCount: { increment: 1 } // Reminders follow the new start time
+      }
+    })
+
+    await holdExtraSlots(tx, appointmentId, chain)
+
+    await recordAuditEvent({
+      action: 'APPOINTMENT_RESCHEDULED',
+      entityType: 'APPOINTMENT',
+      entityId: appointmentId,
+      clinicId: appointment.clinicId,
+      appointmentId,
+      patientId: appointment.patientId,
+      changes: {
+        slotId: { from: appointment.slotId, to: newSlotId },
+        slotDate: { from: appointment.slot.slotDate.toISOString().split('T')[0], to: slotDateString },
+        startTime: { from: appointment.slot.startTime, to: slotData.start_time },
+        rescheduleCount: { from: appointment.rescheduleCount, to: updated.rescheduleCount }
+      }
+    }, tx)
+
+    return { appointment, updated, slotData, slotDateString }
+  }, {
+    isolationLevel: 'Serializable',
+    maxWait: 5000,
+    timeout: 10000
+  })
+
+  const { appointment, updated, slotData, slotDateString } = moved
+
+  logger.info('Appointment rescheduled', {
+    appointmentId,
+    fromSlotId: appointment.slotId,
+    toSlotId: newSlotId
+  })
+
+  // A failed fill leaves the move in place
+  await tryFillFromWaitlist(appointment.slotId, appointment.clinicId)
+
+  // Step 5: Tell the patient, in their language
+  let smsSent = false
+  if (notifyPatient && isSmsConfigured()) {
+    const messageContent = await generateClinicMessage(appointment.clinicId, {
+      type: 'RESCHEDULE',
+      patient: {
+        firstName: appointment.patient.firstName,
+        lastName: appointment.patient.lastName,
+        language: (appointment.patient.language as 'sw' | 'en') || 'sw'
+      },
+      appointment: {
+        date: slotDateString,
+        time: slotData.start_time,
+        doctorName: `Dr. ${slotData.staff_first_name} ${slotData.staff_last_name}`,
+        doctorRole: slotData.staff_role,
+        clinicName: appointment.clinic.name,
+        clinicPhone: appointment.clinic.phoneNumber,
+        address: appointment.clinic.address || undefined
+      }
+    })
+
+    const result = await sendSMS({
+      to: appointment.patient.phoneNumber,
+      message: messageContent.primary,
+      type: mapMessageTypeToSmsType('RESCHEDULE'),
+      appointmentId,
+      patientId: appointment.patientId,
+      clinicId: appointment.clinicId
+    })
+
+    smsSent = result.success
+  }
+
+  return {
+    appointment: {
+      id: updated.id,
+      status: updated.status,
+      rescheduleCount: updated.rescheduleCount,
+      rescheduledAt: updated.rescheduledAt!.toISOString(),
+      previousSlot: {
+        id: appointment.slot.id,
+        slotDate: appointment.slot.slotDate.toISOString().split('T')[0],
+        startTime: appointment.slot.startTime,
+        endTime: appointment.slot.endTime
+      },
+      slot: {
+        id: slotData.id,
+        slotDate: slotDateString,
+        startTime: slotData.start_time,
+        endTime: slotData.end_time,
+        staff: {
+          id: slotData.staff_id,
+          firstName: slotData.staff_first_name,
+          lastName: slotData.staff_last_name,
+          role: slotData.staff_role
+        }
+      }
+    },
+    smsSent
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Appointment Series Error Responses
+ * Shared by the appointment-series routes
+ */
+
+import { NextResponse } from 'next/server'
+
+/**
+ * Map series-service errors to bilingual responses
+ */
+export function seriesErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof Error)) {
+    return null
+  }
+
+  const responses: Record<string, { error: string; status: number }> = {
+    SERIES_NOT_FOUND: {
+      error: 'Mfululizo wa miadi haujapatikana / Appointment series not found',
+      status: 404
+    },
+    SERIES_CANCELLED: {
+      error: 'Mfululizo huu umeshaghairiwa / This series has already been cancelled',
+      status: 409
+    },
+    SERIES_START_IN_PAST: {
+      error: 'Tarehe ya kwanza haiwezi kuwa iliyopita / The start date cannot be in the past',
+      status: 400
+    },
+    PATIENT_NOT_FOUND: {
+      error: 'Mgonjwa hajapatikana / Patient not found',
+      status: 404
+    },
+    STAFF_NOT_FOUND: {
+      error: 'Mhudumu hajapatikana / Staff member not found',
+      status: 404
+    },
+    APPOINTMENT_TYPE_NOT_FOUND: {
+      error: 'Aina ya miadi haijapatikana / Appointment type not found',
+      status: 404
+    },
+    TYPE_NOT_ALLOWED_FOR_STAFF: {
+      error: 'Mhudumu huyu hatoi huduma hii. Chagua mhudumu mwingine / This staff member does not offer this appointment type. Choose another',
+      status: 409
+    }
+  }
+
+  const mapped = responses[error.message]
+  if (!mapped) {
+    return null
+  }
+
+  return NextResponse.json(
+    { error: mapped.error, code: error.message },
+    { status: mapped.status }
+  )
+}
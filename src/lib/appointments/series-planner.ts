@@ -0,0 +1,76 @@
+/**
+ * Series Planner
+ * Dates and slot ranking for recurring appointment series.
+ * Pure functions - safe to use in client components.
+ */
+
+import { addDaysToDateString, timeToMinutes } from '@/lib/date-utils'
+import { MILLISECONDS_PER_DAY, SERIES_MAX_OCCURRENCES } from '@/lib/constants'
+
+export interface SeriesSchedule {
+  startDate: string      // YYYY-MM-DD, first occurrence
+  intervalWeeks: number
+  occurrences?: number   // Either a count...
+  endDate?: string       // ...or the last possible date (YYYY-MM-DD, inclusive)
+}
+
+export interface SeriesCandidate {
+  date: string      // YYYY-MM-DD
+  startTime: string // "HH:MM"
+  staffId: string
+}
+
+export interface SeriesTarget {
+  date: string
+  preferredTime: string
+  preferredStaffId?: string | null
+}
+
+/**
+ * Target date of every occurrence, capped at SERIES_MAX_OCCURRENCES
+ */
+export function planSeriesDates(schedule: SeriesSchedule): string[] {
+  const dates: string[] = []
+  const limit = Math.min(schedule.occurrences ?? SERIES_MAX_OCCURRENCES, SERIES_MAX_OCCURRENCES)
+
+  for (let index = 0; index < limit; index++) {
+    const date = addDaysToDateString(schedule.startDate, index * schedule.intervalWeeks * 7)
+    if (schedule.endDate && date > schedule.endDate) {
+      break
+    }
+    dates.push(date)
+  }
+
+  return dates
+}
+
+/**
+ * Order candidate slots from best to worst for an occurrence: the target
+ * day first, then the preferred staff member, then the time closest to
+ * the preferred time. Earlier days win ties so patients are not late on
+ * their medication refills.
+ */
+export function rankSeriesCandidates<T extends SeriesCandidate>(candidates: T[], target: SeriesTarget): T[] {
+  const targetDay = Date.parse(`${target.date}T00:00:00Z`)
+  const preferredMinutes = timeToMinutes(target.preferredTime)
+
+  const score = (candidate: T) => {
+    const dayOffset = (Date.parse(`${candidate.date}T00:00:00Z`) - targetDay) / MILLISECONDS_PER_DAY
+    return [
+      Math.abs(dayOffset),
+      dayOffset > 0 ? 1 : 0,
+      target.preferredStaffId && candidate.staffId !== target.preferredStaffId ? 1 : 0,
+      Math.abs(timeToMinutes(candidate.startTime) - preferredMinutes)
+    ]
+  }
+
+  return candidates
+    .map(candidate => ({ candidate, key: score(candidate) }))
+    .sort((a, b) => {
+      for (let i = 0; i < a.key.length; i++) {
+        if (a.key[i] !== b.key[i]) return a.key[i] - b.key[i]
+      }
+      return 0
+    })
+    .map(entry => entry.candidate)
+}
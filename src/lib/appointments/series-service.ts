@@ -0,0 +1,694 @@
+/**
+ * Appointment Series Service
+ * Books, cancels and moves recurring appointments (chronic care follow-ups)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import type { AppointmentType } from '@prisma/client'
+import { addDaysToDateString, toSlotDate } from '@/lib/date-utils'
+import { fromTanzaniaDateTime, getTanzaniaDateString } from '@/lib/timezone'
+import { getClinicClosuresInRange } from '@/lib/closures/closure-service'
+import { getStaffAbsencesInRange, isStaffAbsent } from '@/lib/staff/absence-service'
+import { generateSlotsForClinic } from '@/lib/slots/slot-generation-service'
+import { sendSMS, isSmsConfigured } from '@/lib/sms/sms-service'
+import { mapMessageTypeToSmsType } from '@/lib/sms/message-templates'
+import { generateClinicMessage } from '@/lib/messaging/template-service'
+import { findSlotChain } from '@/lib/appointments/slot-chain'
+import { lockSlotChain, holdExtraSlots, releaseAppointmentSlots } from '@/lib/appointments/slot-reservation'
+import { planSeriesDates, rankSeriesCandidates } from '@/lib/appointments/series-planner'
+import { rescheduleAppointment } from '@/lib/appointments/reschedule-service'
+import { recordAuditEvent, recordAuditEvents, createdChanges } from '@/lib/audit/audit-service'
+import { recordStatusChange, recordStatusChanges } from '@/lib/appointments/status-history'
+import { MILLISECONDS_PER_DAY, SERIES_SEARCH_DAYS, SLOT_HORIZON_DAYS } from '@/lib/constants'
+
+const ACTIVE_APPOINTMENT_STATUSES = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT'] as const
+
+// Another booking won the slot between search and booking: try the next best
+const RETRYABLE_ERRORS = ['SLOT_ALREADY_BOOKED', 'TYPE_DOES_NOT_FIT', 'PATIENT_ALREADY_BOOKED', 'STAFF_ABSENT']
+const MAX_ATTEMPTS_PER_OCCURRENCE = 3
+
+export interface CreateSeriesParams {
+  clinicId: string
+  patientId: string
+  startDate: string       // YYYY-MM-DD
+  preferredTime: string   // HH:MM
+  preferredStaffId?: string
+  appointmentTypeId?: string
+  intervalWeeks: number
+  occurrences?: number
+  endDate?: string        // YYYY-MM-DD
+  notes?: string
+}
+
+export interface SeriesOccurrence {
+  appointmentId: string
+  seriesIndex: number
+  targetDate: string
+  slotDate: string
+  startTime: string
+  endTime: string
+  staff: {
+    id: string
+    firstName: string
+    lastName: string
+  }
+}
+
+export interface UnplacedOccurrence {
+  seriesIndex: number
+  targetDate: string
+  reason: 'NO_MATCHING_SLOT'
+}
+
+export interface CreateSeriesResult {
+  seriesId: string
+  booked: SeriesOccurrence[]
+  unplaced: UnplacedOccurrence[]
+}
+
+export interface RescheduleSeriesParams {
+  seriesId: string
+  clinicId: string
+  preferredTime?: string
+  preferredStaffId?: string | null // null = any staff member
+  shiftDays?: number
+  notifyPatient?: boolean // RESCHEDULE SMS for the next occurrence only
+}
+
+export interface RescheduleSeriesResult {
+  moved: SeriesOccurrence[]
+  unchanged: string[] // Appointment ids already at the best slot
+  unmoved: UnplacedOccurrence[]
+  smsSent: boolean
+}
+
+interface CandidateSlot {
+  id: string
+  date: string
+  startTime: string
+  endTime: string
+  staffId: string
+  staff: {
+    id: string
+    firstName: string
+    lastName: string
+    specialization: string | null
+  }
+}
+
+interface SearchContext {
+  clinicId: string
+  patientId: string
+  appointmentType: AppointmentType | null
+  today: string
+  now: Date
+}
+
+/**
+ * Free slots in [fromDate, toDate] that an occurrence could start in:
+ * clinic open, staff present for the whole visit, type offered by the
+ * staff member and enough consecutive free slots for it. When moving an
+ * appointment, the slots it already occupies count as free.
+ *
+ * Slots past the rolling generation horizon are created on demand so a
+ * six-month series can be booked today.
+ */
+async function findCandidateSlots(
+  context: SearchContext,
+  fromDate: string,
+  toDate: string,
+  moving?: { appointmentId: string; slotId: string }
+): Promise<CandidateSlot[]> {
+  if (toDate > addDaysToDateString(context.today, SLOT_HORIZON_DAYS - 1)) {
+    const days = (toSlotDate(toDate).getTime() - toSlotDate(fromDate).getTime()) / MILLISECONDS_PER_DAY + 1
+    await generateSlotsForClinic(context.clinicId, { startDate: fromDate, days })
+  }
+
+  const [slots, closedDays, absences] = await Promise.all([
+    prisma.appointmentSlot.findMany({
+      where: {
+        clinicId: context.clinicId,
+        slotDate: { gte: toSlotDate(fromDate), lte: toSlotDate(toDate) },
+        staff: { isActive: true },
+        OR: [
+          { isAvailable: true },
+          ...(moving ? [{ id: moving.slotId }, { heldByAppointmentId: moving.appointmentId }] : [])
+        ]
+      },
+      include: {
+        staff: {
+          select: { id: true, firstName: true, lastName: true, specialization: true }
+        }
+      },
+      orderBy: [{ slotDate: 'asc' }, { startTime: 'asc' }]
+    }),
+    getClinicClosuresInRange(context.clinicId, fromDate, toDate),
+    getStaffAbsencesInRange(context.clinicId, fromDate, toDate)
+  ])
+
+  const free: CandidateSlot[] = slots.map(slot => ({
+    id: slot.id,
+    date: slot.slotDate.toISOString().split('T')[0],
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    staffId: slot.staffId,
+    staff: slot.staff
+  }))
+
+  const type = context.appointmentType
+
+  return free.filter(slot => {
+    if (closedDays.has(slot.date)) return false
+    if (fromTanzaniaDateTime(slot.date, slot.startTime) <= context.now) return false
+
+    if (
+      type &&
+      type.allowedSpecializations.length > 0 &&
+      !type.allowedSpecializations.includes(slot.staff.specialization ?? '')
+    ) {
+      return false
+    }
+
+    let endTime = slot.endTime
+    if (type) {
+      const chain = findSlotChain(slot, free.filter(other => other.date === slot.date), type.durationMinutes)
+      if (!chain) return false
+      endTime = chain.endTime
+    }
+
+    return !isStaffAbsent(absences, slot.staffId, slot.date, slot.startTime, endTime)
+  })
+}
+
+/**
+ * Book one occurrence into a slot. Same locking as POST /api/appointments;
+ * closures and absences were already checked when the slot was picked.
+ */
+async function bookOccurrence(
+  context: SearchContext,
+  seriesId: string,
+  seriesIndex: number,
+  slot: CandidateSlot,
+  notes: string | null
+): Promise<SeriesOccurrence> {
+  return prisma.$transaction(async (tx) => {
+    const locked = await tx.$queryRaw<{
+      id: string
+      staff_id: string
+      slot_date: Date
+      start_time: string
+      end_time: string
+      is_available: boolean
+    }[]>`
+      SELECT id, staff_id, slot_date, start_time, end_time, is_available
+      FROM appointment_slots
+      WHERE id = ${slot.id}
+      FOR UPDATE
+    `
+
+    if (locked.length === 0 || !locked[0].is_available) {
+      throw new Error('SLOT_ALREADY_BOOKED')
+    }
+
+    const chain = context.appointmentType
+      ? await lockSlotChain(tx, locked[0], context.appointmentType.durationMinutes)
+      : { slotIds: [slot.id], endTime: slot.endTime }
+
+    const clash = await tx.appointment.findFirst({
+      where: {
+        patientId: context.patientId,
+        slot: { slotDate: locked[0].slot_date, startTime: slot.startTime },
+        status: { notIn: ['CANCELLED', 'NO_SHOW'] }
+      }
+    })
+
+    if (clash) {
+      throw new Error('PATIENT_ALREADY_BOOKED')
+    }
+
+    await tx.appointmentSlot.update({
+      where: { id: slot.id },
+      data: { isAvailable: false }
+    })
+
+    const appointment = await tx.appointment.create({
+      data: {
+        slotId: slot.id,
+        patientId: context.patientId,
+        clinicId: context.clinicId,
+        status: 'BOOKED',
+        appointmentType: context.appointmentType?.code ?? 'followup',
+        appointmentTypeId: context.appointmentType?.id ?? null,
+        seriesId,
+        seriesIndex,
+        notes
+      }
+    })
+
+    await holdExtraSlots(tx, appointment.id, chain)
+
+    await recordStatusChange({
+      appointmentId: appointment.id,
+      clinicId: appointment.clinicId,
+      patientId: appointment.patientId,
+      from: null,
+      to: appointment.status
+    }, tx)
+
+    await recordAuditEvent({
+      action: 'APPOINTMENT_CREATED',
+      entityType: 'APPOINTMENT',
+      entityId: appointment.id,
+      clinicId: appointment.clinicId,
+      appointmentId: appointment.id,
+      patientId: appointment.patientId,
+      changes: createdChanges({
+        status: appointment.status,
+        slotId: appointment.slotId,
+        appointmentType: appointment.appointmentType,
+        seriesId,
+        seriesIndex,
+        notes
+      })
+    }, tx)
+
+    return {
+      appointmentId: appointment.id,
+      seriesIndex,
+      targetDate: slot.date,
+      slotDate: slot.date,
+      startTime: slot.startTime,
+      endTime: chain.endTime,
+      staff: {
+        id: slot.staff.id,
+        firstName: slot.staff.firstName,
+        lastName: slot.staff.lastName
+      }
+    }
+  }, {
+    isolationLevel: 'Serializable',
+    maxWait: 5000,
+    timeout: 10000
+  })
+}
+
+/**
+ * Search window for an occurrence: SERIES_SEARCH_DAYS either side of the
+ * target, never in the past and never on or before the previous occurrence.
+ */
+function searchWindow(targetDate: string, today: string, previousDate: string | null) {
+  let fromDate = addDaysToDateString(targetDate, -SERIES_SEARCH_DAYS)
+  if (fromDate < today) fromDate = today
+  if (previousDate && fromDate <= previousDate) fromDate = addDaysToDateString(previousDate, 1)
+
+  return { fromDate, toDate: addDaysToDateString(targetDate, SERIES_SEARCH_DAYS) }
+}
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof Error && RETRYABLE_ERRORS.includes(error.message)
+}
+
+async function loadAppointmentType(
+  clinicId: string,
+  appointmentTypeId: string | null | undefined,
+  activeOnly: boolean
+): Promise<AppointmentType | null> {
+  if (!appointmentTypeId) {
+    return null
+  }
+
+  return prisma.appointmentType.findFirst({
+    where: { id: appointmentTypeId, clinicId, ...(activeOnly && { isActive: true }) }
+  })
+}
+
+/**
+ * Create a series and book every occurrence into the free slot nearest its
+ * target date, the preferred staff member and the preferred time.
+ * Occurrences are booked one by one; those with no matching slot are
+ * returned as unplaced and can be booked by hand.
+ *
+ * Throws (as Error.message): PATIENT_NOT_FOUND, STAFF_NOT_FOUND,
+ * APPOINTMENT_TYPE_NOT_FOUND, TYPE_NOT_ALLOWED_FOR_STAFF, SERIES_START_IN_PAST
+ */
+export async function createAppointmentSeries(params: CreateSeriesParams): Promise<CreateSeriesResult> {
+  const { clinicId, patientId, preferredStaffId, preferredTime } = params
+  const today = getTanzaniaDateString()
+
+  if (params.startDate < today) {
+    throw new Error('SERIES_START_IN_PAST')
+  }
+
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } })
+  if (!patient) {
+    throw new Error('PATIENT_NOT_FOUND')
+  }
+
+  const appointmentType = await loadAppointmentType(clinicId, params.appointmentTypeId, true)
+  if (params.appointmentTypeId && !appointmentType) {
+    throw new Error('APPOINTMENT_TYPE_NOT_FOUND')
+  }
+
+  if (preferredStaffId) {
+    const staff = await prisma.staff.findFirst({
+      where: { id: preferredStaffId, clinicId, isActive: true },
+      select: { specialization: true }
+    })
+
+    if (!staff) {
+      throw new Error('STAFF_NOT_FOUND')
+    }
+
+    if (
+      appointmentType &&
+      appointmentType.allowedSpecializations.length > 0 &&
+      !appointmentType.allowedSpecializations.includes(staff.specialization ?? '')
+    ) {
+      throw new Error('TYPE_NOT_ALLOWED_FOR_STAFF')
+    }
+  }
+
+  const targetDates = planSeriesDates({
+    startDate: params.startDate,
+    intervalWeeks: params.intervalWeeks,
+    occurrences: params.occurrences,
+    endDate: params.endDate
+  })
+
+  const series = await prisma.appointmentSeries.create({
+    data: {
+      clinicId,
+      patientId,
+      preferredStaffId: preferredStaffId ?? null,
+      appointmentTypeId: appointmentType?.id ?? null,
+      intervalWeeks: params.intervalWeeks,
+      preferredTime,
+      startDate: toSlotDate(params.startDate),
+      endDate: params.endDate ? toSlotDate(params.endDate) : null,
+      occurrences: targetDates.length,
+      notes: params.notes ?? null
+    }
+  })
+
+  const context: SearchContext = { clinicId, patientId, appointmentType, today, now: new Date() }
+  const booked: SeriesOccurrence[] = []
+  const unplaced: UnplacedOccurrence[] = []
+  let previousDate: string | null = null
+
+  for (const [position, targetDate] of targetDates.entries()) {
+    const seriesIndex = position + 1
+    const { fromDate, toDate } = searchWindow(targetDate, today, previousDate)
+    const candidates = rankSeriesCandidates(
+      await findCandidateSlots(context, fromDate, toDate),
+      { date: targetDate, preferredTime, preferredStaffId }
+    )
+
+    let occurrence: SeriesOccurrence | null = null
+    for (const slot of candidates.slice(0, MAX_ATTEMPTS_PER_OCCURRENCE)) {
+      try {
+        occurrence = await bookOccurrence(context, series.id, seriesIndex, slot, params.notes ?? null)
+        break
+      } catch (error) {
+        if (!isRetryable(error)) throw error
+      }
+    }
+
+    if (occurrence) {
+      booked.push({ ...occurrence, targetDate })
+      previousDate = occurrence.slotDate
+    } else {
+      unplaced.push({ seriesIndex, targetDate, reason: 'NO_MATCHING_SLOT' })
+    }
+  }
+
+  logger.info('Appointment series created', {
+    seriesId: series.id,
+    clinicId,
+    patientId,
+    booked: booked.length,
+    unplaced: unplaced.length
+  })
+
+  return { seriesId: series.id, booked, unplaced }
+}
+
+/**
+ * Upcoming occurrences a patient is still expected to attend, oldest first
+ */
+async function getUpcomingOccurrences(seriesId: string, today: string) {
+  return prisma.appointment.findMany({
+    where: {
+      seriesId,
+      status: { in: [...ACTIVE_APPOINTMENT_STATUSES] },
+      slot: { slotDate: { gte: toSlotDate(today) } }
+    },
+    include: {
+      slot: { include: { staff: true } },
+      patient: true,
+      clinic: true
+    },
+    orderBy: [{ slot: { slotDate: 'asc' } }, { slot: { startTime: 'asc' } }]
+  })
+}
+
+async function findSeries(seriesId: string, clinicId: string) {
+  const series = await prisma.appointmentSeries.findFirst({
+    where: { id: seriesId, clinicId }
+  })
+
+  if (!series) {
+    throw new Error('SERIES_NOT_FOUND')
+  }
+
+  if (series.cancelledAt) {
+    throw new Error('SERIES_CANCELLED')
+  }
+
+  return series
+}
+
+/**
+ * Cancel every upcoming occurrence of a series and free their slots.
+ * Past and completed visits are left as they are.
+ *
+ * Throws (as Error.message): SERIES_NOT_FOUND, SERIES_CANCELLED
+ */
+export async function cancelAppointmentSeries(params: {
+  seriesId: string
+  clinicId: string
+  reason?: string
+  notifyPatient?: boolean // CANCELLATION SMS for the next occurrence only
+}): Promise<{ cancelled: number; appointmentIds: string[]; smsSent: boolean }> {
+  const { seriesId, clinicId, reason, notifyPatient = true } = params
+
+  await findSeries(seriesId, clinicId)
+
+  const upcoming = await getUpcomingOccurrences(seriesId, getTanzaniaDateString())
+  const cancelIds = upcoming.map(appointment => appointment.id)
+
+  await prisma.$transaction(async (tx) => {
+    if (cancelIds.length > 0) {
+      const cancelledAt = new Date()
+      const cancellationReason = reason || 'Mfululizo umeghairiwa / Series cancelled'
+
+      await tx.appointment.updateMany({
+        where: {
+          id: { in: cancelIds },
+          status: { in: [...ACTIVE_APPOINTMENT_STATUSES] }
+        },
+        data: {
+          status: 'CANCELLED',
+          cancelledAt,
+          cancellationReason
+        }
+      })
+
+      await releaseAppointmentSlots(tx, cancelIds)
+
+      await recordStatusChanges(upcoming.map(appointment => ({
+        appointmentId: appointment.id,
+        clinicId,
+        patientId: appointment.patientId,
+        from: appointment.status,
+        to: 'CANCELLED',
+        reason: cancellationReason
+      })), tx)
+
+      await recordAuditEvents(upcoming.map(appointment => ({
+        action: 'APPOINTMENT_CANCELLED',
+        entityType: 'APPOINTMENT',
+        entityId: appointment.id,
+        clinicId,
+        appointmentId: appointment.id,
+        patientId: appointment.patientId,
+        changes: {
+          status: { from: appointment.status, to: 'CANCELLED' },
+          cancelledAt: { from: null, to: cancelledAt.toISOString() },
+          cancellationReason: { from: appointment.cancellationReason, to: cancellationReason }
+        }
+      })), tx)
+    }
+
+    await tx.appointmentSeries.update({
+      where: { id: seriesId },
+      data: { cancelledAt: new Date() }
+    })
+  }, {
+    isolationLevel: 'Serializable',
+    maxWait: 5000,
+    timeout: 10000
+  })
+
+  // One message for the visit the patient would come to next, not one per occurrence
+  let smsSent = false
+  const next = upcoming[0]
+  if (next && notifyPatient && isSmsConfigured()) {
+    const messageContent = await generateClinicMessage(clinicId, {
+      type: 'CANCELLATION',
+      patient: {
+        firstName: next.patient.firstName,
+        lastName: next.patient.lastName,
+        language: (next.patient.language as 'sw' | 'en') || 'sw'
+      },
+      appointment: {
+        date: next.slot.slotDate.toISOString().split('T')[0],
+        time: next.slot.startTime,
+        doctorName: `Dr. ${next.slot.staff.firstName} ${next.slot.staff.lastName}`,
+        doctorRole: next.slot.staff.role,
+        clinicName: next.clinic.name,
+        clinicPhone: next.clinic.phoneNumber,
+        address: next.clinic.address || undefined
+      }
+    })
+
+    const result = await sendSMS({
+      to: next.patient.phoneNumber,
+      message: messageContent.primary,
+      type: mapMessageTypeToSmsType('CANCELLATION'),
+      appointmentId: next.id,
+      patientId: next.patientId,
+      clinicId
+    })
+
+    smsSent = result.success
+  }
+
+  logger.info('Appointment series cancelled', { seriesId, clinicId, cancelled: cancelIds.length })
+
+  return { cancelled: cancelIds.length, appointmentIds: cancelIds, smsSent }
+}
+
+/**
+ * Move every upcoming occurrence of a series to a new preferred time or
+ * staff member, optionally shifted by a number of days. Each occurrence
+ * goes through the normal reschedule service into the best free slot
+ * near its new target; occurrences with no better slot keep their time.
+ *
+ * Throws (as Error.message): SERIES_NOT_FOUND, SERIES_CANCELLED, STAFF_NOT_FOUND
+ */
+export async function rescheduleAppointmentSeries(params: RescheduleSeriesParams): Promise<RescheduleSeriesResult> {
+  const { seriesId, clinicId, shiftDays = 0, notifyPatient = true } = params
+
+  const series = await findSeries(seriesId, clinicId)
+
+  if (params.preferredStaffId) {
+    const staff = await prisma.staff.findFirst({
+      where: { id: params.preferredStaffId, clinicId, isActive: true },
+      select: { id: true }
+    })
+
+    if (!staff) {
+      throw new Error('STAFF_NOT_FOUND')
+    }
+  }
+
+  const preferredTime = params.preferredTime ?? series.preferredTime
+  const preferredStaffId = params.preferredStaffId !== undefined ? params.preferredStaffId : series.preferredStaffId
+  const today = getTanzaniaDateString()
+  const context: SearchContext = {
+    clinicId,
+    patientId: series.patientId,
+    appointmentType: await loadAppointmentType(clinicId, series.appointmentTypeId, false),
+    today,
+    now: new Date()
+  }
+
+  const moved: SeriesOccurrence[] = []
+  const unchanged: string[] = []
+  const unmoved: UnplacedOccurrence[] = []
+  let previousDate: string | null = null
+  let smsSent = false
+
+  for (const appointment of await getUpcomingOccurrences(seriesId, today)) {
+    const currentDate = appointment.slot.slotDate.toISOString().split('T')[0]
+    const targetDate = addDaysToDateString(currentDate, shiftDays)
+    const seriesIndex = appointment.seriesIndex ?? 0
+    const { fromDate, toDate } = searchWindow(targetDate, today, previousDate)
+
+    const candidates = rankSeriesCandidates(
+      await findCandidateSlots(context, fromDate, toDate, {
+        appointmentId: appointment.id,
+        slotId: appointment.slotId
+      }),
+      { date: targetDate, preferredTime, preferredStaffId }
+    )
+
+    if (candidates[0]?.id === appointment.slotId) {
+      unchanged.push(appointment.id)
+      previousDate = currentDate
+      continue
+    }
+
+    let occurrence: SeriesOccurrence | null = null
+    for (const slot of candidates.slice(0, MAX_ATTEMPTS_PER_OCCURRENCE)) {
+      if (slot.id === appointment.slotId) break
+
+      try {
+        const result = await rescheduleAppointment({
+          appointmentId: appointment.id,
+          newSlotId: slot.id,
+          clinicId,
+          notifyPatient: notifyPatient && moved.length === 0
+        })
+
+        smsSent = smsSent || result.smsSent
+        occurrence = {
+          appointmentId: appointment.id,
+          seriesIndex,
+          targetDate,
+          slotDate: result.appointment.slot.slotDate,
+          startTime: result.appointment.slot.startTime,
+          endTime: result.appointment.slot.endTime,
+          staff: result.appointment.slot.staff
+        }
+        break
+      } catch (error) {
+        if (!isRetryable(error)) throw error
+      }
+    }
+
+    if (occurrence) {
+      moved.push(occurrence)
+      previousDate = occurrence.slotDate
+    } else {
+      unmoved.push({ seriesIndex, targetDate, reason: 'NO_MATCHING_SLOT' })
+      previousDate = currentDate
+    }
+  }
+
+  await prisma.appointmentSeries.update({
+    where: { id: seriesId },
+    data: { preferredTime, preferredStaffId }
+  })
+
+  logger.info('Appointment series rescheduled', {
+    seriesId,
+    clinicId,
+    moved: moved.length,
+    unchanged: unchanged.length,
+    unmoved: unmoved.length
+  })
+
+  return { moved, unchanged, unmoved, smsSent }
+}
@@ -0,0 +1,55 @@
+/**
+ * Slot Chains
+ * Consecutive slots of one staff member that together fit a longer appointment.
+ * Pure functions - safe to use in client components.
+ */
+
+import { calculateDuration } from '@/lib/date-utils'
+
+export interface ChainSlot {
+  id: string
+  staffId: string
+  startTime: string // "HH:MM"
+  endTime: string   // "HH:MM"
+}
+
+export interface SlotChain {
+  slotIds: string[] // First id is the starting slot
+  endTime: string   // End of the last slot in the chain
+}
+
+/**
+ * Find the consecutive slots, starting at startSlot, that cover durationMinutes.
+ *
+ * freeSlots are the other free slots on the same date (any staff, any order);
+ * only those of the same staff member that start exactly where the previous
+ * slot ends are chained. Returns null when the gap-free run is too short.
+ */
+export function findSlotChain(
+  startSlot: ChainSlot,
+  freeSlots: ChainSlot[],
+  durationMinutes: number
+): SlotChain | null {
+  const byStartTime = new Map(
+    freeSlots
+      .filter(slot => slot.staffId === startSlot.staffId && slot.id !== startSlot.id)
+      .map(slot => [slot.startTime, slot])
+  )
+
+  const slotIds = [startSlot.id]
+  let endTime = startSlot.endTime
+  let covered = calculateDuration(startSlot.startTime, startSlot.endTime)
+
+  while (covered < durationMinutes) {
+    const next = byStartTime.get(endTime)
+    if (!next) {
+      return null
+    }
+
+    slotIds.push(next.id)
+    covered += calculateDuration(next.startTime, next.endTime)
+    endTime = next.endTime
+  }
+
+  return { slotIds, endTime }
+}
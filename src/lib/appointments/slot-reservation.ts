@@ -0,0 +1,108 @@
+/**
+ * Slot Reservation
+ * Take and release the slots behind an appointment inside a transaction.
+ * Single-slot bookings only use Appointment.slotId; longer appointment types
+ * also hold the following slots via AppointmentSlot.heldByAppointmentId.
+ */
+
+import type { TransactionClient } from '@/lib/prisma'
+import { findSlotChain, SlotChain } from '@/lib/appointments/slot-chain'
+
+export interface ChainStartSlot {
+  id: string
+  staff_id: string
+  slot_date: Date
+  start_time: string
+  end_time: string
+}
+
+/**
+ * Lock the free slots that follow startSlot for the same staff member and
+ * return the chain covering durationMinutes. When moving an appointment,
+ * the slots it already occupies count as free.
+ *
+ * Throws TYPE_DOES_NOT_FIT when there are not enough consecutive free slots.
+ */
+export async function lockSlotChain(
+  tx: TransactionClient,
+  startSlot: ChainStartSlot,
+  durationMinutes: number,
+  moving?: { appointmentId: string; slotId: string }
+): Promise<SlotChain> {
+  const following = await tx.$queryRaw<{ id: string; start_time: string; end_time: string }[]>`
+    SELECT s.id, s.start_time, s.end_time
+    FROM appointment_slots s
+    WHERE s.staff_id = ${startSlot.staff_id}
+      AND s.slot_date = ${startSlot.slot_date}
+      AND s.start_time >= ${startSlot.end_time}
+      AND (
+        s.is_available = true
+        OR s.held_by_appointment_id = ${moving?.appointmentId ?? null}
+        OR s.id = ${moving?.slotId ?? null}
+      )
+    ORDER BY s.start_time
+    FOR UPDATE
+  `
+
+  const chain = findSlotChain(
+    {
+      id: startSlot.id,
+      staffId: startSlot.staff_id,
+      startTime: startSlot.start_time,
+      endTime: startSlot.end_time
+    },
+    following.map(slot => ({
+      id: slot.id,
+      staffId: startSlot.staff_id,
+      startTime: slot.start_time,
+      endTime: slot.end_time
+    })),
+    durationMinutes
+  )
+
+  if (!chain) {
+    throw new Error('TYPE_DOES_NOT_FIT')
+  }
+
+  return chain
+}
+
+/**
+ * Mark the extra slots of a chain (everything after the first) as held by
+ * the appointment. The first slot is Appointment.slotId and is taken by
+ * the caller as for any booking.
+ */
+export async function holdExtraSlots(
+  tx: TransactionClient,
+  appointmentId: string,
+  chain: SlotChain
+): Promise<void> {
+  const extraSlotIds = chain.slotIds.slice(1)
+  if (extraSlotIds.length === 0) {
+    return
+  }
+
+  await tx.appointmentSlot.updateMany({
+    where: { id: { in: extraSlotIds } },
+    data: { isAvailable: false, heldByAppointmentId: appointmentId }
+  })
+}
+
+/**
+ * Free every slot behind the given appointments: the booked slot and any
+ * extra slots held by a longer appointment type.
+ */
+export async function releaseAppointmentSlots(
+  tx: TransactionClient,
+  appointmentIds: string[]
+): Promise<void> {
+  await tx.appointmentSlot.updateMany({
+    where: {
+      OR: [
+        { appointment: { id: { in: appointmentIds } } },
+        { heldByAppointmentId: { in: appointmentIds } }
+      ]
+    },
+    data: { isAvailable: true, heldByAppointmentId: null }
+  })
+}
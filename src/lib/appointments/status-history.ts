@@ -0,0 +1,101 @@
+/**
+ * Appointment Status History
+ * Records each status an appointment moves through, with who moved it and
+ * why. Pass the transaction client so the entry is written with the change.
+ */
+
+import { prisma, type TransactionClient } from '@/lib/prisma'
+import type { AppointmentStatus, AuditActorType } from '@prisma/client'
+import { getAuditActor } from '@/lib/audit/audit-service'
+
+type DbClient = TransactionClient | typeof prisma
+
+export interface StatusChangeInput {
+  appointmentId: string
+  clinicId: string
+  patientId: string
+  from: AppointmentStatus | null // Null when the appointment is booked
+  to: AppointmentStatus
+  reason?: string | null
+}
+
+export interface StatusHistoryEntry {
+  id: string
+  fromStatus: AppointmentStatus | null
+  toStatus: AppointmentStatus
+  actorType: AuditActorType
+  actorId: string | null
+  actorName: string | null
+  reason: string | null
+  changedAt: string
+}
+
+function toChangeData(change: StatusChangeInput, actor: { actorType: AuditActorType; actorId: string | null }) {
+  return {
+    appointmentId: change.appointmentId,
+    clinicId: change.clinicId,
+    patientId: change.patientId,
+    fromStatus: change.from,
+    toStatus: change.to,
+    actorType: actor.actorType,
+    actorId: actor.actorId,
+    reason: change.reason ?? null
+  }
+}
+
+/**
+ * Record one status change by the current request's actor
+ */
+export async function recordStatusChange(change: StatusChangeInput, db: DbClient = prisma): Promise<void> {
+  await db.appointmentStatusChange.create({ data: toChangeData(change, getAuditActor()) })
+}
+
+/**
+ * Record the same kind of change for several appointments (e.g. a closure)
+ */
+export async function recordStatusChanges(changes: StatusChangeInput[], db: DbClient = prisma): Promise<void> {
+  if (changes.length === 0) {
+    return
+  }
+
+  const actor = getAuditActor()
+  await db.appointmentStatusChange.createMany({ data: changes.map(change => toChangeData(change, actor)) })
+}
+
+/**
+ * An appointment's status changes, oldest first, with the staff member's
+ * email or the patient's name as the actor
+ */
+export async function getStatusHistory(appointmentId: string): Promise<StatusHistoryEntry[]> {
+  const changes = await prisma.appointmentStatusChange.findMany({
+    where: { appointmentId },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const idsOf = (type: AuditActorType) =>
+    changes.flatMap(change => (change.actorType === type && change.actorId ? [change.actorId] : []))
+
+  const [users, patients] = await Promise.all([
+    prisma.user.findMany({ where: { id: { in: idsOf('USER') } }, select: { id: true, email: true } }),
+    prisma.patient.findMany({
+      where: { id: { in: idsOf('PATIENT') } },
+      select: { id: true, firstName: true, lastName: true }
+    })
+  ])
+
+  const names = new Map([
+    ...users.map(user => [user.id, user.email] as const),
+    ...patients.map(patient => [patient.id, `${patient.firstName} ${patient.lastName}`] as const)
+  ])
+
+  return changes.map(change => ({
+    id: change.id,
+    fromStatus: change.fromStatus,
+    toStatus: change.toStatus,
+    actorType: change.actorType,
+    actorId: change.actorId,
+    actorName: change.actorId ? names.get(change.actorId) ?? null : null,
+    reason: change.reason,
+    changedAt: change.createdAt.toISOString()
+  }))
+}
@@ -0,0 +1,115 @@
+/**
+ * Audit Service
+ * Records who changed an appointment, patient or waitlist entry. The actor,
+ * IP address and user agent come from the request's authorization context,
+ * so callers only describe the change. Pass the transaction client to write
+ * the event together with the change it records.
+ */
+
+import { prisma, type TransactionClient } from '@/lib/prisma'
+import type { AuditAction, AuditActorType, AuditEntityType, Prisma } from '@prisma/client'
+import { getAuthContext } from '@/lib/middleware/authorization'
+
+type DbClient = TransactionClient | typeof prisma
+
+export interface AuditEventInput {
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string
+  clinicId?: string | null
+  appointmentId?: string | null
+  patientId?: string | null
+  changes?: AuditChanges | null
+}
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+export interface AuditActor {
+  actorType: AuditActorType
+  actorId: string | null
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+/**
+ * The actor and device behind the current request
+ */
+export function getAuditActor(): AuditActor {
+  const context = getAuthContext()
+  const client = {
+    ipAddress: context?.client?.ipAddress ?? null,
+    userAgent: context?.client?.userAgent ?? null
+  }
+
+  switch (context?.role) {
+    case 'staff':
+      return { actorType: 'USER', actorId: context.userId, ...client }
+    case 'patient':
+      return { actorType: 'PATIENT', actorId: context.patientId, ...client }
+    case 'system':
+      return { actorType: context.job === 'cron' ? 'CRON' : 'SYSTEM', actorId: null, ...client }
+    default:
+      return { actorType: 'SYSTEM', actorId: null, ...client }
+  }
+}
+
+function toEventData(event: AuditEventInput, actor: AuditActor): Prisma.AuditEventCreateManyInput {
+  return {
+    ...actor,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    clinicId: event.clinicId ?? null,
+    appointmentId: event.appointmentId ?? null,
+    patientId: event.patientId ?? null,
+    changes: (event.changes ?? undefined) as Prisma.InputJsonValue | undefined
+  }
+}
+
+/**
+ * Record one change
+ */
+export async function recordAuditEvent(event: AuditEventInput, db: DbClient = prisma): Promise<void> {
+  await db.auditEvent.create({ data: toEventData(event, getAuditActor()) })
+}
+
+/**
+ * Record several changes made by one request (e.g. a cancelled series)
+ */
+export async function recordAuditEvents(events: AuditEventInput[], db: DbClient = prisma): Promise<void> {
+  if (events.length === 0) {
+    return
+  }
+
+  const actor = getAuditActor()
+  await db.auditEvent.createMany({ data: events.map(event => toEventData(event, actor)) })
+}
+
+function toAuditValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : (value ?? null)
+}
+
+/**
+ * The fields that differ between two versions of a record, as
+ * { field: { from, to } }. Only keys present in `after` are compared.
+ */
+export function diffChanges(before: Record<string, unknown>, after: Record<string, unknown>): AuditChanges {
+  const changes: AuditChanges = {}
+
+  for (const [field, value] of Object.entries(after)) {
+    const from = toAuditValue(before[field])
+    const to = toAuditValue(value)
+    if (from !== to) {
+      changes[field] = { from, to }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * The initial values of a new record, as { field: { from: null, to } }
+ */
+export function createdChanges(record: Record<string, unknown>): AuditChanges {
+  return diffChanges({}, record)
+}
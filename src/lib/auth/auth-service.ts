@@ -2,9 +2,9 @@ import bcrypt from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
 import { logger } from '@/lib/logger'
 import { sendSMS } from '@/lib/sms/sms-service'
-import jwt, { Secret } from 'jsonwebtoken'
+import { createSession } from '@/lib/auth/session-service'
+import type { RequestClient } from '@/lib/auth/middleware'
 
-const JWT_SECRET: Secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 const OTP_EXPIRY_MINUTES = 10
 const SALT_ROUNDS = 12
 
@@ -29,24 +29,6 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return bcrypt.compare(password, hash)
 }
 
-/**
- * Create a JWT token
- */
-export function createJWT(payload: object, expiresInMs: number = 8 * 60 * 60 * 1000): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: Math.floor(expiresInMs / 1000) })
-}
-
-/**
- * Verify a JWT token
- */
-export function verifyJWT(token: string): object | null {
-  try {
-    return jwt.verify(token, JWT_SECRET) as object
-  } catch {
-    return null
-  }
-}
-
 /**
  * Send OTP to patient via SMS
  */
@@ -113,11 +95,12 @@ export async function sendPatientOTP(phoneNumber: string): Promise<{ success: bo
 }
 
 /**
- * Verify patient OTP and return JWT token
+ * Verify patient OTP, open a session and return its JWT token
  */
 export async function verifyPatientOTP(
   phoneNumber: string, 
-  otp: string
+  otp: string,
+  client: RequestClient = {}
 ): Promise<{ 
   success: boolean
   token?: string
@@ -184,12 +167,11 @@ export async function verifyPatientOTP(
       data: { used: true }
     })
 
-    // Create JWT token
-    const token = createJWT({
-      patientId: patient.id,
-      phoneNumber: patient.phoneNumber,
-      type: 'patient'
-    })
+    // Open a server-side session and sign its JWT
+    const { token } = await createSession(
+      { type: 'patient', patientId: patient.id, phoneNumber: patient.phoneNumber },
+      client
+    )
 
     logger.info('Patient authenticated successfully', { patientId: patient.id })
 
@@ -209,18 +191,3 @@ export async function verifyPatientOTP(
     return { success: false, error: 'Internal server error' }
   }
 }
-
-/**
- * Hash clinic credentials for secure storage
- * Use this to hash passwords before storing in CLINIC_CREDENTIALS env var
- */
-export async function hashClinicPassword(password: string): Promise<string> {
-  return hashPassword(password)
-}
-
-/**
- * Verify clinic password against hash
- */
-export async function verifyClinicPassword(password: string, hash: string): Promise<boolean> {
-  return verifyPassword(password, hash)
-}
@@ -0,0 +1,217 @@
+/**
+ * Route Guard
+ * Wraps an API route handler with the permission it needs:
+ *
+ *   export const GET = withPermission(
+ *     { permission: 'analytics:view', clinic: clinicFromParam('clinic_id') },
+ *     async (request, { params, auth }) => { ... }
+ *   )
+ *
+ * 401 without a session (or a revoked or expired one), 403 without the
+ * permission, and 403 when a
+ * staff session touches another clinic. Patients are not clinic-bound;
+ * handlers limit them to their own records via auth.userId.
+ *
+ * The handler runs inside the matching row-level authorization context
+ * (src/lib/middleware/authorization.ts). Routes without a session declare
+ * theirs with withPublicAccess() or withSystemAccess(); a route with
+ * neither cannot query the database.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import {
+  getAuthFromRequest,
+  getRequestClient,
+  unauthorizedResponse,
+  forbiddenResponse,
+  AuthContext
+} from '@/lib/auth/middleware'
+import { hasPermission, Permission } from '@/lib/auth/permissions'
+import { withAuthContext, AuthorizationContext } from '@/lib/middleware/authorization'
+import { validateSession, setSessionCookie, clearSessionCookie, SESSION_COOKIES } from '@/lib/auth/session-service'
+
+/**
+ * Works out which clinic a request touches. Null means the resource does
+ * not exist (or names no clinic); the handler then answers on its own,
+ * usually with a 404 or by falling back to the session's clinic.
+ */
+export type ClinicResolver<P> = (
+  request: NextRequest,
+  params: P
+) => string | null | undefined | Promise<string | null | undefined>
+
+export interface GuardRule<P> {
+  permission: Permission
+  clinic?: ClinicResolver<P>
+}
+
+export interface GuardContext<P> {
+  params: Promise<P>
+  auth: AuthContext
+}
+
+export type GuardedHandler<P> = (request: NextRequest, context: GuardContext<P>) => Promise<NextResponse>
+
+function clinicMismatchResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Huwezi kufikia data ya kliniki nyingine / You cannot access another clinic\'s data', code: 'CLINIC_MISMATCH' },
+    { status: 403 }
+  )
+}
+
+/**
+ * Row-level context for a session. Staff sessions always carry a clinic;
+ * a token without one gets no database access.
+ */
+function authorizationContextFor(auth: AuthContext, request: NextRequest): AuthorizationContext | null {
+  const client = getRequestClient(request)
+
+  if (auth.userType === 'patient') {
+    return { role: 'patient', patientId: auth.userId, client }
+  }
+
+  return auth.clinicId ? { role: 'staff', userId: auth.userId, clinicId: auth.clinicId, client } : null
+}
+
+/**
+ * Declare the permission (and clinic) a handler needs
+ */
+export function withPermission<P = object>(
+  rule: Permission | GuardRule<P>,
+  handler: GuardedHandler<P>
+) {
+  const { permission, clinic } = typeof rule === 'string' ? { permission: rule, clinic: undefined } : rule
+
+  return async (request: NextRequest, context: { params: Promise<P> }): Promise<NextResponse> => {
+    const tokenAuth = getAuthFromRequest(request)
+    if (!tokenAuth) {
+      return unauthorizedResponse()
+    }
+
+    const cookieName = SESSION_COOKIES[tokenAuth.userType]
+    const session = await validateSession(tokenAuth, { refresh: true })
+    if (!session) {
+      const response = unauthorizedResponse()
+      clearSessionCookie(response, cookieName)
+      return response
+    }
+
+    // Role and clinic as they are now, not as they were at login
+    const auth = session.auth
+
+    const authorization = authorizationContextFor(auth, request)
+    if (!authorization || !hasPermission(auth, permission)) {
+      return forbiddenResponse()
+    }
+
+    if (clinic && auth.userType === 'clinic') {
+      try {
+        // Resolvers look across clinics, so they run before scoping applies
+        const params = await context.params
+        const clinicId = await withAuthContext({ role: 'system' }, async () => clinic(request, params))
+        if (clinicId && clinicId !== auth.clinicId) {
+          return clinicMismatchResponse()
+        }
+      } catch (error) {
+        console.error('Error resolving clinic for permission check:', error)
+        return NextResponse.json(
+          { error: 'Hitilafu isiyotarajiwa / Unexpected error', code: 'INTERNAL_ERROR' },
+          { status: 500 }
+        )
+      }
+    }
+
+    const response = await withAuthContext(authorization, () => handler(request, { params: context.params, auth }))
+
+    // Sliding refresh - an active session gets a new token
+    if (session.token) {
+      setSessionCookie(response, cookieName, session.token)
+    }
+
+    return response
+  }
+}
+
+/**
+ * Public booking directory: no session, read-only access to clinic set-up
+ * and open slots
+ */
+export function withPublicAccess<P = object>(
+  handler: (request: NextRequest, context: { params: Promise<P> }) => Promise<NextResponse>
+) {
+  return (request: NextRequest, context: { params: Promise<P> }): Promise<NextResponse> =>
+    withAuthContext({ role: 'public' }, () => handler(request, context))
+}
+
+/**
+ * Unscoped database access for routes that authenticate some other way
+ * (login, OTP, cron and reminder secrets, Twilio signatures). The handler
+ * must do that check itself before touching data.
+ */
+export function withSystemAccess<P = object>(
+  handler: (request: NextRequest, context: { params: Promise<P> }) => Promise<NextResponse>
+) {
+  return (request: NextRequest, context: { params: Promise<P> }): Promise<NextResponse> =>
+    withAuthContext({ role: 'system', client: getRequestClient(request) }, () => handler(request, context))
+}
+
+/**
+ * withSystemAccess for scheduled jobs (CRON_SECRET), so the audit trail
+ * can tell their changes apart
+ */
+export function withCronAccess<P = object>(
+  handler: (request: NextRequest, context: { params: Promise<P> }) => Promise<NextResponse>
+) {
+  return (request: NextRequest, context: { params: Promise<P> }): Promise<NextResponse> =>
+    withAuthContext({ role: 'system', job: 'cron' }, () => handler(request, context))
+}
+
+// ============================================================================
+// Clinic resolvers
+// ============================================================================
+
+/**
+ * Clinic ID from a route segment, e.g. /api/clinics/[id]
+ */
+export function clinicFromParam<P>(name: keyof P & string): ClinicResolver<P> {
+  return (_request, params) => params[name] as string | undefined
+}
+
+/**
+ * Clinic ID from a query parameter, e.g. ?clinic_id=...
+ */
+export function clinicFromQuery<P>(name: string): ClinicResolver<P> {
+  return (request) => request.nextUrl.searchParams.get(name)
+}
+
+/**
+ * Clinic ID from a field of the JSON body (read from a clone, so the
+ * handler can still parse the body)
+ */
+export function clinicFromBody<P>(name: string): ClinicResolver<P> {
+  return async (request) => {
+    const body = await request.clone().json().catch(() => null)
+    const value = body && typeof body === 'object' ? (body as Record<string, unknown>)[name] : null
+    return typeof value === 'string' ? value : null
+  }
+}
+
+/**
+ * Clinic of the appointment named in a route segment, e.g. /api/appointments/[id]
+ */
+export function clinicOfAppointment<P>(name: keyof P & string): ClinicResolver<P> {
+  return async (_request, params) => {
+    const id = params[name]
+    if (typeof id !== 'string') {
+      return null
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id },
+      select: { clinicId: true }
+    })
+
+    return appointment?.clinicId
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Session Tokens
+ * Signing and verification only, with no database imports, so
+ * src/middleware.ts can use it without pulling in Prisma
+ */
+
+import jwt, { Secret } from 'jsonwebtoken'
+
+const JWT_SECRET: Secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+
+/**
+ * Create a JWT token
+ */
+export function createJWT(payload: object, expiresInMs: number = 8 * 60 * 60 * 1000): string {
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: Math.floor(expiresInMs / 1000) })
+}
+
+/**
+ * Verify a JWT token
+ */
+export function verifyJWT(token: string): object | null {
+  try {
+    return jwt.verify(token, JWT_SECRET) as object
+  } catch {
+    return null
+  }
+}
@@ -4,62 +4,194 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyJWT } from '@/lib/auth/auth-service'
+import type { UserRole } from '@prisma/client'
+import { verifyJWT } from '@/lib/auth/jwt'
 
 export interface AuthContext {
-  userId: string
+  userId: string // Patient ID for patients, User ID for clinic staff
   userType: 'patient' | 'clinic'
+  sessionId: string // Row in the sessions table
   phoneNumber?: string
   clinicId?: string
+  role?: UserRole // Clinic staff only
+}
+
+// Device a request came from - stored with sessions and audit events
+export interface RequestClient {
+  ipAddress?: string | null
+  userAgent?: string | null
 }
 
 // JWT payload types
-interface PatientJWTPayload {
+export interface PatientJWTPayload {
   patientId: string
   phoneNumber: string
+  sessionId: string
   type: 'patient'
 }
 
-interface ClinicJWTPayload {
+export interface ClinicJWTPayload {
+  userId: string
+  role: UserRole
   clinicId: string
+  sessionId: string
   type: 'clinic'
 }
 
 /**
- * Extract and verify JWT token from request cookies
+ * 401 for requests without a valid session
+ */
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Tafadhali ingia kwanza / Please log in first', code: 'UNAUTHORIZED' },
+    { status: 401 }
+  )
+}
+
+/**
+ * 403 for sessions that may not use a route
+ */
+export function forbiddenResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Huna ruhusa ya kufanya hivi / You do not have permission to do this', code: 'FORBIDDEN' },
+    { status: 403 }
+  )
+}
+
+// Identity headers set by src/middleware.ts after it verifies the session.
+// It strips any incoming copies first, so handlers can trust them.
+export const AUTH_HEADERS = {
+  userId: 'x-auth-user-id',
+  userType: 'x-auth-user-type',
+  sessionId: 'x-auth-session-id',
+  phoneNumber: 'x-auth-phone-number',
+  clinicId: 'x-auth-clinic-id',
+  role: 'x-auth-role'
+} as const
+
+/**
+ * Session of the request: the identity passed on by src/middleware.ts,
+ * or the cookies when the middleware did not run
  */
 export function getAuthFromRequest(request: NextRequest): AuthContext | null {
+  return getAuthFromHeaders(request.headers) ?? getAuthFromCookies(request)
+}
+
+/**
+ * Extract and verify JWT token from request cookies
+ */
+export function getAuthFromCookies(request: NextRequest): AuthContext | null {
   // Check for patient session
   const patientToken = request.cookies.get('patient_session')?.value
   if (patientToken) {
-    const decoded = verifyJWT(patientToken)
-    if (decoded && 'patientId' in decoded) {
-      const payload = decoded as PatientJWTPayload
-      return {
-        userId: payload.patientId,
-        userType: 'patient',
-        phoneNumber: payload.phoneNumber
-      }
+    const auth = getPatientAuthFromToken(patientToken)
+    if (auth) {
+      return auth
     }
   }
 
   // Check for clinic session
   const clinicToken = request.cookies.get('clinic_session')?.value
   if (clinicToken) {
-    const decoded = verifyJWT(clinicToken)
-    if (decoded && 'clinicId' in decoded) {
-      const payload = decoded as ClinicJWTPayload
-      return {
-        userId: payload.clinicId,
-        userType: 'clinic',
-        clinicId: payload.clinicId
-      }
+    return getClinicAuthFromToken(clinicToken)
+  }
+
+  return null
+}
+
+/**
+ * Verify a patient_session token
+ */
+export function getPatientAuthFromToken(token: string): AuthContext | null {
+  const decoded = verifyJWT(token)
+
+  // Tokens from before server-side sessions carry no sessionId and are rejected
+  if (decoded && 'patientId' in decoded && 'sessionId' in decoded) {
+    const payload = decoded as PatientJWTPayload
+    return {
+      userId: payload.patientId,
+      userType: 'patient',
+      sessionId: payload.sessionId,
+      phoneNumber: payload.phoneNumber
+    }
+  }
+
+  return null
+}
+
+/**
+ * Verify a clinic_session token
+ */
+export function getClinicAuthFromToken(token: string): AuthContext | null {
+  const decoded = verifyJWT(token)
+
+  // Tokens from before per-user accounts or server-side sessions are rejected
+  if (decoded && 'clinicId' in decoded && 'userId' in decoded && 'sessionId' in decoded) {
+    const payload = decoded as ClinicJWTPayload
+    return {
+      userId: payload.userId,
+      userType: 'clinic',
+      sessionId: payload.sessionId,
+      clinicId: payload.clinicId,
+      role: payload.role
     }
   }
 
   return null
 }
 
+/**
+ * IP address and user agent of a request
+ */
+export function getRequestClient(request: NextRequest): RequestClient {
+  return {
+    ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+    userAgent: request.headers.get('user-agent')
+  }
+}
+
+/**
+ * Read the identity headers set by src/middleware.ts
+ */
+export function getAuthFromHeaders(headers: Pick<Headers, 'get'>): AuthContext | null {
+  const userId = headers.get(AUTH_HEADERS.userId)
+  const userType = headers.get(AUTH_HEADERS.userType)
+  const sessionId = headers.get(AUTH_HEADERS.sessionId)
+
+  if (!userId || !sessionId || (userType !== 'patient' && userType !== 'clinic')) {
+    return null
+  }
+
+  return {
+    userId,
+    userType,
+    sessionId,
+    phoneNumber: headers.get(AUTH_HEADERS.phoneNumber) ?? undefined,
+    clinicId: headers.get(AUTH_HEADERS.clinicId) ?? undefined,
+    role: (headers.get(AUTH_HEADERS.role) as UserRole | null) ?? undefined
+  }
+}
+
+/**
+ * Replace any identity headers on a request with the verified session
+ */
+export function setAuthHeaders(headers: Headers, auth: AuthContext | null): void {
+  for (const name of Object.values(AUTH_HEADERS)) {
+    headers.delete(name)
+  }
+
+  if (!auth) {
+    return
+  }
+
+  headers.set(AUTH_HEADERS.userId, auth.userId)
+  headers.set(AUTH_HEADERS.userType, auth.userType)
+  headers.set(AUTH_HEADERS.sessionId, auth.sessionId)
+  if (auth.phoneNumber) headers.set(AUTH_HEADERS.phoneNumber, auth.phoneNumber)
+  if (auth.clinicId) headers.set(AUTH_HEADERS.clinicId, auth.clinicId)
+  if (auth.role) headers.set(AUTH_HEADERS.role, auth.role)
+}
+
 /**
  * Middleware to protect API routes
  * Usage: export const middleware = withAuth(handler, options)
@@ -72,17 +204,11 @@ export function withAuth(
     const auth = getAuthFromRequest(request)
 
     if (!auth) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please login.' },
-        { status: 401 }
-      )
+      return unauthorizedResponse()
     }
 
     if (options.requiredType && auth.userType !== options.requiredType) {
-      return NextResponse.json(
-        { error: `Access denied. ${options.requiredType} access required.` },
-        { status: 403 }
-      )
+      return forbiddenResponse()
     }
 
     return handler(request, auth)
@@ -99,23 +225,11 @@ export function requireAuth(
   const auth = getAuthFromRequest(request)
 
   if (!auth) {
-    return {
-      success: false,
-      response: NextResponse.json(
-        { error: 'Unauthorized. Please login.' },
-        { status: 401 }
-      )
-    }
+    return { success: false, response: unauthorizedResponse() }
   }
 
   if (options.requiredType && auth.userType !== options.requiredType) {
-    return {
-      success: false,
-      response: NextResponse.json(
-        { error: `Access denied. ${options.requiredType} access required.` },
-        { status: 403 }
-      )
-    }
+    return { success: false, response: forbiddenResponse() }
   }
 
   return { success: true, auth }
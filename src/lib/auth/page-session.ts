@@ -0,0 +1,53 @@
+/**
+ * Dashboard Page Session
+ * Server components read the clinic session and run their
+ * queries inside the staff member's row-level authorization context.
+ * Layouts and pages render separately, so each one sets up its own.
+ */
+
+import { cookies, headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { getAuthFromHeaders, getClinicAuthFromToken, AuthContext } from '@/lib/auth/middleware'
+import { hasPermission, Permission } from '@/lib/auth/permissions'
+import { withAuthContext } from '@/lib/middleware/authorization'
+import { validateSession } from '@/lib/auth/session-service'
+
+/**
+ * The signed-in staff member, or a redirect to /login when there is no
+ * valid session for this clinic. Pages cannot set cookies, so the
+ * sliding refresh is left to the API calls the page makes.
+ */
+export async function getClinicPageSession(clinicId: string): Promise<AuthContext> {
+  // Verified by src/middleware.ts; the cookie is the fallback when it did not run
+  const token = (await cookies()).get('clinic_session')?.value
+  const auth = getAuthFromHeaders(await headers()) ?? (token ? getClinicAuthFromToken(token) : null)
+
+  if (!auth || auth.userType !== 'clinic' || auth.clinicId !== clinicId) {
+    redirect('/login')
+  }
+
+  const session = await validateSession(auth)
+  if (!session) {
+    redirect('/login')
+  }
+
+  return session.auth
+}
+
+/**
+ * Run a page's data loading as the signed-in staff member. Pages that need
+ * a permission send staff without it back to today's list.
+ */
+export async function withClinicPageAccess<T>(
+  clinicId: string,
+  fn: () => Promise<T>,
+  permission?: Permission
+): Promise<T> {
+  const auth = await getClinicPageSession(clinicId)
+
+  if (permission && !hasPermission(auth, permission)) {
+    redirect(`/dashboard/${clinicId}/today`)
+  }
+
+  return withAuthContext({ role: 'staff', userId: auth.userId, clinicId }, fn)
+}
@@ -0,0 +1,98 @@
+/**
+ * Permission Matrix
+ * What each staff role - and a logged-in patient - may do through the API.
+ *
+ * Routes declare the permission they need with withPermission()
+ * (src/lib/auth/guard.ts). Routes without a session check on purpose:
+ * - Public booking directory (withPublicAccess): /api/clinics, /api/slots/*
+ * - Login and logout (withSystemAccess): /api/auth/login, /api/auth/logout,
+ *   /api/patient/auth/*
+ * - Shared secrets: /api/cron/* (withCronAccess, CRON_SECRET), and with
+ *   withSystemAccess /api/reminders/* (X-API-Key), /api/webhooks/twilio/*
+ *   (Twilio signature), /api/webhooks/messaging/* (provider signature or
+ *   token), /api/webhooks/whatsapp (Meta signature)
+ * - No database access: /api/patient/login (deprecated), /api/health
+ */
+
+import type { UserRole } from '@prisma/client'
+import type { AuthContext } from '@/lib/auth/middleware'
+
+export type Permission =
+  // Clinic staff
+  | 'appointment:create'
+  | 'appointment:view'
+  | 'appointment:status:update'
+  | 'appointment:reschedule'
+  | 'series:manage'
+  | 'patient:lookup'
+  | 'waitlist:view'
+  | 'waitlist:create'
+  | 'analytics:view'
+  | 'settings:view'
+  | 'settings:manage'
+  | 'staff-absence:manage'
+  | 'user:manage'
+  | 'audit:view'
+  | 'inbox:manage'
+  // Patient portal - always limited to the patient's own records
+  | 'appointment:view:own'
+  | 'appointment:cancel:own'
+  | 'appointment:reschedule:own'
+
+// Booking desk work shared by receptionists and nurses
+const FRONT_DESK: Permission[] = [
+  'appointment:create',
+  'appointment:view',
+  'appointment:status:update',
+  'appointment:reschedule',
+  'series:manage',
+  'patient:lookup',
+  'waitlist:view',
+  'waitlist:create',
+  'settings:view',
+  'inbox:manage'
+]
+
+const CLINIC_ADMIN: Permission[] = [
+  ...FRONT_DESK,
+  'analytics:view',
+  'settings:manage',
+  'staff-absence:manage',
+  'user:manage',
+  'audit:view'
+]
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  RECEPTIONIST: [...FRONT_DESK, 'staff-absence:manage'],
+  NURSE: FRONT_DESK,
+  DOCTOR: [
+    'appointment:create',
+    'appointment:view',
+    'appointment:status:update',
+    'patient:lookup',
+    'waitlist:view',
+    'analytics:view',
+    'settings:view'
+  ],
+  CLINIC_ADMIN,
+  SUPER_ADMIN: CLINIC_ADMIN
+}
+
+export const PATIENT_PERMISSIONS: Permission[] = [
+  'appointment:create',
+  'waitlist:create',
+  'appointment:view:own',
+  'appointment:cancel:own',
+  'appointment:reschedule:own'
+]
+
+/**
+ * Check whether a session may use a permission
+ */
+export function hasPermission(auth: AuthContext, permission: Permission): boolean {
+  if (auth.userType === 'patient') {
+    return PATIENT_PERMISSIONS.includes(permission)
+  }
+
+  return !!auth.role && ROLE_PERMISSIONS[auth.role].includes(permission)
+}
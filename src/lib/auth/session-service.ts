@@ -0,0 +1,246 @@
+/**
+ * Session Service
+ * Server-side sessions behind the session JWTs. A token is only honoured
+ * while its sessions row is unrevoked and unexpired, so logout, password
+ * resets and admin sign-outs end a stolen token straight away.
+ *
+ * Sessions slide: while a session is used, the guard re-issues its token
+ * every SESSION_REFRESH_AFTER_MINUTES and pushes expiry out by
+ * SESSION_MAX_AGE_HOURS, so a receptionist working all day stays signed in.
+ */
+
+import { NextResponse } from 'next/server'
+import type { SessionRevokeReason } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createJWT } from '@/lib/auth/jwt'
+import { withAuthContext } from '@/lib/middleware/authorization'
+import type { AuthContext, ClinicJWTPayload, PatientJWTPayload, RequestClient } from '@/lib/auth/middleware'
+import { SESSION_MAX_AGE_HOURS, SESSION_REFRESH_AFTER_MINUTES } from '@/lib/constants'
+
+const SESSION_MAX_AGE_MS = SESSION_MAX_AGE_HOURS * 60 * 60 * 1000
+
+export const SESSION_COOKIES = {
+  clinic: 'clinic_session',
+  patient: 'patient_session'
+} as const
+
+export type NewSession =
+  | { type: 'clinic'; userId: string; role: ClinicJWTPayload['role']; clinicId: string }
+  | { type: 'patient'; patientId: string; phoneNumber: string }
+
+/**
+ * Sign the JWT for a session
+ */
+function signSessionToken(auth: AuthContext): string {
+  if (auth.userType === 'patient') {
+    const payload: PatientJWTPayload = {
+      patientId: auth.userId,
+      phoneNumber: auth.phoneNumber ?? '',
+      sessionId: auth.sessionId,
+      type: 'patient'
+    }
+    return createJWT(payload, SESSION_MAX_AGE_MS)
+  }
+
+  if (!auth.role || !auth.clinicId) {
+    throw new Error('INVALID_SESSION')
+  }
+
+  const payload: ClinicJWTPayload = {
+    userId: auth.userId,
+    role: auth.role,
+    clinicId: auth.clinicId,
+    sessionId: auth.sessionId,
+    type: 'clinic'
+  }
+  return createJWT(payload, SESSION_MAX_AGE_MS)
+}
+
+/**
+ * Open a session at login and sign its token
+ */
+export async function createSession(
+  session: NewSession,
+  client: RequestClient = {}
+): Promise<{ sessionId: string; token: string }> {
+  const created = await prisma.session.create({
+    data: {
+      type: session.type === 'clinic' ? 'CLINIC' : 'PATIENT',
+      userId: session.type === 'clinic' ? session.userId : null,
+      patientId: session.type === 'patient' ? session.patientId : null,
+      clinicId: session.type === 'clinic' ? session.clinicId : null,
+      expiresAt: new Date(Date.now() + SESSION_MAX_AGE_MS),
+      userAgent: client.userAgent ?? null,
+      ipAddress: client.ipAddress ?? null
+    },
+    select: { id: true }
+  })
+
+  const auth: AuthContext = session.type === 'clinic'
+    ? { userId: session.userId, userType: 'clinic', sessionId: created.id, role: session.role, clinicId: session.clinicId }
+    : { userId: session.patientId, userType: 'patient', sessionId: created.id, phoneNumber: session.phoneNumber }
+
+  return { sessionId: created.id, token: signSessionToken(auth) }
+}
+
+/**
+ * The signed-in user as the database has them now: role and clinic come
+ * from the users row, not the token, so a demoted or deactivated login
+ * loses its access on the next request. Null when the login no longer
+ * fits the session.
+ */
+async function currentAuth(
+  auth: AuthContext,
+  session: { userId: string | null; patientId: string | null; clinicId: string | null }
+): Promise<AuthContext | null> {
+  if (auth.userType === 'patient') {
+    if (!session.patientId) {
+      return null
+    }
+
+    const patient = await prisma.patient.findUnique({
+      where: { id: session.patientId },
+      select: { id: true, phoneNumber: true }
+    })
+
+    return patient
+      ? { userId: patient.id, userType: 'patient', sessionId: auth.sessionId, phoneNumber: patient.phoneNumber }
+      : null
+  }
+
+  if (!session.userId || !session.clinicId) {
+    return null
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+    select: { id: true, role: true, clinicId: true, isActive: true }
+  })
+
+  // Only super admins may be signed in to a clinic other than their own
+  if (!user || !user.isActive || (user.role !== 'SUPER_ADMIN' && user.clinicId !== session.clinicId)) {
+    return null
+  }
+
+  return { userId: user.id, userType: 'clinic', sessionId: auth.sessionId, role: user.role, clinicId: session.clinicId }
+}
+
+/**
+ * Check a verified token against its sessions row and the user it belongs
+ * to. Returns the current auth context, with a fresh token when the session
+ * is due for a sliding refresh (and `refresh` is allowed); null when the
+ * session was revoked or has expired, or the login was deactivated.
+ */
+export async function validateSession(
+  auth: AuthContext,
+  options: { refresh?: boolean } = {}
+): Promise<{ auth: AuthContext; token: string | null } | null> {
+  // Sessions are looked up before any row-level scope applies
+  return withAuthContext({ role: 'system' }, async () => {
+    const session = await prisma.session.findUnique({
+      where: { id: auth.sessionId },
+      select: { userId: true, patientId: true, clinicId: true, expiresAt: true, refreshedAt: true, revokedAt: true }
+    })
+
+    const ownerId = auth.userType === 'clinic' ? session?.userId : session?.patientId
+    const now = new Date()
+
+    if (!session || session.revokedAt || session.expiresAt <= now || ownerId !== auth.userId) {
+      return null
+    }
+
+    const current = await currentAuth(auth, session)
+    if (!current) {
+      return null
+    }
+
+    const refreshDue = now.getTime() - session.refreshedAt.getTime() >= SESSION_REFRESH_AFTER_MINUTES * 60 * 1000
+    if (!options.refresh || !refreshDue) {
+      return { auth: current, token: null }
+    }
+
+    await prisma.session.update({
+      where: { id: auth.sessionId },
+      data: { refreshedAt: now, expiresAt: new Date(now.getTime() + SESSION_MAX_AGE_MS) }
+    })
+
+    return { auth: current, token: signSessionToken(current) }
+  })
+}
+
+/**
+ * End one session (logout)
+ */
+export async function revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  })
+}
+
+/**
+ * End every session of a staff user, optionally keeping the caller's own
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  })
+
+  return result.count
+}
+
+/**
+ * End every staff session signed in to a clinic, optionally keeping the
+ * caller's own
+ */
+export async function revokeClinicSessions(
+  clinicId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: {
+      clinicId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  })
+
+  return result.count
+}
+
+/**
+ * Set a session cookie
+ */
+export function setSessionCookie(response: NextResponse, name: string, token: string): void {
+  response.cookies.set(name, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: SESSION_MAX_AGE_MS / 1000,
+    path: '/'
+  })
+}
+
+/**
+ * Remove a session cookie
+ */
+export function clearSessionCookie(response: NextResponse, name: string): void {
+  response.cookies.set(name, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 0,
+    path: '/'
+  })
+}
@@ -0,0 +1,52 @@
+/**
+ * User Account Error Responses
+ * Shared by the clinic users routes
+ */
+
+import { NextResponse } from 'next/server'
+
+/**
+ * Map user-service errors to bilingual responses
+ */
+export function userErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof Error)) {
+    return null
+  }
+
+  const responses: Record<string, { error: string; status: number }> = {
+    USER_NOT_FOUND: {
+      error: 'Mtumiaji hajapatikana / User not found',
+      status: 404
+    },
+    EMAIL_TAKEN: {
+      error: 'Barua pepe hii tayari inatumika / This email is already in use',
+      status: 409
+    },
+    STAFF_NOT_FOUND: {
+      error: 'Mhudumu hajapatikana / Staff member not found',
+      status: 404
+    },
+    STAFF_ALREADY_LINKED: {
+      error: 'Mhudumu huyu tayari ana akaunti / This staff member already has an account',
+      status: 409
+    },
+    ROLE_NOT_ALLOWED: {
+      error: 'Huna ruhusa ya kusimamia wasimamizi wakuu / You cannot manage super admin accounts',
+      status: 403
+    },
+    CANNOT_CHANGE_OWN_ACCESS: {
+      error: 'Huwezi kubadilisha cheo au kuzima akaunti yako mwenyewe / You cannot change your own role or deactivate yourself',
+      status: 409
+    }
+  }
+
+  const mapped = responses[error.message]
+  if (!mapped) {
+    return null
+  }
+
+  return NextResponse.json(
+    { error: mapped.error, code: error.message },
+    { status: mapped.status }
+  )
+}
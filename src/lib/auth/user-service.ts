@@ -0,0 +1,180 @@
+/**
+ * User Account Service
+ * Create and update the staff logins of a clinic. Clinic admins manage
+ * their own clinic; only super admins can grant or change super admin access.
+ * Deactivating a user, changing their role or resetting their password
+ * signs them out everywhere.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { Prisma, UserRole } from '@prisma/client'
+import { hashPassword } from '@/lib/auth/auth-service'
+import type { AuthContext } from '@/lib/auth/middleware'
+import { revokeUserSessions } from '@/lib/auth/session-service'
+
+// Everything except the password hash
+export const USER_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  clinicId: true,
+  staffId: true,
+  isActive: true,
+  lastLoginAt: true,
+  createdAt: true,
+  staff: {
+    select: { id: true, firstName: true, lastName: true }
+  }
+} satisfies Prisma.UserSelect
+
+// The admin making the change
+export type UserActor = Pick<AuthContext, 'userId' | 'role' | 'sessionId'>
+
+export interface CreateUserParams {
+  clinicId: string
+  actor: UserActor
+  email: string
+  password: string
+  role: UserRole
+  staffId?: string | null
+}
+
+export interface UpdateUserParams {
+  clinicId: string
+  actor: UserActor
+  userId: string
+  role?: UserRole
+  password?: string
+  staffId?: string | null
+  isActive?: boolean
+}
+
+/**
+ * Clinic admins cannot hand out or take away super admin access
+ */
+function assertRoleAllowed(actor: UserActor, role: UserRole) {
+  if (role === 'SUPER_ADMIN' && actor.role !== 'SUPER_ADMIN') {
+    throw new Error('ROLE_NOT_ALLOWED')
+  }
+}
+
+/**
+ * The linked staff member must work at this clinic and have no other login
+ */
+async function assertStaffLinkable(clinicId: string, staffId: string, userId?: string) {
+  const staff = await prisma.staff.findFirst({
+    where: { id: staffId, clinicId },
+    select: { id: true, user: { select: { id: true } } }
+  })
+
+  if (!staff) {
+    throw new Error('STAFF_NOT_FOUND')
+  }
+
+  if (staff.user && staff.user.id !== userId) {
+    throw new Error('STAFF_ALREADY_LINKED')
+  }
+}
+
+/**
+ * Add a login to a clinic
+ */
+export async function createUser(params: CreateUserParams) {
+  assertRoleAllowed(params.actor, params.role)
+
+  const existing = await prisma.user.findUnique({
+    where: { email: params.email },
+    select: { id: true }
+  })
+  if (existing) {
+    throw new Error('EMAIL_TAKEN')
+  }
+
+  if (params.staffId) {
+    await assertStaffLinkable(params.clinicId, params.staffId)
+  }
+
+  return prisma.user.create({
+    data: {
+      email: params.email,
+      passwordHash: await hashPassword(params.password),
+      role: params.role,
+      clinicId: params.clinicId,
+      staffId: params.staffId ?? null
+    },
+    select: USER_SELECT
+  })
+}
+
+/**
+ * Change a user's role, staff link, password or active flag.
+ * Admins cannot demote or deactivate themselves, so a clinic never
+ * locks out its last admin by accident.
+ */
+export async function updateUser(params: UpdateUserParams) {
+  const user = await prisma.user.findFirst({
+    where: { id: params.userId, clinicId: params.clinicId },
+    select: { id: true, role: true }
+  })
+
+  if (!user) {
+    throw new Error('USER_NOT_FOUND')
+  }
+
+  assertRoleAllowed(params.actor, user.role)
+  if (params.role) {
+    assertRoleAllowed(params.actor, params.role)
+  }
+
+  const isSelf = user.id === params.actor.userId
+  if (isSelf && (params.isActive === false || (params.role && params.role !== user.role))) {
+    throw new Error('CANNOT_CHANGE_OWN_ACCESS')
+  }
+
+  if (params.staffId) {
+    await assertStaffLinkable(params.clinicId, params.staffId, user.id)
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      ...(params.role && { role: params.role }),
+      ...(params.password && { passwordHash: await hashPassword(params.password) }),
+      ...(params.staffId !== undefined && { staffId: params.staffId }),
+      ...(params.isActive !== undefined && { isActive: params.isActive })
+    },
+    select: USER_SELECT
+  })
+
+  // A reset password, a changed role or a deactivated login must not leave
+  // old sessions open. Admins resetting their own password stay signed in
+  // on this device.
+  if (params.isActive === false) {
+    await revokeUserSessions(user.id, 'DEACTIVATED')
+  } else if (params.role && params.role !== user.role) {
+    await revokeUserSessions(user.id, 'ROLE_CHANGED')
+  } else if (params.password) {
+    await revokeUserSessions(user.id, 'PASSWORD_CHANGED', isSelf ? params.actor.sessionId : undefined)
+  }
+
+  return updated
+}
+
+/**
+ * Sign a user out of every device (e.g. a lost phone). The admin's own
+ * current session is kept. Returns the number of sessions ended.
+ */
+export async function signOutUser(params: { clinicId: string; actor: UserActor; userId: string }) {
+  const user = await prisma.user.findFirst({
+    where: { id: params.userId, clinicId: params.clinicId },
+    select: { id: true, role: true }
+  })
+
+  if (!user) {
+    throw new Error('USER_NOT_FOUND')
+  }
+
+  assertRoleAllowed(params.actor, user.role)
+
+  return revokeUserSessions(user.id, 'ADMIN', params.actor.sessionId)
+}
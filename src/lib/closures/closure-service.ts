@@ -0,0 +1,165 @@
+/**
+ * Clinic Closure Service
+ * Combines built-in public holidays with each clinic's ad-hoc closures
+ */
+
+import { prisma, type TransactionClient } from '@/lib/prisma'
+import type { AppointmentStatus } from '@prisma/client'
+import { addDaysToDateString, toSlotDate } from '@/lib/date-utils'
+import { getTanzaniaHolidaysInRange } from '@/lib/closures/tanzania-holidays'
+
+export type ClosureType = 'PUBLIC_HOLIDAY' | 'CLINIC_CLOSURE'
+
+export interface ClosureDay {
+  date: string // YYYY-MM-DD
+  type: ClosureType
+  reason: string
+  closureId?: string // Set for CLINIC_CLOSURE
+}
+
+// Appointments in these states still expect the patient to come in
+const ACTIVE_APPOINTMENT_STATUSES = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT'] as const
+
+type DbClient = TransactionClient | typeof prisma
+
+/**
+ * Get every closed day for a clinic between two dates (inclusive), keyed by date.
+ * A clinic closure on a public holiday takes precedence so its reason is shown.
+ */
+export async function getClinicClosuresInRange(
+  clinicId: string,
+  startDate: string,
+  endDate: string,
+  db: DbClient = prisma
+): Promise<Map<string, ClosureDay>> {
+  const closedDays = new Map<string, ClosureDay>()
+
+  for (const holiday of getTanzaniaHolidaysInRange(startDate, endDate)) {
+    closedDays.set(holiday.date, {
+      date: holiday.date,
+      type: 'PUBLIC_HOLIDAY',
+      reason: `${holiday.nameSw} / ${holiday.nameEn}`
+    })
+  }
+
+  const closures = await db.clinicClosure.findMany({
+    where: {
+      clinicId,
+      startDate: { lte: toSlotDate(endDate) },
+      endDate: { gte: toSlotDate(startDate) }
+    },
+    orderBy: { startDate: 'asc' }
+  })
+
+  for (const closure of closures) {
+    let date = closure.startDate.toISOString().split('T')[0]
+    const last = closure.endDate.toISOString().split('T')[0]
+
+    while (date <= last) {
+      if (date >= startDate && date <= endDate) {
+        closedDays.set(date, {
+          date,
+          type: 'CLINIC_CLOSURE',
+          reason: closure.reason,
+          closureId: closure.id
+        })
+      }
+      date = addDaysToDateString(date, 1)
+    }
+  }
+
+  return closedDays
+}
+
+/**
+ * Get the closure for a single date (YYYY-MM-DD), or null if the clinic is open
+ */
+export async function getClinicClosureForDate(
+  clinicId: string,
+  date: string,
+  db: DbClient = prisma
+): Promise<ClosureDay | null> {
+  const closedDays = await getClinicClosuresInRange(clinicId, date, date, db)
+  return closedDays.get(date) ?? null
+}
+
+export interface AffectedAppointment {
+  id: string
+  status: AppointmentStatus
+  date: string // YYYY-MM-DD
+  startTime: string
+  endTime: string
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+    phoneNumber: string
+    language: string
+  }
+  staff: {
+    id: string
+    firstName: string
+    lastName: string
+    role: string
+  }
+}
+
+/**
+ * Find booked appointments that fall on closed days and need to be
+ * cancelled or moved
+ */
+export async function findAppointmentsAffectedByClosure(
+  clinicId: string,
+  startDate: string,
+  endDate: string
+): Promise<AffectedAppointment[]> {
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      clinicId,
+      status: { in: [...ACTIVE_APPOINTMENT_STATUSES] },
+      slot: {
+        slotDate: {
+          gte: toSlotDate(startDate),
+          lte: toSlotDate(endDate)
+        }
+      }
+    },
+    include: {
+      patient: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          phoneNumber: true,
+          language: true
+        }
+      },
+      slot: {
+        include: {
+          staff: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              role: true
+            }
+          }
+        }
+      }
+    },
+    orderBy: [
+      { slot: { slotDate: 'asc' } },
+      { slot: { startTime: 'asc' } }
+    ]
+  })
+
+  return appointments.map(appointment => ({
+    id: appointment.id,
+    status: appointment.status,
+    date: appointment.slot.slotDate.toISOString().split('T')[0],
+    startTime: appointment.slot.startTime,
+    endTime: appointment.slot.endTime,
+    patient: appointment.patient,
+    staff: appointment.slot.staff
+  }))
+}
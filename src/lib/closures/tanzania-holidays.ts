@@ -0,0 +1,118 @@
+/**
+ * Tanzania Public Holidays
+ * Built-in table of days every clinic is closed
+ */
+
+export interface PublicHoliday {
+  date: string // YYYY-MM-DD
+  nameSw: string
+  nameEn: string
+}
+
+// Same calendar date every year (MM-DD)
+const FIXED_HOLIDAYS: Array<{ monthDay: string; nameSw: string; nameEn: string }> = [
+  { monthDay: '01-01', nameSw: 'Mwaka Mpya', nameEn: "New Year's Day" },
+  { monthDay: '01-12', nameSw: 'Mapinduzi ya Zanzibar', nameEn: 'Zanzibar Revolution Day' },
+  { monthDay: '04-07', nameSw: 'Siku ya Karume', nameEn: 'Karume Day' },
+  { monthDay: '04-26', nameSw: 'Siku ya Muungano', nameEn: 'Union Day' },
+  { monthDay: '05-01', nameSw: 'Mei Mosi', nameEn: "Workers' Day" },
+  { monthDay: '07-07', nameSw: 'Saba Saba', nameEn: 'Saba Saba' },
+  { monthDay: '08-08', nameSw: 'Nane Nane', nameEn: "Farmers' Day" },
+  { monthDay: '10-14', nameSw: 'Siku ya Nyerere', nameEn: 'Nyerere Day' },
+  { monthDay: '12-09', nameSw: 'Siku ya Uhuru', nameEn: 'Independence Day' },
+  { monthDay: '12-25', nameSw: 'Krismasi', nameEn: 'Christmas Day' },
+  { monthDay: '12-26', nameSw: 'Siku ya Kufungua Zawadi', nameEn: 'Boxing Day' }
+]
+
+// Islamic holidays follow the lunar calendar and are confirmed by moon
+// sighting shortly before the day. These are the expected dates; if the
+// official date differs, the clinic should add a closure for it.
+const LUNAR_HOLIDAYS: Record<number, Array<{ date: string; nameSw: string; nameEn: string }>> = {
+  2025: [
+    { date: '2025-03-31', nameSw: 'Eid el-Fitr', nameEn: 'Eid al-Fitr' },
+    { date: '2025-06-07', nameSw: 'Eid el-Hajj', nameEn: 'Eid al-Adha' },
+    { date: '2025-09-05', nameSw: 'Maulid', nameEn: "Prophet's Birthday" }
+  ],
+  2026: [
+    { date: '2026-03-20', nameSw: 'Eid el-Fitr', nameEn: 'Eid al-Fitr' },
+    { date: '2026-05-27', nameSw: 'Eid el-Hajj', nameEn: 'Eid al-Adha' },
+    { date: '2026-08-25', nameSw: 'Maulid', nameEn: "Prophet's Birthday" }
+  ],
+  2027: [
+    { date: '2027-03-10', nameSw: 'Eid el-Fitr', nameEn: 'Eid al-Fitr' },
+    { date: '2027-05-17', nameSw: 'Eid el-Hajj', nameEn: 'Eid al-Adha' },
+    { date: '2027-08-15', nameSw: 'Maulid', nameEn: "Prophet's Birthday" }
+  ],
+  2028: [
+    { date: '2028-02-27', nameSw: 'Eid el-Fitr', nameEn: 'Eid al-Fitr' },
+    { date: '2028-05-05', nameSw: 'Eid el-Hajj', nameEn: 'Eid al-Adha' },
+    { date: '2028-08-03', nameSw: 'Maulid', nameEn: "Prophet's Birthday" }
+  ]
+}
+
+/**
+ * Easter Sunday for a year (anonymous Gregorian algorithm), at UTC midnight
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function shiftDays(date: Date, days: number): string {
+  const shifted = new Date(date)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().split('T')[0]
+}
+
+/**
+ * All Tanzania public holidays for a year, sorted by date
+ */
+export function getTanzaniaHolidays(year: number): PublicHoliday[] {
+  const easter = getEasterSunday(year)
+
+  const holidays: PublicHoliday[] = [
+    ...FIXED_HOLIDAYS.map(h => ({ date: `${year}-${h.monthDay}`, nameSw: h.nameSw, nameEn: h.nameEn })),
+    { date: shiftDays(easter, -2), nameSw: 'Ijumaa Kuu', nameEn: 'Good Friday' },
+    { date: shiftDays(easter, 1), nameSw: 'Jumatatu ya Pasaka', nameEn: 'Easter Monday' },
+    ...(LUNAR_HOLIDAYS[year] ?? [])
+  ]
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * The public holiday falling on a date (YYYY-MM-DD), if any
+ */
+export function getTanzaniaHoliday(date: string): PublicHoliday | null {
+  const year = parseInt(date.substring(0, 4), 10)
+  return getTanzaniaHolidays(year).find(h => h.date === date) ?? null
+}
+
+/**
+ * Public holidays between two dates (YYYY-MM-DD, inclusive)
+ */
+export function getTanzaniaHolidaysInRange(startDate: string, endDate: string): PublicHoliday[] {
+  const startYear = parseInt(startDate.substring(0, 4), 10)
+  const endYear = parseInt(endDate.substring(0, 4), 10)
+  const holidays: PublicHoliday[] = []
+
+  for (let year = startYear; year <= endYear; year++) {
+    holidays.push(...getTanzaniaHolidays(year).filter(h => h.date >= startDate && h.date <= endDate))
+  }
+
+  return holidays
+}
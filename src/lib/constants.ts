@@ -14,20 +14,58 @@ export const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000
 export const TANZANIA_TZ_OFFSET_HOURS = 3
 export const TANZANIA_TIMEZONE = 'Africa/Dar_es_Salaam'
 
-// Reminder windows (in hours)
-export const REMINDER_24H_WINDOW_MIN = 23
-export const REMINDER_24H_WINDOW_MAX = 25
-export const REMINDER_SAME_DAY_WINDOW_MIN = 2
-export const REMINDER_SAME_DAY_WINDOW_MAX = 4
+// Appointment reminders (per-clinic rules in reminder_rules)
+export const REMINDER_MAX_OFFSET_HOURS = 336 // Two weeks
+export const REMINDER_MAX_RULES = 5 // Active rules per clinic
+export const REMINDER_BATCH_SIZE = 200 // Appointments checked per engine run
+export const REMINDER_RUN_INTERVAL_MINUTES = 60 // The send-reminders cron runs hourly
 
 // Time buffers (in minutes)
 export const APPOINTMENT_BUFFER_MINUTES = 15
 export const SLOT_BUFFER_MINUTES = 15
 
-// Retry configuration
-export const MAX_SMS_RETRIES = 1
-export const SMS_RETRY_DELAY_MS = 200
-export const DEFAULT_RETRY_DELAY_MS = 1000
+// Slot generation
+export const DEFAULT_SLOT_DURATION_MINUTES = 30
+export const SLOT_GENERATION_DEFAULT_WEEKS = 4
+export const SLOT_GENERATION_MAX_WEEKS = 12
+export const SLOT_HORIZON_DAYS = 28 // Rolling horizon kept stocked by the generate-slots cron
+
+// Closures and staff absences
+export const CALENDAR_LIST_DEFAULT_DAYS = 90 // Days listed when no range is given
+
+// Patient self-service reschedule policy (limits for clinic settings)
+export const RESCHEDULE_CUTOFF_MAX_HOURS = 168 // One week
+export const MAX_RESCHEDULES_LIMIT = 10
+
+// Recurring appointment series
+export const SERIES_MAX_OCCURRENCES = 26 // Six months of fortnightly visits
+export const SERIES_MAX_INTERVAL_WEEKS = 12
+export const SERIES_SEARCH_DAYS = 3 // Days either side of the target date searched for a slot
+
+// Message outbox (retries with exponential backoff, then dead-letters)
+export const OUTBOX_MAX_ATTEMPTS = 5
+export const OUTBOX_VERIFICATION_MAX_ATTEMPTS = 3 // OTPs are useless once expired
+export const OUTBOX_RETRY_BASE_MS = 30 * 1000 // 30s, 1m, 2m, 4m...
+export const OUTBOX_RETRY_MAX_MS = 60 * 60 * 1000 // Never wait more than an hour
+export const OUTBOX_BATCH_SIZE = 50 // Messages per worker run
+export const OUTBOX_LOCK_TIMEOUT_MS = 5 * 60 * 1000 // A claimed message is retried after this
+export const OUTBOX_SEND_TIMEOUT_MS = 15000 // Per provider request
+// Sends in flight at once per gateway (WHATSAPP is the Cloud API)
+export const OUTBOX_CONCURRENCY: Record<string, number> = {
+  TWILIO: 5,
+  AFRICASTALKING: 5,
+  BEEM: 3,
+  WHATSAPP: 5,
+  FAKE: 10
+}
+
+// Patient messaging hours, for messages not tied to a clinic (clinics set
+// their own in clinics.send_window_start/end)
+export const SEND_WINDOW_DEFAULT_START = '07:00'
+export const SEND_WINDOW_DEFAULT_END = '21:00'
+
+// Clinic message templates (message_templates)
+export const MESSAGE_TEMPLATE_MAX_LENGTH = 612 // Four GSM-7 segments
 
 // Rate limiting
 export const RATE_LIMIT_WINDOW_MS = 60 * 1000 // 1 minute
@@ -38,8 +76,10 @@ export const DEFAULT_PAGE_SIZE = 20
 export const MAX_PAGE_SIZE = 100
 
 // Session/cookie
-export const SESSION_MAX_AGE_HOURS = 8
+export const SESSION_MAX_AGE_HOURS = 8 // Idle time before a session expires
+export const SESSION_REFRESH_AFTER_MINUTES = 15 // Re-issue the token (and slide expiry) this often while in use
 export const SESSION_COOKIE_NAME = 'afyabook_session'
+export const USER_PASSWORD_MIN_LENGTH = 8
 
 // API timeouts
 export const API_TIMEOUT_MS = 30000 // 30 seconds
@@ -17,3 +17,56 @@ export function calculateDuration(startTime: string, endTime: string): number {
   
   return endMinutes - startMinutes
 }
+
+/**
+ * Convert a time in HH:MM format to minutes since midnight
+ * @param time - Time in HH:MM format
+ * @returns Minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+/**
+ * Convert minutes since midnight to HH:MM format
+ * @param minutes - Minutes since midnight
+ * @returns Time in HH:MM format
+ */
+export function minutesToTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60)
+  const minute = minutes % 60
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`
+}
+
+/**
+ * Add minutes to a time in HH:MM format
+ * @param time - Time in HH:MM format
+ * @param minutes - Minutes to add
+ * @returns Time in HH:MM format
+ */
+export function addMinutesToTime(time: string, minutes: number): string {
+  return minutesToTime(timeToMinutes(time) + minutes)
+}
+
+/**
+ * Convert a YYYY-MM-DD string to a date-only value (UTC midnight),
+ * as stored in AppointmentSlot.slotDate
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Date at 00:00 UTC
+ */
+export function toSlotDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`)
+}
+
+/**
+ * Add days to a date in YYYY-MM-DD format
+ * @param date - Date in YYYY-MM-DD format
+ * @param days - Days to add (may be negative)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  const shifted = toSlotDate(date)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().split('T')[0]
+}
@@ -13,19 +13,7 @@ interface EnvVar {
 
 const requiredEnvVars: EnvVar[] = [
   { name: 'DATABASE_URL', required: true },
-  { name: 'JWT_SECRET', required: true },
-  { 
-    name: 'CLINIC_CREDENTIALS', 
-    required: true,
-    validate: (value) => {
-      try {
-        JSON.parse(value)
-        return true
-      } catch {
-        return false
-      }
-    }
-  }
+  { name: 'JWT_SECRET', required: true }
 ]
 
 const optionalEnvVars: EnvVar[] = [
@@ -0,0 +1,119 @@
+/**
+ * Patient Consent
+ * Whether a patient agreed to SMS and WhatsApp messages, per channel, with
+ * every change kept in patient_consent_changes. Patients opt out by texting
+ * STOP or ACHA and back in with START or ANZA (inbound-message-service.ts);
+ * staff record consent given at the desk.
+ *
+ * Opted-out patients still get essential messages: the OTPs they ask for,
+ * replies to their own messages and news that an appointment was
+ * cancelled or moved. sendMessage() logs anything else as SUPPRESSED in
+ * sms_logs instead of sending it.
+ */
+
+import { prisma, type TransactionClient } from '@/lib/prisma'
+import type { ConsentSource, ConsentStatus, MessagingChannel, SmsType } from '@prisma/client'
+import { getAuditActor } from '@/lib/audit/audit-service'
+
+// Whether a message type is held back from patients who opted out
+export const CONSENT_REQUIRED: Record<SmsType, boolean> = {
+  BOOKING_CONFIRMATION: true,
+  REMINDER_24H: true,
+  REMINDER_1H: true,
+  REMINDER_ADVANCE: true,
+  CANCELLATION: false, // Otherwise they travel to an appointment that is gone
+  RESCHEDULE: false,
+  GENERAL: true,
+  REPLY: false, // Answers the patient's own message, so it goes out even after STOP
+  CHECK_IN_CONFIRMATION: true,
+  VERIFICATION: false // Requested by the patient
+}
+
+export interface PatientConsent {
+  patientId: string
+  SMS: ConsentStatus
+  WHATSAPP: ConsentStatus
+}
+
+export interface ConsentChangeInput {
+  patientId: string
+  channel: MessagingChannel
+  status: ConsentStatus
+  source: ConsentSource
+  messageId?: string | null // The STOP/START message, for INBOUND_KEYWORD
+}
+
+/**
+ * Whether a message of `type` may go out on a channel with `status`
+ */
+export function isMessageAllowed(type: SmsType, status: ConsentStatus): boolean {
+  return status !== 'OPTED_OUT' || !CONSENT_REQUIRED[type]
+}
+
+/**
+ * A patient's consent, by ID or else by phone number. Null when no
+ * patient has the number.
+ */
+export async function getPatientConsent(patientId: string | undefined, phoneNumber: string): Promise<PatientConsent | null> {
+  const patient = await prisma.patient.findFirst({
+    where: patientId ? { id: patientId } : { phoneNumber },
+    select: { id: true, smsConsent: true, whatsappConsent: true }
+  })
+
+  if (!patient) {
+    return null
+  }
+
+  return { patientId: patient.id, SMS: patient.smsConsent, WHATSAPP: patient.whatsappConsent }
+}
+
+/**
+ * Set a patient's consent on one channel and record the change, by the
+ * current request's actor. Setting the status it already has records
+ * nothing. Runs in `tx` when given, else in a transaction of its own.
+ *
+ * @returns The status before the change
+ * @throws PATIENT_NOT_FOUND
+ */
+export async function setPatientConsent(change: ConsentChangeInput, tx?: TransactionClient): Promise<ConsentStatus> {
+  if (!tx) {
+    return prisma.$transaction(own => setPatientConsent(change, own))
+  }
+
+  const patient = await tx.patient.findUnique({
+    where: { id: change.patientId },
+    select: { smsConsent: true, whatsappConsent: true }
+  })
+
+  if (!patient) {
+    throw new Error('PATIENT_NOT_FOUND')
+  }
+
+  const from = change.channel === 'SMS' ? patient.smsConsent : patient.whatsappConsent
+  if (from === change.status) {
+    return from
+  }
+
+  const now = new Date()
+  await tx.patient.update({
+    where: { id: change.patientId },
+    data: change.channel === 'SMS'
+      ? { smsConsent: change.status, smsConsentAt: now }
+      : { whatsappConsent: change.status, whatsappConsentAt: now }
+  })
+
+  await tx.patientConsentChange.create({
+    data: {
+      patientId: change.patientId,
+      channel: change.channel,
+      fromStatus: from,
+      toStatus: change.status,
+      source: change.source,
+      actorId: getAuditActor().actorId,
+      messageId: change.messageId ?? null,
+      createdAt: now
+    }
+  })
+
+  return from
+}
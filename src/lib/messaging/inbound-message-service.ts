@@ -0,0 +1,358 @@
+/**
+ * Inbound Message Service
+ * Handles SMS and WhatsApp messages from patients. "NDIYO"/"YES"/"1"
+ * confirms and "HAPANA"/"NO"/"2"/"GHAIRI" cancels the sender's next
+ * upcoming appointment; "STOP"/"ACHA" opts the patient out of messages on
+ * that channel and "START"/"ANZA" back in. Anything else gets a bilingual
+ * help message and waits in the clinic inbox. Every message is stored in
+ * inbound_messages and answered on the channel it came in on.
+ *
+ * Changes run as the patient, so the status history and audit trail
+ * show the patient as the actor.
+ */
+
+import { prisma, type TransactionClient } from '@/lib/prisma'
+import type { MessagingChannel, InboundIntent, InboundOutcome } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import { withAuthContext } from '@/lib/middleware/authorization'
+import { validateTanzanianPhone } from '@/lib/phone-validation'
+import { fromTanzaniaDateTime, getTanzaniaDateString } from '@/lib/timezone'
+import { toSlotDate } from '@/lib/date-utils'
+import { releaseAppointmentSlots } from '@/lib/appointments/slot-reservation'
+import { recordStatusChange } from '@/lib/appointments/status-history'
+import { recordAuditEvent } from '@/lib/audit/audit-service'
+import { sendMessage } from '@/lib/messaging/unified-messaging'
+import { setPatientConsent } from '@/lib/messaging/consent'
+
+// Appointments a reply can still confirm or cancel
+const REPLYABLE_STATUSES = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT'] as const
+
+const CONFIRM_WORDS = ['NDIYO', 'NDIO', 'YES', '1']
+const CANCEL_WORDS = ['HAPANA', 'NO', '2', 'GHAIRI']
+const OPT_OUT_WORDS = ['STOP', 'ACHA']
+const OPT_IN_WORDS = ['START', 'ANZA']
+
+const CANCELLATION_REASON = 'Imeghairiwa kwa ujumbe / Cancelled by message reply'
+
+export interface InboundMessageInput {
+  messageId: string
+  channel: MessagingChannel
+  from: string
+  to: string
+  body: string
+}
+
+/**
+ * What a reply asks for, from its first word ("ndiyo asante" confirms)
+ */
+export function parseReplyIntent(body: string): InboundIntent {
+  const firstWord = body.trim().toUpperCase().split(/[^A-Z0-9]+/).find(Boolean) ?? ''
+
+  if (CONFIRM_WORDS.includes(firstWord)) {
+    return 'CONFIRM'
+  }
+
+  if (CANCEL_WORDS.includes(firstWord)) {
+    return 'CANCEL'
+  }
+
+  if (OPT_OUT_WORDS.includes(firstWord)) {
+    return 'OPT_OUT'
+  }
+
+  if (OPT_IN_WORDS.includes(firstWord)) {
+    return 'OPT_IN'
+  }
+
+  return 'UNKNOWN'
+}
+
+/**
+ * The patient's next appointment that has not started yet
+ */
+async function findNextAppointment(tx: TransactionClient, patientId: string) {
+  const candidates = await tx.appointment.findMany({
+    where: {
+      patientId,
+      status: { in: [...REPLYABLE_STATUSES] },
+      slot: { slotDate: { gte: toSlotDate(getTanzaniaDateString()) } }
+    },
+    include: {
+      slot: { select: { slotDate: true, startTime: true } },
+      clinic: { select: { name: true, phoneNumber: true } }
+    },
+    orderBy: [{ slot: { slotDate: 'asc' } }, { slot: { startTime: 'asc' } }],
+    take: 5
+  })
+
+  const now = new Date()
+  return candidates.find(appointment =>
+    fromTanzaniaDateTime(appointment.slot.slotDate.toISOString().split('T')[0], appointment.slot.startTime) > now
+  ) ?? null
+}
+
+type NextAppointment = NonNullable<Awaited<ReturnType<typeof findNextAppointment>>>
+
+async function confirmAppointment(tx: TransactionClient, appointment: NextAppointment): Promise<InboundOutcome> {
+  if (appointment.status === 'CONFIRMED') {
+    return 'ALREADY_CONFIRMED'
+  }
+
+  await tx.appointment.update({
+    where: { id: appointment.id },
+    data: { status: 'CONFIRMED' }
+  })
+
+  await recordStatusChange({
+    appointmentId: appointment.id,
+    clinicId: appointment.clinicId,
+    patientId: appointment.patientId,
+    from: appointment.status,
+    to: 'CONFIRMED',
+    reason: 'Imethibitishwa kwa ujumbe / Confirmed by message reply'
+  }, tx)
+
+  await recordAuditEvent({
+    action: 'APPOINTMENT_STATUS_CHANGED',
+    entityType: 'APPOINTMENT',
+    entityId: appointment.id,
+    clinicId: appointment.clinicId,
+    appointmentId: appointment.id,
+    patientId: appointment.patientId,
+    changes: { status: { from: appointment.status, to: 'CONFIRMED' } }
+  }, tx)
+
+  return 'CONFIRMED'
+}
+
+async function cancelAppointment(tx: TransactionClient, appointment: NextAppointment): Promise<InboundOutcome> {
+  const cancelledAt = new Date()
+
+  await tx.appointment.update({
+    where: { id: appointment.id },
+    data: {
+      status: 'CANCELLED',
+      cancelledAt,
+      cancellationReason: CANCELLATION_REASON
+    }
+  })
+
+  await releaseAppointmentSlots(tx, [appointment.id])
+
+  await recordStatusChange({
+    appointmentId: appointment.id,
+    clinicId: appointment.clinicId,
+    patientId: appointment.patientId,
+    from: appointment.status,
+    to: 'CANCELLED',
+    reason: CANCELLATION_REASON
+  }, tx)
+
+  await recordAuditEvent({
+    action: 'APPOINTMENT_CANCELLED',
+    entityType: 'APPOINTMENT',
+    entityId: appointment.id,
+    clinicId: appointment.clinicId,
+    appointmentId: appointment.id,
+    patientId: appointment.patientId,
+    changes: {
+      status: { from: appointment.status, to: 'CANCELLED' },
+      cancelledAt: { from: null, to: cancelledAt.toISOString() },
+      cancellationReason: { from: appointment.cancellationReason, to: CANCELLATION_REASON }
+    }
+  }, tx)
+
+  return 'CANCELLED'
+}
+
+/**
+ * The answer to a reply, in the patient's language. Help and unknown
+ * senders get both languages.
+ */
+function replyMessage(
+  outcome: InboundOutcome,
+  language: string,
+  appointment: NextAppointment | null,
+  channel: MessagingChannel
+): string {
+  const clinicPhone = appointment?.clinic.phoneNumber ?? ''
+  const sw = language !== 'en'
+  const channelName = channel === 'SMS' ? 'SMS' : 'WhatsApp'
+
+  switch (outcome) {
+    case 'CONFIRMED':
+    case 'ALREADY_CONFIRMED':
+      return sw
+        ? `Asante! Miadi yako ${appointment?.clinic.name ?? ''} imethibitishwa. Tafadhali kuja mapema.`
+        : `Thank you! Your appointment at ${appointment?.clinic.name ?? ''} is confirmed. Please arrive early.`
+    case 'CANCELLED':
+      return sw
+        ? `Miadi yako imeghairiwa. Piga ${clinicPhone} kupanga tena.`
+        : `Your appointment has been cancelled. Call ${clinicPhone} to book again.`
+    case 'NO_APPOINTMENT':
+      return sw
+        ? 'Huna miadi ijayo. Tafadhali wasiliana na kliniki yako.'
+        : 'You have no upcoming appointment. Please contact your clinic.'
+    case 'OPTED_OUT':
+      return sw
+        ? `Hutapokea tena ujumbe wa ${channelName} isipokuwa taarifa muhimu za miadi yako. Tuma ANZA kujiunga tena.`
+        : `You will no longer get ${channelName} messages except essential notices about your appointments. Send START to opt back in.`
+    case 'OPTED_IN':
+      return sw
+        ? `Umejiunga tena na ujumbe wa ${channelName}. Tuma ACHA kusitisha.`
+        : `You will get ${channelName} messages again. Send STOP to opt out.`
+    case 'UNKNOWN_SENDER':
+      return 'Namba yako haijasajiliwa. Tafadhali wasiliana na kliniki yako. / Your number is not registered. Please contact your clinic.'
+    case 'HELP_SENT':
+    default:
+      return 'Jibu NDIYO kuthibitisha au HAPANA kughairi miadi yako. / Reply YES to confirm or NO to cancel your appointment.'
+  }
+}
+
+/**
+ * What was done with a message ID already stored
+ */
+async function findHandledMessage(messageId: string): Promise<{ intent: InboundIntent; outcome: InboundOutcome } | null> {
+  return prisma.inboundMessage.findUnique({
+    where: { messageId },
+    select: { intent: true, outcome: true }
+  })
+}
+
+/**
+ * The clinic of the patient's most recent appointment, so messages
+ * without an upcoming appointment still reach a clinic's inbox
+ */
+async function findLatestClinicId(tx: TransactionClient, patientId: string): Promise<string | null> {
+  const latest = await tx.appointment.findFirst({
+    where: { patientId },
+    orderBy: { createdAt: 'desc' },
+    select: { clinicId: true }
+  })
+
+  return latest?.clinicId ?? null
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === 'P2002'
+}
+
+/**
+ * Act on one inbound message and answer it. Safe to call again for a
+ * message the provider retries, or delivers twice at once: the action and
+ * the inbound_messages row that claims the message ID commit together, so
+ * a second delivery fails on the unique message ID and rolls back. It gets
+ * the stored outcome and no second reply.
+ */
+export async function handleInboundMessage(
+  message: InboundMessageInput
+): Promise<{ intent: InboundIntent; outcome: InboundOutcome }> {
+  const existing = await findHandledMessage(message.messageId)
+  if (existing) {
+    return existing
+  }
+
+  const intent = parseReplyIntent(message.body)
+  const phone = validateTanzanianPhone(message.from).normalized ?? message.from
+
+  const patient = await prisma.patient.findUnique({
+    where: { phoneNumber: phone },
+    select: { id: true, language: true }
+  })
+
+  let handled: { outcome: InboundOutcome; appointment: NextAppointment | null; clinicId: string | null }
+  try {
+    handled = await prisma.$transaction(async (tx) => {
+      let outcome: InboundOutcome
+      let appointment: NextAppointment | null = null
+
+      if (!patient) {
+        outcome = 'UNKNOWN_SENDER'
+      } else if (intent === 'UNKNOWN') {
+        appointment = await findNextAppointment(tx, patient.id)
+        outcome = 'HELP_SENT'
+      } else if (intent === 'OPT_OUT' || intent === 'OPT_IN') {
+        // Only the channel the keyword came in on
+        const patientId = patient.id
+        await withAuthContext({ role: 'patient', patientId }, () => setPatientConsent({
+          patientId,
+          channel: message.channel,
+          status: intent === 'OPT_OUT' ? 'OPTED_OUT' : 'GRANTED',
+          source: 'INBOUND_KEYWORD',
+          messageId: message.messageId
+        }, tx))
+        outcome = intent === 'OPT_OUT' ? 'OPTED_OUT' : 'OPTED_IN'
+      } else {
+        // The patient acts on their own appointment
+        const patientId = patient.id
+        const result = await withAuthContext({ role: 'patient', patientId }, async () => {
+          const next = await findNextAppointment(tx, patientId)
+          if (!next) {
+            return { next, outcome: 'NO_APPOINTMENT' as const }
+          }
+
+          return {
+            next,
+            outcome: intent === 'CONFIRM' ? await confirmAppointment(tx, next) : await cancelAppointment(tx, next)
+          }
+        })
+
+        appointment = result.next
+        outcome = result.outcome
+      }
+
+      const clinicId = appointment?.clinicId ?? (patient ? await findLatestClinicId(tx, patient.id) : null)
+
+      await tx.inboundMessage.create({
+        data: {
+          messageId: message.messageId,
+          channel: message.channel,
+          fromNumber: phone,
+          toNumber: message.to,
+          body: message.body,
+          patientId: patient?.id ?? null,
+          clinicId,
+          appointmentId: intent === 'CONFIRM' || intent === 'CANCEL' ? appointment?.id ?? null : null,
+          intent,
+          outcome
+        }
+      })
+
+      return { outcome, appointment, clinicId }
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 5000,
+      timeout: 10000
+    })
+  } catch (error) {
+    // Another delivery of this message got there first
+    const stored = isUniqueViolation(error) ? await findHandledMessage(message.messageId) : null
+    if (stored) {
+      return stored
+    }
+    throw error
+  }
+
+  const { outcome, appointment, clinicId } = handled
+
+  logger.info('Inbound message handled', { messageId: message.messageId, channel: message.channel, intent, outcome })
+
+  const result = await sendMessage({
+    to: phone,
+    message: replyMessage(outcome, patient?.language ?? 'sw', appointment, message.channel),
+    type: 'REPLY',
+    channel: message.channel,
+    appointmentId: appointment?.id,
+    patientId: patient?.id,
+    clinicId: clinicId ?? undefined
+  })
+
+  if (!result.success) {
+    logger.warn('Inbound message reply failed', {
+      messageId: message.messageId,
+      error: result.smsResult?.error ?? result.whatsAppResult?.error
+    })
+  }
+
+  return { intent, outcome }
+}
@@ -0,0 +1,40 @@
+/**
+ * Clinic Inbox Error Responses
+ * Shared by the clinic inbox routes
+ */
+
+import { NextResponse } from 'next/server'
+
+/**
+ * Map inbox-service errors to bilingual responses
+ */
+export function inboxErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof Error)) {
+    return null
+  }
+
+  const responses: Record<string, { error: string; status: number }> = {
+    PATIENT_NOT_FOUND: {
+      error: 'Mgonjwa hajapatikana / Patient not found',
+      status: 404
+    },
+    CONVERSATION_NOT_FOUND: {
+      error: 'Hakuna ujumbe kutoka kwa mgonjwa huyu / No messages from this patient',
+      status: 404
+    },
+    REPLY_FAILED: {
+      error: 'Ujumbe haukutumwa. Jaribu tena / The reply could not be sent. Please try again',
+      status: 502
+    }
+  }
+
+  const mapped = responses[error.message]
+  if (!mapped) {
+    return null
+  }
+
+  return NextResponse.json(
+    { error: mapped.error, code: error.message },
+    { status: mapped.status }
+  )
+}
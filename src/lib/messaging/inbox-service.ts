@@ -0,0 +1,254 @@
+/**
+ * Clinic Inbox Service
+ * Patient messages grouped into one thread per patient, next to the
+ * messages the clinic sent them (sms_logs). A thread is open while any of
+ * its inbound messages is unresolved, so a new message reopens it.
+ *
+ * Only messages matched to a patient and a clinic appear; unknown senders
+ * stay in inbound_messages for support to look up.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { MessagingChannel, InboundIntent, InboundOutcome, SmsStatus, SmsType } from '@prisma/client'
+import { sendMessage } from '@/lib/messaging/unified-messaging'
+
+// Threads listed per page and messages shown per thread
+const CONVERSATION_LIMIT = 100
+const THREAD_MESSAGE_LIMIT = 200
+
+export type InboxStatus = 'open' | 'resolved' | 'all'
+
+export interface ConversationSummary {
+  patientId: string
+  patientName: string
+  phoneNumber: string
+  channel: MessagingChannel // Of the latest message - replies go out on it
+  lastMessage: string
+  lastMessageAt: string
+  openCount: number // Unresolved inbound messages
+}
+
+export type ThreadMessage =
+  | {
+      id: string
+      direction: 'inbound'
+      channel: MessagingChannel
+      body: string
+      intent: InboundIntent
+      outcome: InboundOutcome
+      at: string
+    }
+  | {
+      id: string
+      direction: 'outbound'
+      body: string
+      messageType: SmsType
+      status: SmsStatus
+      at: string
+    }
+
+export interface Conversation {
+  patientId: string
+  patientName: string
+  phoneNumber: string
+  language: string
+  channel: MessagingChannel
+  isOpen: boolean
+  messages: ThreadMessage[] // Oldest first
+}
+
+/**
+ * The clinic's threads, most recent message first
+ */
+export async function listConversations(clinicId: string, status: InboxStatus): Promise<ConversationSummary[]> {
+  const [all, open] = await Promise.all([
+    prisma.inboundMessage.groupBy({
+      by: ['patientId'],
+      where: { clinicId, patientId: { not: null } },
+      _max: { receivedAt: true }
+    }),
+    prisma.inboundMessage.groupBy({
+      by: ['patientId'],
+      where: { clinicId, patientId: { not: null }, resolvedAt: null },
+      _count: { _all: true }
+    })
+  ])
+
+  const openCounts = new Map(open.map(group => [group.patientId as string, group._count._all]))
+
+  const patientIds = all
+    .filter(group => {
+      const isOpen = openCounts.has(group.patientId as string)
+      return status === 'all' || (status === 'open') === isOpen
+    })
+    .sort((a, b) => (b._max.receivedAt?.getTime() ?? 0) - (a._max.receivedAt?.getTime() ?? 0))
+    .slice(0, CONVERSATION_LIMIT)
+    .map(group => group.patientId as string)
+
+  if (patientIds.length === 0) {
+    return []
+  }
+
+  const [latest, patients] = await Promise.all([
+    prisma.inboundMessage.findMany({
+      where: { clinicId, patientId: { in: patientIds } },
+      orderBy: { receivedAt: 'desc' },
+      distinct: ['patientId']
+    }),
+    prisma.patient.findMany({
+      where: { id: { in: patientIds } },
+      select: { id: true, firstName: true, lastName: true, phoneNumber: true }
+    })
+  ])
+
+  const latestByPatient = new Map(latest.map(message => [message.patientId, message]))
+  const patientsById = new Map(patients.map(patient => [patient.id, patient]))
+
+  return patientIds.flatMap(patientId => {
+    const message = latestByPatient.get(patientId)
+    const patient = patientsById.get(patientId)
+    if (!message || !patient) {
+      return []
+    }
+
+    return [{
+      patientId,
+      patientName: `${patient.firstName} ${patient.lastName}`,
+      phoneNumber: patient.phoneNumber,
+      channel: message.channel,
+      lastMessage: message.body,
+      lastMessageAt: message.receivedAt.toISOString(),
+      openCount: openCounts.get(patientId) ?? 0
+    }]
+  })
+}
+
+/**
+ * One patient's thread: their messages and the clinic's, oldest first
+ */
+export async function getConversation(clinicId: string, patientId: string): Promise<Conversation> {
+  const patient = await prisma.patient.findUnique({
+    where: { id: patientId },
+    select: { id: true, firstName: true, lastName: true, phoneNumber: true, language: true }
+  })
+
+  if (!patient) {
+    throw new Error('PATIENT_NOT_FOUND')
+  }
+
+  const [inbound, outbound] = await Promise.all([
+    prisma.inboundMessage.findMany({
+      where: { clinicId, patientId },
+      orderBy: { receivedAt: 'desc' },
+      take: THREAD_MESSAGE_LIMIT
+    }),
+    prisma.smsLog.findMany({
+      where: { clinicId, patientId },
+      orderBy: { createdAt: 'desc' },
+      take: THREAD_MESSAGE_LIMIT
+    })
+  ])
+
+  if (inbound.length === 0) {
+    throw new Error('CONVERSATION_NOT_FOUND')
+  }
+
+  const messages: ThreadMessage[] = [
+    ...inbound.map(message => ({
+      id: message.id,
+      direction: 'inbound' as const,
+      channel: message.channel,
+      body: message.body,
+      intent: message.intent,
+      outcome: message.outcome,
+      at: message.receivedAt.toISOString()
+    })),
+    ...outbound.map(log => ({
+      id: log.id,
+      direction: 'outbound' as const,
+      body: log.messageBody,
+      messageType: log.messageType,
+      status: log.status,
+      at: log.createdAt.toISOString()
+    }))
+  ]
+
+  // ISO strings of the same zone sort by time
+  messages.sort((a, b) => a.at.localeCompare(b.at))
+
+  return {
+    patientId: patient.id,
+    patientName: `${patient.firstName} ${patient.lastName}`,
+    phoneNumber: patient.phoneNumber,
+    language: patient.language,
+    channel: inbound[0].channel,
+    isOpen: inbound.some(message => message.resolvedAt === null),
+    messages
+  }
+}
+
+/**
+ * Answer a patient on the channel of their latest message. The reply is
+ * logged in sms_logs, so it shows up in the thread. As a REPLY it skips
+ * consent and the send window: the patient wrote first.
+ *
+ * @throws CONVERSATION_NOT_FOUND, REPLY_FAILED
+ */
+export async function replyToConversation(params: {
+  clinicId: string
+  patientId: string
+  message: string
+}): Promise<{ channel: MessagingChannel }> {
+  const { clinicId, patientId, message } = params
+
+  const latest = await prisma.inboundMessage.findFirst({
+    where: { clinicId, patientId },
+    orderBy: { receivedAt: 'desc' },
+    select: { channel: true, patient: { select: { phoneNumber: true } } }
+  })
+
+  if (!latest?.patient) {
+    throw new Error('CONVERSATION_NOT_FOUND')
+  }
+
+  const result = await sendMessage({
+    to: latest.patient.phoneNumber,
+    message,
+    type: 'REPLY',
+    channel: latest.channel,
+    patientId,
+    clinicId
+  })
+
+  if (!result.success) {
+    throw new Error('REPLY_FAILED')
+  }
+
+  return { channel: latest.channel }
+}
+
+/**
+ * Mark every open message in a thread resolved. Resolving a thread that
+ * is already resolved changes nothing.
+ */
+export async function resolveConversation(params: {
+  clinicId: string
+  patientId: string
+  resolvedById: string
+}): Promise<number> {
+  const { clinicId, patientId, resolvedById } = params
+
+  const { count } = await prisma.inboundMessage.updateMany({
+    where: { clinicId, patientId, resolvedAt: null },
+    data: { resolvedAt: new Date(), resolvedById }
+  })
+
+  if (count === 0) {
+    const exists = await prisma.inboundMessage.count({ where: { clinicId, patientId } })
+    if (exists === 0) {
+      throw new Error('CONVERSATION_NOT_FOUND')
+    }
+  }
+
+  return count
+}
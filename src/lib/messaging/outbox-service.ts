@@ -0,0 +1,354 @@
+/**
+ * Message Outbox
+ * Every SMS and WhatsApp message goes through outbound_messages:
+ * enqueueMessage() stores it with its sms_logs row and returns at once,
+ * and processOutbox() delivers due messages - right after the request that
+ * queued them, and every minute from /api/cron/process-outbox. Booking and
+ * cancelling never wait on a gateway.
+ *
+ * Messages due outside the clinic's sending hours wait for them (see
+ * send-window.ts), and so do retries.
+ *
+ * A failed send is retried with exponential backoff and dead-lettered
+ * after max_attempts, or straight away for errors a retry cannot fix. At
+ * most OUTBOX_CONCURRENCY sends per gateway are in flight; the count is
+ * read before claiming, so overlapping workers may briefly exceed it.
+ */
+
+import { after } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import type { MessagingChannel, MessagingProviderName, OutboundMessage, OutboxStatus, Prisma, SmsType } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import { withAuthContext } from '@/lib/middleware/authorization'
+import { getProviderByName } from '@/lib/messaging/provider-registry'
+import type { ProviderSendResult } from '@/lib/messaging/providers/messaging-provider'
+import { postWhatsAppMessage } from '@/lib/whatsapp/whatsapp-cloud-api'
+import { scheduleInSendWindow } from '@/lib/messaging/send-window'
+import {
+  OUTBOX_BATCH_SIZE,
+  OUTBOX_CONCURRENCY,
+  OUTBOX_LOCK_TIMEOUT_MS,
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_RETRY_BASE_MS,
+  OUTBOX_RETRY_MAX_MS,
+  OUTBOX_SEND_TIMEOUT_MS,
+  OUTBOX_VERIFICATION_MAX_ATTEMPTS
+} from '@/lib/constants'
+
+// Errors that fail the same way on every attempt (Twilio: invalid,
+// unsubscribed or landline number)
+const PERMANENT_ERROR_CODES = new Set(['CHANNEL_NOT_SUPPORTED', 'INVALID_PHONE', '21211', '21610', '21614'])
+
+export interface EnqueueMessageInput {
+  channel: MessagingChannel
+  provider: MessagingProviderName | null // Null sends WhatsApp through the Cloud API
+  to: string // E.164
+  body: string // Text to send, or a summary of a WhatsApp template for the log
+  payload?: Prisma.InputJsonObject // Cloud API message fields (type, template or text)
+  type: SmsType
+  patientId?: string | null
+  clinicId?: string | null
+  appointmentId?: string | null
+  costUsd: number
+}
+
+export interface OutboxRunResult {
+  claimed: number
+  sent: number
+  retrying: number // Failed this time, another attempt is scheduled
+  dead: number
+}
+
+/**
+ * Queue a message and start delivering it once the current request has
+ * responded, or when the clinic's sending hours next begin
+ *
+ * @returns The outbox message ID
+ */
+export async function enqueueMessage(input: EnqueueMessageInput): Promise<string> {
+  const now = new Date()
+  const sendAt = await scheduleInSendWindow(input.type, input.clinicId, now)
+
+  const message = await prisma.outboundMessage.create({
+    data: {
+      channel: input.channel,
+      provider: input.provider,
+      toNumber: input.to,
+      body: input.body,
+      payload: input.payload,
+      messageType: input.type,
+      patientId: input.patientId || null,
+      clinicId: input.clinicId || null,
+      appointmentId: input.appointmentId || null,
+      maxAttempts: input.type === 'VERIFICATION' ? OUTBOX_VERIFICATION_MAX_ATTEMPTS : OUTBOX_MAX_ATTEMPTS,
+      nextAttemptAt: sendAt,
+      smsLog: {
+        create: {
+          patientId: input.patientId || null,
+          clinicId: input.clinicId || null,
+          phoneNumber: input.to,
+          messageType: input.type,
+          messageBody: input.body,
+          status: 'PENDING',
+          provider: input.provider,
+          costUsd: input.costUsd
+        }
+      }
+    },
+    select: { id: true }
+  })
+
+  if (sendAt <= now) {
+    scheduleDelivery([message.id])
+  }
+
+  return message.id
+}
+
+/**
+ * Deliver messages in the background. Inside a request this runs after
+ * the response is sent; elsewhere (scripts) it just isn't awaited.
+ */
+function scheduleDelivery(ids: string[]): void {
+  const deliver = () =>
+    withAuthContext({ role: 'system' }, () => processOutbox({ ids }))
+      .then(() => undefined)
+      .catch(error => {
+        logger.error('Outbox delivery failed', { error: error instanceof Error ? error.message : String(error) })
+      })
+
+  try {
+    after(deliver)
+  } catch {
+    void deliver()
+  }
+}
+
+/**
+ * Delay before the attempt after `attempts` failed ones: base, 2x, 4x...
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_RETRY_MAX_MS)
+}
+
+// Concurrency limits are per gateway; WhatsApp Cloud API messages have no provider
+function gatewayOf(message: Pick<OutboundMessage, 'provider'>): string {
+  return message.provider ?? 'WHATSAPP'
+}
+
+/**
+ * Claim and send due messages
+ *
+ * @param options.ids - Only these messages (when due), e.g. the ones a request just queued
+ * @param options.limit - Most messages claimed in this run
+ */
+export async function processOutbox(options: { ids?: string[]; limit?: number } = {}): Promise<OutboxRunResult> {
+  const { ids, limit = OUTBOX_BATCH_SIZE } = options
+  const result: OutboxRunResult = { claimed: 0, sent: 0, retrying: 0, dead: 0 }
+
+  await releaseStaleClaims(result)
+
+  const [due, inFlight] = await Promise.all([
+    prisma.outboundMessage.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: new Date() },
+        ...(ids ? { id: { in: ids } } : {})
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit
+    }),
+    prisma.outboundMessage.groupBy({
+      by: ['provider'],
+      where: { status: 'SENDING' },
+      _count: { _all: true }
+    })
+  ])
+
+  const busy = new Map(inFlight.map(group => [gatewayOf(group), group._count._all]))
+  const claimed: OutboundMessage[] = []
+
+  for (const message of due) {
+    const gateway = gatewayOf(message)
+    const used = busy.get(gateway) ?? 0
+    if (used >= (OUTBOX_CONCURRENCY[gateway] ?? 1)) {
+      continue // Picked up by a later run
+    }
+
+    // Another worker may have claimed it since it was read
+    const { count } = await prisma.outboundMessage.updateMany({
+      where: { id: message.id, status: 'PENDING' },
+      data: { status: 'SENDING', lockedAt: new Date(), attempts: { increment: 1 } }
+    })
+
+    if (count === 1) {
+      busy.set(gateway, used + 1)
+      claimed.push({ ...message, attempts: message.attempts + 1 })
+    }
+  }
+
+  result.claimed = claimed.length
+
+  const outcomes = await Promise.all(claimed.map(deliverMessage))
+  for (const outcome of outcomes) {
+    result[outcome]++
+  }
+
+  if (result.claimed > 0) {
+    logger.info('Outbox run completed', { ...result })
+  }
+
+  return result
+}
+
+/**
+ * Return messages whose worker died mid-send to the queue (or dead-letter
+ * them when that was their last attempt)
+ */
+async function releaseStaleClaims(result: OutboxRunResult): Promise<void> {
+  const stale = await prisma.outboundMessage.findMany({
+    where: { status: 'SENDING', lockedAt: { lt: new Date(Date.now() - OUTBOX_LOCK_TIMEOUT_MS) } }
+  })
+
+  for (const message of stale) {
+    result[await recordFailure(message, { success: false, error: 'Worker timed out', errorCode: 'TIMEOUT' })]++
+  }
+}
+
+async function sendThroughGateway(message: OutboundMessage, signal: AbortSignal): Promise<ProviderSendResult> {
+  if (message.provider === null) {
+    return postWhatsAppMessage(message.toNumber, (message.payload ?? {}) as Record<string, unknown>, signal)
+  }
+
+  return getProviderByName(message.provider).send({
+    to: message.toNumber,
+    body: message.body,
+    channel: message.channel,
+    signal
+  })
+}
+
+/**
+ * A gateway that does not answer in time has its request aborted and the
+ * attempt counts as failed. The send is awaited to the end rather than
+ * raced, so a retry never runs while the request may still go through;
+ * one that succeeds despite the abort is recorded as sent.
+ */
+async function sendWithTimeout(message: OutboundMessage): Promise<ProviderSendResult> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), OUTBOX_SEND_TIMEOUT_MS)
+
+  try {
+    const result = await sendThroughGateway(message, controller.signal)
+    return !result.success && controller.signal.aborted
+      ? { success: false, error: 'Provider timed out', errorCode: 'TIMEOUT', response: result.response }
+      : result
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Send one claimed message and record the outcome on it and its SMS log
+ */
+async function deliverMessage(message: OutboundMessage): Promise<'sent' | 'retrying' | 'dead'> {
+  let sendResult: ProviderSendResult
+  try {
+    sendResult = await sendWithTimeout(message)
+  } catch (error) {
+    sendResult = { success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN' }
+  }
+
+  if (!sendResult.success) {
+    logger.error('Outbox send failed', {
+      outboxId: message.id,
+      gateway: gatewayOf(message),
+      attempt: message.attempts,
+      code: sendResult.errorCode,
+      message: sendResult.error
+    })
+    return recordFailure(message, sendResult)
+  }
+
+  const now = new Date()
+  await prisma.$transaction(async (tx) => {
+    await tx.outboundMessage.update({
+      where: { id: message.id },
+      data: { status: 'SENT', sentAt: now, lockedAt: null, lastError: null }
+    })
+    await tx.smsLog.update({
+      where: { id: message.smsLogId },
+      data: {
+        messageId: sendResult.messageId,
+        status: sendResult.status ?? 'SENT',
+        sentAt: now,
+        errorCode: null,
+        errorMessage: null,
+        twilioResponse: sendResult.response
+      }
+    })
+  })
+
+  return 'sent'
+}
+
+/**
+ * Schedule the next attempt, or dead-letter the message and mark its SMS
+ * log FAILED
+ */
+async function recordFailure(
+  message: OutboundMessage,
+  sendResult: ProviderSendResult
+): Promise<'retrying' | 'dead'> {
+  const errorCode = sendResult.errorCode || 'UNKNOWN'
+  const error = sendResult.error || 'Send failed'
+  const isDead = message.attempts >= message.maxAttempts || PERMANENT_ERROR_CODES.has(errorCode)
+  const retryAt = isDead
+    ? null
+    : await scheduleInSendWindow(message.messageType, message.clinicId, new Date(Date.now() + retryDelayMs(message.attempts)))
+
+  await prisma.$transaction(async (tx) => {
+    await tx.outboundMessage.update({
+      where: { id: message.id },
+      data: !retryAt
+        ? { status: 'DEAD', lockedAt: null, lastError: error }
+        : {
+            status: 'PENDING',
+            lockedAt: null,
+            lastError: error,
+            nextAttemptAt: retryAt
+          }
+    })
+    await tx.smsLog.update({
+      where: { id: message.smsLogId },
+      data: {
+        status: isDead ? 'FAILED' : 'PENDING',
+        errorCode,
+        errorMessage: error,
+        twilioResponse: sendResult.response
+      }
+    })
+  })
+
+  if (isDead) {
+    logger.error('Outbox message dead-lettered', { outboxId: message.id, attempts: message.attempts, code: errorCode })
+  }
+
+  return isDead ? 'dead' : 'retrying'
+}
+
+/**
+ * Messages per outbox status
+ */
+export async function getOutboxStats(): Promise<Record<OutboxStatus, number>> {
+  const groups = await prisma.outboundMessage.groupBy({
+    by: ['status'],
+    _count: { _all: true }
+  })
+
+  const stats: Record<OutboxStatus, number> = { PENDING: 0, SENDING: 0, SENT: 0, DEAD: 0 }
+  for (const group of groups) {
+    stats[group.status] = group._count._all
+  }
+  return stats
+}
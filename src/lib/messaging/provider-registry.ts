@@ -0,0 +1,84 @@
+/**
+ * Messaging Provider Registry
+ * Picks the gateway for a message: the clinic's own choice
+ * (clinics.messaging_provider), else MESSAGING_PROVIDER, else Twilio.
+ *
+ *   MESSAGING_PROVIDER=fake npm run dev   # record messages instead of sending
+ */
+
+import type { MessagingChannel, MessagingProviderName } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import type { MessagingProvider } from '@/lib/messaging/providers/messaging-provider'
+import { twilioProvider } from '@/lib/messaging/providers/twilio-provider'
+import { africasTalkingProvider } from '@/lib/messaging/providers/africastalking-provider'
+import { beemProvider } from '@/lib/messaging/providers/beem-provider'
+import { fakeProvider } from '@/lib/messaging/providers/fake-provider'
+
+const PROVIDERS: Record<MessagingProviderName, MessagingProvider> = {
+  TWILIO: twilioProvider,
+  AFRICASTALKING: africasTalkingProvider,
+  BEEM: beemProvider,
+  FAKE: fakeProvider
+}
+
+/**
+ * Provider for a name as written in env and webhook URLs
+ * ("twilio", "africastalking", "beem", "fake"), or null
+ */
+export function parseProviderName(value: string | null | undefined): MessagingProviderName | null {
+  const name = value?.trim().toUpperCase()
+  return name && name in PROVIDERS ? name as MessagingProviderName : null
+}
+
+export function getProviderByName(name: MessagingProviderName): MessagingProvider {
+  return PROVIDERS[name]
+}
+
+/**
+ * Every provider, for settings screens and health checks
+ */
+export function listProviders(): MessagingProvider[] {
+  return Object.values(PROVIDERS)
+}
+
+/**
+ * The provider set by MESSAGING_PROVIDER (Twilio if unset or unknown)
+ */
+export function getDefaultProvider(): MessagingProvider {
+  const configured = process.env.MESSAGING_PROVIDER
+  const name = parseProviderName(configured)
+
+  if (configured && !name) {
+    logger.warn('Unknown MESSAGING_PROVIDER, using Twilio', { value: configured })
+  }
+
+  return PROVIDERS[name ?? 'TWILIO']
+}
+
+/**
+ * The provider for a clinic's messages
+ */
+export async function getMessagingProvider(clinicId?: string | null): Promise<MessagingProvider> {
+  if (clinicId) {
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinicId },
+      select: { messagingProvider: true }
+    })
+
+    if (clinic?.messagingProvider) {
+      return PROVIDERS[clinic.messagingProvider]
+    }
+  }
+
+  return getDefaultProvider()
+}
+
+/**
+ * Whether messages on a channel can go out at all: the default provider
+ * or one a clinic may choose is configured for it
+ */
+export function isMessagingConfigured(channel: MessagingChannel = 'SMS'): boolean {
+  const candidates = [getDefaultProvider(), twilioProvider, africasTalkingProvider, beemProvider]
+  return candidates.some(provider => provider.isConfigured() && provider.channels.includes(channel))
+}
@@ -0,0 +1,143 @@
+/**
+ * Africa's Talking Provider
+ * SMS through the Africa's Talking Messaging API. Delivery reports and
+ * incoming messages are posted form-encoded to the callback URLs set in
+ * the AT dashboard; those URLs carry AFRICASTALKING_WEBHOOK_TOKEN.
+ * https://developers.africastalking.com/docs/sms/overview
+ */
+
+import type { SmsStatus } from '@prisma/client'
+import type { MessagingProvider, WebhookRequest } from '@/lib/messaging/providers/messaging-provider'
+import { hasValidWebhookToken } from '@/lib/messaging/providers/webhook-token'
+
+const username = process.env.AFRICASTALKING_USERNAME
+const apiKey = process.env.AFRICASTALKING_API_KEY
+const senderId = process.env.AFRICASTALKING_SENDER_ID // Optional alphanumeric sender or short code
+
+// The "sandbox" username talks to the sandbox API
+const API_URL = username === 'sandbox'
+  ? 'https://api.sandbox.africastalking.com/version1/messaging'
+  : 'https://api.africastalking.com/version1/messaging'
+
+// Recipient status codes meaning the message was accepted
+const ACCEPTED_STATUS_CODES = [100, 101, 102] // Processed, Sent, Queued
+
+interface AtRecipient {
+  statusCode: number
+  number: string
+  status: string
+  cost: string
+  messageId: string
+}
+
+/**
+ * Map a delivery report status to our internal status
+ */
+function mapAtStatus(status: string): SmsStatus {
+  const statusMap: Record<string, SmsStatus> = {
+    'Submitted': 'SENT',
+    'Buffered': 'SENT',
+    'Sent': 'SENT',
+    'Success': 'DELIVERED',
+    'Rejected': 'FAILED',
+    'Failed': 'UNDELIVERED'
+  }
+
+  return statusMap[status] || 'FAILED'
+}
+
+export const africasTalkingProvider: MessagingProvider = {
+  name: 'AFRICASTALKING',
+  channels: ['SMS'],
+
+  isConfigured() {
+    return !!username && !!apiKey
+  },
+
+  async send({ to, body, channel, signal }) {
+    if (!username || !apiKey) {
+      return { success: false, error: 'Africa\'s Talking not configured. Check environment variables.' }
+    }
+
+    if (channel !== 'SMS') {
+      return { success: false, error: 'Africa\'s Talking sends SMS only', errorCode: 'CHANNEL_NOT_SUPPORTED' }
+    }
+
+    const form = new URLSearchParams({ username, to, message: body })
+    if (senderId) {
+      form.set('from', senderId)
+    }
+
+    try {
+      const response = await fetch(API_URL, {
+        method: 'POST',
+        signal,
+        headers: {
+          'apiKey': apiKey,
+          'Accept': 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: form
+      })
+
+      const text = await response.text()
+      if (!response.ok) {
+        return { success: false, error: text || `HTTP ${response.status}`, errorCode: String(response.status), response: text }
+      }
+
+      const data = JSON.parse(text) as { SMSMessageData?: { Message?: string; Recipients?: AtRecipient[] } }
+      const recipient = data.SMSMessageData?.Recipients?.[0]
+
+      if (!recipient || !ACCEPTED_STATUS_CODES.includes(recipient.statusCode)) {
+        return {
+          success: false,
+          error: recipient?.status || data.SMSMessageData?.Message || 'Message rejected',
+          errorCode: recipient ? String(recipient.statusCode) : 'UNKNOWN',
+          response: text
+        }
+      }
+
+      return { success: true, messageId: recipient.messageId, status: 'SENT', response: text }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN' }
+    }
+  },
+
+  parseStatusCallback({ body }: WebhookRequest) {
+    const params = new URLSearchParams(body)
+    const messageId = params.get('id')
+    const status = params.get('status')
+    if (!messageId || !status) {
+      return null
+    }
+
+    const failureReason = params.get('failureReason') || undefined
+    return {
+      messageId,
+      status: mapAtStatus(status),
+      errorCode: failureReason,
+      errorMessage: failureReason
+    }
+  },
+
+  parseInbound({ body }: WebhookRequest) {
+    const params = new URLSearchParams(body)
+    const messageId = params.get('id')
+    const from = params.get('from')
+    const to = params.get('to')
+    const text = params.get('text')
+    if (!messageId || !from || !to || text === null) {
+      return []
+    }
+
+    return [{ messageId, channel: 'SMS', from, to, body: text }]
+  },
+
+  validateSignature({ url }: WebhookRequest) {
+    return hasValidWebhookToken(url, process.env.AFRICASTALKING_WEBHOOK_TOKEN)
+  },
+
+  webhookResponse() {
+    return { body: '', contentType: 'text/plain' }
+  }
+}
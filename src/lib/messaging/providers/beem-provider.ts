@@ -0,0 +1,151 @@
+/**
+ * Beem Provider
+ * SMS through Beem Africa (Tanzanian sender IDs). Delivery reports and
+ * two-way SMS are posted as JSON to the callback URLs set in the Beem
+ * dashboard; those URLs carry BEEM_WEBHOOK_TOKEN.
+ * https://docs.beem.africa/#api-_
+ */
+
+import type { SmsStatus } from '@prisma/client'
+import type { MessagingProvider, WebhookRequest } from '@/lib/messaging/providers/messaging-provider'
+import { hasValidWebhookToken } from '@/lib/messaging/providers/webhook-token'
+
+const apiKey = process.env.BEEM_API_KEY
+const secretKey = process.env.BEEM_SECRET_KEY
+const senderId = process.env.BEEM_SENDER_ID
+
+const API_URL = 'https://apisms.beem.africa/v1/send'
+
+// Beem numbers have no leading +
+function toBeemNumber(phone: string): string {
+  return phone.replace(/^\+/, '')
+}
+
+function toE164(phone: string): string {
+  return phone.startsWith('+') ? phone : `+${phone}`
+}
+
+/**
+ * Map a delivery report status to our internal status
+ */
+function mapBeemStatus(status: string): SmsStatus {
+  const statusMap: Record<string, SmsStatus> = {
+    'PENDING': 'SENT',
+    'DELIVERED': 'DELIVERED',
+    'UNDELIVERED': 'UNDELIVERED',
+    'EXPIRED': 'UNDELIVERED',
+    'REJECTED': 'FAILED'
+  }
+
+  return statusMap[status.toUpperCase()] || 'FAILED'
+}
+
+function parseJson(body: string): Record<string, unknown> | null {
+  try {
+    const data = JSON.parse(body)
+    return data && typeof data === 'object' ? data as Record<string, unknown> : null
+  } catch {
+    return null
+  }
+}
+
+export const beemProvider: MessagingProvider = {
+  name: 'BEEM',
+  channels: ['SMS'],
+
+  isConfigured() {
+    return !!apiKey && !!secretKey && !!senderId
+  },
+
+  async send({ to, body, channel, signal }) {
+    if (!apiKey || !secretKey || !senderId) {
+      return { success: false, error: 'Beem not configured. Check environment variables.' }
+    }
+
+    if (channel !== 'SMS') {
+      return { success: false, error: 'Beem sends SMS only', errorCode: 'CHANNEL_NOT_SUPPORTED' }
+    }
+
+    try {
+      const response = await fetch(API_URL, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${apiKey}:${secretKey}`).toString('base64')}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          source_addr: senderId,
+          schedule_time: '',
+          encoding: 0,
+          message: body,
+          recipients: [{ recipient_id: 1, dest_addr: toBeemNumber(to) }]
+        })
+      })
+
+      const text = await response.text()
+      const data = parseJson(text)
+
+      if (!response.ok || !data?.successful) {
+        return {
+          success: false,
+          error: typeof data?.message === 'string' ? data.message : `HTTP ${response.status}`,
+          errorCode: data?.code !== undefined ? String(data.code) : String(response.status),
+          response: text
+        }
+      }
+
+      return { success: true, messageId: String(data.request_id), status: 'SENT', response: text }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN' }
+    }
+  },
+
+  parseStatusCallback({ body }: WebhookRequest) {
+    const data = parseJson(body)
+    if (!data || data.request_id === undefined || typeof data.status !== 'string') {
+      return null
+    }
+
+    const status = mapBeemStatus(data.status)
+    return {
+      messageId: String(data.request_id),
+      status,
+      errorCode: status === 'DELIVERED' || status === 'SENT' ? undefined : data.status
+    }
+  },
+
+  parseInbound({ body }: WebhookRequest) {
+    const data = parseJson(body)
+    if (!data) {
+      return []
+    }
+
+    // The text arrives as message: "..." or message: { text: "..." }
+    const message = data.message
+    const text = typeof message === 'string'
+      ? message
+      : (message as { text?: unknown } | undefined)?.text
+    const messageId = data.transaction_id ?? data.id
+
+    if (typeof data.from !== 'string' || typeof text !== 'string' || messageId === undefined) {
+      return []
+    }
+
+    return [{
+      messageId: String(messageId),
+      channel: 'SMS',
+      from: toE164(data.from),
+      to: typeof data.to === 'string' ? data.to : senderId ?? '',
+      body: text
+    }]
+  },
+
+  validateSignature({ url }: WebhookRequest) {
+    return hasValidWebhookToken(url, process.env.BEEM_WEBHOOK_TOKEN)
+  },
+
+  webhookResponse() {
+    return { body: JSON.stringify({ received: true }), contentType: 'application/json' }
+  }
+}
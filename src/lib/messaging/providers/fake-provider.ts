@@ -0,0 +1,136 @@
+/**
+ * Fake Provider
+ * Sends nothing: every message is recorded so local development and tests
+ * run without gateway credentials. Messages are kept in memory, and also
+ * appended as JSON lines to MESSAGING_FAKE_FILE when it is set (shared
+ * between processes, e.g. the dev server and a script).
+ *
+ * Inspect them with getFakeMessages() or GET /api/dev/messages. Delivery
+ * reports and patient replies can be simulated by posting JSON to
+ * /api/webhooks/messaging/fake/status and .../fake/inbound.
+ *
+ * Never accepted in production: webhooks fail validation there.
+ */
+
+import { appendFile, readFile, writeFile } from 'fs/promises'
+import crypto from 'crypto'
+import type { MessagingChannel, SmsStatus } from '@prisma/client'
+import type { MessagingProvider, WebhookRequest } from '@/lib/messaging/providers/messaging-provider'
+
+export interface FakeMessage {
+  messageId: string
+  channel: MessagingChannel
+  to: string
+  body: string
+  sentAt: string
+}
+
+const SMS_STATUSES: SmsStatus[] = ['PENDING', 'SENT', 'DELIVERED', 'FAILED', 'UNDELIVERED']
+
+// Survives hot reloads, like the Prisma client
+const globalForFake = global as unknown as { fakeMessages?: FakeMessage[] }
+const memory = globalForFake.fakeMessages ?? (globalForFake.fakeMessages = [])
+
+function parseJson(body: string): Record<string, unknown> | null {
+  try {
+    const data = JSON.parse(body)
+    return data && typeof data === 'object' ? data as Record<string, unknown> : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Messages sent through the fake provider, oldest first
+ */
+export async function getFakeMessages(): Promise<FakeMessage[]> {
+  const file = process.env.MESSAGING_FAKE_FILE
+  if (!file) {
+    return [...memory]
+  }
+
+  const contents = await readFile(file, 'utf8').catch(() => '')
+  return contents
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as FakeMessage)
+}
+
+/**
+ * Forget recorded messages (between tests)
+ */
+export async function clearFakeMessages(): Promise<void> {
+  memory.length = 0
+
+  const file = process.env.MESSAGING_FAKE_FILE
+  if (file) {
+    await writeFile(file, '')
+  }
+}
+
+export const fakeProvider: MessagingProvider = {
+  name: 'FAKE',
+  channels: ['SMS', 'WHATSAPP'],
+
+  isConfigured() {
+    return process.env.NODE_ENV !== 'production'
+  },
+
+  async send({ to, body, channel }) {
+    const message: FakeMessage = {
+      messageId: `fake-${crypto.randomUUID()}`,
+      channel,
+      to,
+      body,
+      sentAt: new Date().toISOString()
+    }
+
+    memory.push(message)
+
+    const file = process.env.MESSAGING_FAKE_FILE
+    if (file) {
+      await appendFile(file, JSON.stringify(message) + '\n')
+    }
+
+    return { success: true, messageId: message.messageId, status: 'SENT', response: JSON.stringify(message) }
+  },
+
+  // { "messageId": "fake-...", "status": "DELIVERED", "errorCode"?: "..." }
+  parseStatusCallback({ body }: WebhookRequest) {
+    const data = parseJson(body)
+    if (typeof data?.messageId !== 'string' || !SMS_STATUSES.includes(data.status as SmsStatus)) {
+      return null
+    }
+
+    return {
+      messageId: data.messageId,
+      status: data.status as SmsStatus,
+      errorCode: typeof data.errorCode === 'string' ? data.errorCode : undefined,
+      errorMessage: typeof data.errorCode === 'string' ? 'Simulated failure' : undefined
+    }
+  },
+
+  // { "from": "+2557...", "body": "NDIYO", "to"?: "...", "channel"?: "WHATSAPP", "messageId"?: "..." }
+  parseInbound({ body }: WebhookRequest) {
+    const data = parseJson(body)
+    if (typeof data?.from !== 'string' || typeof data.body !== 'string') {
+      return []
+    }
+
+    return [{
+      messageId: typeof data.messageId === 'string' ? data.messageId : `fake-in-${crypto.randomUUID()}`,
+      channel: data.channel === 'WHATSAPP' ? 'WHATSAPP' : 'SMS',
+      from: data.from,
+      to: typeof data.to === 'string' ? data.to : 'fake',
+      body: data.body
+    }]
+  },
+
+  validateSignature() {
+    return process.env.NODE_ENV !== 'production'
+  },
+
+  webhookResponse() {
+    return { body: JSON.stringify({ received: true }), contentType: 'application/json' }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Messaging Provider
+ * What the app needs from an SMS/WhatsApp gateway: sending, reading its
+ * delivery callbacks and inbound messages, and checking that a webhook
+ * really came from it. The provider for a message is picked by
+ * getMessagingProvider() (src/lib/messaging/provider-registry.ts).
+ */
+
+import type { MessagingChannel, MessagingProviderName, SmsStatus } from '@prisma/client'
+
+export interface OutboundMessage {
+  to: string // E.164
+  body: string
+  channel: MessagingChannel
+  signal?: AbortSignal // Aborts the request when the outbox stops waiting
+}
+
+export interface ProviderSendResult {
+  success: boolean
+  messageId?: string // Provider's ID, matched by delivery callbacks
+  status?: SmsStatus // Status right after sending (SENT unless the gateway says otherwise)
+  error?: string
+  errorCode?: string
+  response?: string // Raw response, kept in sms_logs for support
+}
+
+// A delivery report for a message sent earlier
+export interface DeliveryStatusUpdate {
+  messageId: string
+  status: SmsStatus
+  errorCode?: string
+  errorMessage?: string
+}
+
+// A message a patient sent to the clinic number
+export interface ParsedInboundMessage {
+  messageId: string
+  channel: MessagingChannel
+  from: string
+  to: string
+  body: string
+}
+
+// The parts of a webhook request providers look at
+export interface WebhookRequest {
+  url: string // Public URL the provider called, with the query string
+  headers: Headers
+  body: string // Raw body
+}
+
+export interface MessagingProvider {
+  name: MessagingProviderName
+  channels: MessagingChannel[]
+  isConfigured(): boolean
+  send(message: OutboundMessage): Promise<ProviderSendResult>
+  // Null when the callback is not a delivery report this app tracks
+  parseStatusCallback(request: WebhookRequest): DeliveryStatusUpdate | null
+  // Empty when the request carries no text messages
+  parseInbound(request: WebhookRequest): ParsedInboundMessage[]
+  validateSignature(request: WebhookRequest): boolean
+  // What the gateway expects back from a webhook
+  webhookResponse(): { body: string; contentType: string }
+}
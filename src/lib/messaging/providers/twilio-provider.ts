@@ -0,0 +1,175 @@
+/**
+ * Twilio Provider
+ * SMS through Twilio's Messages API. Status callbacks and inbound messages
+ * are form-encoded and signed with X-Twilio-Signature. Messages arriving
+ * from a Twilio WhatsApp sender (whatsapp:+255...) are read as WhatsApp.
+ */
+
+import twilio from 'twilio'
+import type { SmsStatus } from '@prisma/client'
+import { validateTwilioSignature } from '@/lib/sms/twilio-signature'
+import type { MessagingProvider, WebhookRequest } from '@/lib/messaging/providers/messaging-provider'
+import { OUTBOX_SEND_TIMEOUT_MS } from '@/lib/constants'
+
+const accountSid = process.env.TWILIO_ACCOUNT_SID
+const authToken = process.env.TWILIO_AUTH_TOKEN
+const fromPhoneNumber = process.env.TWILIO_PHONE_NUMBER
+
+// The SDK takes no AbortSignal, so it gives up on the request itself when
+// the outbox would stop waiting
+const twilioClient = accountSid && authToken
+  ? twilio(accountSid, authToken, { timeout: OUTBOX_SEND_TIMEOUT_MS })
+  : null
+
+const WHATSAPP_PREFIX = 'whatsapp:'
+
+/**
+ * Get human-readable error message for Twilio error codes
+ */
+export function getTwilioErrorMessage(code: string, defaultMessage: string): string {
+  const errorMessages: Record<string, string> = {
+    '21211': 'Invalid phone number format',
+    '21214': 'Phone number not valid for messaging',
+    '21606': 'From number not valid for messaging',
+    '21610': 'Message cannot be delivered to this number',
+    '21612': 'To number not reachable',
+    '21614': 'Not a mobile number',
+    '30001': 'Queue overflow - too many messages queued',
+    '30002': 'Account suspended',
+    '30003': 'Unreachable destination handset',
+    '30004': 'Message blocked',
+    '30005': 'Unknown destination handset',
+    '30006': 'Landline or unreachable carrier',
+    '30007': 'Carrier violation - message filtered',
+    '30008': 'Unknown error',
+    '30009': 'Missing segment - one or more segments failed',
+    '30010': 'Message price exceeds max price',
+    '21602': 'Message body is required',
+    '20003': 'Permission denied - check credentials',
+    '20429': 'Rate limit exceeded - too many messages sent'
+  }
+
+  return errorMessages[code] || defaultMessage
+}
+
+/**
+ * Map Twilio status to our internal status
+ */
+export function mapTwilioStatus(twilioStatus: string): SmsStatus {
+  const statusMap: Record<string, SmsStatus> = {
+    'queued': 'PENDING',
+    'accepted': 'SENT',
+    'scheduled': 'PENDING',
+    'sending': 'SENT',
+    'sent': 'SENT',
+    'delivered': 'DELIVERED',
+    'undelivered': 'UNDELIVERED',
+    'failed': 'FAILED',
+    'received': 'DELIVERED',
+    'canceled': 'FAILED'
+  }
+
+  return statusMap[twilioStatus.toLowerCase()] || 'FAILED'
+}
+
+function stripWhatsAppPrefix(address: string): string {
+  return address.startsWith(WHATSAPP_PREFIX) ? address.slice(WHATSAPP_PREFIX.length) : address
+}
+
+export const twilioProvider: MessagingProvider = {
+  name: 'TWILIO',
+  channels: ['SMS'],
+
+  isConfigured() {
+    return !!twilioClient && !!fromPhoneNumber
+  },
+
+  async send({ to, body, channel }) {
+    if (!twilioClient) {
+      return { success: false, error: 'Twilio client not configured. Check environment variables.' }
+    }
+
+    if (channel !== 'SMS') {
+      return { success: false, error: 'WhatsApp goes through the WhatsApp Business API', errorCode: 'CHANNEL_NOT_SUPPORTED' }
+    }
+
+    try {
+      const message = await twilioClient.messages.create({
+        body,
+        from: fromPhoneNumber,
+        to,
+        statusCallback: process.env.TWILIO_STATUS_CALLBACK_URL // Optional: webhook for delivery updates
+      })
+
+      return {
+        success: true,
+        messageId: message.sid,
+        status: 'SENT',
+        response: JSON.stringify({
+          sid: message.sid,
+          status: message.status,
+          direction: message.direction,
+          dateCreated: message.dateCreated
+        })
+      }
+    } catch (error) {
+      const err = error as { code?: string | number; message: string; moreInfo?: string }
+      const errorCode = err.code ? String(err.code) : 'UNKNOWN'
+
+      return {
+        success: false,
+        error: getTwilioErrorMessage(errorCode, err.message),
+        errorCode,
+        response: JSON.stringify({ error: err.message, code: errorCode, moreInfo: err.moreInfo })
+      }
+    }
+  },
+
+  parseStatusCallback({ body }: WebhookRequest) {
+    const params = new URLSearchParams(body)
+    const messageId = params.get('MessageSid')
+    const status = params.get('MessageStatus')
+    if (!messageId || !status) {
+      return null
+    }
+
+    const errorCode = params.get('ErrorCode') || undefined
+    return {
+      messageId,
+      status: mapTwilioStatus(status),
+      errorCode,
+      errorMessage: errorCode ? getTwilioErrorMessage(errorCode, `Delivery error (${errorCode})`) : undefined
+    }
+  },
+
+  parseInbound({ body }: WebhookRequest) {
+    const params = new URLSearchParams(body)
+    const messageId = params.get('MessageSid')
+    const from = params.get('From')
+    const to = params.get('To')
+    const text = params.get('Body')
+    if (!messageId || !from || !to || text === null) {
+      return []
+    }
+
+    return [{
+      messageId,
+      channel: from.startsWith(WHATSAPP_PREFIX) ? 'WHATSAPP' : 'SMS',
+      from: stripWhatsAppPrefix(from),
+      to: stripWhatsAppPrefix(to),
+      body: text
+    }]
+  },
+
+  validateSignature({ url, headers, body }: WebhookRequest) {
+    return validateTwilioSignature({ headers }, new URLSearchParams(body), url)
+  },
+
+  webhookResponse() {
+    // Empty TwiML - Twilio sends nothing back itself
+    return {
+      body: '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+      contentType: 'text/xml'
+    }
+  }
+}
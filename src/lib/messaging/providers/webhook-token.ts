@@ -0,0 +1,25 @@
+/**
+ * Webhook Tokens
+ * Africa's Talking and Beem do not sign their callbacks, so their webhook
+ * URLs carry a shared secret instead: .../status?token=<secret>
+ */
+
+import crypto from 'crypto'
+
+/**
+ * Whether the URL's ?token= matches the configured secret (timing-safe)
+ */
+export function hasValidWebhookToken(url: string, secret: string | undefined): boolean {
+  if (!secret) {
+    return false
+  }
+
+  const token = new URL(url).searchParams.get('token')
+  if (!token) {
+    return false
+  }
+
+  const expected = crypto.createHash('sha256').update(secret).digest()
+  const actual = crypto.createHash('sha256').update(token).digest()
+  return crypto.timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,119 @@
+/**
+ * Send Window
+ * The hours (EAT) a clinic's patient messages may go out, e.g. 07:00-21:00.
+ * What happens to a message due outside them depends on its type:
+ * - defer: queued now, sent when the window next opens
+ * - early: reminders ahead of the day; the reminder engine queues them
+ *   before the window closes instead, so a 24h reminder for a 2am
+ *   appointment arrives the evening before rather than at 7am on the day.
+ *   Queued outside the window anyway (manual sends, late bookings), they
+ *   are deferred.
+ * - exempt: OTPs and replies to the patient's own messages go out at once
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { SmsType } from '@prisma/client'
+import { toTanzaniaTime, MILLISECONDS_PER_MINUTE } from '@/lib/timezone'
+import { timeToMinutes } from '@/lib/date-utils'
+import { SEND_WINDOW_DEFAULT_END, SEND_WINDOW_DEFAULT_START } from '@/lib/constants'
+
+const MINUTES_PER_DAY = 24 * 60
+
+export interface SendWindow {
+  start: string // "HH:MM" EAT
+  end: string // "HH:MM" EAT, exclusive; may be past midnight
+}
+
+export type SendWindowPolicy = 'defer' | 'early' | 'exempt'
+
+export const SEND_WINDOW_POLICIES: Record<SmsType, SendWindowPolicy> = {
+  BOOKING_CONFIRMATION: 'defer',
+  REMINDER_24H: 'early',
+  REMINDER_1H: 'defer', // Says "today", so it cannot go out the evening before
+  REMINDER_ADVANCE: 'early',
+  CANCELLATION: 'defer',
+  RESCHEDULE: 'defer',
+  GENERAL: 'defer',
+  REPLY: 'exempt', // The patient is waiting for it
+  CHECK_IN_CONFIRMATION: 'defer',
+  VERIFICATION: 'exempt'
+}
+
+function minuteOfDay(at: Date): number {
+  const eat = toTanzaniaTime(at)
+  return eat.getUTCHours() * 60 + eat.getUTCMinutes()
+}
+
+function startOfMinute(at: Date): number {
+  return at.getTime() - (at.getTime() % MILLISECONDS_PER_MINUTE)
+}
+
+/**
+ * Whether messages may go out at `at`
+ */
+export function isWithinSendWindow(window: SendWindow, at: Date): boolean {
+  const minute = minuteOfDay(at)
+  const start = timeToMinutes(window.start)
+  const end = timeToMinutes(window.end)
+
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end
+}
+
+/**
+ * `at`, or when the window next opens if it is closed then
+ */
+export function nextSendTime(window: SendWindow, at: Date): Date {
+  if (isWithinSendWindow(window, at)) {
+    return at
+  }
+
+  const minutesUntilOpen = (timeToMinutes(window.start) - minuteOfDay(at) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  return new Date(startOfMinute(at) + minutesUntilOpen * MILLISECONDS_PER_MINUTE)
+}
+
+/**
+ * `at`, or if the window is closed then, `marginMinutes` before it last
+ * closed - early enough for a job that runs every `marginMinutes` to
+ * catch it while the window is still open
+ */
+export function previousSendTime(window: SendWindow, at: Date, marginMinutes: number): Date {
+  if (isWithinSendWindow(window, at)) {
+    return at
+  }
+
+  const minutesSinceClose = (minuteOfDay(at) - timeToMinutes(window.end) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  return new Date(startOfMinute(at) - (minutesSinceClose + marginMinutes) * MILLISECONDS_PER_MINUTE)
+}
+
+/**
+ * A clinic's window, null when it sends at any time. Messages without a
+ * clinic use the default window.
+ */
+export async function getSendWindow(clinicId?: string | null): Promise<SendWindow | null> {
+  if (!clinicId) {
+    return { start: SEND_WINDOW_DEFAULT_START, end: SEND_WINDOW_DEFAULT_END }
+  }
+
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: clinicId },
+    select: { sendWindowStart: true, sendWindowEnd: true }
+  })
+
+  if (!clinic?.sendWindowStart || !clinic.sendWindowEnd) {
+    return null
+  }
+
+  return { start: clinic.sendWindowStart, end: clinic.sendWindowEnd }
+}
+
+/**
+ * When a message of `type` for the clinic, due at `at`, may be sent
+ */
+export async function scheduleInSendWindow(type: SmsType, clinicId: string | null | undefined, at: Date): Promise<Date> {
+  if (SEND_WINDOW_POLICIES[type] === 'exempt') {
+    return at
+  }
+
+  const window = await getSendWindow(clinicId)
+  return window ? nextSendTime(window, at) : at
+}
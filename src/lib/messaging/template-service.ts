@@ -0,0 +1,120 @@
+/**
+ * Message Template Service
+ * Clinics' own wording for patient messages (message_templates), falling
+ * back to the built-in defaults in src/lib/sms/message-templates.ts for
+ * any type and language they have not changed. Templates are validated
+ * when saved (UpsertMessageTemplateSchema), not when sent.
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  DEFAULT_TEMPLATES,
+  MESSAGE_TYPES,
+  generateMessageContent,
+  type GenerateMessageParams,
+  type GeneratedMessage,
+  type MessageLanguage,
+  type MessageType
+} from '@/lib/sms/message-templates'
+
+const LANGUAGES: MessageLanguage[] = ['sw', 'en']
+
+export interface MessageTemplateView {
+  type: MessageType
+  language: MessageLanguage
+  body: string
+  defaultBody: string
+  isCustom: boolean
+  updatedAt: string | null
+}
+
+/**
+ * A clinic's own wording for one message type, by language
+ */
+async function getClinicTemplates(clinicId: string, type: MessageType): Promise<Partial<Record<MessageLanguage, string>>> {
+  const templates = await prisma.messageTemplate.findMany({
+    where: { clinicId, messageType: type },
+    select: { language: true, body: true }
+  })
+
+  return Object.fromEntries(templates.map(template => [template.language, template.body]))
+}
+
+/**
+ * generateMessageContent() with the clinic's wording. Without a clinic,
+ * the defaults.
+ */
+export async function generateClinicMessage(
+  clinicId: string | null | undefined,
+  params: Omit<GenerateMessageParams, 'templates'>
+): Promise<GeneratedMessage> {
+  const templates = clinicId ? await getClinicTemplates(clinicId, params.type) : undefined
+  return generateMessageContent({ ...params, templates })
+}
+
+/**
+ * Every message type in both languages, as the clinic sends it
+ */
+export async function listMessageTemplates(clinicId: string): Promise<MessageTemplateView[]> {
+  const custom = await prisma.messageTemplate.findMany({
+    where: { clinicId },
+    select: { messageType: true, language: true, body: true, updatedAt: true }
+  })
+
+  return MESSAGE_TYPES.flatMap(type => LANGUAGES.map(language => {
+    const saved = custom.find(template => template.messageType === type && template.language === language)
+    return {
+      type,
+      language,
+      body: saved?.body ?? DEFAULT_TEMPLATES[type][language],
+      defaultBody: DEFAULT_TEMPLATES[type][language],
+      isCustom: !!saved,
+      updatedAt: saved?.updatedAt.toISOString() ?? null
+    }
+  }))
+}
+
+/**
+ * Save the clinic's wording for a type and language
+ */
+export async function saveMessageTemplate(
+  clinicId: string,
+  template: { type: MessageType; language: MessageLanguage; body: string },
+  updatedById: string | null
+): Promise<MessageTemplateView> {
+  const saved = await prisma.messageTemplate.upsert({
+    where: {
+      clinicId_messageType_language: { clinicId, messageType: template.type, language: template.language }
+    },
+    create: {
+      clinicId,
+      messageType: template.type,
+      language: template.language,
+      body: template.body,
+      updatedById
+    },
+    update: { body: template.body, updatedById }
+  })
+
+  return {
+    type: template.type,
+    language: template.language,
+    body: saved.body,
+    defaultBody: DEFAULT_TEMPLATES[template.type][template.language],
+    isCustom: true,
+    updatedAt: saved.updatedAt.toISOString()
+  }
+}
+
+/**
+ * Go back to the default wording for a type and language
+ *
+ * @returns Whether the clinic had its own wording
+ */
+export async function resetMessageTemplate(clinicId: string, type: MessageType, language: MessageLanguage): Promise<boolean> {
+  const { count } = await prisma.messageTemplate.deleteMany({
+    where: { clinicId, messageType: type, language }
+  })
+
+  return count > 0
+}
@@ -1,18 +1,26 @@
 /**
  * Unified Messaging Service
- * Sends messages via SMS (Twilio) or WhatsApp (Business API) based on patient preference
+ * Sends messages via SMS (Twilio) or WhatsApp (Business API) based on patient preference.
+ * Channels the patient opted out of are skipped for message types that
+ * need consent (see consent.ts).
  */
 
 import { SmsType } from '@prisma/client'
-import { sendSMS, isTwilioConfigured } from '../sms/sms-service'
+import type { MessagingChannel } from '@prisma/client'
+import { sendSMS, isSmsConfigured } from '../sms/sms-service'
 import { 
   sendWhatsAppMessage, 
+  sendWhatsAppText,
   sendAppointmentConfirmationWhatsApp, 
   sendReminderWhatsApp,
   isWhatsAppConfigured,
   checkWhatsAppNumber 
 } from '../whatsapp/whatsapp-service'
 import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { getPatientConsent, isMessageAllowed } from '@/lib/messaging/consent'
+import { generateClinicMessage } from '@/lib/messaging/template-service'
+import type { AppointmentInfo } from '@/lib/sms/message-templates'
 
 type MessageChannel = 'SMS' | 'WHATSAPP' | 'BOTH'
 
@@ -24,7 +32,9 @@ interface SendMessageParams {
   patientId?: string
   clinicId?: string
   appointmentId?: string
-  // WhatsApp template params
+  // WhatsApp template params - without a template, WhatsApp sends the
+  // message as free-form text (only delivered within 24h of the patient's
+  // last message)
   templateName?: string
   languageCode?: string
   components?: WhatsAppTemplateComponent[]
@@ -55,10 +65,18 @@ interface WhatsAppTemplateComponent {
   index?: number
 }
 
+interface ChannelResult {
+  success: boolean
+  outboxId?: string
+  error?: string
+  suppressed?: boolean // Not sent: the patient opted out of the channel
+}
+
 interface SendMessageResult {
   success: boolean
-  smsResult?: { success: boolean; messageSid?: string; error?: string }
-  whatsAppResult?: { success: boolean; messageId?: string; error?: string }
+  suppressed?: boolean // Nothing sent because the patient opted out of every channel tried
+  smsResult?: ChannelResult
+  whatsAppResult?: ChannelResult
 }
 
 /**
@@ -66,7 +84,7 @@ interface SendMessageResult {
  */
 export function getAvailableChannels(): MessageChannel[] {
   const channels: MessageChannel[] = []
-  if (isTwilioConfigured()) channels.push('SMS')
+  if (isSmsConfigured()) channels.push('SMS')
   if (isWhatsAppConfigured()) channels.push('WHATSAPP')
   if (channels.length === 2) channels.push('BOTH')
   return channels
@@ -107,6 +125,40 @@ export async function updatePatientMessagePreference(
   }
 }
 
+/**
+ * Log a message withheld from a patient who opted out of the channel.
+ * sms_logs has the only record of it - nothing is queued.
+ */
+async function logSuppressed(
+  params: SendMessageParams,
+  channel: MessagingChannel,
+  patientId: string
+): Promise<ChannelResult> {
+  const error = `Patient opted out of ${channel === 'SMS' ? 'SMS' : 'WhatsApp'}`
+
+  try {
+    await prisma.smsLog.create({
+      data: {
+        patientId,
+        clinicId: params.clinicId || null,
+        phoneNumber: params.to,
+        messageType: params.type,
+        messageBody: params.message,
+        status: 'SUPPRESSED',
+        errorCode: 'OPTED_OUT',
+        errorMessage: error
+      }
+    })
+  } catch (logError) {
+    logger.error('Failed to log suppressed message', {
+      patientId,
+      error: logError instanceof Error ? logError.message : String(logError)
+    })
+  }
+
+  return { success: false, suppressed: true, error }
+}
+
 /**
  * Send message via preferred channel(s)
  */
@@ -115,9 +167,13 @@ export async function sendMessage(params: SendMessageParams): Promise<SendMessag
   
   const result: SendMessageResult = { success: false }
 
+  const consent = await getPatientConsent(patientId, to)
+
   // Send via SMS
   if (channel === 'SMS' || channel === 'BOTH') {
-    if (isTwilioConfigured()) {
+    if (consent && !isMessageAllowed(type, consent.SMS)) {
+      result.smsResult = await logSuppressed(params, 'SMS', consent.patientId)
+    } else if (isSmsConfigured()) {
       result.smsResult = await sendSMS({
         to,
         message: params.message,
@@ -133,7 +189,9 @@ export async function sendMessage(params: SendMessageParams): Promise<SendMessag
 
   // Send via WhatsApp
   if (channel === 'WHATSAPP' || channel === 'BOTH') {
-    if (isWhatsAppConfigured() && params.templateName) {
+    if (consent && !isMessageAllowed(type, consent.WHATSAPP)) {
+      result.whatsAppResult = await logSuppressed(params, 'WHATSAPP', consent.patientId)
+    } else if (isWhatsAppConfigured() && params.templateName) {
       result.whatsAppResult = await sendWhatsAppMessage({
         to,
         templateName: params.templateName,
@@ -144,11 +202,17 @@ export async function sendMessage(params: SendMessageParams): Promise<SendMessag
         clinicId,
         appointmentId
       })
+    } else if (isWhatsAppConfigured()) {
+      result.whatsAppResult = await sendWhatsAppText({
+        to,
+        message: params.message,
+        type,
+        patientId,
+        clinicId,
+        appointmentId
+      })
     } else {
-      result.whatsAppResult = { 
-        success: false, 
-        error: isWhatsAppConfigured() ? 'Template required' : 'WhatsApp not configured' 
-      }
+      result.whatsAppResult = { success: false, error: 'WhatsApp not configured' }
     }
   }
 
@@ -157,98 +221,53 @@ export async function sendMessage(params: SendMessageParams): Promise<SendMessag
     (result.smsResult?.success || false) || 
     (result.whatsAppResult?.success || false)
 
+  result.suppressed = !result.success &&
+    [result.smsResult, result.whatsAppResult].every(channelResult => !channelResult || channelResult.suppressed)
+
   return result
 }
 
 /**
- * Send appointment confirmation via preferred channel
+ * Send appointment confirmation via preferred channel, in the clinic's
+ * wording (WhatsApp template messages keep their approved wording)
  */
 export async function sendAppointmentConfirmation(params: {
   to: string
-  patientName: string
-  appointmentDate: string
-  appointmentTime: string
-  doctorName: string
-  clinicName: string
-  clinicPhone: string
+  patient: { firstName: string; lastName: string; language: 'sw' | 'en' }
+  appointment: AppointmentInfo
   channel: MessageChannel
   patientId?: string
   clinicId?: string
   appointmentId?: string
 }): Promise<SendMessageResult> {
-  const messageText = `Habari ${params.patientName}, umefanikiwa kuhudumu ${params.appointmentDate} saa ${params.appointmentTime} na ${params.doctorName}. Kliniki: ${params.clinicName}. Mawasiliano: ${params.clinicPhone}. Tafadhali kuja mapema. Asante!`
+  const { patient, appointment } = params
 
-  return sendMessage({
-    to: params.to,
-    message: messageText,
+  const content = await generateClinicMessage(params.clinicId, {
     type: 'BOOKING_CONFIRMATION',
-    channel: params.channel,
-    patientId: params.patientId,
-    clinicId: params.clinicId,
-    appointmentId: params.appointmentId,
-    templateName: 'appointment_confirmation_sw',
-    languageCode: 'sw',
-    components: [
-      {
-        type: 'body',
-        parameters: [
-          { type: 'text', text: params.patientName },
-          { type: 'text', text: params.appointmentDate },
-          { type: 'text', text: params.appointmentTime },
-          { type: 'text', text: params.doctorName },
-          { type: 'text', text: params.clinicName },
-          { type: 'text', text: params.clinicPhone }
-        ]
-      }
-    ]
+    patient,
+    appointment
   })
-}
-
-/**
- * Send appointment reminder via preferred channel
- */
-export async function sendAppointmentReminder(params: {
-  to: string
-  patientName: string
-  appointmentDate: string
-  appointmentTime: string
-  doctorName: string
-  clinicName: string
-  hoursUntil: number
-  channel: MessageChannel
-  patientId?: string
-  clinicId?: string
-  appointmentId?: string
-}): Promise<SendMessageResult> {
-  const isSameDay = params.hoursUntil <= 4
-  
-  const messageText = isSameDay
-    ? `Habari ${params.patientName}, leo saa ${params.appointmentTime} una hudumu na ${params.doctorName} katika ${params.clinicName}. Tafadhali kuja mapema.`
-    : `Kumbuka kesho ${params.appointmentDate} saa ${params.appointmentTime} una hudumu na ${params.doctorName} kutoka ${params.clinicName}. Mawasiliano: Tafadhali kuja mapema.`
-
-  const templateName = isSameDay 
-    ? 'appointment_reminder_same_day_sw' 
-    : 'appointment_reminder_24h_sw'
 
   return sendMessage({
     to: params.to,
-    message: messageText,
-    type: isSameDay ? 'REMINDER_1H' : 'REMINDER_24H',
+    message: content.primary,
+    type: 'BOOKING_CONFIRMATION',
     channel: params.channel,
     patientId: params.patientId,
     clinicId: params.clinicId,
     appointmentId: params.appointmentId,
-    templateName,
+    templateName: 'appointment_confirmation_sw',
     languageCode: 'sw',
     components: [
       {
         type: 'body',
         parameters: [
-          { type: 'text', text: params.patientName },
-          { type: 'text', text: params.appointmentDate },
-          { type: 'text', text: params.appointmentTime },
-          { type: 'text', text: params.doctorName },
-          { type: 'text', text: params.clinicName }
+          { type: 'text', text: patient.firstName },
+          { type: 'text', text: appointment.date },
+          { type: 'text', text: appointment.time },
+          { type: 'text', text: appointment.doctorName },
+          { type: 'text', text: appointment.clinicName },
+          { type: 'text', text: appointment.clinicPhone }
         ]
       }
     ]
@@ -0,0 +1,131 @@
+/**
+ * Messaging Webhook Handlers
+ * Delivery reports and inbound messages for any messaging provider. The
+ * provider checks its own signature (production only) and parses its own
+ * payload; these handlers update sms_logs or pass the message to the
+ * inbound message service.
+ *
+ * Both always acknowledge once the request is genuine: a retried inbound
+ * webhook could act on a reply twice if the failure came after the
+ * appointment changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { webhookUrl } from '@/lib/sms/twilio-signature'
+import { applyDeliveryStatus } from '@/lib/sms/sms-service'
+import { handleInboundMessage } from '@/lib/messaging/inbound-message-service'
+import type { MessagingProvider, WebhookRequest } from '@/lib/messaging/providers/messaging-provider'
+
+function acknowledge(provider: MessagingProvider): NextResponse {
+  const { body, contentType } = provider.webhookResponse()
+  return new NextResponse(body, { status: 200, headers: { 'Content-Type': contentType } })
+}
+
+/**
+ * Read the request and check it came from the provider, or the 403 to
+ * send back when it did not
+ */
+async function readWebhook(
+  provider: MessagingProvider,
+  request: NextRequest,
+  configuredUrl: string | undefined
+): Promise<{ webhook: WebhookRequest } | { error: NextResponse }> {
+  const webhook: WebhookRequest = {
+    url: webhookUrl(request, configuredUrl, request.nextUrl.pathname + request.nextUrl.search),
+    headers: request.headers,
+    body: await request.text()
+  }
+
+  // Skip signature validation in development (for testing)
+  if (process.env.NODE_ENV === 'production') {
+    if (!provider.validateSignature(webhook)) {
+      logger.error('Invalid messaging webhook signature', { provider: provider.name })
+      return { error: NextResponse.json({ error: 'Invalid signature' }, { status: 403 }) }
+    }
+  } else {
+    logger.debug('[DEV] Skipping messaging webhook signature validation', { provider: provider.name })
+  }
+
+  return { webhook }
+}
+
+/**
+ * Delivery report: update the matching SMS log
+ *
+ * @param configuredUrl - Public URL the provider was given, if set (used for signatures)
+ */
+export async function handleStatusWebhook(
+  provider: MessagingProvider,
+  request: NextRequest,
+  configuredUrl?: string
+): Promise<NextResponse> {
+  try {
+    const read = await readWebhook(provider, request, configuredUrl)
+    if ('error' in read) {
+      return read.error
+    }
+
+    const update = provider.parseStatusCallback(read.webhook)
+    if (!update) {
+      logger.warn('Messaging status webhook without a delivery report', { provider: provider.name })
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    }
+
+    const updated = await applyDeliveryStatus(update)
+    if (updated === 0) {
+      logger.warn('No SMS log for delivery report', { provider: provider.name, messageId: update.messageId })
+    } else {
+      logger.info('SMS status updated', { provider: provider.name, messageId: update.messageId, status: update.status })
+    }
+
+    return acknowledge(provider)
+
+  } catch (error) {
+    logger.error('Messaging status webhook error', {
+      provider: provider.name,
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    // Acknowledge anyway - a retry would fail the same way
+    return acknowledge(provider)
+  }
+}
+
+/**
+ * Patient message: confirm/cancel by reply or keep it for the clinic inbox
+ *
+ * @param configuredUrl - Public URL the provider was given, if set (used for signatures)
+ */
+export async function handleInboundWebhook(
+  provider: MessagingProvider,
+  request: NextRequest,
+  configuredUrl?: string
+): Promise<NextResponse> {
+  try {
+    const read = await readWebhook(provider, request, configuredUrl)
+    if ('error' in read) {
+      return read.error
+    }
+
+    const messages = provider.parseInbound(read.webhook)
+    if (messages.length === 0) {
+      logger.warn('Messaging inbound webhook without a message', { provider: provider.name })
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    }
+
+    for (const message of messages) {
+      await handleInboundMessage(message)
+    }
+
+    return acknowledge(provider)
+
+  } catch (error) {
+    logger.error('Messaging inbound webhook error', {
+      provider: provider.name,
+      error: error instanceof Error ? error.message : String(error)
+    })
+
+    return acknowledge(provider)
+  }
+}
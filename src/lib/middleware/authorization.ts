@@ -1,157 +1,374 @@
+/**
+ * Row-Level Authorization
+ * A Prisma client extension that scopes every model query to the caller
+ * set with withAuthContext(). Staff only reach their own clinic's rows,
+ * patients only their own records, the public booking directory is
+ * read-only, and system jobs (cron, webhooks, login) see everything.
+ *
+ * Fails closed: a query with no context, or an operation the policy
+ * below does not grant, throws instead of running unfiltered.
+ *
+ * Limits - checked in code review, not here:
+ * - $queryRaw / $executeRaw bypass the extension
+ * - Nested writes and include/select of relations are not filtered;
+ *   only the top-level model of each query is scoped
+ */
+
 import { AsyncLocalStorage } from 'async_hooks'
 import { Prisma } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import type { RequestClient } from '@/lib/auth/middleware'
 
-// Authorization context - set per request
-export interface AuthContext {
-  userId?: string
-  userRole?: 'admin' | 'doctor' | 'nurse' | 'patient'
-  clinicId?: string
-  isAuthenticated: boolean
-}
+// Authorization context - set per request. `client` is the device the
+// request came from, recorded by the audit trail (src/lib/audit).
+export type AuthorizationContext = (
+  | { role: 'system'; job?: 'cron' } // Cron (job set), webhooks, login and OTP flows
+  | { role: 'staff'; userId: string; clinicId: string }
+  | { role: 'patient'; patientId: string }
+  | { role: 'public' } // Unauthenticated booking directory
+) & { client?: RequestClient }
 
 // AsyncLocalStorage to maintain context across async operations
-export const authContext = new AsyncLocalStorage<AuthContext>()
+export const authContext = new AsyncLocalStorage<AuthorizationContext>()
 
 // Helper to run code with auth context
-export function withAuthContext<T>(context: AuthContext, fn: () => Promise<T>): Promise<T> {
+export function withAuthContext<T>(context: AuthorizationContext, fn: () => Promise<T>): Promise<T> {
   return authContext.run(context, fn)
 }
 
 // Helper to get current auth context
-export function getAuthContext(): AuthContext | undefined {
+export function getAuthContext(): AuthorizationContext | undefined {
   return authContext.getStore()
 }
 
-// Prisma middleware parameters type with generic where clause
-interface MiddlewareParams {
-  model?: Prisma.ModelName
-  action: Prisma.PrismaAction
-  args: {
-    where?: Record<string, unknown>
-    [key: string]: unknown
+// ============================================================================
+// Policy
+// ============================================================================
+
+type OperationKind = 'read' | 'create' | 'update' | 'delete'
+
+// any: every row, clinic: rows of the staff member's clinic, own: the patient's rows
+type Scope = 'any' | 'clinic' | 'own'
+
+type Grants = Partial<Record<OperationKind, Scope>>
+
+interface ModelPolicy {
+  clinicField?: string // Column holding the clinic ID
+  patientField?: string // Column holding the owning patient's ID
+  staff?: Grants
+  patient?: Grants
+  public?: Grants
+  patientWritableFields?: string[] // Limits patient updates to these columns
+}
+
+const CLINIC_WIDE: Grants = { read: 'clinic', create: 'clinic', update: 'clinic', delete: 'clinic' }
+const READ_ANY: Grants = { read: 'any' }
+
+// Clinic set-up the booking flow shows to everyone
+const CLINIC_DIRECTORY: ModelPolicy = {
+  clinicField: 'clinicId',
+  staff: CLINIC_WIDE,
+  patient: READ_ANY,
+  public: READ_ANY
+}
+
+// Models missing here (PatientOTP, CronLog) are system only
+const POLICIES: Partial<Record<Prisma.ModelName, ModelPolicy>> = {
+  Clinic: {
+    clinicField: 'id',
+    staff: { read: 'clinic', update: 'clinic' },
+    patient: READ_ANY,
+    public: READ_ANY
+  },
+  ClinicClosure: CLINIC_DIRECTORY,
+  Staff: CLINIC_DIRECTORY,
+  StaffAbsence: CLINIC_DIRECTORY,
+  AppointmentType: CLINIC_DIRECTORY,
+  User: {
+    clinicField: 'clinicId',
+    staff: CLINIC_WIDE
+  },
+  // Admins sign out their clinic's sessions; lookups at login and on
+  // every request run as system
+  Session: {
+    clinicField: 'clinicId',
+    staff: { read: 'clinic', update: 'clinic' }
+  },
+  AppointmentSlot: {
+    clinicField: 'clinicId',
+    staff: CLINIC_WIDE,
+    // Booking and cancelling flip availability on any clinic's slots
+    patient: { read: 'any', update: 'any' },
+    public: READ_ANY,
+    patientWritableFields: ['isAvailable', 'heldByAppointmentId']
+  },
+  AppointmentSeries: {
+    clinicField: 'clinicId',
+    patientField: 'patientId',
+    staff: CLINIC_WIDE,
+    patient: { read: 'own' }
+  },
+  Appointment: {
+    clinicField: 'clinicId',
+    patientField: 'patientId',
+    staff: CLINIC_WIDE,
+    patient: { read: 'own', create: 'own', update: 'own' }
+  },
+  // One patient registry shared by all clinics; records are never deleted
+  Patient: {
+    patientField: 'id',
+    staff: { read: 'any', create: 'any', update: 'any' },
+    patient: { read: 'own', update: 'own' }
+  },
+  // Consent history follows the shared patient registry; patients write
+  // their own by texting STOP or START
+  PatientConsentChange: {
+    patientField: 'patientId',
+    staff: { read: 'any', create: 'any' },
+    patient: { read: 'own', create: 'own' }
+  },
+  SmsLog: {
+    clinicField: 'clinicId',
+    patientField: 'patientId',
+    staff: CLINIC_WIDE,
+    patient: { read: 'own', create: 'own', update: 'own' }
+  },
+  // Queued by whoever sends a message; delivered by the outbox worker,
+  // which runs as system
+  OutboundMessage: {
+    clinicField: 'clinicId',
+    patientField: 'patientId',
+    staff: { read: 'clinic', create: 'clinic' },
+    patient: { create: 'own' }
+  },
+  // Read by whoever sends a message - patients too, when they cancel or
+  // reschedule
+  MessageTemplate: {
+    clinicField: 'clinicId',
+    staff: CLINIC_WIDE,
+    patient: READ_ANY
+  },
+  // Retired rather than deleted (see DELETE /reminder-rules/[ruleId])
+  ReminderRule: {
+    clinicField: 'clinicId',
+    staff: { read: 'clinic', create: 'clinic', update: 'clinic' }
+  },
+  // Written by the reminder engine, which runs as system
+  AppointmentReminder: {
+    clinicField: 'clinicId',
+    staff: { read: 'clinic' }
+  },
+  Waitlist: {
+    clinicField: 'clinicId',
+    patientField: 'patientId',
+    staff: CLINIC_WIDE,
+    patient: { read: 'own', create: 'own', update: 'own' }
+  },
+  // Patients write their own cancellations; the history is read by staff
+  AppointmentStatusChange: {
+    clinicField: 'clinicId',
+    patientField: 'patientId',
+    staff: { read: 'clinic', create: 'clinic' },
+    patient: { create: 'own' }
+  },
+  // Append-only; the database also rejects UPDATE and DELETE
+  AuditEvent: {
+    clinicField: 'clinicId',
+    patientField: 'patientId',
+    staff: { read: 'clinic', create: 'clinic' },
+    patient: { create: 'own' }
+  },
+  // Written by the SMS/WhatsApp webhooks; staff read and resolve their
+  // clinic's inbox
+  InboundMessage: {
+    clinicField: 'clinicId',
+    staff: { read: 'clinic', update: 'clinic' }
   }
-  dataPath: string[]
-  runInTransaction: boolean
 }
 
-// Authorization middleware for Prisma (legacy middleware type)
-export const authorizationMiddleware = async (
-  params: MiddlewareParams, 
-  next: (params: MiddlewareParams) => Promise<unknown>
-): Promise<unknown> => {
-  const context = getAuthContext()
-  
-  // If no context, proceed without filtering (be careful with this!)
-  if (!context) {
-    return next(params)
+const OPERATION_KINDS: Record<string, OperationKind[]> = {
+  findUnique: ['read'],
+  findUniqueOrThrow: ['read'],
+  findFirst: ['read'],
+  findFirstOrThrow: ['read'],
+  findMany: ['read'],
+  count: ['read'],
+  aggregate: ['read'],
+  groupBy: ['read'],
+  create: ['create'],
+  createMany: ['create'],
+  createManyAndReturn: ['create'],
+  update: ['update'],
+  updateMany: ['update'],
+  updateManyAndReturn: ['update'],
+  upsert: ['create', 'update'],
+  delete: ['delete'],
+  deleteMany: ['delete']
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+type QueryArgs = Record<string, unknown>
+
+function deny(model: string, operation: string, context: AuthorizationContext): never {
+  logger.warn('Authorization denied', { model, operation, role: context.role })
+  throw new Error('AUTHORIZATION_DENIED')
+}
+
+/**
+ * The column and value a scope pins rows to, or null for 'any'
+ */
+function scopeFilter(
+  scope: Scope,
+  policy: ModelPolicy,
+  context: AuthorizationContext
+): { field: string; value: string } | null | undefined {
+  if (scope === 'any') {
+    return null
+  }
+
+  if (scope === 'clinic' && context.role === 'staff' && policy.clinicField) {
+    return { field: policy.clinicField, value: context.clinicId }
   }
 
-  // Apply authorization based on model and user role
-  if (params.model) {
-    params = applyAuthorizationFilters(params, context)
+  if (scope === 'own' && context.role === 'patient' && policy.patientField) {
+    return { field: policy.patientField, value: context.patientId }
   }
 
-  return next(params)
+  // Misconfigured policy - treat as no access
+  return undefined
 }
 
-function applyAuthorizationFilters(
-  params: MiddlewareParams,
-  context: AuthContext
-): MiddlewareParams {
-  const { userRole, clinicId, userId } = context
+/**
+ * AND the scope onto the where clause. Keeps unique inputs valid
+ * (findUnique, update, delete), so an out-of-scope ID finds nothing
+ * rather than another row.
+ */
+function scopeWhere(args: QueryArgs, filter: { field: string; value: string }): QueryArgs {
+  const where = (args.where as QueryArgs | undefined) ?? {}
+  const existing = where.AND
+  const and = Array.isArray(existing) ? existing : existing ? [existing] : []
 
-  // Admins can see everything
-  if (userRole === 'admin') {
-    return params
+  return {
+    ...args,
+    where: { ...where, AND: [...and, { [filter.field]: filter.value }] }
   }
+}
 
-  // Clone params to avoid mutating original
-  const newParams = { ...params }
-  
-  // Ensure args object exists
-  if (!newParams.args) {
-    newParams.args = {}
+/**
+ * Whether a create payload names the scoped owner, either as a column
+ * or as a connect on the matching relation
+ */
+function createMatchesScope(data: unknown, filter: { field: string; value: string }): boolean {
+  if (!data || typeof data !== 'object') {
+    return false
   }
 
-  // Ensure where clause exists
-  if (!newParams.args.where) {
-    newParams.args.where = {}
+  const record = data as QueryArgs
+  if (record[filter.field] === filter.value) {
+    return true
   }
 
-  switch (newParams.model) {
-    case 'Patient':
-      // Patients can only see their own record
-      // Staff can see patients from their clinic
-      if (userRole === 'patient' && userId) {
-        newParams.args.where = {
-          ...newParams.args.where,
-          id: userId
-        }
-      }
-      break
-
-    case 'Appointment':
-      // Patients see only their appointments
-      // Staff see appointments from their clinic
-      if (userRole === 'patient' && userId) {
-        newParams.args.where = {
-          ...newParams.args.where,
-          patientId: userId
-        }
-      } else if (clinicId) {
-        newParams.args.where = {
-          ...newParams.args.where,
-          clinicId: clinicId
-        }
-      }
-      break
-
-    case 'AppointmentSlot':
-      // Staff see slots from their clinic
-      if (clinicId && userRole !== 'patient') {
-        newParams.args.where = {
-          ...newParams.args.where,
-          clinicId: clinicId
-        }
-      }
-      break
-
-    case 'Staff':
-      // Staff can see all staff from their clinic
-      if (clinicId) {
-        newParams.args.where = {
-          ...newParams.args.where,
-          clinicId: clinicId
-        }
-      }
-      break
-
-    case 'Clinic':
-      // Staff see only their clinic (admins already returned above)
-      if (clinicId) {
-        newParams.args.where = {
-          ...newParams.args.where,
-          id: clinicId
-        }
+  // clinicId -> clinic: { connect: { id } }
+  if (filter.field.endsWith('Id')) {
+    const relation = record[filter.field.slice(0, -2)] as { connect?: { id?: unknown } } | undefined
+    return relation?.connect?.id === filter.value
+  }
+
+  return false
+}
+
+function patientWritesAllowed(data: unknown, policy: ModelPolicy): boolean {
+  const writable = policy.patientWritableFields
+  if (!writable) {
+    return true
+  }
+
+  if (!data || typeof data !== 'object') {
+    return false
+  }
+
+  return Object.keys(data).every(key => writable.includes(key))
+}
+
+/**
+ * Rewrite (or reject) one model query for the current context
+ */
+export function authorizeQuery(
+  model: string,
+  operation: string,
+  args: QueryArgs,
+  context: AuthorizationContext
+): QueryArgs {
+  if (context.role === 'system') {
+    return args
+  }
+
+  const policy = POLICIES[model as Prisma.ModelName]
+  const grants = policy?.[context.role]
+  const kinds = OPERATION_KINDS[operation]
+
+  if (!policy || !grants || !kinds) {
+    deny(model, operation, context)
+  }
+
+  let scoped = args
+
+  for (const kind of kinds) {
+    const scope = grants[kind]
+    if (!scope) {
+      deny(model, operation, context)
+    }
+
+    const filter = scopeFilter(scope, policy, context)
+    if (filter === undefined) {
+      deny(model, operation, context)
+    }
+
+    if (kind === 'update' && context.role === 'patient') {
+      const data = operation === 'upsert' ? args.update : args.data
+      if (!patientWritesAllowed(data, policy)) {
+        deny(model, operation, context)
       }
-      break
-
-    case 'SmsLog':
-      // Patients see only their SMS logs
-      // Staff see SMS from their clinic
-      if (userRole === 'patient' && userId) {
-        newParams.args.where = {
-          ...newParams.args.where,
-          patientId: userId
-        }
-      } else if (clinicId) {
-        newParams.args.where = {
-          ...newParams.args.where,
-          clinicId: clinicId
-        }
+    }
+
+    if (!filter) {
+      continue
+    }
+
+    if (kind === 'create') {
+      const data = operation === 'upsert' ? args.create : args.data
+      const rows = Array.isArray(data) ? data : [data]
+      if (!rows.every(row => createMatchesScope(row, filter))) {
+        deny(model, operation, context)
       }
-      break
+    } else {
+      scoped = scopeWhere(scoped, filter)
+    }
   }
 
-  return newParams
+  return scoped
 }
+
+/**
+ * Prisma client extension - applied in src/lib/prisma.ts
+ */
+export const authorizationExtension = Prisma.defineExtension({
+  name: 'row-level-authorization',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        const context = getAuthContext()
+
+        if (!context) {
+          logger.error('Query without authorization context', { model, operation })
+          throw new Error('AUTHORIZATION_CONTEXT_MISSING')
+        }
+
+        return query(authorizeQuery(model, operation, args as QueryArgs, context))
+      }
+    }
+  }
+})
@@ -2,21 +2,23 @@ import { PrismaClient } from '@prisma/client'
 import { PrismaNeon } from '@prisma/adapter-neon'
 import { neonConfig } from '@neondatabase/serverless'
 import ws from 'ws'
-import { authorizationMiddleware } from './middleware/authorization'
+import { authorizationExtension } from './middleware/authorization'
 
 // Configure Neon to use ws (WebSocket) for Node.js
 neonConfig.webSocketConstructor = ws
 
-const globalForPrisma = global as unknown as { prisma: PrismaClient }
+// Every query runs through row-level authorization (see middleware/authorization.ts)
+function createPrismaClient() {
+  const adapter = new PrismaNeon({ connectionString: process.env.DATABASE_URL })
+  return new PrismaClient({ adapter }).$extends(authorizationExtension)
+}
 
-// Create Prisma client with Neon adapter
-const adapter = new PrismaNeon({ connectionString: process.env.DATABASE_URL })
-export const prisma = globalForPrisma.prisma || new PrismaClient({ adapter })
+const globalForPrisma = global as unknown as { prisma?: ReturnType<typeof createPrismaClient> }
 
-// Apply authorization middleware when supported by the Prisma client runtime
-if ("$use" in prisma && typeof prisma.$use === "function") {
-	prisma.$use(authorizationMiddleware)
-}
+export const prisma = globalForPrisma.prisma || createPrismaClient()
+
+// The `tx` of prisma.$transaction(async (tx) => ...), with authorization applied
+export type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
 
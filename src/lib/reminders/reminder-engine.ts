@@ -0,0 +1,546 @@
+/**
+ * Reminder Engine
+ * Sends appointment reminders from each clinic's reminder rules. A rule's
+ * reminder is due offsetHours before the appointment starts and is queued
+ * by the first run after that (the hourly cron), unless the rule's quiet
+ * hours are on - then it waits for them to end. A reminder due outside
+ * the clinic's sending hours goes out before they close instead, or, for
+ * an appointment booked too late for that, when they open.
+ *
+ * Every reminder is recorded in appointment_reminders against the
+ * appointment start it was for, so each goes out once and a rescheduled
+ * appointment gets fresh ones. A reminder is skipped when the appointment
+ * was booked or moved after it was due, when a closer reminder is due
+ * in the same run, or when the patient opted out of its channels. The
+ * row is written before the message is queued, so two overlapping runs
+ * cannot both send it.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { AppointmentStatus, Prisma, ReminderChannel, ReminderRule, ReminderTemplate } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import { sendMessage } from '@/lib/messaging/unified-messaging'
+import { mapMessageTypeToSmsType, type MessageType } from '@/lib/sms/message-templates'
+import { generateClinicMessage } from '@/lib/messaging/template-service'
+import { recordStatusChange } from '@/lib/appointments/status-history'
+import { ensureDefaultReminderRules } from '@/lib/reminders/reminder-rules'
+import { fromTanzaniaDateTime, getTanzaniaDateString, toTanzaniaTime, MILLISECONDS_PER_HOUR } from '@/lib/timezone'
+import { toSlotDate } from '@/lib/date-utils'
+import { previousSendTime, nextSendTime, SEND_WINDOW_POLICIES, type SendWindow } from '@/lib/messaging/send-window'
+import { REMINDER_BATCH_SIZE, REMINDER_RUN_INTERVAL_MINUTES } from '@/lib/constants'
+
+// Appointments that still get reminders; REMINDER_SENT after the first one
+const REMINDABLE_STATUSES: AppointmentStatus[] = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT']
+
+// SMS wording for each template
+const TEMPLATE_MESSAGE_TYPES: Record<ReminderTemplate, MessageType> = {
+  DAY_BEFORE: 'REMINDER_24H',
+  SAME_DAY: 'REMINDER_1H',
+  UPCOMING: 'REMINDER_ADVANCE'
+}
+
+// Approved WhatsApp templates (patient, date, time, doctor, clinic)
+const TEMPLATE_WHATSAPP_NAMES: Record<ReminderTemplate, string> = {
+  DAY_BEFORE: 'appointment_reminder_24h_sw',
+  SAME_DAY: 'appointment_reminder_same_day_sw',
+  UPCOMING: 'appointment_reminder_upcoming_sw'
+}
+
+const appointmentInclude = {
+  patient: {
+    select: { id: true, firstName: true, lastName: true, phoneNumber: true, language: true, preferredChannel: true }
+  },
+  slot: {
+    select: {
+      slotDate: true,
+      startTime: true,
+      staff: { select: { firstName: true, lastName: true, role: true } }
+    }
+  },
+  clinic: {
+    select: { id: true, name: true, phoneNumber: true, address: true, sendWindowStart: true, sendWindowEnd: true }
+  },
+  reminders: { select: { ruleId: true, scheduledFor: true } }
+} satisfies Prisma.AppointmentInclude
+
+type ReminderAppointment = Prisma.AppointmentGetPayload<{ include: typeof appointmentInclude }>
+
+export type ReminderOutcomeStatus = 'sent' | 'failed' | 'skipped'
+
+export interface ReminderOutcome {
+  appointmentId: string
+  patientName: string
+  phone: string
+  ruleId: string
+  offsetHours: number
+  status: ReminderOutcomeStatus // In a dry run, what would happen
+  channel?: ReminderChannel
+  outboxIds?: string[]
+  error?: string
+}
+
+export interface ReminderRunResult {
+  appointmentsChecked: number
+  sent: number
+  failed: number
+  skipped: number
+  results: ReminderOutcome[]
+}
+
+export interface ReminderRunOptions {
+  clinicId?: string
+  appointmentId?: string
+  dryRun?: boolean // Work out what is due without queueing or recording anything
+}
+
+/**
+ * Whether a rule's quiet hours are on at `now`
+ */
+export function isWithinQuietHours(
+  rule: Pick<ReminderRule, 'quietHoursStart' | 'quietHoursEnd'>,
+  now: Date = new Date()
+): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = rule
+  if (!start || !end) {
+    return false
+  }
+
+  const time = toTanzaniaTime(now).toISOString().slice(11, 16)
+
+  // "HH:MM" strings compare in time order; a window such as 21:00-07:00 wraps midnight
+  return start < end ? time >= start && time < end : time >= start || time < end
+}
+
+function startOf(appointment: ReminderAppointment): Date {
+  return fromTanzaniaDateTime(appointment.slot.slotDate.toISOString().split('T')[0], appointment.slot.startTime)
+}
+
+function dueAt(rule: ReminderRule, startsAt: Date): Date {
+  return new Date(startsAt.getTime() - rule.offsetHours * MILLISECONDS_PER_HOUR)
+}
+
+function sendWindowOf(clinic: ReminderAppointment['clinic']): SendWindow | null {
+  return clinic.sendWindowStart && clinic.sendWindowEnd
+    ? { start: clinic.sendWindowStart, end: clinic.sendWindowEnd }
+    : null
+}
+
+/**
+ * When a rule's reminder goes out: offsetHours before the start, or if
+ * that is outside the clinic's sending hours, the last reminder run before
+ * they closed - unless the appointment was booked after that
+ */
+function sendAt(rule: ReminderRule, startsAt: Date, window: SendWindow | null, bookedAt: Date): Date {
+  const due = dueAt(rule, startsAt)
+  const type = mapMessageTypeToSmsType(TEMPLATE_MESSAGE_TYPES[rule.template])
+
+  if (window && SEND_WINDOW_POLICIES[type] === 'early') {
+    const early = previousSendTime(window, due, REMINDER_RUN_INTERVAL_MINUTES)
+    if (early >= bookedAt) {
+      return early
+    }
+  }
+
+  return due
+}
+
+function outcomeFor(
+  appointment: ReminderAppointment,
+  rule: ReminderRule,
+  status: ReminderOutcomeStatus,
+  details: Partial<ReminderOutcome> = {}
+): ReminderOutcome {
+  return {
+    appointmentId: appointment.id,
+    patientName: `${appointment.patient.firstName} ${appointment.patient.lastName}`,
+    phone: appointment.patient.phoneNumber,
+    ruleId: rule.id,
+    offsetHours: rule.offsetHours,
+    status,
+    ...details
+  }
+}
+
+/**
+ * What to do for an appointment now: send the closest due reminder and
+ * skip the rest of the due ones. Nothing is due while the closest waits
+ * out its quiet hours. Outside the clinic's sending hours the outbox holds
+ * the reminder until they begin, so it is skipped if they begin too late.
+ */
+function planAppointment(
+  appointment: ReminderAppointment,
+  rules: ReminderRule[],
+  now: Date
+): Array<{ rule: ReminderRule; skipReason?: string }> {
+  const startsAt = startOf(appointment)
+  if (startsAt <= now) {
+    return []
+  }
+
+  const recorded = new Set(
+    appointment.reminders
+      .filter(reminder => reminder.scheduledFor.getTime() === startsAt.getTime())
+      .map(reminder => reminder.ruleId)
+  )
+
+  const window = sendWindowOf(appointment.clinic)
+  const bookedAt = appointment.rescheduledAt ?? appointment.createdAt
+
+  const due = rules
+    .filter(rule => !recorded.has(rule.id) && sendAt(rule, startsAt, window, bookedAt) <= now)
+    .sort((a, b) => a.offsetHours - b.offsetHours)
+
+  if (due.length === 0) {
+    return []
+  }
+
+  const [closest, ...superseded] = due
+  const plan: Array<{ rule: ReminderRule; skipReason?: string }> = superseded.map(rule => ({
+    rule,
+    skipReason: `Superseded by the ${closest.offsetHours}h reminder`
+  }))
+
+  if (bookedAt > sendAt(closest, startsAt, window, bookedAt)) {
+    plan.push({ rule: closest, skipReason: 'Booked after the reminder was due' })
+  } else if (window && nextSendTime(window, now) >= startsAt) {
+    plan.push({ rule: closest, skipReason: 'Sending hours begin after the appointment' })
+  } else if (!isWithinQuietHours(closest, now)) {
+    plan.push({ rule: closest })
+  }
+
+  return plan
+}
+
+/**
+ * Queue one reminder on the rule's channel, in the patient's language
+ */
+async function queueReminder(
+  appointment: ReminderAppointment,
+  rule: ReminderRule
+): Promise<{ success: boolean; suppressed?: boolean; channel: ReminderChannel; outboxIds: string[]; error?: string }> {
+  const { patient, slot, clinic } = appointment
+  const channel = rule.channel === 'PREFERRED'
+    ? (['SMS', 'WHATSAPP', 'BOTH'].includes(patient.preferredChannel) ? patient.preferredChannel as ReminderChannel : 'SMS')
+    : rule.channel
+
+  const messageType = TEMPLATE_MESSAGE_TYPES[rule.template]
+  const date = slot.slotDate.toISOString().split('T')[0]
+  const doctorName = `Dr. ${slot.staff.firstName} ${slot.staff.lastName}`
+
+  const content = await generateClinicMessage(clinic.id, {
+    type: messageType,
+    patient: {
+      firstName: patient.firstName,
+      lastName: patient.lastName,
+      language: (patient.language as 'sw' | 'en') || 'sw'
+    },
+    appointment: {
+      date,
+      time: slot.startTime,
+      doctorName,
+      doctorRole: slot.staff.role,
+      clinicName: clinic.name,
+      clinicPhone: clinic.phoneNumber,
+      address: clinic.address || undefined
+    }
+  })
+
+  const result = await sendMessage({
+    to: patient.phoneNumber,
+    message: content.primary,
+    type: mapMessageTypeToSmsType(messageType),
+    channel: channel as 'SMS' | 'WHATSAPP' | 'BOTH',
+    patientId: patient.id,
+    clinicId: clinic.id,
+    appointmentId: appointment.id,
+    templateName: TEMPLATE_WHATSAPP_NAMES[rule.template],
+    languageCode: 'sw',
+    components: [
+      {
+        type: 'body',
+        parameters: [
+          { type: 'text', text: `${patient.firstName} ${patient.lastName}` },
+          { type: 'text', text: date },
+          { type: 'text', text: slot.startTime },
+          { type: 'text', text: doctorName },
+          { type: 'text', text: clinic.name }
+        ]
+      }
+    ]
+  })
+
+  const outboxIds = [result.smsResult?.outboxId, result.whatsAppResult?.outboxId]
+    .filter((id): id is string => !!id)
+
+  return {
+    success: result.success,
+    suppressed: result.suppressed,
+    channel,
+    outboxIds,
+    error: result.success ? undefined : (result.smsResult?.error || result.whatsAppResult?.error || 'Send failed')
+  }
+}
+
+/**
+ * The first reminder moves a BOOKED appointment to REMINDER_SENT
+ */
+async function markReminded(appointment: ReminderAppointment, rule: ReminderRule): Promise<void> {
+  if (appointment.status !== 'BOOKED') {
+    return
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.appointment.updateMany({
+      where: { id: appointment.id, status: 'BOOKED' },
+      data: { status: 'REMINDER_SENT' }
+    })
+
+    if (count === 1) {
+      await recordStatusChange({
+        appointmentId: appointment.id,
+        clinicId: appointment.clinicId,
+        patientId: appointment.patientId,
+        from: 'BOOKED',
+        to: 'REMINDER_SENT',
+        reason: `Kumbusho la saa ${rule.offsetHours} / ${rule.offsetHours}h reminder`
+      }, tx)
+    }
+  })
+}
+
+/**
+ * Queue a reminder and record how it went on its (already claimed) row
+ */
+async function sendAndRecord(
+  appointment: ReminderAppointment,
+  rule: ReminderRule,
+  reminderId: string
+): Promise<ReminderOutcome> {
+  let sent: Awaited<ReturnType<typeof queueReminder>>
+  try {
+    sent = await queueReminder(appointment, rule)
+  } catch (error) {
+    sent = { success: false, channel: rule.channel, outboxIds: [], error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+
+  await prisma.appointmentReminder.update({
+    where: { id: reminderId },
+    data: {
+      status: sent.success ? 'SENT' : sent.suppressed ? 'SKIPPED' : 'FAILED',
+      channel: sent.channel,
+      outboxIds: sent.outboxIds,
+      error: sent.error ?? null
+    }
+  })
+
+  // Opted out of the reminder's channels - logged as SUPPRESSED in sms_logs
+  if (sent.suppressed) {
+    return outcomeFor(appointment, rule, 'skipped', { channel: sent.channel, error: sent.error })
+  }
+
+  if (!sent.success) {
+    logger.error('Reminder could not be queued', { appointmentId: appointment.id, ruleId: rule.id, error: sent.error })
+    return outcomeFor(appointment, rule, 'failed', { channel: sent.channel, error: sent.error })
+  }
+
+  await markReminded(appointment, rule)
+  return outcomeFor(appointment, rule, 'sent', { channel: sent.channel, outboxIds: sent.outboxIds })
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === 'P2002'
+}
+
+/**
+ * Claim, then send or skip, one planned reminder. Returns null when
+ * another run got there first.
+ */
+async function carryOut(
+  appointment: ReminderAppointment,
+  rule: ReminderRule,
+  skipReason: string | undefined
+): Promise<ReminderOutcome | null> {
+  let reminderId: string
+  try {
+    const reminder = await prisma.appointmentReminder.create({
+      data: {
+        appointmentId: appointment.id,
+        ruleId: rule.id,
+        clinicId: appointment.clinicId,
+        scheduledFor: startOf(appointment),
+        status: skipReason ? 'SKIPPED' : 'SENT',
+        error: skipReason
+      },
+      select: { id: true }
+    })
+    reminderId = reminder.id
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return null
+    }
+    throw error
+  }
+
+  if (skipReason) {
+    return outcomeFor(appointment, rule, 'skipped', { error: skipReason })
+  }
+
+  return sendAndRecord(appointment, rule, reminderId)
+}
+
+async function loadActiveRules(clinicId?: string): Promise<Map<string, ReminderRule[]>> {
+  await ensureDefaultReminderRules(clinicId ? [clinicId] : undefined)
+
+  const rules = await prisma.reminderRule.findMany({
+    where: { isActive: true, clinic: { isActive: true }, ...(clinicId ? { clinicId } : {}) }
+  })
+
+  const byClinic = new Map<string, ReminderRule[]>()
+  for (const rule of rules) {
+    byClinic.set(rule.clinicId, [...(byClinic.get(rule.clinicId) ?? []), rule])
+  }
+  return byClinic
+}
+
+/**
+ * Send every reminder that is due
+ */
+export async function runReminders(options: ReminderRunOptions = {}): Promise<ReminderRunResult> {
+  const { clinicId, appointmentId, dryRun = false } = options
+  const now = new Date()
+  const result: ReminderRunResult = { appointmentsChecked: 0, sent: 0, failed: 0, skipped: 0, results: [] }
+
+  const rulesByClinic = await loadActiveRules(clinicId)
+  if (rulesByClinic.size === 0) {
+    return result
+  }
+
+  const furthest = Math.max(...Array.from(rulesByClinic.values()).flat().map(rule => rule.offsetHours))
+  const horizon = new Date(now.getTime() + furthest * MILLISECONDS_PER_HOUR)
+
+  const where: Prisma.AppointmentWhereInput = {
+    status: { in: REMINDABLE_STATUSES },
+    clinicId: { in: Array.from(rulesByClinic.keys()) },
+    ...(appointmentId ? { id: appointmentId } : {}),
+    slot: {
+      slotDate: {
+        gte: toSlotDate(getTanzaniaDateString(now)),
+        lte: toSlotDate(getTanzaniaDateString(horizon))
+      }
+    }
+  }
+
+  // Paged so a busy week cannot crowd out the appointments at its end
+  for (let page = 0; ; page++) {
+    const appointments = await prisma.appointment.findMany({
+      where,
+      include: appointmentInclude,
+      orderBy: [{ slot: { slotDate: 'asc' } }, { id: 'asc' }],
+      skip: page * REMINDER_BATCH_SIZE,
+      take: REMINDER_BATCH_SIZE
+    })
+
+    for (const appointment of appointments) {
+      result.appointmentsChecked++
+
+      for (const { rule, skipReason } of planAppointment(appointment, rulesByClinic.get(appointment.clinicId) ?? [], now)) {
+        const outcome = dryRun
+          ? outcomeFor(appointment, rule, skipReason ? 'skipped' : 'sent', { error: skipReason })
+          : await carryOut(appointment, rule, skipReason)
+
+        if (outcome) {
+          result[outcome.status]++
+          result.results.push(outcome)
+        }
+      }
+    }
+
+    if (appointments.length < REMINDER_BATCH_SIZE) {
+      break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Send one appointment's reminder now, whether or not it is due or was
+ * already sent: the closest due rule, or the furthest ahead when none is
+ * due yet. Quiet hours do not apply.
+ *
+ * @throws APPOINTMENT_NOT_FOUND, APPOINTMENT_NOT_UPCOMING, NO_REMINDER_RULES
+ */
+export async function sendReminderNow(appointmentId: string, options: { dryRun?: boolean } = {}): Promise<ReminderOutcome> {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: appointmentInclude
+  })
+
+  if (!appointment) {
+    throw new Error('APPOINTMENT_NOT_FOUND')
+  }
+
+  const now = new Date()
+  const startsAt = startOf(appointment)
+  if (!REMINDABLE_STATUSES.includes(appointment.status) || startsAt <= now) {
+    throw new Error('APPOINTMENT_NOT_UPCOMING')
+  }
+
+  const rules = (await loadActiveRules(appointment.clinicId)).get(appointment.clinicId) ?? []
+  if (rules.length === 0) {
+    throw new Error('NO_REMINDER_RULES')
+  }
+
+  const byOffset = [...rules].sort((a, b) => a.offsetHours - b.offsetHours)
+  const rule = byOffset.find(candidate => dueAt(candidate, startsAt) <= now) ?? byOffset[byOffset.length - 1]
+
+  if (options.dryRun) {
+    return outcomeFor(appointment, rule, 'sent')
+  }
+
+  // Replaces any earlier record for this rule and appointment time
+  const reminder = await prisma.appointmentReminder.upsert({
+    where: {
+      appointmentId_ruleId_scheduledFor: { appointmentId, ruleId: rule.id, scheduledFor: startsAt }
+    },
+    create: {
+      appointmentId,
+      ruleId: rule.id,
+      clinicId: appointment.clinicId,
+      scheduledFor: startsAt,
+      status: 'SENT'
+    },
+    update: { status: 'SENT', error: null, outboxIds: [], createdAt: now },
+    select: { id: true }
+  })
+
+  return sendAndRecord(appointment, rule, reminder.id)
+}
+
+/**
+ * Counts for the manual reminder endpoints' status checks
+ */
+export async function getReminderOverview() {
+  const weekAgo = new Date(Date.now() - 7 * 24 * MILLISECONDS_PER_HOUR)
+
+  const [dueRun, failedLastWeek, recentRuns] = await Promise.all([
+    runReminders({ dryRun: true }),
+    prisma.appointmentReminder.count({ where: { status: 'FAILED', createdAt: { gte: weekAgo } } }),
+    prisma.cronLog.findMany({
+      where: { jobName: 'send-reminders' },
+      orderBy: { startedAt: 'desc' },
+      take: 5,
+      select: {
+        id: true,
+        startedAt: true,
+        status: true,
+        remindersSent: true,
+        remindersFailed: true,
+        triggeredBy: true,
+        durationMs: true
+      }
+    })
+  ])
+
+  return { due: dueRun.sent, failedLastWeek, recentRuns }
+}
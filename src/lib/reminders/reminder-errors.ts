@@ -0,0 +1,53 @@
+/**
+ * Reminder Error Responses
+ * Shared by the reminder rule and manual reminder routes
+ */
+
+import { NextResponse } from 'next/server'
+import { REMINDER_MAX_RULES } from '@/lib/constants'
+
+/**
+ * Map reminder-rules and reminder-engine errors to bilingual responses
+ */
+export function reminderErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof Error)) {
+    return null
+  }
+
+  const responses: Record<string, { error: string; status: number }> = {
+    RULE_NOT_FOUND: {
+      error: 'Kanuni ya kumbusho haijapatikana / Reminder rule not found',
+      status: 404
+    },
+    RULE_EXISTS: {
+      error: 'Tayari kuna kumbusho kwa muda huu / There is already a reminder at this time',
+      status: 409
+    },
+    TOO_MANY_RULES: {
+      error: `Kumbusho zisizidi ${REMINDER_MAX_RULES} / At most ${REMINDER_MAX_RULES} active reminders`,
+      status: 409
+    },
+    APPOINTMENT_NOT_FOUND: {
+      error: 'Miadi haijapatikana / Appointment not found',
+      status: 404
+    },
+    APPOINTMENT_NOT_UPCOMING: {
+      error: 'Miadi hii imeshapita au imesitishwa / This appointment is past or no longer active',
+      status: 409
+    },
+    NO_REMINDER_RULES: {
+      error: 'Kliniki haina kumbusho zilizowashwa / The clinic has no active reminders',
+      status: 409
+    }
+  }
+
+  const mapped = responses[error.message]
+  if (!mapped) {
+    return null
+  }
+
+  return NextResponse.json(
+    { error: mapped.error, code: error.message },
+    { status: mapped.status }
+  )
+}
@@ -0,0 +1,122 @@
+/**
+ * Reminder Rules
+ * Each clinic's reminder schedule: how many hours before an appointment a
+ * reminder goes out, on which channel and with which wording. A clinic
+ * without any rules gets DEFAULT_REMINDER_RULES the first time its rules
+ * are read; retiring every rule turns reminders off.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { Prisma, ReminderChannel, ReminderRule, ReminderTemplate } from '@prisma/client'
+import { REMINDER_MAX_RULES } from '@/lib/constants'
+
+export interface ReminderRuleFields {
+  offsetHours: number
+  channel: ReminderChannel
+  template: ReminderTemplate
+  quietHoursStart: string | null
+  quietHoursEnd: string | null
+}
+
+// The reminders sent before clinics could configure them
+export const DEFAULT_REMINDER_RULES: ReminderRuleFields[] = [
+  { offsetHours: 24, channel: 'SMS', template: 'DAY_BEFORE', quietHoursStart: '21:00', quietHoursEnd: '07:00' },
+  { offsetHours: 3, channel: 'SMS', template: 'SAME_DAY', quietHoursStart: '21:00', quietHoursEnd: '07:00' }
+]
+
+/**
+ * Give clinics that have never had reminder rules the defaults
+ *
+ * @param clinicIds - Only these clinics (default: every active clinic)
+ */
+export async function ensureDefaultReminderRules(clinicIds?: string[]): Promise<void> {
+  const clinics = await prisma.clinic.findMany({
+    where: {
+      ...(clinicIds ? { id: { in: clinicIds } } : { isActive: true }),
+      reminderRules: { none: {} }
+    },
+    select: { id: true }
+  })
+
+  if (clinics.length === 0) {
+    return
+  }
+
+  await prisma.reminderRule.createMany({
+    data: clinics.flatMap(clinic => DEFAULT_REMINDER_RULES.map(rule => ({ clinicId: clinic.id, ...rule }))),
+    skipDuplicates: true // Another request may have added them first
+  })
+}
+
+/**
+ * A clinic's rules, active first, furthest ahead first
+ */
+export async function listReminderRules(clinicId: string): Promise<ReminderRule[]> {
+  await ensureDefaultReminderRules([clinicId])
+
+  return prisma.reminderRule.findMany({
+    where: { clinicId },
+    orderBy: [{ isActive: 'desc' }, { offsetHours: 'desc' }]
+  })
+}
+
+async function assertRoomForActiveRule(clinicId: string): Promise<void> {
+  const active = await prisma.reminderRule.count({ where: { clinicId, isActive: true } })
+  if (active >= REMINDER_MAX_RULES) {
+    throw new Error('TOO_MANY_RULES')
+  }
+}
+
+/**
+ * Add a rule. An offset can only be used once per clinic.
+ */
+export async function createReminderRule(clinicId: string, fields: ReminderRuleFields): Promise<ReminderRule> {
+  await ensureDefaultReminderRules([clinicId])
+  await assertRoomForActiveRule(clinicId)
+
+  try {
+    return await prisma.reminderRule.create({
+      data: { clinicId, ...fields }
+    })
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      throw new Error('RULE_EXISTS')
+    }
+    throw error
+  }
+}
+
+/**
+ * Change, retire (isActive: false) or restore a rule
+ */
+export async function updateReminderRule(
+  clinicId: string,
+  ruleId: string,
+  fields: Partial<ReminderRuleFields> & { isActive?: boolean }
+): Promise<ReminderRule> {
+  const rule = await prisma.reminderRule.findFirst({ where: { id: ruleId, clinicId } })
+  if (!rule) {
+    throw new Error('RULE_NOT_FOUND')
+  }
+
+  if (fields.isActive && !rule.isActive) {
+    await assertRoomForActiveRule(clinicId)
+  }
+
+  const data: Prisma.ReminderRuleUpdateInput = { ...fields }
+
+  // Quiet hours are set or cleared together
+  if (fields.quietHoursStart === null || fields.quietHoursEnd === null) {
+    data.quietHoursStart = null
+    data.quietHoursEnd = null
+  }
+
+  try {
+    return await prisma.reminderRule.update({ where: { id: ruleId }, data })
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      throw new Error('RULE_EXISTS')
+    }
+    throw error
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Slot Generation Service
+ * Materializes AppointmentSlot rows from a clinic's operating hours
+ */
+
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { addDaysToDateString, minutesToTime, timeToMinutes, toSlotDate } from '@/lib/date-utils'
+import { getTanzaniaDateString } from '@/lib/timezone'
+import { getClinicClosuresInRange } from '@/lib/closures/closure-service'
+import { getStaffAbsencesInRange, isStaffAbsent } from '@/lib/staff/absence-service'
+import { DEFAULT_SLOT_DURATION_MINUTES } from '@/lib/constants'
+import { OperatingHoursSchema } from '@/lib/validation/schemas'
+import type { DayHours, OperatingHours } from '@/lib/validation/schemas'
+
+// Indexed by Date.getUTCDay()
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const
+
+export type Weekday = typeof WEEKDAYS[number]
+
+export interface GenerateSlotsOptions {
+  startDate?: string // YYYY-MM-DD, defaults to today in Tanzania
+  days: number
+  dryRun?: boolean
+}
+
+export interface DaySlotSummary {
+  date: string
+  weekday: Weekday
+  created: number
+  skipped: number
+  closed: boolean
+  closureReason?: string // Set when closed for a holiday or clinic closure
+}
+
+export interface SlotGenerationResult {
+  clinicId: string
+  startDate: string
+  endDate: string
+  created: number
+  skipped: number
+  dryRun: boolean
+  days: DaySlotSummary[]
+}
+
+/**
+ * Parse and validate the operatingHours JSON string stored on Clinic
+ * Throws INVALID_OPERATING_HOURS if the value does not match OperatingHoursSchema
+ */
+export function parseOperatingHours(raw: string): OperatingHours {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    throw new Error('INVALID_OPERATING_HOURS')
+  }
+
+  const result = OperatingHoursSchema.safeParse(parsed)
+  if (!result.success) {
+    throw new Error('INVALID_OPERATING_HOURS')
+  }
+
+  return result.data
+}
+
+/**
+ * Get the slot start/end times for one day of operating hours.
+ * Uses the explicit slots list when present, otherwise fills open-close
+ * with slots of slotDuration minutes. Slots never run past closing time,
+ * never overlap a break, and an explicit slot ends where the next one
+ * starts if that is sooner than slotDuration.
+ */
+export function getSlotTimesForDay(hours: DayHours | undefined): Array<{ startTime: string; endTime: string }> {
+  if (!hours || !hours.open || !hours.close) {
+    return []
+  }
+
+  const duration = hours.slotDuration ?? DEFAULT_SLOT_DURATION_MINUTES
+  const closeMinutes = timeToMinutes(hours.close)
+  const breaks = (hours.breaks ?? []).map(pause => ({
+    start: timeToMinutes(pause.start),
+    end: timeToMinutes(pause.end)
+  }))
+  const starts: number[] = []
+
+  if (hours.slots && hours.slots.length > 0) {
+    starts.push(...hours.slots.map(timeToMinutes).sort((a, b) => a - b))
+  } else {
+    let minutes = timeToMinutes(hours.open)
+    while (minutes + duration <= closeMinutes) {
+      // Restart the slot grid after a break instead of losing the gap
+      const pause = breaks.find(p => minutes < p.end && minutes + duration > p.start)
+      if (pause) {
+        minutes = pause.end
+        continue
+      }
+      starts.push(minutes)
+      minutes += duration
+    }
+  }
+
+  return starts
+    .filter(start => start < closeMinutes)
+    .map((start, index, kept) => ({
+      start,
+      end: Math.min(start + duration, kept[index + 1] ?? closeMinutes, closeMinutes)
+    }))
+    .filter(slot => !breaks.some(pause => slot.start < pause.end && slot.end > pause.start))
+    .map(slot => ({ startTime: minutesToTime(slot.start), endTime: minutesToTime(slot.end) }))
+}
+
+/**
+ * Generate slots for every active staff member of a clinic over a date range.
+ * Public holidays and clinic closures get no slots, and neither does
+ * staff time covered by a StaffAbsence.
+ *
+ * Idempotent: slots that already exist for the same staff, date and start
+ * time are skipped, and the unique index on appointment_slots guards
+ * against concurrent runs.
+ */
+export async function generateSlotsForClinic(
+  clinicId: string,
+  options: GenerateSlotsOptions
+): Promise<SlotGenerationResult> {
+  const { days, dryRun = false } = options
+
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: clinicId },
+    select: {
+      id: true,
+      operatingHours: true,
+      staff: {
+        where: { isActive: true },
+        select: { id: true }
+      }
+    }
+  })
+
+  if (!clinic) {
+    throw new Error('CLINIC_NOT_FOUND')
+  }
+
+  const operatingHours = parseOperatingHours(clinic.operatingHours)
+  const startDate = options.startDate ?? getTanzaniaDateString()
+  const endDate = addDaysToDateString(startDate, days - 1)
+  const closedDays = await getClinicClosuresInRange(clinicId, startDate, endDate)
+  const absences = await getStaffAbsencesInRange(clinicId, startDate, endDate)
+
+  // Load existing slots once so re-runs never duplicate
+  const existingSlots = await prisma.appointmentSlot.findMany({
+    where: {
+      clinicId,
+      slotDate: {
+        gte: toSlotDate(startDate),
+        lte: toSlotDate(endDate)
+      }
+    },
+    select: {
+      staffId: true,
+      slotDate: true,
+      startTime: true
+    }
+  })
+
+  const existingKeys = new Set(
+    existingSlots.map(slot => `${slot.staffId}|${slot.slotDate.toISOString().split('T')[0]}|${slot.startTime}`)
+  )
+
+  const slotsToCreate: Array<{
+    clinicId: string
+    staffId: string
+    slotDate: Date
+    startTime: string
+    endTime: string
+    isAvailable: boolean
+  }> = []
+  const daySummaries: DaySlotSummary[] = []
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDaysToDateString(startDate, offset)
+    const slotDate = toSlotDate(date)
+    const weekday = WEEKDAYS[slotDate.getUTCDay()]
+    const closure = closedDays.get(date)
+    const times = closure ? [] : getSlotTimesForDay(operatingHours[weekday])
+
+    const summary: DaySlotSummary = {
+      date,
+      weekday,
+      created: 0,
+      skipped: 0,
+      closed: times.length === 0,
+      ...(closure && { closureReason: closure.reason })
+    }
+
+    for (const staff of clinic.staff) {
+      for (const time of times) {
+        if (isStaffAbsent(absences, staff.id, date, time.startTime, time.endTime)) {
+          continue
+        }
+
+        if (existingKeys.has(`${staff.id}|${date}|${time.startTime}`)) {
+          summary.skipped++
+          continue
+        }
+
+        slotsToCreate.push({
+          clinicId,
+          staffId: staff.id,
+          slotDate,
+          startTime: time.startTime,
+          endTime: time.endTime,
+          isAvailable: true
+        })
+        summary.created++
+      }
+    }
+
+    daySummaries.push(summary)
+  }
+
+  let created = slotsToCreate.length
+  let skipped = daySummaries.reduce((sum, day) => sum + day.skipped, 0)
+
+  if (!dryRun && slotsToCreate.length > 0) {
+    const result = await prisma.appointmentSlot.createMany({
+      data: slotsToCreate,
+      skipDuplicates: true
+    })
+
+    // Rows inserted by a concurrent run between our read and write
+    skipped += slotsToCreate.length - result.count
+    created = result.count
+  }
+
+  logger.info('Slot generation completed', {
+    clinicId,
+    startDate,
+    endDate,
+    created,
+    skipped,
+    dryRun
+  })
+
+  return {
+    clinicId,
+    startDate,
+    endDate,
+    created,
+    skipped,
+    dryRun,
+    days: daySummaries
+  }
+}
@@ -1,19 +1,96 @@
 /**
  * SMS Message Templates for AfyaBook
- * Generates bilingual (Swahili/English) messages for appointment notifications
+ * Bilingual (Swahili/English) wording for appointment notifications,
+ * written with {{placeholders}}. These are the built-in defaults; a clinic
+ * can replace any of them (message_templates, see
+ * src/lib/messaging/template-service.ts). Nothing here reads the database,
+ * so the template editor uses it for its live preview.
  */
 
-import { SmsType } from '@prisma/client'
+import type { SmsType } from '@prisma/client'
+import { SMS_COST_USD } from '@/lib/constants'
+
+export type MessageType = 'BOOKING_CONFIRMATION' | 'REMINDER_24H' | 'REMINDER_1H' | 'REMINDER_ADVANCE' | 'CANCELLATION' | 'RESCHEDULE' | 'CHECK_IN_CONFIRMATION'
+
+export type MessageLanguage = 'sw' | 'en'
+
+export const MESSAGE_TYPES: MessageType[] = [
+  'BOOKING_CONFIRMATION',
+  'REMINDER_ADVANCE',
+  'REMINDER_24H',
+  'REMINDER_1H',
+  'RESCHEDULE',
+  'CANCELLATION',
+  'CHECK_IN_CONFIRMATION'
+]
+
+export type TemplateVariable = 'patient_name' | 'date' | 'time' | 'doctor_name' | 'clinic_name' | 'clinic_phone' | 'address'
+
+export const TEMPLATE_VARIABLE_LABELS: Record<TemplateVariable, string> = {
+  patient_name: 'Jina la mgonjwa / Patient first name',
+  date: 'Tarehe ya miadi / Appointment date',
+  time: 'Saa ya miadi / Appointment time',
+  doctor_name: 'Jina la daktari / Doctor name',
+  clinic_name: 'Jina la kliniki / Clinic name',
+  clinic_phone: 'Simu ya kliniki / Clinic phone',
+  address: 'Anwani ya kliniki / Clinic address'
+}
+
+const ALL_VARIABLES = Object.keys(TEMPLATE_VARIABLE_LABELS) as TemplateVariable[]
+
+// Placeholders each type may use, and those its wording cannot do without
+export const TEMPLATE_VARIABLES: Record<MessageType, { allowed: TemplateVariable[]; required: TemplateVariable[] }> = {
+  BOOKING_CONFIRMATION: { allowed: ALL_VARIABLES, required: ['date', 'time'] },
+  REMINDER_24H: { allowed: ALL_VARIABLES, required: ['time'] },
+  REMINDER_1H: { allowed: ALL_VARIABLES, required: ['time'] },
+  REMINDER_ADVANCE: { allowed: ALL_VARIABLES, required: ['date', 'time'] },
+  CANCELLATION: { allowed: ALL_VARIABLES, required: ['date', 'time'] },
+  RESCHEDULE: { allowed: ALL_VARIABLES, required: ['date', 'time'] },
+  // Sent on arrival, so the booked date and time no longer apply
+  CHECK_IN_CONFIRMATION: {
+    allowed: ['patient_name', 'doctor_name', 'clinic_name', 'clinic_phone', 'address'],
+    required: []
+  }
+}
 
-export type MessageType = 'BOOKING_CONFIRMATION' | 'REMINDER_24H' | 'REMINDER_1H' | 'CANCELLATION' | 'RESCHEDULE' | 'CHECK_IN_CONFIRMATION'
+export const DEFAULT_TEMPLATES: Record<MessageType, Record<MessageLanguage, string>> = {
+  BOOKING_CONFIRMATION: {
+    sw: 'Habari {{patient_name}}, umefanikiwa kuhudumu {{date}} saa {{time}} na {{doctor_name}}. Kliniki: {{clinic_name}}. Mawasiliano: {{clinic_phone}}. Tafadhali kuja mapema. Asante!',
+    en: 'Hello {{patient_name}}, your appointment is confirmed for {{date}} at {{time}} with {{doctor_name}}. Clinic: {{clinic_name}}. Phone: {{clinic_phone}}. Please arrive early. Thank you!'
+  },
+  REMINDER_24H: {
+    sw: 'Kumbuka kesho {{date}} saa {{time}} una hudumu na {{doctor_name}} kutoka {{clinic_name}}. Mawasiliano: {{clinic_phone}}. Tafadhali kuja mapema. Jibu NDIYO kuthibitisha au HAPANA kughairi.',
+    en: 'Reminder: Tomorrow {{date}} at {{time}} you have an appointment with {{doctor_name}} at {{clinic_name}}. Phone: {{clinic_phone}}. Please arrive early. Reply YES to confirm or NO to cancel.'
+  },
+  REMINDER_1H: {
+    sw: 'Habari {{patient_name}}, leo saa {{time}} una hudumu na {{doctor_name}} katika {{clinic_name}}. Tafadhali kuja mapema. Jibu NDIYO kuthibitisha au HAPANA kughairi.',
+    en: 'Hello {{patient_name}}, you have an appointment today at {{time}} with {{doctor_name}} at {{clinic_name}}. Please arrive early. Reply YES to confirm or NO to cancel.'
+  },
+  REMINDER_ADVANCE: {
+    sw: 'Habari {{patient_name}}, kumbuka una miadi {{date}} saa {{time}} na {{doctor_name}} katika {{clinic_name}}. Mawasiliano: {{clinic_phone}}. Jibu NDIYO kuthibitisha au HAPANA kughairi.',
+    en: 'Hello {{patient_name}}, a reminder of your appointment on {{date}} at {{time}} with {{doctor_name}} at {{clinic_name}}. Phone: {{clinic_phone}}. Reply YES to confirm or NO to cancel.'
+  },
+  CANCELLATION: {
+    sw: 'Habari {{patient_name}}, miadi yako ya {{date}} saa {{time}} na {{doctor_name}} imeghairiwa. Tafadhali piga {{clinic_phone}} kupanga tena.',
+    en: 'Hello {{patient_name}}, your appointment on {{date}} at {{time}} with {{doctor_name}} has been cancelled. Please call {{clinic_phone}} to reschedule.'
+  },
+  RESCHEDULE: {
+    sw: 'Habari {{patient_name}}, miadi yako imehamishwa hadi {{date}} saa {{time}} na {{doctor_name}}. Kliniki: {{clinic_name}}. Mawasiliano: {{clinic_phone}}',
+    en: 'Hello {{patient_name}}, your appointment has been rescheduled to {{date}} at {{time}} with {{doctor_name}}. Clinic: {{clinic_name}}. Phone: {{clinic_phone}}'
+  },
+  CHECK_IN_CONFIRMATION: {
+    sw: 'Habari {{patient_name}}, umecheck-in kwa mafanikio. Tafadhali subiri kuitwa kwa {{doctor_name}}. Asante!',
+    en: 'Hello {{patient_name}}, you have successfully checked in. Please wait to be called by {{doctor_name}}. Thank you!'
+  }
+}
 
 interface PatientInfo {
   firstName: string
   lastName: string
-  language: 'sw' | 'en'
+  language: MessageLanguage
 }
 
-interface AppointmentInfo {
+export interface AppointmentInfo {
   date: string // YYYY-MM-DD
   time: string // HH:MM
   doctorName: string
@@ -23,31 +100,40 @@ interface AppointmentInfo {
   address?: string
 }
 
-interface GenerateMessageParams {
+export interface GenerateMessageParams {
   type: MessageType
   patient: PatientInfo
   appointment: AppointmentInfo
+  templates?: Partial<Record<MessageLanguage, string>> // The clinic's own wording, replacing the defaults
 }
 
-interface GeneratedMessage {
+export interface GeneratedMessage {
   swahili: string
   english: string
   primary: string // The patient's preferred language
 }
 
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g
+const SINGLE_BRACE_PATTERN = /(?<!\{)\{\s*([a-z_]+)\s*\}(?!\})/g
+
 /**
  * Generate SMS message content in both Swahili and English
  * Returns message in patient's preferred language
- * 
+ *
  * @param params - Message generation parameters
  * @returns Generated messages in both languages
  */
 export function generateMessageContent(params: GenerateMessageParams): GeneratedMessage {
-  const { type, patient, appointment } = params
-  const patientName = `${patient.firstName}`
-  
-  const swahiliMessage = generateSwahiliMessage(type, patientName, appointment)
-  const englishMessage = generateEnglishMessage(type, patientName, appointment)
+  const { type, patient, appointment, templates } = params
+
+  const swahiliMessage = renderTemplate(
+    templates?.sw ?? DEFAULT_TEMPLATES[type].sw,
+    templateValues(patient.firstName, appointment, 'sw')
+  )
+  const englishMessage = renderTemplate(
+    templates?.en ?? DEFAULT_TEMPLATES[type].en,
+    templateValues(patient.firstName, appointment, 'en')
+  )
 
   return {
     swahili: swahiliMessage,
@@ -57,87 +143,79 @@ export function generateMessageContent(params: GenerateMessageParams): Generated
 }
 
 /**
- * Generate message in Swahili
+ * The placeholder values for one appointment, with the date and time
+ * written the way patients read them in `language`
  */
-function generateSwahiliMessage(
-  type: MessageType,
-  patientName: string,
-  appointment: AppointmentInfo
-): string {
-  const { date, time, doctorName, clinicName, clinicPhone, address } = appointment
-
-  // Format date to be more readable in Swahili
-  const formattedDate = formatDateForDisplay(date, 'sw')
-  const formattedTime = convertTo12Hour(time)
-
-  switch (type) {
-    case 'BOOKING_CONFIRMATION':
-      return `Habari ${patientName}, umefanikiwa kuhudumu ${formattedDate} saa ${formattedTime} na ${doctorName}. Kliniki: ${clinicName}. Mawasiliano: ${clinicPhone}. Tafadhali kuja mapema. Asante!`
-
-    case 'REMINDER_24H':
-      return `Kumbuka kesho ${formattedDate} saa ${formattedTime} una hudumu na ${doctorName} kutoka ${clinicName}. Mawasiliano: ${clinicPhone}. Tafadhali kuja mapema.`
-
-    case 'REMINDER_1H':
-      return `Habari ${patientName}, leo saa ${formattedTime} una hudumu na ${doctorName} katika ${clinicName}. Tafadhali kuja mapema.`
-
-    case 'CANCELLATION':
-      return `Habari ${patientName}, miadi yako ya ${formattedDate} saa ${formattedTime} na ${doctorName} imeghairiwa. Tafadhali piga ${clinicPhone} kupanga tena.`
-
-    case 'RESCHEDULE':
-      return `Habari ${patientName}, miadi yako imehamishwa hadi ${formattedDate} saa ${formattedTime} na ${doctorName}. Kliniki: ${clinicName}. Mawasiliano: ${clinicPhone}`
-
-    case 'CHECK_IN_CONFIRMATION':
-      return `Habari ${patientName}, umecheck-in kwa mafanikio. Tafadhali subiri kuitwa kwa ${doctorName}. Asante!`
-
-    default:
-      return `Habari ${patientName}, kuna taarifa kuhusu miadi yako. Tafadhali wasiliana na ${clinicPhone}`
+export function templateValues(
+  patientFirstName: string,
+  appointment: AppointmentInfo,
+  language: MessageLanguage
+): Record<TemplateVariable, string> {
+  return {
+    patient_name: patientFirstName,
+    date: formatDateForDisplay(appointment.date, language),
+    time: convertTo12Hour(appointment.time),
+    doctor_name: appointment.doctorName,
+    clinic_name: appointment.clinicName,
+    clinic_phone: appointment.clinicPhone,
+    address: appointment.address ?? ''
   }
 }
 
 /**
- * Generate message in English
+ * Fill in a template's placeholders. Unknown placeholders are left as
+ * written - templates are validated when saved.
  */
-function generateEnglishMessage(
-  type: MessageType,
-  patientName: string,
-  appointment: AppointmentInfo
-): string {
-  const { date, time, doctorName, clinicName, clinicPhone, address } = appointment
-
-  // Format date to be more readable
-  const formattedDate = formatDateForDisplay(date, 'en')
-  const formattedTime = convertTo12Hour(time)
-
-  switch (type) {
-    case 'BOOKING_CONFIRMATION':
-      return `Hello ${patientName}, your appointment is confirmed for ${formattedDate} at ${formattedTime} with ${doctorName}. Clinic: ${clinicName}. Phone: ${clinicPhone}. Please arrive early. Thank you!`
+export function renderTemplate(body: string, values: Record<TemplateVariable, string>): string {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name as TemplateVariable] : placeholder
+  )
+}
 
-    case 'REMINDER_24H':
-      return `Reminder: Tomorrow ${formattedDate} at ${formattedTime} you have an appointment with ${doctorName} at ${clinicName}. Phone: ${clinicPhone}. Please arrive early.`
+/**
+ * What is wrong with a template for `type`: placeholders the type does not
+ * have, ones it needs that are missing, and braces that are not a
+ * placeholder. Empty when the template can be saved.
+ */
+export function validateTemplate(type: MessageType, body: string): string[] {
+  const { allowed, required } = TEMPLATE_VARIABLES[type]
+  const problems: string[] = []
+  const used = new Set<string>()
 
-    case 'REMINDER_1H':
-      return `Hello ${patientName}, you have an appointment today at ${formattedTime} with ${doctorName} at ${clinicName}. Please arrive early.`
+  for (const [, name] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    used.add(name)
+  }
 
-    case 'CANCELLATION':
-      return `Hello ${patientName}, your appointment on ${formattedDate} at ${formattedTime} with ${doctorName} has been cancelled. Please call ${clinicPhone} to reschedule.`
+  for (const name of used) {
+    if (!allowed.includes(name as TemplateVariable)) {
+      problems.push(`{{${name}}} haitumiki kwa ujumbe huu / {{${name}}} is not available for this message`)
+    }
+  }
 
-    case 'RESCHEDULE':
-      return `Hello ${patientName}, your appointment has been rescheduled to ${formattedDate} at ${formattedTime} with ${doctorName}. Clinic: ${clinicName}. Phone: ${clinicPhone}`
+  for (const name of required) {
+    if (!used.has(name)) {
+      problems.push(`Weka {{${name}}} / Include {{${name}}}`)
+    }
+  }
 
-    case 'CHECK_IN_CONFIRMATION':
-      return `Hello ${patientName}, you have successfully checked in. Please wait to be called by ${doctorName}. Thank you!`
+  for (const [, name] of body.matchAll(SINGLE_BRACE_PATTERN)) {
+    problems.push(`Tumia {{${name}}} badala ya {${name}} / Use {{${name}}} instead of {${name}}`)
+  }
 
-    default:
-      return `Hello ${patientName}, there is an update regarding your appointment. Please contact ${clinicPhone}`
+  const remainder = body.replace(PLACEHOLDER_PATTERN, '')
+  if (remainder.includes('{{') || remainder.includes('}}')) {
+    problems.push('Alama {{ }} haijakamilika / A {{ }} placeholder is incomplete')
   }
+
+  return problems
 }
 
 /**
  * Format date for display in SMS
  */
-function formatDateForDisplay(dateString: string, language: 'sw' | 'en'): string {
+function formatDateForDisplay(dateString: string, language: MessageLanguage): string {
   const date = new Date(dateString)
-  
+
   if (language === 'sw') {
     const months = [
       'Januari', 'Februari', 'Machi', 'Aprili', 'Mei', 'Juni',
@@ -146,10 +224,10 @@ function formatDateForDisplay(dateString: string, language: 'sw' | 'en'): string
     const month = months[date.getMonth()]
     return `${date.getDate()} ${month}, ${date.getFullYear()}`
   } else {
-    const options: Intl.DateTimeFormatOptions = { 
-      month: 'long', 
-      day: 'numeric', 
-      year: 'numeric' 
+    const options: Intl.DateTimeFormatOptions = {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
     }
     return date.toLocaleDateString('en-US', options)
   }
@@ -173,6 +251,7 @@ export function mapMessageTypeToSmsType(messageType: MessageType): SmsType {
     'BOOKING_CONFIRMATION': 'BOOKING_CONFIRMATION',
     'REMINDER_24H': 'REMINDER_24H',
     'REMINDER_1H': 'REMINDER_1H',
+    'REMINDER_ADVANCE': 'REMINDER_ADVANCE',
     'CANCELLATION': 'CANCELLATION',
     'RESCHEDULE': 'RESCHEDULE',
     'CHECK_IN_CONFIRMATION': 'CHECK_IN_CONFIRMATION'
@@ -190,38 +269,46 @@ export function getMessagePreview(message: string, maxLength: number = 100): str
   return message.substring(0, maxLength - 3) + '...'
 }
 
-/**
- * Calculate estimated character count and SMS segments
- * SMS limit is 160 characters per segment
- */
-export function calculateSMSStats(message: string): {
+// GSM 03.38 - the 7-bit alphabet every handset can show. Extension
+// characters take two septets (an escape, then the character).
+const GSM7_BASIC = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+)
+const GSM7_EXTENSION = new Set('\f^{}\\[~]|€')
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2'
+
+export interface SmsStats {
   characterCount: number
+  encoding: SmsEncoding
+  units: number // GSM-7 septets, or UCS-2 code units (emoji take two)
   segments: number
+  unitsPerSegment: number // 160 / 70 for one segment, 153 / 67 once split
   estimatedCost: number
-} {
-  const characterCount = message.length
-  const segments = Math.ceil(characterCount / 160)
-  const costPerSegment = 0.02 // USD
-
-  return {
-    characterCount,
-    segments,
-    estimatedCost: segments * costPerSegment
-  }
 }
 
 /**
- * Template variables helper
- * Returns all available variables for a message type
+ * Encoding, length and segment count of an SMS. One character outside
+ * GSM-7 (e.g. an emoji or a curly quote) sends the whole message as
+ * UCS-2, which fits 70 characters per segment instead of 160.
  */
-export function getTemplateVariables(): Record<string, string> {
+export function calculateSMSStats(message: string): SmsStats {
+  const characters = Array.from(message)
+  const isGsm7 = characters.every(char => GSM7_BASIC.has(char) || GSM7_EXTENSION.has(char))
+
+  const units = isGsm7
+    ? characters.reduce((sum, char) => sum + (GSM7_EXTENSION.has(char) ? 2 : 1), 0)
+    : message.length
+  const [single, multipart] = isGsm7 ? [160, 153] : [70, 67]
+  const segments = units === 0 ? 0 : units <= single ? 1 : Math.ceil(units / multipart)
+
   return {
-    '{patient_name}': 'Patient first name',
-    '{date}': 'Appointment date (YYYY-MM-DD)',
-    '{time}': 'Appointment time (HH:MM)',
-    '{doctor_name}': 'Doctor/staff name',
-    '{clinic_name}': 'Clinic name',
-    '{clinic_phone}': 'Clinic phone number',
-    '{address}': 'Clinic address'
+    characterCount: characters.length,
+    encoding: isGsm7 ? 'GSM-7' : 'UCS-2',
+    units,
+    segments,
+    unitsPerSegment: segments > 1 ? multipart : single,
+    estimatedCost: segments * SMS_COST_USD
   }
 }
@@ -1,23 +1,19 @@
 /**
  * SMS Service for AfyaBook
- * Handles sending SMS via Twilio with comprehensive logging and error handling
+ * Queues SMS for the clinic's messaging provider (Twilio, Africa's
+ * Talking, Beem, or the fake one in development) through the message
+ * outbox, and applies delivery reports to sms_logs
  */
 
-import twilio from 'twilio'
 import { prisma } from '@/lib/prisma'
-import { SmsType, SmsStatus } from '@prisma/client'
+import { SmsType } from '@prisma/client'
 import type { Prisma } from '@prisma/client'
 import { SMS_COST_USD } from '@/lib/constants'
 import { logger } from '@/lib/logger'
-
-// Initialize Twilio client
-const accountSid = process.env.TWILIO_ACCOUNT_SID
-const authToken = process.env.TWILIO_AUTH_TOKEN
-const fromPhoneNumber = process.env.TWILIO_PHONE_NUMBER
-
-const twilioClient = accountSid && authToken 
-  ? twilio(accountSid, authToken)
-  : null
+import { getMessagingProvider, isMessagingConfigured } from '@/lib/messaging/provider-registry'
+import { enqueueMessage } from '@/lib/messaging/outbox-service'
+import type { DeliveryStatusUpdate } from '@/lib/messaging/providers/messaging-provider'
+import { getTwilioErrorMessage, mapTwilioStatus } from '@/lib/messaging/providers/twilio-provider'
 
 interface SendSMSParams {
   to: string
@@ -30,26 +26,30 @@ interface SendSMSParams {
 
 interface SendSMSResult {
   success: boolean
-  messageSid?: string
+  outboxId?: string // Queued message; sms_logs gets the provider's ID once it is sent
   error?: string
   errorCode?: string
   cost?: number
 }
 
 /**
- * Send SMS via Twilio with full logging
+ * Queue an SMS for the clinic's provider. Returns as soon as the message
+ * is stored in the outbox - delivery and retries happen in the background
+ * (src/lib/messaging/outbox-service.ts).
  * 
  * @param params - SMS parameters
- * @returns Result with message SID or error details
+ * @returns Result with the outbox message ID or error details
  */
 export async function sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
   const { to, message, type, appointmentId, patientId, clinicId } = params
 
-  // Validate Twilio client is configured
-  if (!twilioClient) {
+  const provider = await getMessagingProvider(clinicId)
+
+  // Validate the provider is configured
+  if (!provider.isConfigured()) {
     return {
       success: false,
-      error: 'Twilio client not configured. Check environment variables.'
+      error: `${provider.name} messaging not configured. Check environment variables.`
     }
   }
 
@@ -63,132 +63,60 @@ export async function sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
     }
   }
 
-  // Create SMS log entry (pending)
-  let smsLogId: string
+  let outboxId: string
   try {
-    const smsLog = await prisma.smsLog.create({
-      data: {
-        patientId: patientId || null,
-        clinicId: clinicId || null,
-        phoneNumber: to,
-        messageType: type,
-        messageBody: message,
-        status: 'PENDING',
-        costUsd: SMS_COST_USD
-      }
+    outboxId = await enqueueMessage({
+      channel: 'SMS',
+      provider: provider.name,
+      to,
+      body: message,
+      type,
+      patientId,
+      clinicId,
+      appointmentId,
+      costUsd: SMS_COST_USD
     })
-    smsLogId = smsLog.id
   } catch (error) {
-    logger.error('Failed to create SMS log', { error: error instanceof Error ? error.message : String(error) })
+    logger.error('Failed to queue SMS', { error: error instanceof Error ? error.message : String(error) })
     return {
       success: false,
-      error: 'Failed to log SMS attempt',
-      errorCode: 'LOG_ERROR'
+      error: 'Failed to queue SMS',
+      errorCode: 'QUEUE_ERROR'
     }
   }
 
-  try {
-    // Send SMS via Twilio
-    const twilioMessage = await twilioClient.messages.create({
-      body: message,
-      from: fromPhoneNumber,
-      to: to,
-      statusCallback: process.env.TWILIO_STATUS_CALLBACK_URL // Optional: webhook for delivery updates
-    })
-
-    // Update SMS log to SENT
-    await prisma.smsLog.update({
-      where: { id: smsLogId },
-      data: {
-        messageId: twilioMessage.sid,
-        status: 'SENT',
-        sentAt: new Date(),
-        twilioResponse: JSON.stringify({
-          sid: twilioMessage.sid,
-          status: twilioMessage.status,
-          direction: twilioMessage.direction,
-          dateCreated: twilioMessage.dateCreated
-        })
-      }
-    })
-
-    // Update appointment reminder flags if applicable
-    if (appointmentId && type === 'REMINDER_24H') {
-      await prisma.appointment.update({
-        where: { id: appointmentId },
-        data: {
-          reminderSent: true,
-          reminderSentAt: new Date()
-        }
-      })
-    }
-
-    return {
-      success: true,
-      messageSid: twilioMessage.sid,
-      cost: SMS_COST_USD
-    }
-
-  } catch (error) {
-    // Handle Twilio errors
-    const err = error as { code?: string; message: string }
-    const errorCode = err.code || 'UNKNOWN'
-    const errorMessage = getTwilioErrorMessage(errorCode, err.message)
-
-    logger.error('Twilio SMS error', {
-      code: errorCode,
-      message: err.message,
-      to
-    })
-
-    // Update SMS log to FAILED
-    await prisma.smsLog.update({
-      where: { id: smsLogId },
-      data: {
-        status: 'FAILED',
-        errorCode: errorCode,
-        errorMessage: errorMessage,
-        twilioResponse: JSON.stringify({
-          error: err.message,
-          code: errorCode,
-          moreInfo: (err as { moreInfo?: string }).moreInfo
-        })
-      }
-    })
-
-    return {
-      success: false,
-      error: errorMessage,
-      errorCode: errorCode
-    }
+  return {
+    success: true,
+    outboxId,
+    cost: SMS_COST_USD
   }
 }
 
 /**
- * Get human-readable error message for Twilio error codes
+ * Apply a provider's delivery report to the matching SMS log
+ * 
+ * @returns Number of logs updated (0 when the message ID is unknown)
  */
-function getTwilioErrorMessage(code: string, defaultMessage: string): string {
-  const errorMessages: Record<string, string> = {
-    '21211': 'Invalid phone number format',
-    '21214': 'Phone number not valid for messaging',
-    '21606': 'From number not valid for messaging',
-    '21610': 'Message cannot be delivered to this number',
-    '21612': 'To number not reachable',
-    '21614': 'Not a mobile number',
-    '30001': 'Queue overflow - too many messages queued',
-    '30002': 'Account suspended',
-    '30003': 'Unreachable destination handset',
-    '30004': 'Message blocked',
-    '30005': 'Unknown destination handset',
-    '30006': 'Landline or unreachable carrier',
-    '30007': 'Carrier violation - message filtered',
-    '30008': 'Unknown error',
-    '21602': 'Message body is required',
-    '20003': 'Permission denied - check credentials',
-    '20429': 'Rate limit exceeded - too many messages sent'
+export async function applyDeliveryStatus(update: DeliveryStatusUpdate): Promise<number> {
+  const data: Prisma.SmsLogUpdateManyMutationInput = {
+    status: update.status
+  }
+
+  if (update.status === 'DELIVERED') {
+    data.deliveredAt = new Date()
   }
 
-  return errorMessages[code] || defaultMessage
+  if (update.errorCode) {
+    data.errorCode = update.errorCode
+    data.errorMessage = update.errorMessage ?? 'Delivery failed'
+  }
+
+  const { count } = await prisma.smsLog.updateMany({
+    where: { messageId: update.messageId },
+    data
+  })
+
+  return count
 }
 
 /**
@@ -204,25 +132,13 @@ export async function updateSMSStatus(
   errorCode?: string
 ): Promise<void> {
   try {
-    // Map Twilio status to our SmsStatus enum
     const mappedStatus = mapTwilioStatus(status)
 
-    const updateData: Record<string, unknown> = {
-      status: mappedStatus
-    }
-
-    if (mappedStatus === 'DELIVERED') {
-      updateData.deliveredAt = new Date()
-    }
-
-    if (errorCode) {
-      updateData.errorCode = errorCode
-      updateData.errorMessage = getTwilioErrorMessage(errorCode, 'Delivery failed')
-    }
-
-    await prisma.smsLog.updateMany({
-      where: { messageId: messageSid },
-      data: updateData
+    await applyDeliveryStatus({
+      messageId: messageSid,
+      status: mappedStatus,
+      errorCode,
+      errorMessage: errorCode ? getTwilioErrorMessage(errorCode, 'Delivery failed') : undefined
     })
 
     logger.info(`SMS ${messageSid} status updated to ${mappedStatus}`)
@@ -231,26 +147,6 @@ export async function updateSMSStatus(
   }
 }
 
-/**
- * Map Twilio status to our internal status
- */
-function mapTwilioStatus(twilioStatus: string): SmsStatus {
-  const statusMap: Record<string, SmsStatus> = {
-    'queued': 'PENDING',
-    'accepted': 'SENT',
-    'scheduled': 'PENDING',
-    'sending': 'SENT',
-    'sent': 'SENT',
-    'delivered': 'DELIVERED',
-    'undelivered': 'UNDELIVERED',
-    'failed': 'FAILED',
-    'received': 'DELIVERED',
-    'canceled': 'FAILED'
-  }
-
-  return statusMap[twilioStatus.toLowerCase()] || 'FAILED'
-}
-
 /**
  * Get SMS statistics for a clinic
  * 
@@ -298,10 +194,10 @@ export async function getSMSStats(
 }
 
 /**
- * Check if Twilio is properly configured
+ * Check if SMS can be sent (a messaging provider is configured)
  */
-export function isTwilioConfigured(): boolean {
-  return !!twilioClient && !!fromPhoneNumber
+export function isSmsConfigured(): boolean {
+  return isMessagingConfigured('SMS')
 }
 
 /**
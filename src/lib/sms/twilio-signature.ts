@@ -0,0 +1,69 @@
+/**
+ * Twilio Webhook Signatures
+ * Checks the X-Twilio-Signature header of a webhook request
+ * https://www.twilio.com/docs/usage/webhooks/webhooks-security
+ */
+
+import { NextRequest } from 'next/server'
+import crypto from 'crypto'
+
+/**
+ * The URL Twilio called: the configured one, else rebuilt from the
+ * request's host (behind the proxy)
+ */
+export function webhookUrl(request: NextRequest, configuredUrl: string | undefined, path: string): string {
+  return configuredUrl ||
+    `${request.headers.get('x-forwarded-proto') || 'https'}://${request.headers.get('host')}${path}`
+}
+
+/**
+ * Validate Twilio request signature against the form parameters
+ */
+export function validateTwilioSignature(
+  request: { headers: Headers },
+  body: URLSearchParams,
+  url: string
+): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  
+  if (!authToken) {
+    console.error('TWILIO_AUTH_TOKEN not configured')
+    return false
+  }
+
+  const signature = request.headers.get('x-twilio-signature')
+  
+  if (!signature) {
+    console.error('Missing X-Twilio-Signature header')
+    return false
+  }
+
+  // Build the parameter string
+  const params: Record<string, string> = {}
+  body.forEach((value, key) => {
+    params[key] = value
+  })
+
+  // Sort params alphabetically and concatenate
+  const sortedKeys = Object.keys(params).sort()
+  let data = url
+  for (const key of sortedKeys) {
+    data += key + params[key]
+  }
+
+  // Generate HMAC-SHA1
+  const expectedSignature = crypto
+    .createHmac('sha1', authToken)
+    .update(data)
+    .digest('base64')
+
+  // Compare signatures (timing-safe)
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(signature),
+      Buffer.from(expectedSignature)
+    )
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Staff Absence Service
+ * Works out which slots an absent staff member cannot take and which
+ * booked appointments need to move to a colleague
+ */
+
+import { prisma, type TransactionClient } from '@/lib/prisma'
+import type { StaffAbsence } from '@prisma/client'
+import { toSlotDate } from '@/lib/date-utils'
+
+// Appointments in these states still expect the patient to come in
+const ACTIVE_APPOINTMENT_STATUSES = ['BOOKED', 'CONFIRMED', 'REMINDER_SENT'] as const
+
+type DbClient = TransactionClient | typeof prisma
+
+/**
+ * Get absences for a clinic that overlap a date range (YYYY-MM-DD, inclusive)
+ */
+export async function getStaffAbsencesInRange(
+  clinicId: string,
+  startDate: string,
+  endDate: string,
+  db: DbClient = prisma
+): Promise<StaffAbsence[]> {
+  return db.staffAbsence.findMany({
+    where: {
+      clinicId,
+      startDate: { lte: toSlotDate(endDate) },
+      endDate: { gte: toSlotDate(startDate) }
+    },
+    orderBy: { startDate: 'asc' }
+  })
+}
+
+/**
+ * Check whether an absence covers a slot on a date (YYYY-MM-DD).
+ * Whole-day absences cover every slot; partial-day absences cover slots
+ * overlapping their time window.
+ */
+export function absenceCoversSlot(
+  absence: Pick<StaffAbsence, 'staffId' | 'startDate' | 'endDate' | 'startTime' | 'endTime'>,
+  staffId: string,
+  date: string,
+  startTime: string,
+  endTime: string
+): boolean {
+  if (absence.staffId !== staffId) {
+    return false
+  }
+
+  const first = absence.startDate.toISOString().split('T')[0]
+  const last = absence.endDate.toISOString().split('T')[0]
+  if (date < first || date > last) {
+    return false
+  }
+
+  if (!absence.startTime || !absence.endTime) {
+    return true
+  }
+
+  // "HH:MM" strings compare correctly as text
+  return startTime < absence.endTime && endTime > absence.startTime
+}
+
+/**
+ * Check whether any absence in the list covers the slot
+ */
+export function isStaffAbsent(
+  absences: StaffAbsence[],
+  staffId: string,
+  date: string,
+  startTime: string,
+  endTime: string
+): boolean {
+  return absences.some(absence => absenceCoversSlot(absence, staffId, date, startTime, endTime))
+}
+
+export interface ReassignmentCandidate {
+  slotId: string
+  staff: {
+    id: string
+    firstName: string
+    lastName: string
+    role: string
+  }
+}
+
+export interface AppointmentNeedingReassignment {
+  id: string
+  status: string
+  date: string // YYYY-MM-DD
+  startTime: string
+  endTime: string
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+    phoneNumber: string
+  }
+  // Free slots at the same date and time with staff of the same specialization
+  candidates: ReassignmentCandidate[]
+}
+
+/**
+ * List booked appointments that fall inside an absence, each with the
+ * free slots at the same time held by other staff of the same specialization
+ */
+export async function findAppointmentsNeedingReassignment(
+  absence: StaffAbsence
+): Promise<AppointmentNeedingReassignment[]> {
+  const absentStaff = await prisma.staff.findUnique({
+    where: { id: absence.staffId },
+    select: { specialization: true }
+  })
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      clinicId: absence.clinicId,
+      status: { in: [...ACTIVE_APPOINTMENT_STATUSES] },
+      slot: {
+        staffId: absence.staffId,
+        slotDate: {
+          gte: absence.startDate,
+          lte: absence.endDate
+        }
+      }
+    },
+    include: {
+      patient: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          phoneNumber: true
+        }
+      },
+      slot: true
+    },
+    orderBy: [
+      { slot: { slotDate: 'asc' } },
+      { slot: { startTime: 'asc' } }
+    ]
+  })
+
+  const affected = appointments.filter(appointment => absenceCoversSlot(
+    absence,
+    appointment.slot.staffId,
+    appointment.slot.slotDate.toISOString().split('T')[0],
+    appointment.slot.startTime,
+    appointment.slot.endTime
+  ))
+
+  if (affected.length === 0) {
+    return []
+  }
+
+  // Free slots of colleagues with the same specialization on the affected days
+  const candidateSlots = await prisma.appointmentSlot.findMany({
+    where: {
+      clinicId: absence.clinicId,
+      isAvailable: true,
+      slotDate: { in: affected.map(a => a.slot.slotDate) },
+      startTime: { in: affected.map(a => a.slot.startTime) },
+      staff: {
+        id: { not: absence.staffId },
+        isActive: true,
+        specialization: absentStaff?.specialization ?? null
+      }
+    },
+    include: {
+      staff: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          role: true
+        }
+      }
+    }
+  })
+
+  // Colleagues may be away too
+  const absences = await getStaffAbsencesInRange(
+    absence.clinicId,
+    absence.startDate.toISOString().split('T')[0],
+    absence.endDate.toISOString().split('T')[0]
+  )
+
+  return affected.map(appointment => {
+    const date = appointment.slot.slotDate.toISOString().split('T')[0]
+
+    return {
+      id: appointment.id,
+      status: appointment.status,
+      date,
+      startTime: appointment.slot.startTime,
+      endTime: appointment.slot.endTime,
+      patient: appointment.patient,
+      candidates: candidateSlots
+        .filter(slot =>
+          slot.slotDate.getTime() === appointment.slot.slotDate.getTime() &&
+          slot.startTime === appointment.slot.startTime &&
+          !isStaffAbsent(absences, slot.staffId, date, slot.startTime, slot.endTime)
+        )
+        .map(slot => ({ slotId: slot.id, staff: slot.staff }))
+    }
+  })
+}
@@ -73,4 +73,18 @@ export function formatTanzaniaTime(date: Date, options?: Intl.DateTimeFormatOpti
   return date.toLocaleTimeString('en-US', defaultOptions)
 }
 
+/**
+ * Get the calendar date (YYYY-MM-DD) in Tanzania timezone
+ */
+export function getTanzaniaDateString(utcDate: Date = new Date()): string {
+  return toTanzaniaTime(utcDate).toISOString().split('T')[0]
+}
+
+/**
+ * Convert a Tanzania wall-clock date and time (YYYY-MM-DD, HH:MM) to a UTC Date
+ */
+export function fromTanzaniaDateTime(date: string, time: string): Date {
+  return fromTanzaniaTime(new Date(`${date}T${time}:00.000Z`))
+}
+
 export { TANZANIA_TZ_OFFSET_HOURS, MILLISECONDS_PER_HOUR, MILLISECONDS_PER_MINUTE, MILLISECONDS_PER_DAY }
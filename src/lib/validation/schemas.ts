@@ -4,6 +4,18 @@
  */
 
 import { z } from 'zod'
+import {
+  SLOT_GENERATION_DEFAULT_WEEKS,
+  SLOT_GENERATION_MAX_WEEKS,
+  RESCHEDULE_CUTOFF_MAX_HOURS,
+  MAX_RESCHEDULES_LIMIT,
+  SERIES_MAX_OCCURRENCES,
+  SERIES_MAX_INTERVAL_WEEKS,
+  USER_PASSWORD_MIN_LENGTH,
+  REMINDER_MAX_OFFSET_HOURS,
+  MESSAGE_TEMPLATE_MAX_LENGTH
+} from '@/lib/constants'
+import { MESSAGE_TYPES, validateTemplate, type MessageType } from '@/lib/sms/message-templates'
 
 // ============================================================================
 // Common Schemas
@@ -39,8 +51,9 @@ export const VerifyOTPSchema = z.object({
 })
 
 export const ClinicLoginSchema = z.object({
-  clinicId: z.string().min(1, 'Clinic ID is required'),
-  password: z.string().min(1, 'Password is required')
+  email: z.string().trim().toLowerCase().email('Barua pepe si sahihi / Invalid email'),
+  password: z.string().min(1, 'Password is required'),
+  clinicId: UUIDSchema.optional() // Super admins without a home clinic pick one
 })
 
 // ============================================================================
@@ -68,6 +81,48 @@ export const GetAppointmentsQuerySchema = z.object({
   end_date: DateSchema.optional()
 })
 
+export const RescheduleAppointmentSchema = z.object({
+  slot_id: UUIDSchema,
+  notify_patient: z.boolean().default(true)
+})
+
+export const CreateAppointmentSeriesSchema = z.object({
+  patient_id: UUIDSchema,
+  start_date: DateSchema,
+  preferred_time: TimeSchema,
+  staff_id: UUIDSchema.optional(),
+  appointment_type_id: UUIDSchema.optional(),
+  interval_weeks: z.number().int().min(1).max(SERIES_MAX_INTERVAL_WEEKS, {
+    message: `Muda kati ya miadi usizidi wiki ${SERIES_MAX_INTERVAL_WEEKS} / Interval must be at most ${SERIES_MAX_INTERVAL_WEEKS} weeks`
+  }),
+  occurrences: z.number().int().min(2).max(SERIES_MAX_OCCURRENCES, {
+    message: `Miadi isizidi ${SERIES_MAX_OCCURRENCES} / At most ${SERIES_MAX_OCCURRENCES} occurrences`
+  }).optional(),
+  end_date: DateSchema.optional(),
+  notes: z.string().max(500).optional()
+}).refine(data => (data.occurrences === undefined) !== (data.end_date === undefined), {
+  message: 'Weka idadi au tarehe ya mwisho, sio zote / Give either a count or an end date, not both',
+  path: ['occurrences']
+}).refine(data => !data.end_date || data.end_date > data.start_date, {
+  message: 'Tarehe ya mwisho lazima iwe baada ya ya kwanza / End date must be after the start date',
+  path: ['end_date']
+})
+
+export const CancelAppointmentSeriesSchema = z.object({
+  reason: z.string().trim().max(200).optional(),
+  notify_patient: z.boolean().default(true)
+})
+
+export const RescheduleAppointmentSeriesSchema = z.object({
+  preferred_time: TimeSchema.optional(),
+  staff_id: UUIDSchema.nullable().optional(), // null = any staff member
+  shift_days: z.number().int().min(-28).max(28).optional(),
+  notify_patient: z.boolean().default(true)
+}).refine(
+  data => data.preferred_time !== undefined || data.staff_id !== undefined || (data.shift_days ?? 0) !== 0,
+  { message: 'Hakuna mabadiliko / Nothing to update' }
+)
+
 // ============================================================================
 // Slot Schemas
 // ============================================================================
@@ -75,7 +130,247 @@ export const GetAppointmentsQuerySchema = z.object({
 export const GetAvailableSlotsQuerySchema = z.object({
   clinic_id: UUIDSchema,
   date: DateSchema,
-  service_type: z.string().optional()
+  service_type: z.string().optional(),
+  appointment_type_id: UUIDSchema.optional() // Only slots where this type fits
+})
+
+export const GenerateSlotsSchema = z.object({
+  weeks: z.number().int().min(1).max(SLOT_GENERATION_MAX_WEEKS).default(SLOT_GENERATION_DEFAULT_WEEKS),
+  startDate: DateSchema.optional(),
+  dryRun: z.boolean().default(false)
+})
+
+// ============================================================================
+// Clinic Schemas
+// ============================================================================
+
+const HoursTimeSchema = z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, {
+  message: 'Muda lazima uwe HH:MM / Time must be in HH:MM format'
+})
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+export const BreakSchema = z.object({
+  start: HoursTimeSchema,
+  end: HoursTimeSchema
+})
+
+export const DayHoursSchema = z.strictObject({
+  open: HoursTimeSchema.nullable(),
+  close: HoursTimeSchema.nullable(),
+  slots: z.array(HoursTimeSchema).optional(), // Each ends at the next if that comes before slotDuration
+  slotDuration: z.number().int()
+    .min(5, { message: 'Muda wa nafasi ni angalau dakika 5 / Slot length must be at least 5 minutes' })
+    .max(240, { message: 'Muda wa nafasi ni hadi dakika 240 / Slot length must be at most 240 minutes' })
+    .optional(),
+  breaks: z.array(BreakSchema).optional()
+}, { error: 'Sehemu isiyojulikana / Unknown field' }).superRefine((day, ctx) => {
+  // A closed day has neither open nor close
+  if ((day.open === null) !== (day.close === null)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: [day.open === null ? 'open' : 'close'],
+      message: 'Weka muda wa kufungua na kufunga, au funga siku nzima / Set both open and close, or close the whole day'
+    })
+    return
+  }
+
+  if (day.open === null || day.close === null) {
+    return
+  }
+
+  const open = toMinutes(day.open)
+  const close = toMinutes(day.close)
+
+  if (open >= close) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['close'],
+      message: 'Muda wa kufunga lazima uwe baada ya kufungua / Close time must be after open time'
+    })
+    return
+  }
+
+  day.breaks?.forEach((pause, index) => {
+    const start = toMinutes(pause.start)
+    const end = toMinutes(pause.end)
+    if (start >= end || start < open || end > close) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['breaks', index],
+        message: 'Mapumziko lazima yawe ndani ya saa za kazi / Break must fall within opening hours'
+      })
+    }
+  })
+
+  day.slots?.forEach((slot, index) => {
+    const start = toMinutes(slot)
+    if (start < open || start >= close) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['slots', index],
+        message: `Nafasi ${slot} iko nje ya saa za kazi / Slot ${slot} is outside opening hours`
+      })
+    }
+  })
+
+  if (day.slots && new Set(day.slots).size !== day.slots.length) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['slots'],
+      message: 'Nafasi zimejirudia / Slots contain duplicates'
+    })
+  }
+})
+
+// Missing weekdays are closed; unknown keys (e.g. a misspelt weekday) are rejected
+export const OperatingHoursSchema = z.strictObject({
+  monday: DayHoursSchema,
+  tuesday: DayHoursSchema,
+  wednesday: DayHoursSchema,
+  thursday: DayHoursSchema,
+  friday: DayHoursSchema,
+  saturday: DayHoursSchema,
+  sunday: DayHoursSchema
+}, { error: 'Siku isiyojulikana / Unknown weekday' }).partial()
+
+export type DayHours = z.infer<typeof DayHoursSchema>
+export type OperatingHours = z.infer<typeof OperatingHoursSchema>
+
+export const UpdateOperatingHoursSchema = z.object({
+  operatingHours: OperatingHoursSchema
+})
+
+export const CreateClosureSchema = z.object({
+  startDate: DateSchema,
+  endDate: DateSchema.optional(), // Defaults to startDate (single day)
+  reason: z.string().trim().min(2, 'Sababu inahitajika / Reason is required').max(200)
+}).refine(data => !data.endDate || data.endDate >= data.startDate, {
+  message: 'Tarehe ya mwisho lazima iwe baada ya tarehe ya kuanza / End date must not be before start date',
+  path: ['endDate']
+})
+
+export const GetClosuresQuerySchema = z.object({
+  from: DateSchema.optional(),
+  to: DateSchema.optional()
+})
+
+export const CancelClosureAppointmentsSchema = z.object({
+  appointmentIds: z.array(UUIDSchema).min(1).optional(), // Defaults to every affected appointment
+  notifyPatients: z.boolean().default(true)
+})
+
+const AppointmentTypeFieldsSchema = z.object({
+  name: z.string().trim().min(2, 'Jina linahitajika / Name is required').max(100),
+  durationMinutes: z.number().int()
+    .min(5, 'Muda usiwe chini ya dakika 5 / Duration must be at least 5 minutes')
+    .max(480, 'Muda usizidi dakika 480 / Duration must be at most 480 minutes'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, {
+    message: 'Rangi lazima iwe #RRGGBB / Color must be #RRGGBB'
+  }),
+  allowedSpecializations: z.array(z.string().trim().min(1)).max(20)
+})
+
+export const CreateAppointmentTypeSchema = AppointmentTypeFieldsSchema.extend({
+  code: z.string().regex(/^[a-z0-9_]{2,40}$/, {
+    message: 'Msimbo: herufi ndogo, namba na _ tu / Code: lowercase letters, digits and _ only'
+  }),
+  color: AppointmentTypeFieldsSchema.shape.color.default('#0d9488'),
+  allowedSpecializations: AppointmentTypeFieldsSchema.shape.allowedSpecializations.default([])
+})
+
+export const UpdateAppointmentTypeSchema = AppointmentTypeFieldsSchema.extend({
+  isActive: z.boolean()
+}).partial()
+
+export const GetAppointmentTypesQuerySchema = z.object({
+  include_inactive: z.enum(['true', 'false']).optional()
+})
+
+export const GetClinicsQuerySchema = z.object({
+  region: z.string().trim().min(1).optional()
+})
+
+export const UpdateBookingPolicySchema = z.object({
+  rescheduleCutoffHours: z.number().int().min(0).max(RESCHEDULE_CUTOFF_MAX_HOURS, {
+    message: `Muda usizidi saa ${RESCHEDULE_CUTOFF_MAX_HOURS} / Cutoff must be at most ${RESCHEDULE_CUTOFF_MAX_HOURS} hours`
+  }).optional(),
+  maxReschedules: z.number().int().min(0).max(MAX_RESCHEDULES_LIMIT, {
+    message: `Idadi isizidi ${MAX_RESCHEDULES_LIMIT} / Limit must be at most ${MAX_RESCHEDULES_LIMIT}`
+  }).optional()
+}).refine(data => data.rescheduleCutoffHours !== undefined || data.maxReschedules !== undefined, {
+  message: 'Hakuna mabadiliko / Nothing to update'
+})
+
+// ============================================================================
+// Staff Schemas
+// ============================================================================
+
+export const CreateStaffAbsenceSchema = z.object({
+  staffId: UUIDSchema,
+  startDate: DateSchema,
+  endDate: DateSchema.optional(), // Defaults to startDate (single day)
+  startTime: TimeSchema.optional(), // Partial day: set both startTime and endTime
+  endTime: TimeSchema.optional(),
+  reason: z.string().trim().min(2, 'Sababu inahitajika / Reason is required').max(200)
+}).superRefine((data, ctx) => {
+  if (data.endDate && data.endDate < data.startDate) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Tarehe ya mwisho lazima iwe baada ya tarehe ya kuanza / End date must not be before start date',
+      path: ['endDate']
+    })
+  }
+
+  if (!data.startTime !== !data.endTime) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Weka muda wa kuanza na wa kumaliza pamoja / Set both start and end time for a partial day',
+      path: [data.startTime ? 'endTime' : 'startTime']
+    })
+  } else if (data.startTime && data.endTime && data.startTime >= data.endTime) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Muda wa kuanza lazima uwe kabla ya muda wa kumaliza / Start time must be before end time',
+      path: ['endTime']
+    })
+  }
+})
+
+export const GetStaffAbsencesQuerySchema = z.object({
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  staff_id: UUIDSchema.optional()
+})
+
+// ============================================================================
+// User Schemas
+// ============================================================================
+
+export const UserRoleSchema = z.enum(['RECEPTIONIST', 'NURSE', 'DOCTOR', 'CLINIC_ADMIN', 'SUPER_ADMIN'])
+
+const UserPasswordSchema = z.string().min(
+  USER_PASSWORD_MIN_LENGTH,
+  `Nenosiri liwe na herufi ${USER_PASSWORD_MIN_LENGTH} au zaidi / Password must be at least ${USER_PASSWORD_MIN_LENGTH} characters`
+)
+
+export const CreateUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Barua pepe si sahihi / Invalid email'),
+  password: UserPasswordSchema,
+  role: UserRoleSchema,
+  staffId: UUIDSchema.nullable().optional() // Link to the staff member's schedule
+})
+
+export const UpdateUserSchema = z.object({
+  role: UserRoleSchema.optional(),
+  password: UserPasswordSchema.optional(), // Admin password reset
+  staffId: UUIDSchema.nullable().optional(),
+  isActive: z.boolean().optional()
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'Hakuna mabadiliko / Nothing to update'
 })
 
 // ============================================================================
@@ -100,6 +395,12 @@ export const UpdatePatientSchema = z.object({
   preferredChannel: z.enum(['SMS', 'WHATSAPP', 'BOTH']).optional()
 })
 
+// Consent given or withdrawn at the desk; patients text STOP/START themselves
+export const UpdatePatientConsentSchema = z.object({
+  channel: z.enum(['SMS', 'WHATSAPP']),
+  status: z.enum(['GRANTED', 'OPTED_OUT'])
+})
+
 // ============================================================================
 // Waitlist Schemas
 // ============================================================================
@@ -120,7 +421,7 @@ export const CreateWaitlistEntrySchema = z.object({
 // ============================================================================
 
 export const SendRemindersQuerySchema = z.object({
-  type: z.enum(['24h', 'same_day', 'all']).optional(),
+  clinic_id: UUIDSchema.optional(),
   appointment_id: UUIDSchema.optional(),
   dry_run: z.enum(['true', 'false']).optional()
 })
@@ -130,6 +431,109 @@ export const SendRemindersBodySchema = z.object({
   testMode: z.boolean().default(false)
 })
 
+const ReminderRuleFieldsSchema = z.object({
+  offsetHours: z.number().int()
+    .min(1, 'Angalau saa 1 kabla / At least 1 hour before')
+    .max(REMINDER_MAX_OFFSET_HOURS, {
+      message: `Isizidi saa ${REMINDER_MAX_OFFSET_HOURS} kabla / At most ${REMINDER_MAX_OFFSET_HOURS} hours before`
+    }),
+  channel: z.enum(['SMS', 'WHATSAPP', 'BOTH', 'PREFERRED']),
+  template: z.enum(['DAY_BEFORE', 'SAME_DAY', 'UPCOMING']),
+  quietHoursStart: TimeSchema.nullable(), // EAT; the window may wrap midnight
+  quietHoursEnd: TimeSchema.nullable()
+})
+
+// Quiet hours are set, cleared or left alone together
+function refineQuietHours(
+  data: { quietHoursStart?: string | null; quietHoursEnd?: string | null },
+  ctx: z.RefinementCtx
+) {
+  if (typeof data.quietHoursStart !== typeof data.quietHoursEnd) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Weka muda wa kuanza na wa kumaliza pamoja / Set both quiet hours start and end',
+      path: [data.quietHoursStart ? 'quietHoursEnd' : 'quietHoursStart']
+    })
+  } else if (data.quietHoursStart && data.quietHoursStart === data.quietHoursEnd) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Muda wa kuanza na wa kumaliza usiwe sawa / Quiet hours start and end must differ',
+      path: ['quietHoursEnd']
+    })
+  }
+}
+
+export const CreateReminderRuleSchema = ReminderRuleFieldsSchema.extend({
+  channel: ReminderRuleFieldsSchema.shape.channel.default('SMS'),
+  quietHoursStart: ReminderRuleFieldsSchema.shape.quietHoursStart.default(null),
+  quietHoursEnd: ReminderRuleFieldsSchema.shape.quietHoursEnd.default(null)
+}).superRefine(refineQuietHours)
+
+export const UpdateReminderRuleSchema = ReminderRuleFieldsSchema.extend({
+  isActive: z.boolean()
+}).partial().superRefine(refineQuietHours)
+
+// ============================================================================
+// Messaging Schemas
+// ============================================================================
+
+export const UpdateMessagingProviderSchema = z.object({
+  // Null goes back to the MESSAGING_PROVIDER default
+  messagingProvider: z.enum(['TWILIO', 'AFRICASTALKING', 'BEEM', 'FAKE']).nullable()
+})
+
+// Both null: messages go out at any time
+export const UpdateSendWindowSchema = z.object({
+  sendWindowStart: TimeSchema.nullable(), // EAT
+  sendWindowEnd: TimeSchema.nullable()
+}).superRefine((data, ctx) => {
+  if ((data.sendWindowStart === null) !== (data.sendWindowEnd === null)) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Weka muda wa kuanza na wa kumaliza pamoja / Set both start and end',
+      path: [data.sendWindowStart === null ? 'sendWindowStart' : 'sendWindowEnd']
+    })
+  } else if (data.sendWindowStart !== null && data.sendWindowStart === data.sendWindowEnd) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Muda wa kuanza na wa kumaliza usiwe sawa / Start and end must differ',
+      path: ['sendWindowEnd']
+    })
+  }
+})
+
+const MessageTemplateKeySchema = z.object({
+  type: z.enum(MESSAGE_TYPES as [MessageType, ...MessageType[]]),
+  language: z.enum(['sw', 'en'])
+})
+
+// {{placeholders}} are checked against the message type
+export const UpsertMessageTemplateSchema = MessageTemplateKeySchema.extend({
+  body: z.string().trim()
+    .min(1, 'Ujumbe unahitajika / Message is required')
+    .max(MESSAGE_TEMPLATE_MAX_LENGTH, 'Ujumbe ni mrefu mno / Message is too long')
+}).superRefine((data, ctx) => {
+  for (const message of validateTemplate(data.type, data.body)) {
+    ctx.addIssue({ code: 'custom', message, path: ['body'] })
+  }
+})
+
+export const ResetMessageTemplateQuerySchema = MessageTemplateKeySchema
+
+// ============================================================================
+// Inbox Schemas
+// ============================================================================
+
+export const GetInboxQuerySchema = z.object({
+  status: z.enum(['open', 'resolved', 'all']).default('open')
+})
+
+export const InboxReplySchema = z.object({
+  message: z.string().trim()
+    .min(1, 'Ujumbe unahitajika / Message is required')
+    .max(1000, 'Ujumbe ni mrefu mno / Message is too long')
+})
+
 // ============================================================================
 // Analytics Schemas
 // ============================================================================
@@ -1,10 +1,15 @@
 /**
  * Waitlist Auto-Fill Service
- * Automatically fills cancelled slots from waitlist
+ * Fills slots freed by a reschedule from the waitlist. Fills run as the
+ * system, so the status history and audit trail show them as automatic
+ * whoever moved the appointment.
  */
 
 import { prisma } from '@/lib/prisma'
+import { withAuthContext } from '@/lib/middleware/authorization'
 import { sendAppointmentConfirmation } from '@/lib/messaging/unified-messaging'
+import { recordStatusChange } from '@/lib/appointments/status-history'
+import { recordAuditEvent, createdChanges } from '@/lib/audit/audit-service'
 
 // Patient type from waitlist query
 interface WaitlistPatient {
@@ -15,14 +20,16 @@ interface WaitlistPatient {
   preferredChannel: string
 }
 
+type FillResult = { success: boolean; filled?: boolean; patient?: WaitlistPatient; error?: string }
+
 /**
- * Try to fill a cancelled slot from the waitlist
- * Called when an appointment is cancelled
+ * Try to fill a freed slot from the waitlist
  */
-export async function tryFillFromWaitlist(
-  slotId: string,
-  clinicId: string
-): Promise<{ success: boolean; filled?: boolean; patient?: WaitlistPatient; error?: string }> {
+export async function tryFillFromWaitlist(slotId: string, clinicId: string): Promise<FillResult> {
+  return withAuthContext({ role: 'system' }, () => fillSlot(slotId, clinicId))
+}
+
+async function fillSlot(slotId: string, clinicId: string): Promise<FillResult> {
   try {
     // Get the slot details
     const slot = await prisma.appointmentSlot.findUnique({
@@ -32,7 +39,8 @@ export async function tryFillFromWaitlist(
           select: {
             id: true,
             firstName: true,
-            lastName: true
+            lastName: true,
+            role: true
           }
         }
       }
@@ -60,6 +68,7 @@ export async function tryFillFromWaitlist(
             firstName: true,
             lastName: true,
             phoneNumber: true,
+            language: true,
             preferredChannel: true
           }
         }
@@ -117,73 +126,140 @@ export async function tryFillFromWaitlist(
       return { success: true, filled: false }
     }
 
-    // Check if patient already has appointment on this date
-    const existingAppointment = await prisma.appointment.findFirst({
-      where: {
-        patientId: bestMatch.patientId,
-        clinicId,
-        slot: {
-          slotDate: slot.slotDate
-        },
-        status: {
-          in: ['BOOKED', 'CONFIRMED']
+    const match = bestMatch
+
+    // Book the same way POST /api/appointments does: lock the slot, so a
+    // booking made meanwhile is not overwritten
+    const appointment = await prisma.$transaction(async (tx) => {
+      const locked = await tx.$queryRaw<{ is_available: boolean }[]>`
+        SELECT is_available FROM appointment_slots WHERE id = ${slot.id} FOR UPDATE
+      `
+
+      if (locked.length === 0 || !locked[0].is_available) {
+        return null
+      }
+
+      // One appointment per slot (appointments.slot_id is unique), so a
+      // slot freed by a cancellation stays with the cancelled appointment
+      const previous = await tx.appointment.findUnique({
+        where: { slotId: slot.id },
+        select: { id: true }
+      })
+      if (previous) {
+        return null
+      }
+
+      // Check if patient already has appointment on this date
+      const existingAppointment = await tx.appointment.findFirst({
+        where: {
+          patientId: match.patientId,
+          clinicId,
+          slot: {
+            slotDate: slot.slotDate
+          },
+          status: {
+            in: ['BOOKED', 'CONFIRMED']
+          }
         }
+      })
+
+      if (existingAppointment) {
+        // Patient already booked, mark waitlist as expired
+        await tx.waitlist.update({
+          where: { id: match.id },
+          data: { status: 'EXPIRED' }
+        })
+        return null
       }
-    })
 
-    if (existingAppointment) {
-      // Patient already booked, mark waitlist as expired
-      await prisma.waitlist.update({
-        where: { id: bestMatch.id },
-        data: { status: 'EXPIRED' }
+      // Mark slot as unavailable
+      await tx.appointmentSlot.update({
+        where: { id: slot.id },
+        data: { isAvailable: false }
       })
-      return { success: true, filled: false }
-    }
 
-    // Create appointment for the waitlist patient
-    const appointment = await prisma.appointment.create({
-      data: {
-        slotId: slot.id,
-        patientId: bestMatch.patientId,
+      // Create appointment for the waitlist patient
+      const created = await tx.appointment.create({
+        data: {
+          slotId: slot.id,
+          patientId: match.patientId,
+          clinicId,
+          status: 'BOOKED',
+          appointmentType: match.appointmentType,
+          notes: match.notes
+        }
+      })
+
+      await recordStatusChange({
+        appointmentId: created.id,
         clinicId,
-        status: 'BOOKED',
-        appointmentType: bestMatch.appointmentType,
-        notes: bestMatch.notes
-      }
-    })
+        patientId: match.patientId,
+        from: null,
+        to: created.status,
+        reason: 'Imejazwa kutoka orodha ya kusubiri / Filled from waitlist'
+      }, tx)
 
-    // Update waitlist entry
-    await prisma.waitlist.update({
-      where: { id: bestMatch.id },
-      data: {
-        status: 'NOTIFIED',
-        filledAt: new Date(),
-        filledSlotId: slot.id
-      }
-    })
+      await recordAuditEvent({
+        action: 'APPOINTMENT_CREATED',
+        entityType: 'APPOINTMENT',
+        entityId: created.id,
+        clinicId,
+        appointmentId: created.id,
+        patientId: match.patientId,
+        changes: createdChanges({
+          status: created.status,
+          slotId: created.slotId,
+          appointmentType: created.appointmentType,
+          notes: created.notes,
+          waitlistId: match.id
+        })
+      }, tx)
+
+      // Update waitlist entry
+      await tx.waitlist.update({
+        where: { id: match.id },
+        data: {
+          status: 'NOTIFIED',
+          filledAt: new Date(),
+          filledSlotId: slot.id
+        }
+      })
 
-    // Mark slot as unavailable
-    await prisma.appointmentSlot.update({
-      where: { id: slot.id },
-      data: { isAvailable: false }
+      return created
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 5000,
+      timeout: 10000
     })
 
+    if (!appointment) {
+      return { success: true, filled: false }
+    }
+
     // Send notification to patient
     try {
       const clinic = await prisma.clinic.findUnique({
         where: { id: clinicId },
-        select: { name: true, phoneNumber: true }
+        select: { name: true, phoneNumber: true, address: true }
       })
 
       if (clinic) {
         await sendAppointmentConfirmation({
           to: bestMatch.patient.phoneNumber,
-          patientName: bestMatch.patient.firstName,
-          appointmentDate: slot.slotDate.toISOString().split('T')[0],
-          appointmentTime: slot.startTime,
-          doctorName: `Dr. ${slot.staff.firstName} ${slot.staff.lastName}`,
-          clinicName: clinic.name,
-          clinicPhone: clinic.phoneNumber,
+          patient: {
+            firstName: bestMatch.patient.firstName,
+            lastName: bestMatch.patient.lastName,
+            language: (bestMatch.patient.language as 'sw' | 'en') || 'sw'
+          },
+          appointment: {
+            date: slot.slotDate.toISOString().split('T')[0],
+            time: slot.startTime,
+            doctorName: `Dr. ${slot.staff.firstName} ${slot.staff.lastName}`,
+            doctorRole: slot.staff.role,
+            clinicName: clinic.name,
+            clinicPhone: clinic.phoneNumber,
+            address: clinic.address || undefined
+          },
           channel: (bestMatch.patient.preferredChannel as 'SMS' | 'WHATSAPP' | 'BOTH') || 'SMS',
           patientId: bestMatch.patientId,
           clinicId,
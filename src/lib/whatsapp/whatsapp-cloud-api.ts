@@ -0,0 +1,83 @@
+/**
+ * WhatsApp Cloud API Client
+ * Posts messages to Meta's Graph API. Called by the outbox worker; queue
+ * messages with whatsapp-service instead of calling this directly.
+ */
+
+import type { ProviderSendResult } from '@/lib/messaging/providers/messaging-provider'
+
+export const WHATSAPP_API_VERSION = 'v18.0'
+export const WHATSAPP_PHONE_NUMBER_ID = process.env.WHATSAPP_PHONE_NUMBER_ID
+export const WHATSAPP_ACCESS_TOKEN = process.env.WHATSAPP_ACCESS_TOKEN
+export const WHATSAPP_BUSINESS_ACCOUNT_ID = process.env.WHATSAPP_BUSINESS_ACCOUNT_ID
+
+export function isCloudApiConfigured(): boolean {
+  return !!WHATSAPP_PHONE_NUMBER_ID && !!WHATSAPP_ACCESS_TOKEN
+}
+
+/**
+ * Format phone number for WhatsApp API
+ * Must include country code, no + prefix for API
+ */
+export function formatPhoneForWhatsApp(phone: string): string {
+  // Remove + and any non-digit characters
+  return phone.replace(/\D/g, '')
+}
+
+/**
+ * Send one message
+ *
+ * @param to - Recipient, E.164
+ * @param payload - Message fields after messaging_product/to (type, template or text)
+ * @param signal - Aborts the request
+ */
+export async function postWhatsAppMessage(
+  to: string,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ProviderSendResult> {
+  if (!isCloudApiConfigured()) {
+    return { success: false, error: 'WhatsApp Business API not configured' }
+  }
+
+  try {
+    const response = await fetch(
+      `https://graph.facebook.com/${WHATSAPP_API_VERSION}/${WHATSAPP_PHONE_NUMBER_ID}/messages`,
+      {
+        method: 'POST',
+        signal,
+        headers: {
+          'Authorization': `Bearer ${WHATSAPP_ACCESS_TOKEN}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: formatPhoneForWhatsApp(to),
+          ...payload
+        })
+      }
+    )
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error?.message || 'WhatsApp API error',
+        errorCode: data.error?.code ? String(data.error.code) : undefined,
+        response: JSON.stringify(data)
+      }
+    }
+
+    return {
+      success: true,
+      messageId: data.messages?.[0]?.id,
+      status: 'SENT',
+      response: JSON.stringify(data)
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'WhatsApp API error'
+    return { success: false, error: message, response: JSON.stringify({ error: message }) }
+  }
+}
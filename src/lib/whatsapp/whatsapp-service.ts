@@ -1,19 +1,24 @@
 /**
  * WhatsApp Business API Service
- * Handles sending messages via WhatsApp Business API
+ * Queues messages for the WhatsApp Business API in the message outbox
  * 
  * Note: This uses the WhatsApp Business API (not WhatsApp Web)
  * Requires Meta Business verification and WhatsApp Business account
  */
 
-import { prisma } from '@/lib/prisma'
 import { SmsType } from '@prisma/client'
-
-// WhatsApp Business API configuration
-const WHATSAPP_API_VERSION = 'v18.0'
-const WHATSAPP_PHONE_NUMBER_ID = process.env.WHATSAPP_PHONE_NUMBER_ID
-const WHATSAPP_ACCESS_TOKEN = process.env.WHATSAPP_ACCESS_TOKEN
-const WHATSAPP_BUSINESS_ACCOUNT_ID = process.env.WHATSAPP_BUSINESS_ACCOUNT_ID
+import type { Prisma } from '@prisma/client'
+import { getDefaultProvider } from '@/lib/messaging/provider-registry'
+import { enqueueMessage } from '@/lib/messaging/outbox-service'
+import { logger } from '@/lib/logger'
+import {
+  WHATSAPP_API_VERSION,
+  WHATSAPP_PHONE_NUMBER_ID,
+  WHATSAPP_ACCESS_TOKEN,
+  WHATSAPP_BUSINESS_ACCOUNT_ID,
+  isCloudApiConfigured,
+  formatPhoneForWhatsApp
+} from '@/lib/whatsapp/whatsapp-cloud-api'
 
 // WhatsApp template component parameter type
 interface WhatsAppComponentParameter {
@@ -56,34 +61,42 @@ interface SendWhatsAppParams {
 
 interface SendWhatsAppResult {
   success: boolean
-  messageId?: string
+  outboxId?: string // Queued message; sms_logs gets Meta's message ID once it is sent
   error?: string
   errorCode?: string
 }
 
 /**
- * Check if WhatsApp is configured
+ * Without Business API credentials and with MESSAGING_PROVIDER=fake,
+ * WhatsApp messages are recorded by the fake provider instead
  */
-export function isWhatsAppConfigured(): boolean {
-  return !!WHATSAPP_PHONE_NUMBER_ID && !!WHATSAPP_ACCESS_TOKEN
+function usesFakeProvider(): boolean {
+  return !isCloudApiConfigured() && getDefaultProvider().name === 'FAKE'
 }
 
 /**
- * Format phone number for WhatsApp API
- * Must include country code, no + prefix for API
+ * Check if WhatsApp is configured
  */
-function formatPhoneForWhatsApp(phone: string): string {
-  // Remove + and any non-digit characters
-  return phone.replace(/\D/g, '')
+export function isWhatsAppConfigured(): boolean {
+  return isCloudApiConfigured() || usesFakeProvider()
+}
+
+interface QueueWhatsAppParams {
+  to: string
+  payload: Prisma.InputJsonObject // Message fields after messaging_product/to
+  logBody: string
+  patientId?: string
+  clinicId?: string
+  appointmentId?: string
+  type: SmsType
 }
 
 /**
- * Send WhatsApp message using Business API
+ * Queue one message in the outbox, which posts it to the Business API
+ * (or the fake provider) and logs it in sms_logs
  */
-export async function sendWhatsAppMessage(
-  params: SendWhatsAppParams
-): Promise<SendWhatsAppResult> {
-  const { to, templateName, languageCode, components, patientId, clinicId, appointmentId, type } = params
+async function queueWhatsApp(params: QueueWhatsAppParams): Promise<SendWhatsAppResult> {
+  const { to, payload, logBody, patientId, clinicId, appointmentId, type } = params
 
   if (!isWhatsAppConfigured()) {
     return {
@@ -102,98 +115,78 @@ export async function sendWhatsAppMessage(
     }
   }
 
-  // Create WhatsApp log entry
-  let whatsAppLogId: string
   try {
-    const log = await prisma.smsLog.create({
-      data: {
-        patientId: patientId || null,
-        clinicId: clinicId || null,
-        phoneNumber: to,
-        messageType: type,
-        messageBody: `WhatsApp Template: ${templateName}`,
-        status: 'PENDING',
-        costUsd: 0 // WhatsApp pricing varies by template type
-      }
+    const outboxId = await enqueueMessage({
+      channel: 'WHATSAPP',
+      provider: usesFakeProvider() ? 'FAKE' : null,
+      to,
+      body: logBody,
+      payload,
+      type,
+      patientId,
+      clinicId,
+      appointmentId,
+      costUsd: 0 // WhatsApp pricing varies by template type
     })
-    whatsAppLogId = log.id
+
+    return { success: true, outboxId }
   } catch (error) {
-    console.error('Failed to create WhatsApp log:', error)
+    logger.error('Failed to queue WhatsApp message', { error: error instanceof Error ? error.message : String(error) })
     return {
       success: false,
-      error: 'Failed to log WhatsApp attempt'
+      error: 'Failed to queue WhatsApp message',
+      errorCode: 'QUEUE_ERROR'
     }
   }
+}
 
-  try {
-    // Call WhatsApp Business API
-    const response = await fetch(
-      `https://graph.facebook.com/${WHATSAPP_API_VERSION}/${WHATSAPP_PHONE_NUMBER_ID}/messages`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${WHATSAPP_ACCESS_TOKEN}`,
-          'Content-Type': 'application/json'
+/**
+ * Queue a template message for the Business API
+ */
+export async function sendWhatsAppMessage(
+  params: SendWhatsAppParams
+): Promise<SendWhatsAppResult> {
+  const { templateName, languageCode, components, ...rest } = params
+
+  return queueWhatsApp({
+    ...rest,
+    logBody: `WhatsApp Template: ${templateName}`,
+    payload: {
+      type: 'template',
+      template: {
+        name: templateName,
+        language: {
+          code: languageCode
         },
-        body: JSON.stringify({
-          messaging_product: 'whatsapp',
-          recipient_type: 'individual',
-          to: formattedPhone,
-          type: 'template',
-          template: {
-            name: templateName,
-            language: {
-              code: languageCode
-            },
-            components: components
-          }
-        })
+        components: components as unknown as Prisma.InputJsonArray
       }
-    )
-
-    const data = await response.json()
-
-    if (!response.ok) {
-      throw new Error(data.error?.message || 'WhatsApp API error')
-    }
-
-    // Update log to SENT
-    await prisma.smsLog.update({
-      where: { id: whatsAppLogId },
-      data: {
-        messageId: data.messages?.[0]?.id,
-        status: 'SENT',
-        sentAt: new Date(),
-        twilioResponse: JSON.stringify(data)
-      }
-    })
-
-    return {
-      success: true,
-      messageId: data.messages?.[0]?.id
     }
+  })
+}
 
-  } catch (error) {
-    const err = error as { code?: string; message: string }
-    console.error('WhatsApp API error:', error)
-
-    // Update log to FAILED
-    await prisma.smsLog.update({
-      where: { id: whatsAppLogId },
-      data: {
-        status: 'FAILED',
-        errorCode: err.code || 'UNKNOWN',
-        errorMessage: err.message,
-        twilioResponse: JSON.stringify({ error: err.message })
-      }
-    })
-
-    return {
-      success: false,
-      error: err.message,
-      errorCode: err.code
+/**
+ * Send a free-form text message. Meta only delivers these within 24 hours
+ * of the patient's last message, so use it to answer patients (e.g. from
+ * the clinic inbox) and templates for everything else.
+ */
+export async function sendWhatsAppText(params: {
+  to: string
+  message: string
+  patientId?: string
+  clinicId?: string
+  appointmentId?: string
+  type: SmsType
+}): Promise<SendWhatsAppResult> {
+  const { message, ...rest } = params
+
+  return queueWhatsApp({
+    ...rest,
+    logBody: message,
+    payload: {
+      type: 'text',
+      text: { body: message }
     }
-  }
+  })
 }
 
 /**
@@ -298,7 +291,7 @@ interface WhatsAppMessageTemplate {
  * Must be pre-approved by Meta
  */
 export async function getMessageTemplates(): Promise<WhatsAppMessageTemplate[]> {
-  if (!isWhatsAppConfigured()) {
+  if (!isCloudApiConfigured()) {
     return []
   }
 
@@ -324,7 +317,7 @@ export async function getMessageTemplates(): Promise<WhatsAppMessageTemplate[]>
  * Check if phone number has WhatsApp
  */
 export async function checkWhatsAppNumber(phone: string): Promise<boolean> {
-  if (!isWhatsAppConfigured()) {
+  if (!isCloudApiConfigured()) {
     return false
   }
 
@@ -0,0 +1,42 @@
+/**
+ * WhatsApp Webhook Signatures
+ * Checks the X-Hub-Signature-256 header Meta adds to webhook requests
+ * https://developers.facebook.com/docs/graph-api/webhooks/getting-started#validate-payloads
+ */
+
+import { NextRequest } from 'next/server'
+import crypto from 'crypto'
+
+/**
+ * Validate the HMAC-SHA256 of the raw request body against the app secret
+ */
+export function validateWhatsAppSignature(request: NextRequest, rawBody: string): boolean {
+  const appSecret = process.env.WHATSAPP_APP_SECRET
+
+  if (!appSecret) {
+    console.error('WHATSAPP_APP_SECRET not configured')
+    return false
+  }
+
+  const signature = request.headers.get('x-hub-signature-256')
+
+  if (!signature) {
+    console.error('Missing X-Hub-Signature-256 header')
+    return false
+  }
+
+  const expectedSignature = 'sha256=' + crypto
+    .createHmac('sha256', appSecret)
+    .update(rawBody)
+    .digest('hex')
+
+  // Compare signatures (timing-safe)
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(signature),
+      Buffer.from(expectedSignature)
+    )
+  } catch {
+    return false
+  }
+}
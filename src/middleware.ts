@@ -0,0 +1,98 @@
+/**
+ * Next.js Middleware
+ * Verifies the session JWT before protected pages and API routes run:
+ * - /dashboard/* needs a clinic session for that clinic, else /login
+ * - /patient/* pages need a patient session, else /patient/login
+ * - /api/* returns 401 without a session, except the public and
+ *   shared-secret routes listed in src/lib/auth/permissions.ts
+ *
+ * The verified identity is passed on in the x-auth-* request headers
+ * (read with getAuthFromRequest). Route handlers still check permissions
+ * and clinic access with withPermission().
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  AuthContext,
+  getAuthFromCookies,
+  getClinicAuthFromToken,
+  getPatientAuthFromToken,
+  setAuthHeaders,
+  unauthorizedResponse
+} from '@/lib/auth/middleware'
+
+// Routes that answer without a session
+const PUBLIC_API_ROUTES = [
+  '/api/clinics', // Exact - /api/clinics/[id]/* is staff only
+  '/api/slots/*',
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/patient/auth/*',
+  '/api/patient/login',
+  '/api/cron/*',
+  '/api/reminders/*',
+  '/api/webhooks/*',
+  '/api/health'
+]
+
+// Patient pages open before login; booking asks for it at the last step
+const PUBLIC_PATIENT_PAGES = ['/patient/login', '/patient/book']
+
+function matchesRoute(pathname: string, route: string): boolean {
+  if (route.endsWith('/*')) {
+    const prefix = route.slice(0, -2)
+    return pathname === prefix || pathname.startsWith(`${prefix}/`)
+  }
+
+  return pathname === route
+}
+
+function redirectTo(request: NextRequest, pathname: string): NextResponse {
+  return NextResponse.redirect(new URL(pathname, request.url))
+}
+
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  let auth: AuthContext | null
+
+  if (pathname.startsWith('/dashboard')) {
+    const token = request.cookies.get('clinic_session')?.value
+    auth = token ? getClinicAuthFromToken(token) : null
+
+    if (!auth?.clinicId) {
+      return redirectTo(request, '/login')
+    }
+
+    // /dashboard/[clinic_id]/... - send staff back to their own clinic
+    const clinicId = pathname.split('/')[2]
+    if (clinicId && clinicId !== auth.clinicId) {
+      return redirectTo(request, `/dashboard/${auth.clinicId}/today`)
+    }
+  } else if (pathname.startsWith('/patient') && !PUBLIC_PATIENT_PAGES.some(page => matchesRoute(pathname, page))) {
+    const token = request.cookies.get('patient_session')?.value
+    auth = token ? getPatientAuthFromToken(token) : null
+
+    if (!auth) {
+      return redirectTo(request, '/patient/login')
+    }
+  } else {
+    auth = getAuthFromCookies(request)
+
+    const isPublic = !pathname.startsWith('/api') || PUBLIC_API_ROUTES.some(route => matchesRoute(pathname, route))
+    if (!auth && !isPublic) {
+      return unauthorizedResponse()
+    }
+  }
+
+  // Always rewrite the identity headers, so a client cannot forge them
+  const headers = new Headers(request.headers)
+  setAuthHeaders(headers, auth)
+
+  return NextResponse.next({ request: { headers } })
+}
+
+export const config = {
+  // jsonwebtoken needs Node.js crypto
+  runtime: 'nodejs',
+  matcher: ['/dashboard/:path*', '/patient/:path*', '/api/:path*']
+}
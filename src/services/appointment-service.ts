@@ -6,8 +6,9 @@
 import { prisma } from '@/lib/prisma'
 import { logger } from '@/lib/logger'
 import { Prisma, AppointmentStatus } from '@prisma/client'
-import { addHours, startOfDay, endOfDay } from 'date-fns'
+import { startOfDay, endOfDay } from 'date-fns'
 import { toTanzaniaTime } from '@/lib/timezone'
+import { releaseAppointmentSlots } from '@/lib/appointments/slot-reservation'
 
 export interface CreateAppointmentInput {
   slotId: string
@@ -290,11 +291,8 @@ export async function cancelAppointment(appointmentId: string, reason?: string)
       }
     })
 
-    // Mark slot as available again
-    await tx.appointmentSlot.update({
-      where: { id: updated.slotId },
-      data: { isAvailable: true }
-    })
+    // Mark slot(s) as available again
+    await releaseAppointmentSlots(tx, [appointmentId])
 
     return updated
   })
@@ -326,37 +324,3 @@ export async function getAppointmentById(appointmentId: string) {
 
   return appointment
 }
-
-/**
- * Get upcoming appointments for reminders
- */
-export async function getUpcomingAppointmentsForReminders(hoursAhead: number = 24) {
-  const now = new Date()
-  const futureDate = addHours(now, hoursAhead + 1) // Buffer for processing
-
-  const appointments = await prisma.appointment.findMany({
-    where: {
-      status: {
-        in: ['BOOKED', 'CONFIRMED']
-      },
-      reminder24hSent: false,
-      slot: {
-        slotDate: {
-          gte: now,
-          lte: futureDate
-        }
-      }
-    },
-    include: {
-      patient: true,
-      slot: {
-        include: {
-          staff: true
-        }
-      },
-      clinic: true
-    }
-  })
-
-  return appointments
-}
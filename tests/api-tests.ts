@@ -6,12 +6,107 @@
  * 
  * Prerequisites:
  * 1. Server running: npm run dev
- * 2. Valid clinic_id from your database
+ * 2. Seeded database (npm run db:seed) - the patient lookup tests log in
+ *    as the seed clinic admin
  * 3. Valid slot_id from your database
+ *
+ * Routes:
+ * - /api/patients/lookup needs a clinic_session (staff); without one it
+ *   answers 401 before looking at the request
+ * - /api/slots/* are public
+ * - /api/webhooks/twilio/* need a Twilio signature in production; run
+ *   testUnsignedWebhook against a production build (npm run build &&
+ *   npm start) - the dev server skips the check
  */
 
 const BASE_URL = 'http://localhost:3000/api'
 
+// Seed clinic admin (prisma/seed.ts)
+const STAFF_EMAIL = 'admin@afyahealth.co.tz'
+const STAFF_PASSWORD = 'afyabook123'
+
+// The clinic_session cookie, for runs outside a browser; browsers keep it
+// themselves and send it on same-origin requests
+let sessionCookie = ''
+let sessionClinicId = ''
+
+function sessionHeaders(): Record<string, string> {
+  return sessionCookie ? { Cookie: sessionCookie } : {}
+}
+
+// ============================================================================
+// TEST 0: POST /api/auth/login - Staff Session
+// ============================================================================
+
+async function testStaffLogin() {
+  console.log('\n=== TEST 0: Staff Login ===')
+
+  try {
+    const response = await fetch(`${BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        email: STAFF_EMAIL,
+        password: STAFF_PASSWORD
+      }),
+    })
+
+    const data = await response.json()
+    console.log('Status:', response.status)
+
+    sessionCookie = response.headers.get('set-cookie')?.split(';')[0] ?? ''
+    sessionClinicId = data.clinicId ?? ''
+
+    // Expected: 200 OK and the clinic_session cookie
+    if (response.status === 200 && data.success) {
+      console.log(`✅ TEST PASSED: Logged in to ${data.clinicName} as ${data.role}`)
+    } else {
+      console.log('❌ TEST FAILED: Expected staff login - the lookup tests below will get 401')
+    }
+
+    return data
+  } catch (error) {
+    console.error('❌ TEST ERROR:', error)
+  }
+}
+
+// ============================================================================
+// TEST 0b: POST /api/patients/lookup - No Session
+// ============================================================================
+
+async function testLookupWithoutSession() {
+  console.log('\n=== TEST 0b: Lookup Without Session ===')
+
+  try {
+    const response = await fetch(`${BASE_URL}/patients/lookup`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'omit',
+      body: JSON.stringify({
+        phone: '0712345678'
+      }),
+    })
+
+    const data = await response.json()
+    console.log('Status:', response.status)
+
+    // Expected: 401 Unauthorized
+    if (response.status === 401) {
+      console.log('✅ TEST PASSED: Staff route rejected without a session')
+      console.log('Error:', data.error)
+    } else {
+      console.log('❌ TEST FAILED: Expected 401 error')
+    }
+  } catch (error) {
+    console.error('❌ TEST ERROR:', error)
+  }
+}
+
 // ============================================================================
 // TEST 1: POST /api/patients/lookup - Existing Patient
 // ============================================================================
@@ -24,7 +119,9 @@ async function testLookupExistingPatient() {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...sessionHeaders(),
       },
+      credentials: 'include',
       body: JSON.stringify({
         phone: '0712345678',  // Maria Juma from seed data
         language_preference: 'sw'
@@ -62,7 +159,9 @@ async function testLookupNewPatient() {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...sessionHeaders(),
       },
+      credentials: 'include',
       body: JSON.stringify({
         phone: uniquePhone,
         name: 'Juma Test',
@@ -109,7 +208,9 @@ async function testInvalidPhoneFormat() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...sessionHeaders(),
         },
+        credentials: 'include',
         body: JSON.stringify({
           phone: testCase.phone,
           name: 'Test Patient'
@@ -140,8 +241,8 @@ async function testInvalidPhoneFormat() {
 async function testGetAvailableSlots() {
   console.log('\n=== TEST 4: Get Available Slots ===')
   
-  // You'll need to replace this with a valid clinic_id from your database
-  const clinicId = 'YOUR_CLINIC_ID_HERE'  // TODO: Replace with real clinic ID
+  // The clinic logged in to in TEST 0
+  const clinicId = sessionClinicId || 'YOUR_CLINIC_ID_HERE'
   const today = new Date().toISOString().split('T')[0]
   
   try {
@@ -219,7 +320,7 @@ async function testMissingParameters() {
 async function testPastDate() {
   console.log('\n=== TEST 6: Past Date Request ===')
   
-  const clinicId = 'YOUR_CLINIC_ID_HERE'  // TODO: Replace with real clinic ID
+  const clinicId = sessionClinicId || 'YOUR_CLINIC_ID_HERE'
   const yesterday = new Date()
   yesterday.setDate(yesterday.getDate() - 1)
   const pastDate = yesterday.toISOString().split('T')[0]
@@ -324,6 +425,39 @@ async function testInvalidSlotId() {
   }
 }
 
+// ============================================================================
+// TEST 9: POST /api/webhooks/twilio/sms-status - Unsigned Request
+// ============================================================================
+
+async function testUnsignedWebhook() {
+  console.log('\n=== TEST 9: Unsigned Twilio Webhook ===')
+
+  try {
+    const response = await fetch(`${BASE_URL}/webhooks/twilio/sms-status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      credentials: 'omit',
+      body: new URLSearchParams({
+        MessageSid: 'SM00000000000000000000000000000000',
+        MessageStatus: 'delivered'
+      }).toString(),
+    })
+
+    console.log('Status:', response.status)
+
+    // Expected: 403 Forbidden (production build only)
+    if (response.status === 403) {
+      console.log('✅ TEST PASSED: Webhook without a Twilio signature rejected')
+    } else {
+      console.log('❌ TEST FAILED: Expected 403 error (is this a production build?)')
+    }
+  } catch (error) {
+    console.error('❌ TEST ERROR:', error)
+  }
+}
+
 // ============================================================================
 // RUN ALL TESTS
 // ============================================================================
@@ -333,6 +467,10 @@ async function runAllTests() {
   console.log('Make sure your server is running: npm run dev')
   console.log('=========================================')
   
+  // Staff session, for the patient lookup tests
+  await testLookupWithoutSession()
+  await testStaffLogin()
+
   // Patient lookup tests
   await testLookupExistingPatient()
   await testLookupNewPatient()
@@ -346,6 +484,9 @@ async function runAllTests() {
   // Slot details tests
   await testGetSlotDetails()
   await testInvalidSlotId()
+
+  // Webhook signature (production build)
+  await testUnsignedWebhook()
   
   console.log('\n=========================================')
   console.log('✅ All tests completed!')
@@ -367,19 +508,23 @@ async function runAllTests() {
  * 5. Run: await runAllTests()
  * 
  * Option 2: Individual Tests
+ * - await testStaffLogin() (first, for the patient lookup tests)
  * - await testLookupExistingPatient()
  * - await testGetAvailableSlots()
  * - await testGetSlotDetails()
+ * - await testUnsignedWebhook() (production build)
  * 
  * Option 3: Postman/Insomnia
  * Use the fetch calls as templates for your API client
  * 
- * IMPORTANT: Replace YOUR_CLINIC_ID_HERE and YOUR_SLOT_ID_HERE 
- * with actual UUIDs from your database!
+ * IMPORTANT: Replace YOUR_SLOT_ID_HERE with an actual UUID from your
+ * database! The slot tests use the clinic of the staff login.
  */
 
 // Export for use in other files if needed
 export {
+  testStaffLogin,
+  testLookupWithoutSession,
   testLookupExistingPatient,
   testLookupNewPatient,
   testInvalidPhoneFormat,
@@ -388,6 +533,7 @@ export {
   testPastDate,
   testGetSlotDetails,
   testInvalidSlotId,
+  testUnsignedWebhook,
   runAllTests,
 }
 
@@ -395,6 +541,8 @@ export {
 declare global {
   interface Window {
     testApi: {
+      login: typeof testStaffLogin
+      lookupNoSession: typeof testLookupWithoutSession
       lookupExisting: typeof testLookupExistingPatient
       lookupNew: typeof testLookupNewPatient
       invalidPhone: typeof testInvalidPhoneFormat
@@ -403,6 +551,7 @@ declare global {
       pastDate: typeof testPastDate
       getSlot: typeof testGetSlotDetails
       invalidSlot: typeof testInvalidSlotId
+      unsignedWebhook: typeof testUnsignedWebhook
       runAll: typeof runAllTests
     }
   }
@@ -410,6 +559,8 @@ declare global {
 
 if (typeof window !== 'undefined') {
   window.testApi = {
+    login: testStaffLogin,
+    lookupNoSession: testLookupWithoutSession,
     lookupExisting: testLookupExistingPatient,
     lookupNew: testLookupNewPatient,
     invalidPhone: testInvalidPhoneFormat,
@@ -418,6 +569,7 @@ if (typeof window !== 'undefined') {
     pastDate: testPastDate,
     getSlot: testGetSlotDetails,
     invalidSlot: testInvalidSlotId,
+    unsignedWebhook: testUnsignedWebhook,
     runAll: runAllTests,
   }
 }